@@ -0,0 +1,30 @@
+import { getConfiguredProviders } from './lib/ai-providers.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+/**
+ * Reports health of the configured AI providers in fallback order.
+ * Protected by CRON_SECRET like the other operational endpoints.
+ */
+export default async function handler(request: Request): Promise<Response> {
+  const headers = { 'Content-Type': 'application/json' };
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized', code: 'AUTH_INVALID' }), { status: 401, headers });
+  }
+
+  const providers = getConfiguredProviders();
+  const results = await Promise.all(
+    providers.map(async (provider) => ({
+      name: provider.name,
+      cost: provider.cost,
+      ...(await provider.health()),
+    }))
+  );
+
+  const ok = results.some((r) => r.ok);
+  return new Response(JSON.stringify({ ok, providers: results }), { status: ok ? 200 : 503, headers });
+}
@@ -0,0 +1,161 @@
+import { validateTelegramWebAppData } from './lib/telegram-utils.js';
+import { checkRateLimit, getClientIp, rateLimitHeaders } from './lib/rate-limiter.js';
+import {
+  getConfiguredAnalyzers,
+  analyzeWithFallback,
+  AllAnalyzersFailedError,
+  type AnalysisImage,
+} from './lib/image-analyzers.js';
+import { summarizePhotoFindings, PHOTO_LIMITS } from '../src/utils/photoFindings.js';
+import type { PhotoFindings } from '../src/types/index.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+// ==========================================
+// Types
+// ==========================================
+
+interface AnalysisRequest {
+  images: string[]; // JPEG/PNG/WebP data URLs, or public URLs from our own storage
+}
+
+interface AnalysisResponse {
+  findings: PhotoFindings;
+  analyzer: string; // Which analyzer served the response
+}
+
+interface ErrorResponse {
+  error: string;
+  code?: string;
+}
+
+// ==========================================
+// Image Resolution
+// ==========================================
+
+const MAX_IMAGE_BYTES = 1024 * 1024; // Thumbnails are ~50-150 KB, originals are not wanted
+const DATA_URL = /^data:(image\/(?:jpeg|png|webp));base64,([A-Za-z0-9+/]+={0,2})$/;
+const STORAGE_PATH = '/storage/v1/object/public/';
+
+/**
+ * Only our Supabase storage is fetched, never arbitrary URLs (SSRF)
+ */
+function isOwnStorageUrl(value: string): boolean {
+  const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
+  if (!supabaseUrl) return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && url.host === new URL(supabaseUrl).host && url.pathname.startsWith(STORAGE_PATH);
+  } catch {
+    return false;
+  }
+}
+
+async function resolveImage(value: string): Promise<AnalysisImage> {
+  const dataUrl = DATA_URL.exec(value);
+  if (dataUrl) {
+    if (dataUrl[2].length * 0.75 > MAX_IMAGE_BYTES) throw new Error('Image is too large');
+    return { mimeType: dataUrl[1], data: dataUrl[2] };
+  }
+
+  if (!isOwnStorageUrl(value)) throw new Error('Unsupported image source');
+
+  const response = await fetch(value);
+  const mimeType = response.headers.get('Content-Type')?.split(';')[0] ?? '';
+  if (!response.ok || !/^image\/(?:jpeg|png|webp)$/.test(mimeType)) {
+    throw new Error('Image could not be loaded');
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length > MAX_IMAGE_BYTES) throw new Error('Image is too large');
+  return { mimeType, data: buffer.toString('base64') };
+}
+
+// ==========================================
+// Main Handler
+// ==========================================
+
+export default async function handler(request: Request): Promise<Response> {
+  const corsHeaders: Record<string, string> = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Telegram-Init-Data',
+    'Access-Control-Expose-Headers': 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset',
+    'Content-Type': 'application/json',
+  };
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (request.method !== 'POST') {
+    const error: ErrorResponse = { error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' };
+    return new Response(JSON.stringify(error), { status: 405, headers: corsHeaders });
+  }
+
+  try {
+    const analyzers = getConfiguredAnalyzers();
+    if (analyzers.length === 0) {
+      const error: ErrorResponse = { error: 'Image analysis not configured (Missing Keys)', code: 'API_KEY_MISSING' };
+      return new Response(JSON.stringify(error), { status: 500, headers: corsHeaders });
+    }
+
+    // Vision calls are the most expensive ones we make
+    const rateLimit = await checkRateLimit('analyze-image', getClientIp(request.headers));
+    Object.assign(corsHeaders, rateLimitHeaders(rateLimit));
+    if (!rateLimit.allowed) {
+      return new Response(JSON.stringify({ error: 'Too many requests from this IP. Please wait.', code: 'IP_RATE_LIMIT' }), { status: 429, headers: corsHeaders });
+    }
+
+    // Auth
+    const initData = request.headers.get('X-Telegram-Init-Data');
+    const botToken = process.env.TELEGRAM_BOT_TOKEN;
+    const isDevelopment = process.env.NODE_ENV === 'development';
+
+    if (initData && botToken) {
+      const isValid = await validateTelegramWebAppData(initData, botToken);
+      if (!isValid && !isDevelopment) {
+        return new Response(JSON.stringify({ error: 'Invalid auth', code: 'AUTH_INVALID' }), { status: 403, headers: corsHeaders });
+      }
+    } else if (!isDevelopment) {
+      return new Response(JSON.stringify({ error: 'Auth required', code: 'AUTH_REQUIRED' }), { status: 401, headers: corsHeaders });
+    }
+
+    // Validation
+    let body: Partial<AnalysisRequest>;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON', code: 'INVALID_REQUEST' }), { status: 400, headers: corsHeaders });
+    }
+
+    const sources = Array.isArray(body?.images) ? body.images.filter((image): image is string => typeof image === 'string') : [];
+    if (sources.length === 0 || sources.length > PHOTO_LIMITS.photos) {
+      return new Response(
+        JSON.stringify({ error: `images must contain 1-${PHOTO_LIMITS.photos} photos`, code: 'INVALID_REQUEST' }),
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    let images: AnalysisImage[];
+    try {
+      images = await Promise.all(sources.map(resolveImage));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Invalid image';
+      return new Response(JSON.stringify({ error: message, code: 'INVALID_IMAGE' }), { status: 400, headers: corsHeaders });
+    }
+
+    const { photos, analyzer } = await analyzeWithFallback(analyzers, images, request.signal);
+    console.log(`Image analysis of ${images.length} photo(s) served by ${analyzer}`);
+
+    const result: AnalysisResponse = { findings: summarizePhotoFindings(photos), analyzer };
+    return new Response(JSON.stringify(result), { status: 200, headers: corsHeaders });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    const code = error instanceof AllAnalyzersFailedError ? 'AI_SERVICE_ERROR' : 'INTERNAL_ERROR';
+    const message = error instanceof Error ? error.message : 'Internal Error';
+    return new Response(JSON.stringify({ error: message, code }), { status: 500, headers: corsHeaders });
+  }
+}
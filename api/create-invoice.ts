@@ -1,6 +1,7 @@
 
 import { Bot } from 'grammy';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { checkRateLimit, getClientIp, rateLimitHeaders } from './lib/rate-limiter.js';
 
 const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
 
@@ -9,11 +10,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const rateLimit = await checkRateLimit('create-invoice', getClientIp(req.headers));
+  for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+    res.setHeader(name, value);
+  }
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: 'Too many requests. Please wait.', code: 'IP_RATE_LIMIT' });
+  }
+
   if (!BOT_TOKEN) {
     return res.status(500).json({ error: 'Bot token missing' });
   }
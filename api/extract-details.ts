@@ -0,0 +1,139 @@
+import { validateTelegramWebAppData } from './lib/telegram-utils.js';
+import { getConfiguredProviders, generateWithFallback } from './lib/ai-providers.js';
+import {
+  parsePropertyText,
+  validatePropertyDetails,
+  type ParsedPropertyDetails,
+} from '../src/utils/propertyParser.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+// ==========================================
+// Types
+// ==========================================
+
+interface ExtractionRequest {
+  rawInput: string;
+}
+
+interface ExtractionResponse {
+  details: ParsedPropertyDetails;
+  source: 'ai' | 'heuristic';
+  provider?: string;
+  warnings: string[];
+}
+
+interface ErrorResponse {
+  error: string;
+  code?: string;
+}
+
+// ==========================================
+// Extraction Prompt
+// ==========================================
+
+const MAX_INPUT_LENGTH = 2000;
+
+const EXTRACTION_PROMPT = `You extract structured real estate facts from short, messy notes written by agents in Uzbekistan (Uzbek Latin/Cyrillic or Russian, heavy abbreviations).
+
+Return ONLY a JSON object with these optional keys:
+- "type": one of "apartment" | "house" | "office" | "land" | "commercial"
+- "rooms": integer
+- "area": number in square meters (for land, use sotix as written)
+- "floor": integer
+- "totalFloors": integer
+- "price": number (expand "65k" to 65000, "850 mln" to 850000000)
+- "currency": "USD" or "UZS" ("$", "у.е.", "dollar" => USD; "so'm", "сум", "mln" => UZS)
+- "location": district or landmark as written (e.g. "Chilonzor")
+- "features": array of short strings (e.g. "Евроремонт", "Мебель", "Лифт")
+
+Notation hints: "3x" or "3к" = 3 rooms, "75kv" = 75 m², "5/9" = floor 5 of 9, "evro remont" = euro renovation.
+NEVER invent facts that are not in the note. Omit unknown keys.`;
+
+// ==========================================
+// Main Handler
+// ==========================================
+
+export default async function handler(request: Request): Promise<Response> {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Telegram-Init-Data',
+    'Content-Type': 'application/json',
+  };
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (request.method !== 'POST') {
+    const error: ErrorResponse = { error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' };
+    return new Response(JSON.stringify(error), { status: 405, headers: corsHeaders });
+  }
+
+  try {
+    // Auth
+    const initData = request.headers.get('X-Telegram-Init-Data');
+    const botToken = process.env.TELEGRAM_BOT_TOKEN;
+    const isDevelopment = process.env.NODE_ENV === 'development';
+
+    if (initData && botToken) {
+      const isValid = await validateTelegramWebAppData(initData, botToken);
+      if (!isValid && !isDevelopment) {
+        return new Response(JSON.stringify({ error: 'Invalid auth', code: 'AUTH_INVALID' }), { status: 403, headers: corsHeaders });
+      }
+    } else if (!isDevelopment) {
+      return new Response(JSON.stringify({ error: 'Auth required', code: 'AUTH_REQUIRED' }), { status: 401, headers: corsHeaders });
+    }
+
+    // Validation
+    let body: Partial<ExtractionRequest>;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON', code: 'INVALID_REQUEST' }), { status: 400, headers: corsHeaders });
+    }
+
+    const rawInput = typeof body?.rawInput === 'string' ? body.rawInput.trim() : '';
+    if (!rawInput || rawInput.length > MAX_INPUT_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `rawInput is required (max ${MAX_INPUT_LENGTH} chars)`, code: 'INVALID_REQUEST' }),
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // Heuristic pass always runs: it is the fallback and fills gaps left by the model
+    const heuristic = parsePropertyText(rawInput);
+    const result: ExtractionResponse = { details: heuristic, source: 'heuristic', warnings: [] };
+
+    const providers = getConfiguredProviders();
+    if (providers.length > 0) {
+      try {
+        const completion = await generateWithFallback(
+          providers,
+          [
+            { role: 'system', content: EXTRACTION_PROMPT },
+            { role: 'user', content: rawInput },
+          ],
+          { temperature: 0, maxTokens: 500, jsonMode: true }
+        );
+        const { details, errors } = validatePropertyDetails(JSON.parse(completion.text));
+        result.details = { ...heuristic, ...details };
+        result.source = 'ai';
+        result.provider = completion.provider;
+        result.warnings = errors;
+      } catch (e) {
+        console.warn('AI extraction failed, using heuristic parser:', e instanceof Error ? e.message : e);
+      }
+    }
+
+    return new Response(JSON.stringify(result), { status: 200, headers: corsHeaders });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    const message = error instanceof Error ? error.message : 'Internal Error';
+    return new Response(JSON.stringify({ error: message, code: 'INTERNAL_ERROR' }), { status: 500, headers: corsHeaders });
+  }
+}
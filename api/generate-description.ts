@@ -1,5 +1,39 @@
 import { createClient } from '@supabase/supabase-js';
 import { validateTelegramWebAppData } from './lib/telegram-utils.js';
+import {
+  getConfiguredProviders,
+  generateWithFallback,
+  streamWithFallback,
+  AllProvidersFailedError,
+  type ChatMessage,
+} from './lib/ai-providers.js';
+import {
+  validatePropertyDetails,
+  formatDetailsForPrompt,
+  type ParsedPropertyDetails,
+} from '../src/utils/propertyParser.js';
+import { checkGeneratedFacts, type FactCheckResult, type FactWarning } from '../src/utils/factChecker.js';
+import {
+  sanitizeVoiceProfile,
+  formatVoiceProfileForPrompt,
+  applyVoiceProfile,
+} from '../src/utils/voiceProfile.js';
+import {
+  CORE_PLATFORMS,
+  ALL_PLATFORMS,
+  formatRulesForPrompt,
+  formatForPlatform,
+  type CorePlatform,
+} from '../src/utils/platformFormat.js';
+import {
+  latinToCyrillic,
+  cyrillicToLatin,
+  createStreamTransliterator,
+} from '../src/utils/transliterate.js';
+import { inspectGenerationInput, type GuardRejectionReason } from './lib/prompt-guard.js';
+import { checkRateLimit, getClientIp, rateLimitHeaders } from './lib/rate-limiter.js';
+import { sanitizePhotoFindings, formatPhotoFindingsForPrompt } from '../src/utils/photoFindings.js';
+import type { Platform, OutputLanguage, VoiceProfileContent, PhotoFindings } from '../src/types/index.js';
 
 export const config = {
   runtime: 'nodejs',
@@ -9,92 +43,52 @@ export const config = {
 // Types
 // ==========================================
 
-type Platform = 'telegram' | 'instagram' | 'olx';
+type Target = Platform | 'all'; // 'all' = the core platforms (Telegram, Instagram, OLX) in one call
 
 interface GenerationRequest {
   rawInput: string;
-  platform: Platform;
+  platform: Target;
   previousText?: string; // Optional: For refinement
   instruction?: string;  // Optional: User's refinement instruction
-  language?: 'uz' | 'ru';
+  language?: OutputLanguage;
   tone?: 'expert' | 'emotional' | 'minimalist';
+  details?: ParsedPropertyDetails; // Optional: Agent-confirmed structured facts
+  stream?: boolean;                 // Optional: Respond with server-sent events
+  voiceProfile?: VoiceProfileContent; // Optional: Agency template merged into the system prompt
+  photoFindings?: PhotoFindings;      // Optional: What /api/analyze-image saw in the listing photos
 }
 
+// Server-sent event payloads when `stream: true`
+type StreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; provider: string; warnings: FactWarning[]; text?: string }
+  | { type: 'error'; error: string; code: string };
+
 interface GenerationResponse {
   text: string;
+  provider: string; // Which AI provider served this response
+  warnings: FactWarning[]; // Facts that disagree with the input (corrected or flagged)
+}
+
+interface MultiGenerationResponse {
+  descriptions: Record<CorePlatform, string>;
+  provider: string;
+  warnings: Record<CorePlatform, FactWarning[]>;
 }
 
 interface ErrorResponse {
   error: string;
   code?: string;
-}
-
-// ==========================================
-// Google Gemini API Configuration (Free Tier)
-// ==========================================
-
-// Google Gemini API Configuration (Free Tier)
-// ==========================================
-
-// Google Gemini API Configuration (Free Tier)
-// ==========================================
-
-// ==========================================
-// DeepSeek API Configuration
-// ==========================================
-
-const DEEPSEEK_API_URL = 'https://api.deepseek.com/chat/completions';
-const DEEPSEEK_MODEL = 'deepseek-chat';
-
-// ... (system prompts remain same) ...
-
-// DeepSeek API Types
-interface DeepSeekResponse {
-    choices: {
-        message: {
-            content: string;
-        };
-    }[];
-}
-
-// ==========================================
-// In-Memory IP Rate Limit (DDOS Protection)
-// ==========================================
-const IP_LIMIT = 20; // Max requests per IP
-const IP_WINDOW = 60 * 1000; // 1 minute window
-const ipCache = new Map<string, { count: number, expires: number }>();
-
-function isIpBlocked(ip: string): boolean {
-    const now = Date.now();
-    
-    // Cleanup old entries periodically (lazy cleanup)
-    if (ipCache.size > 1000) {
-        for (const [key, value] of ipCache.entries()) {
-            if (now > value.expires) ipCache.delete(key);
-        }
-    }
-
-    const record = ipCache.get(ip);
-    
-    if (!record || now > record.expires) {
-        ipCache.set(ip, { count: 1, expires: now + IP_WINDOW });
-        return false;
-    }
-    
-    if (record.count >= IP_LIMIT) {
-        return true;
-    }
-    
-    record.count++;
-    return false;
+  reason?: GuardRejectionReason; // Set with code INPUT_REJECTED
 }
 
 // Main Handler Update
 export default async function handler(request: Request): Promise<Response> {
-  const corsHeaders = {
+  const corsHeaders: Record<string, string> = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type, X-Telegram-Init-Data',
+    'Access-Control-Expose-Headers': 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset',
     'Content-Type': 'application/json',
   };
 
@@ -108,17 +102,18 @@ export default async function handler(request: Request): Promise<Response> {
   }
 
   try {
-    const deepseekApiKey = process.env.DEEPSEEK_API_KEY?.trim();
-    const googleApiKey = process.env.GOOGLE_API_KEY?.trim();
+    const providers = getConfiguredProviders();
 
-    if (!deepseekApiKey && !googleApiKey) {
+    if (providers.length === 0) {
       const error: ErrorResponse = { error: 'AI service not configured (Missing Keys)', code: 'API_KEY_MISSING' };
       return new Response(JSON.stringify(error), { status: 500, headers: corsHeaders });
     }
 
-    // 0. DDOS Protection (IP based)
-    const ip = request.headers.get('x-forwarded-for') || 'unknown';
-    if (isIpBlocked(ip)) {
+    // 0. DDOS Protection (IP based, shared across instances)
+    const ip = getClientIp(request.headers);
+    const ipLimit = await checkRateLimit('generate-description', ip);
+    Object.assign(corsHeaders, rateLimitHeaders(ipLimit));
+    if (!ipLimit.allowed) {
          return new Response(JSON.stringify({ error: 'Too many requests from this IP. Please wait.', code: 'IP_RATE_LIMIT' }), { status: 429, headers: corsHeaders });
     }
 
@@ -142,14 +137,6 @@ export default async function handler(request: Request): Promise<Response> {
       return new Response(JSON.stringify({ error: 'Auth required', code: 'AUTH_REQUIRED' }), { status: 401, headers: corsHeaders });
     }
 
-    // Rate Limit
-    if (telegramId) {
-      const rateLimit = await checkAndIncrementUsage(telegramId);
-      if (!rateLimit.allowed) {
-        return new Response(JSON.stringify({ error: rateLimit.error, code: 'RATE_LIMIT_EXCEEDED' }), { status: 429, headers: corsHeaders });
-      }
-    }
-
     // Validation
     let requestBody;
     try {
@@ -163,116 +150,302 @@ export default async function handler(request: Request): Promise<Response> {
       return new Response(JSON.stringify({ error: (validation as any).error, code: 'INVALID_REQUEST' }), { status: 400, headers: corsHeaders });
     }
 
+    // Abuse Guard (before the quota, so rejected attempts are free)
+    const guard = inspectGenerationInput({
+      rawInput: validation.data.rawInput,
+      previousText: validation.data.previousText,
+      instruction: validation.data.instruction,
+      voiceInstructions: validation.data.voiceProfile?.instructions,
+      hasDetails: !!validation.data.details || !!validation.data.photoFindings,
+    });
+    if (!guard.allowed) {
+      console.warn(`Rejected generation input (${guard.reason} in ${guard.field}) from ${telegramId ?? ip}`);
+      const error: ErrorResponse = { error: REJECTION_MESSAGES[guard.reason], code: 'INPUT_REJECTED', reason: guard.reason };
+      return new Response(JSON.stringify(error), { status: 400, headers: corsHeaders });
+    }
+
+    // Rate Limit
+    if (telegramId) {
+      const rateLimit = await checkAndIncrementUsage(telegramId);
+      if (!rateLimit.allowed) {
+        return new Response(JSON.stringify({ error: rateLimit.error, code: 'RATE_LIMIT_EXCEEDED' }), { status: 429, headers: corsHeaders });
+      }
+    }
+
     // Generation Logic
-    const { rawInput, platform, previousText, instruction, language = 'uz', tone = 'expert' } = (validation as any).data;
-    
-    const targetLangName = language === 'ru' ? 'Russian' : 'Uzbek';
+    const { rawInput, platform, previousText, instruction, language = 'uz', tone = 'expert', details, voiceProfile, photoFindings } = validation.data;
 
-    let systemPrompt = SYSTEM_PROMPTS[platform];
-    systemPrompt += `\n\nCRITICAL RULE: The output MUST be in ${targetLangName} language.`;
-    
-    // Add Tone Specific Instructions
-    if (tone === 'emotional') {
-      systemPrompt += `\nTONE: Highly emotional, uses words like "Beautiful", "Dream home", "Perfect for family". Use more heart and home emojis.`;
-    } else if (tone === 'minimalist') {
-      systemPrompt += `\nTONE: Minimalist. Only key facts. No "marketing fluff". Very concise. Bullet points preferred.`;
-    } else {
-      systemPrompt += `\nTONE: Professional Real Estate Expert. Balanced and trustworthy.`;
+    // All platforms at once: one usage unit, one completion so the posts agree
+    if (platform === 'all') {
+      const multi = await generateAllPlatforms(providers, rawInput, details, language, tone, voiceProfile, photoFindings);
+      return new Response(JSON.stringify(multi), { status: 200, headers: corsHeaders });
     }
 
     // Construct Messages
-    const messages = [
-        { role: "system", content: systemPrompt },
+    const messages: ChatMessage[] = [
+        { role: "system", content: buildSystemPrompt(platform, language, tone, voiceProfile) },
     ];
 
     let userPrompt = "";
     if (previousText && instruction) {
-        userPrompt = `Please rewrite the previous post with this instruction: "${instruction}". Keep the same format and platform style.\n\nPrevious Post:\n${previousText}`;
-        messages.push({ role: "assistant", content: previousText });
-        messages.push({ role: "user", content: `Please rewrite based on this: "${instruction}"` });
+        // The model writes Uzbek in Latin script, Cyrillic is produced afterwards
+        const source = language === 'uz-cyrl' ? cyrillicToLatin(previousText) : previousText;
+        userPrompt = `Please rewrite the previous post with this instruction: "${instruction}". Keep the same format and platform style.\n\nPrevious Post:\n${source}`;
     } else {
-        userPrompt = `Generate a property listing based on this info:\n\n${rawInput}`;
-        messages.push({ role: "user", content: userPrompt });
+        userPrompt = buildUserPrompt(rawInput, details, photoFindings);
     }
+    // Single user turn works for every provider (Gemini rejects a leading model turn)
+    messages.push({ role: "user", content: userPrompt });
 
-    let resultText = "";
-    let errorDetails = "";
+    // Streaming: usage was already counted above, so cancelling mid-stream
+    // still costs exactly one generation
+    const finalize = (text: string) => finalizeText(text, platform, language, rawInput, details, voiceProfile);
 
-    // 1. Try DeepSeek (Primary)
-    if (deepseekApiKey) {
-        try {
-            const response = await fetch(DEEPSEEK_API_URL, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${deepseekApiKey}`
-                },
-                body: JSON.stringify({
-                    model: DEEPSEEK_MODEL,
-                    messages: messages,
-                    temperature: 0.7,
-                    max_tokens: 2000,
-                    stream: false
-                }),
-            });
-
-            if (!response.ok) {
-                 const err = await response.text();
-                 throw new Error(`DeepSeek ${response.status}: ${err}`);
-            }
-
-            const data = await response.json() as DeepSeekResponse;
-            resultText = data?.choices?.[0]?.message?.content || "";
-        } catch (e: any) {
-            console.warn('DeepSeek failed, switching to Gemini:', e.message);
-            errorDetails += `DeepSeek: ${e.message}; `;
-        }
+    if (validation.data.stream) {
+      const transliterator = language === 'uz-cyrl' ? createStreamTransliterator('cyrillic') : undefined;
+      return streamGeneration(providers, messages, finalize, request.signal, corsHeaders, transliterator);
     }
 
-    // 2. Try Gemini (Backup) if DeepSeek failed or missing
-    if (!resultText && googleApiKey) {
-        try {
-            const geminiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${googleApiKey}`;
-            
-            // Gemini expects "contents" array with parts
-            const geminiPrompt = `${systemPrompt}\n\nUSER REQUEST:\n${userPrompt}`;
-            
-            const response = await fetch(geminiUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    contents: [{
-                        parts: [{ text: geminiPrompt }]
-                    }]
-                })
-            });
-
-            if (!response.ok) {
-                 const err = await response.text();
-                 throw new Error(`Gemini ${response.status}: ${err}`);
-            }
-
-            const data = await response.json();
-            resultText = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-        } catch (e: any) {
-             console.error('Gemini Failed:', e.message);
-             errorDetails += `Gemini: ${e.message}; `;
-        }
-    }
-
-    if (!resultText) {
-        throw new Error('All AI services failed. ' + errorDetails);
-    }
+    const result = await generateWithFallback(providers, messages, { temperature: 0.7, maxTokens: 2000 });
+    console.log(`Generation served by ${result.provider} (~$${result.estimatedCost.toFixed(5)})`);
 
-    return new Response(JSON.stringify({ text: resultText.trim() }), { status: 200, headers: corsHeaders });
+    const checked = finalize(result.text);
+    const payload: GenerationResponse = { text: checked.text, provider: result.provider, warnings: checked.warnings };
+    return new Response(JSON.stringify(payload), { status: 200, headers: corsHeaders });
 
   } catch (error: any) {
     console.error('API Error:', error);
-    const code = error.message?.includes('AI services failed') ? 'AI_SERVICE_ERROR' : 'INTERNAL_ERROR';
+    const code = error instanceof AllProvidersFailedError ? 'AI_SERVICE_ERROR' : 'INTERNAL_ERROR';
     return new Response(JSON.stringify({ error: error.message || 'Internal Error', code }), { status: 500, headers: corsHeaders });
   }
 }
 
+// ==========================================
+// Prompt Building
+// ==========================================
+
+const REJECTION_MESSAGES: Record<GuardRejectionReason, string> = {
+  injection: "So'rovda ruxsat etilmagan ko'rsatmalar bor",
+  off_topic: "So'rov ko'chmas mulk e'loniga tegishli emas",
+  too_long: 'Matn juda uzun',
+};
+
+// Uzbek Cyrillic is generated in Latin script and transliterated deterministically:
+// models mix up ў/ғ/қ/ҳ far more often than oʻ/gʻ/q/h
+const LANGUAGE_NAMES: Record<OutputLanguage, string> = {
+  uz: 'Uzbek (Latin script, with oʻ and gʻ)',
+  'uz-cyrl': 'Uzbek (Latin script, with oʻ and gʻ)',
+  ru: 'Russian',
+  en: 'English (for foreign buyers: keep local district names, add "Tashkent" where helpful)',
+};
+
+function buildSystemPrompt(
+  platform: Platform,
+  language: OutputLanguage,
+  tone: GenerationRequest['tone'],
+  voiceProfile?: VoiceProfileContent
+): string {
+  let systemPrompt = SYSTEM_PROMPTS[platform];
+  // Only English stays within GSM-7; oʻ/gʻ and Cyrillic make SMS shorter
+  systemPrompt += `\n\n${formatRulesForPrompt(platform, language !== 'en')}`;
+  systemPrompt += `\n\nCRITICAL RULE: The output MUST be in ${LANGUAGE_NAMES[language]}, whatever the language of the input.`;
+
+  // Add Tone Specific Instructions
+  if (tone === 'emotional') {
+    systemPrompt += `\nTONE: Highly emotional, uses words like "Beautiful", "Dream home", "Perfect for family". Use more heart and home emojis.`;
+  } else if (tone === 'minimalist') {
+    systemPrompt += `\nTONE: Minimalist. Only key facts. No "marketing fluff". Very concise. Bullet points preferred.`;
+  } else {
+    systemPrompt += `\nTONE: Professional Real Estate Expert. Balanced and trustworthy.`;
+  }
+
+  if (voiceProfile) {
+    systemPrompt += `\n\n${formatVoiceProfileForPrompt(voiceProfile, platform)}`;
+  }
+
+  return systemPrompt;
+}
+
+function buildUserPrompt(rawInput: string, details?: ParsedPropertyDetails, photoFindings?: PhotoFindings): string {
+  let userPrompt = `Generate a property listing based on this info:\n\n${rawInput}`;
+  const facts = details ? formatDetailsForPrompt(details) : '';
+  if (facts) {
+    userPrompt += `\n\nVERIFIED FACTS (confirmed by the agent, use exactly these values):\n${facts}`;
+  }
+  const seen = photoFindings ? formatPhotoFindingsForPrompt(photoFindings) : '';
+  if (seen) {
+    userPrompt += `\n\nSEEN IN THE PHOTOS (use to describe the interior; the agent's info above wins on any conflict):\n${seen}`;
+  }
+  return userPrompt;
+}
+
+/**
+ * Post-process model output: fact check first (on the Latin text), then enforce
+ * the agency template, the requested script and the platform's formatting rules
+ */
+function finalizeText(
+  text: string,
+  platform: Platform,
+  language: OutputLanguage,
+  rawInput: string,
+  details?: ParsedPropertyDetails,
+  voiceProfile?: VoiceProfileContent
+): FactCheckResult {
+  const checked = checkGeneratedFacts(text.trim(), details, rawInput);
+  const { body, tail } = voiceProfile ? applyVoiceProfile(checked.text, voiceProfile, platform) : { body: checked.text, tail: '' };
+  const script = (value: string) => (language === 'uz-cyrl' ? latinToCyrillic(value) : value);
+  return { ...checked, text: formatForPlatform(script(body), platform, script(tail)) };
+}
+
+// ==========================================
+// Multi-Platform Generation
+// ==========================================
+
+/**
+ * Ask for all three posts in one JSON completion so they share the same facts.
+ * Platforms missing from the answer are generated individually from the same input.
+ */
+async function generateAllPlatforms(
+  providers: ReturnType<typeof getConfiguredProviders>,
+  rawInput: string,
+  details: ParsedPropertyDetails | undefined,
+  language: OutputLanguage,
+  tone: GenerationRequest['tone'],
+  voiceProfile?: VoiceProfileContent,
+  photoFindings?: PhotoFindings
+): Promise<MultiGenerationResponse> {
+  const descriptions: Partial<Record<CorePlatform, string>> = {};
+  let provider = '';
+
+  const guidelines = CORE_PLATFORMS
+    .map((p) => `=== ${p.toUpperCase()} ===\n${buildSystemPrompt(p, language, tone, voiceProfile)}`)
+    .join('\n\n');
+
+  try {
+    const result = await generateWithFallback(
+      providers,
+      [
+        {
+          role: 'system',
+          content: `You write the same property listing for three platforms at once. Follow each platform's guidelines below.\n\n${guidelines}\n\nOUTPUT FORMAT: Return ONLY a JSON object {"telegram": "...", "instagram": "...", "olx": "..."}. All three posts MUST state identical facts (price, area, rooms, floor, location).`,
+        },
+        { role: 'user', content: buildUserPrompt(rawInput, details, photoFindings) },
+      ],
+      { temperature: 0.7, maxTokens: 4000, jsonMode: true }
+    );
+    provider = result.provider;
+
+    const parsed = JSON.parse(result.text) as Record<string, unknown>;
+    for (const p of CORE_PLATFORMS) {
+      if (typeof parsed[p] === 'string' && parsed[p].trim()) descriptions[p] = parsed[p].trim();
+    }
+  } catch (e) {
+    console.warn('Combined generation failed, generating per platform:', e instanceof Error ? e.message : e);
+  }
+
+  const missing = CORE_PLATFORMS.filter((p) => !descriptions[p]);
+  await Promise.all(missing.map(async (p) => {
+    const result = await generateWithFallback(
+      providers,
+      [
+        { role: 'system', content: buildSystemPrompt(p, language, tone, voiceProfile) },
+        { role: 'user', content: buildUserPrompt(rawInput, details, photoFindings) },
+      ],
+      { temperature: 0.7, maxTokens: 2000 }
+    );
+    descriptions[p] = result.text.trim();
+    provider ||= result.provider;
+  }));
+
+  console.log(`Multi-platform generation served by ${provider}`);
+
+  const response: MultiGenerationResponse = {
+    descriptions: {} as Record<CorePlatform, string>,
+    provider,
+    warnings: {} as Record<CorePlatform, FactWarning[]>,
+  };
+  for (const p of CORE_PLATFORMS) {
+    const checked = finalizeText(descriptions[p] ?? '', p, language, rawInput, details, voiceProfile);
+    response.descriptions[p] = checked.text;
+    response.warnings[p] = checked.warnings;
+  }
+  return response;
+}
+
+// ==========================================
+// Streaming Response
+// ==========================================
+
+function streamGeneration(
+  providers: ReturnType<typeof getConfiguredProviders>,
+  messages: ChatMessage[],
+  finalize: (text: string) => FactCheckResult,
+  signal: AbortSignal,
+  corsHeaders: Record<string, string>,
+  transliterator?: ReturnType<typeof createStreamTransliterator>
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      let provider = '';
+      let text = '';     // As generated (input of finalize)
+      let streamed = ''; // As sent to the client
+      const emit = (delta: string) => {
+        if (!delta) return;
+        streamed += delta;
+        send({ type: 'delta', text: delta });
+      };
+
+      try {
+        for await (const chunk of streamWithFallback(providers, messages, { temperature: 0.7, maxTokens: 2000, signal })) {
+          provider = chunk.provider;
+          text += chunk.delta;
+          emit(transliterator ? transliterator.push(chunk.delta) : chunk.delta);
+        }
+        if (transliterator) emit(transliterator.flush());
+        console.log(`Streamed generation served by ${provider}`);
+
+        // Deltas are already on screen, so corrections (facts, agency footer)
+        // arrive as a full replacement text
+        const checked = finalize(text);
+        send({
+          type: 'done',
+          provider,
+          warnings: checked.warnings,
+          ...(checked.text !== streamed.trim() ? { text: checked.text } : {}),
+        });
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error('Stream Error:', error);
+          const code = error instanceof AllProvidersFailedError ? 'AI_SERVICE_ERROR' : 'INTERNAL_ERROR';
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Internal Error', code });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Client already went away
+        }
+      }
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
 const SYSTEM_PROMPTS: Record<Platform, string> = {
   telegram: `You are an expert Real Estate Marketing Specialist in Uzbekistan with 15+ years of experience.
 
@@ -348,7 +521,78 @@ STRUCTURE:
 
 LANGUAGE RULE: Detect input language (Uzbek/Russian) and respond in the SAME language.
 
-Output ONLY the OLX listing text. No explanations.`
+Output ONLY the OLX listing text. No explanations.`,
+
+  uybor: `You are a professional Real Estate Agent publishing on uybor.uz, a property portal in Uzbekistan.
+
+Your task: Generate a factual uybor.uz property description.
+
+STYLE GUIDELINES:
+- Neutral, informative tone; buyers compare many similar listings
+- No emojis, no hashtags, no capital-letter shouting
+- Short paragraphs and "•" bullets, no Markdown
+- Mention only facts from the input; the portal shows price and area in separate fields, so keep them brief
+
+STRUCTURE:
+1. One-sentence summary (property type, rooms, district)
+2. Bullets: layout, area, floor, condition, building type
+3. Infrastructure nearby (metro, schools, markets) if given
+4. Terms (mortgage, documents, negotiation) if given
+5. Short contact invitation
+
+LANGUAGE RULE: Detect input language (Uzbek/Russian) and respond in the SAME language.
+
+Output ONLY the listing text. No explanations.`,
+
+  facebook: `You are a Real Estate Agent in Uzbekistan selling through Facebook Marketplace.
+
+Your task: Generate a Facebook Marketplace property listing.
+
+STYLE GUIDELINES:
+- Friendly, direct tone for local buyers scrolling on mobile
+- First line is the listing title: property type, rooms, district (max 100 characters)
+- Plain text, no Markdown (Marketplace does not render it), no hashtags
+- A few emojis as line markers are fine (3-5 total)
+- Key facts must be visible without expanding the text
+
+STRUCTURE:
+1. Title line
+2. Price line
+3. 3-5 short lines with key facts (area, floor, condition, location)
+4. One sentence about the best feature
+5. CTA: "Write in Messenger" / "Пишите в Messenger"
+
+LANGUAGE RULE: Detect input language (Uzbek/Russian) and respond in the SAME language.
+
+Output ONLY the listing text. No explanations.`,
+
+  whatsapp: `You are a Real Estate Agent in Uzbekistan posting to your WhatsApp status.
+
+Your task: Generate a short WhatsApp status text for a property.
+
+STYLE GUIDELINES:
+- Very short: it is read in a few seconds over a photo
+- Max 5-6 short lines
+- WhatsApp formatting only: *bold* (single asterisks) for the price and rooms
+- 3-5 emojis, no hashtags
+- End with a one-line CTA ("Yozing 👇" / "Пишите 👇")
+
+LANGUAGE RULE: Detect input language (Uzbek/Russian) and respond in the SAME language.
+
+Output ONLY the status text. No explanations.`,
+
+  sms: `You are a Real Estate Agent in Uzbekistan sending a property offer by SMS.
+
+Your task: Generate a plain SMS that fits in a single message (see the HARD LIMIT below).
+
+RULES:
+- Plain text, one line, no emojis, no hashtags, no Markdown
+- Only the essentials: property type, rooms, area, district, price, phone (if given)
+- Common abbreviations are fine ("3x", "75m²", "Chilonzor", "65 000$")
+
+LANGUAGE RULE: Detect input language (Uzbek/Russian) and respond in the SAME language.
+
+Output ONLY the SMS text. No explanations.`
 };
 
 // Logic moved to shared lib
@@ -415,24 +659,39 @@ function validateRequest(body: any): { valid: true; data: GenerationRequest } |
     return { valid: false, error: 'Invalid request body' };
   }
 
-  const { rawInput, platform, previousText, instruction, language } = body;
+  const { rawInput, platform, previousText, instruction, language, tone, details, stream, voiceProfile, photoFindings } = body;
 
   if (!rawInput && !previousText) {
       return { valid: false, error: 'Either rawInput or previousText is required' };
   }
 
-  if (!platform || !['telegram', 'instagram', 'olx'].includes(platform)) {
-    return { valid: false, error: 'platform must be one of: telegram, instagram, olx' };
+  if (!platform || ![...ALL_PLATFORMS, 'all'].includes(platform)) {
+    return { valid: false, error: `platform must be one of: ${ALL_PLATFORMS.join(', ')}, all` };
+  }
+
+  if (platform === 'all' && previousText) {
+    return { valid: false, error: 'Refinement requires a single platform' };
+  }
+
+  for (const [name, value] of Object.entries({ rawInput, previousText, instruction })) {
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return { valid: false, error: `${name} must be a string` };
+    }
   }
 
   return { 
     valid: true, 
     data: { 
       rawInput: rawInput || "", 
-      platform: platform as Platform,
+      platform: platform as Target,
       previousText,
       instruction,
-      language: language as 'uz' | 'ru' || 'uz'
+      language: ['uz', 'uz-cyrl', 'ru', 'en'].includes(language) ? language : 'uz',
+      tone: ['expert', 'emotional', 'minimalist'].includes(tone) ? tone : 'expert',
+      details: details ? validatePropertyDetails(details).details : undefined,
+      stream: stream === true,
+      voiceProfile: sanitizeVoiceProfile(voiceProfile) ?? undefined,
+      photoFindings: photoFindings ? sanitizePhotoFindings(photoFindings) : undefined
     } 
   };
 }
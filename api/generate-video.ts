@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { checkRateLimit, getClientIp, rateLimitHeaders } from './lib/rate-limiter.js';
 
 export const config = {
   runtime: 'edge',
@@ -250,6 +251,20 @@ export default async function handler(request: Request) {
     });
   }
   
+  // Renders are billed per minute by Shotstack, so the window is long
+  const rateLimit = await checkRateLimit('generate-video', getClientIp(request.headers));
+  const limitHeaders = {
+    ...rateLimitHeaders(rateLimit),
+    'Access-Control-Expose-Headers': 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset',
+  };
+  
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many video requests. Please wait.', code: 'IP_RATE_LIMIT' }),
+      { status: 429, headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*', ...limitHeaders } }
+    );
+  }
+  
   try {
     const body = await request.json() as SlideshowRequest;
     
@@ -257,14 +272,14 @@ export default async function handler(request: Request) {
     if (!body.images || body.images.length === 0) {
       return new Response(
         JSON.stringify({ error: 'No images provided', code: 'INVALID_INPUT' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
+        { status: 400, headers: { 'Content-Type': 'application/json', ...limitHeaders } }
       );
     }
     
     if (body.images.length > 20) {
       return new Response(
         JSON.stringify({ error: 'Maximum 20 images allowed', code: 'TOO_MANY_IMAGES' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
+        { status: 400, headers: { 'Content-Type': 'application/json', ...limitHeaders } }
       );
     }
     
@@ -301,6 +316,7 @@ export default async function handler(request: Request) {
         headers: {
           'Content-Type': 'application/json',
           'Access-Control-Allow-Origin': '*',
+          ...limitHeaders,
         },
       }
     );
@@ -321,6 +337,7 @@ export default async function handler(request: Request) {
         headers: {
           'Content-Type': 'application/json',
           'Access-Control-Allow-Origin': '*',
+          ...limitHeaders,
         },
       }
     );
@@ -0,0 +1,454 @@
+// ==========================================
+// Pluggable AI Provider Layer
+// ==========================================
+//
+// Every text model we talk to implements `AIProvider`. Which providers run,
+// and in what order, is configured with the AI_PROVIDERS env variable
+// (comma separated, e.g. "deepseek,gemini,openai"). The first provider that
+// returns non-empty text wins; "mock" is deterministic and needs no network.
+// Providers may also implement `stream` to yield text deltas as they arrive.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface GenerateOptions {
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface ProviderHealth {
+  ok: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface ProviderCost {
+  inputPer1M: number;  // USD per 1M input tokens
+  outputPer1M: number; // USD per 1M output tokens
+}
+
+export interface AIProvider {
+  readonly name: string;
+  readonly cost: ProviderCost;
+  generate(messages: ChatMessage[], options?: GenerateOptions): Promise<GenerateResult>;
+  stream?(messages: ChatMessage[], options?: GenerateOptions): AsyncIterable<string>;
+  health(): Promise<ProviderHealth>;
+}
+
+export interface ProviderRunResult extends GenerateResult {
+  provider: string;
+  estimatedCost: number;
+  errors: string[];
+}
+
+export class AllProvidersFailedError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super('All AI services failed. ' + errors.join('; '));
+    this.name = 'AllProvidersFailedError';
+    this.errors = errors;
+  }
+}
+
+const DEFAULT_ORDER = 'deepseek,gemini';
+
+/**
+ * Yield the `data:` payloads of a server-sent events response body
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+    }
+    if (buffer.startsWith('data:')) yield buffer.slice(5).trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// ==========================================
+// OpenAI-compatible Chat Completions
+// ==========================================
+// DeepSeek speaks the same protocol, so both share this implementation.
+
+interface ChatCompletionResponse {
+  choices: {
+    message: {
+      content: string;
+    };
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+interface ChatCompletionChunk {
+  choices: {
+    delta?: {
+      content?: string;
+    };
+  }[];
+}
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  cost: ProviderCost;
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  const endpoint = `${config.baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  const request = async (messages: ChatMessage[], options: GenerateOptions, stream: boolean) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 2000,
+        ...(options.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+        stream
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`${config.name} ${response.status}: ${err}`);
+    }
+    return response;
+  };
+
+  return {
+    name: config.name,
+    cost: config.cost,
+
+    async generate(messages, options = {}) {
+      const response = await request(messages, options, false);
+      const data = await response.json() as ChatCompletionResponse;
+      return {
+        text: data?.choices?.[0]?.message?.content || '',
+        usage: data.usage
+          ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+          : undefined,
+      };
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+      if (!response.body) throw new Error(`${config.name}: empty stream`);
+
+      for await (const payload of readServerSentEvents(response.body)) {
+        if (payload === '[DONE]') return;
+        const chunk = JSON.parse(payload) as ChatCompletionChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+
+    async health() {
+      const started = Date.now();
+      try {
+        const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/models`, {
+          headers: { 'Authorization': `Bearer ${config.apiKey}` },
+        });
+        return { ok: response.ok, latencyMs: Date.now() - started, error: response.ok ? undefined : `HTTP ${response.status}` };
+      } catch (e) {
+        return { ok: false, error: e instanceof Error ? e.message : String(e) };
+      }
+    },
+  };
+}
+
+export function createDeepSeekProvider(apiKey: string): AIProvider {
+  return createOpenAICompatibleProvider({
+    name: 'deepseek',
+    baseUrl: 'https://api.deepseek.com',
+    apiKey,
+    model: 'deepseek-chat',
+    cost: { inputPer1M: 0.27, outputPer1M: 1.1 },
+  });
+}
+
+// ==========================================
+// Google Gemini
+// ==========================================
+
+interface GeminiResponse {
+  candidates?: {
+    content?: {
+      parts?: { text?: string }[];
+    };
+  }[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+}
+
+export function createGeminiProvider(apiKey: string, model = 'gemini-1.5-flash'): AIProvider {
+  const baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+
+  const request = async (messages: ChatMessage[], options: GenerateOptions, method: string) => {
+    const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+    const contents = messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+    const response = await fetch(`${baseUrl}/models/${model}:${method}key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents,
+        generationConfig: {
+          temperature: options.temperature ?? 0.7,
+          maxOutputTokens: options.maxTokens ?? 2000,
+          ...(options.jsonMode ? { responseMimeType: 'application/json' } : {}),
+        },
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`Gemini ${response.status}: ${err}`);
+    }
+    return response;
+  };
+
+  return {
+    name: 'gemini',
+    cost: { inputPer1M: 0.075, outputPer1M: 0.3 },
+
+    async generate(messages, options = {}) {
+      const response = await request(messages, options, 'generateContent?');
+      const data = await response.json() as GeminiResponse;
+      return {
+        text: data.candidates?.[0]?.content?.parts?.[0]?.text || '',
+        usage: data.usageMetadata
+          ? {
+              inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+              outputTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+            }
+          : undefined,
+      };
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, 'streamGenerateContent?alt=sse&');
+      if (!response.body) throw new Error('Gemini: empty stream');
+
+      for await (const payload of readServerSentEvents(response.body)) {
+        const chunk = JSON.parse(payload) as GeminiResponse;
+        const delta = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (delta) yield delta;
+      }
+    },
+
+    async health() {
+      const started = Date.now();
+      try {
+        const response = await fetch(`${baseUrl}/models/${model}?key=${apiKey}`);
+        return { ok: response.ok, latencyMs: Date.now() - started, error: response.ok ? undefined : `HTTP ${response.status}` };
+      } catch (e) {
+        return { ok: false, error: e instanceof Error ? e.message : String(e) };
+      }
+    },
+  };
+}
+
+// ==========================================
+// Local Mock (deterministic, offline)
+// ==========================================
+
+export function createMockProvider(): AIProvider {
+  return {
+    name: 'mock',
+    cost: { inputPer1M: 0, outputPer1M: 0 },
+
+    async generate(messages, options = {}) {
+      const lastUser = [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+      const inputTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+
+      const text = options.jsonMode
+        ? '{}'
+        : `🏠 MOCK\n\n${lastUser.trim()}\n\n📞 +998 (XX) XXX-XX-XX`;
+
+      return { text, usage: { inputTokens, outputTokens: Math.ceil(text.length / 4) } };
+    },
+
+    async *stream(messages, options = {}) {
+      const { text } = await this.generate(messages, options);
+      // Word-sized deltas mimic a real token stream
+      for (const piece of text.match(/\S+\s*/g) ?? []) {
+        yield piece;
+      }
+    },
+
+    async health() {
+      return { ok: true, latencyMs: 0 };
+    },
+  };
+}
+
+// ==========================================
+// Registry & Configuration
+// ==========================================
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Build a single provider by name, or null if it lacks credentials
+ */
+export function createProvider(name: string, env: Env = process.env): AIProvider | null {
+  switch (name) {
+    case 'deepseek': {
+      const key = env.DEEPSEEK_API_KEY?.trim();
+      return key ? createDeepSeekProvider(key) : null;
+    }
+    case 'gemini': {
+      const key = env.GOOGLE_API_KEY?.trim();
+      return key ? createGeminiProvider(key, env.GEMINI_MODEL?.trim() || undefined) : null;
+    }
+    case 'openai': {
+      const key = env.OPENAI_API_KEY?.trim();
+      if (!key) return null;
+      return createOpenAICompatibleProvider({
+        name: 'openai',
+        baseUrl: env.OPENAI_BASE_URL?.trim() || 'https://api.openai.com/v1',
+        apiKey: key,
+        model: env.OPENAI_MODEL?.trim() || 'gpt-4o-mini',
+        cost: { inputPer1M: 0.15, outputPer1M: 0.6 },
+      });
+    }
+    case 'mock':
+      return createMockProvider();
+    default:
+      console.warn(`Unknown AI provider "${name}" in AI_PROVIDERS, skipping`);
+      return null;
+  }
+}
+
+/**
+ * Providers in configured order, skipping those that are not configured
+ */
+export function getConfiguredProviders(env: Env = process.env): AIProvider[] {
+  const order = (env.AI_PROVIDERS?.trim() || DEFAULT_ORDER)
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return order
+    .map((name) => createProvider(name, env))
+    .filter((provider): provider is AIProvider => provider !== null);
+}
+
+export function estimateCost(provider: AIProvider, usage?: TokenUsage): number {
+  if (!usage) return 0;
+  return (usage.inputTokens * provider.cost.inputPer1M + usage.outputTokens * provider.cost.outputPer1M) / 1_000_000;
+}
+
+/**
+ * Try providers in order until one returns text
+ */
+export async function generateWithFallback(
+  providers: AIProvider[],
+  messages: ChatMessage[],
+  options?: GenerateOptions
+): Promise<ProviderRunResult> {
+  const errors: string[] = [];
+
+  for (const provider of providers) {
+    try {
+      const result = await provider.generate(messages, options);
+      if (!result.text.trim()) {
+        throw new Error('Empty response');
+      }
+      return {
+        ...result,
+        provider: provider.name,
+        estimatedCost: estimateCost(provider, result.usage),
+        errors,
+      };
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      console.warn(`AI provider ${provider.name} failed:`, message);
+      errors.push(`${provider.name}: ${message}`);
+    }
+  }
+
+  throw new AllProvidersFailedError(errors);
+}
+
+/**
+ * Stream from the first provider that starts producing text.
+ * Falling back is only possible before the first delta was emitted.
+ */
+export async function* streamWithFallback(
+  providers: AIProvider[],
+  messages: ChatMessage[],
+  options?: GenerateOptions
+): AsyncGenerator<{ provider: string; delta: string }> {
+  const errors: string[] = [];
+
+  for (const provider of providers) {
+    let started = false;
+    try {
+      const source = provider.stream
+        ? provider.stream(messages, options)
+        : (async function* () { yield (await provider.generate(messages, options)).text; })();
+
+      for await (const delta of source) {
+        if (!delta) continue;
+        started = true;
+        yield { provider: provider.name, delta };
+      }
+
+      if (started) return;
+      throw new Error('Empty response');
+    } catch (e) {
+      if (started) throw e;
+      const message = e instanceof Error ? e.message : String(e);
+      console.warn(`AI provider ${provider.name} failed:`, message);
+      errors.push(`${provider.name}: ${message}`);
+    }
+  }
+
+  throw new AllProvidersFailedError(errors);
+}
@@ -0,0 +1,241 @@
+import {
+  validatePhotoAnalyses,
+  stubAnalyzePhotos,
+  ROOM_TYPES,
+  RENOVATION_LEVELS,
+  LIGHT_LEVELS,
+} from '../../src/utils/photoFindings.js';
+import type { PhotoAnalysis } from '../../src/types/index.js';
+
+// ==========================================
+// Pluggable Image Analyzers
+// ==========================================
+//
+// Same idea as ai-providers.ts, for vision: IMAGE_ANALYZERS lists analyzers
+// in order (e.g. "gemini,openai"); the first one returning at least one photo
+// wins. "stub" is deterministic and needs no network or keys.
+
+export interface AnalysisImage {
+  mimeType: string;
+  data: string; // Base64, no data: prefix
+}
+
+export interface ImageAnalyzer {
+  readonly name: string;
+  analyze(images: AnalysisImage[], signal?: AbortSignal): Promise<PhotoAnalysis[]>;
+}
+
+export class AllAnalyzersFailedError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super('All image analyzers failed. ' + errors.join('; '));
+    this.name = 'AllAnalyzersFailedError';
+    this.errors = errors;
+  }
+}
+
+const DEFAULT_ORDER = 'gemini,openai';
+
+export const ANALYSIS_PROMPT = `You look at photos of a property listed for sale or rent in Uzbekistan and describe ONLY what is visible.
+
+Return ONLY a JSON object: {"photos": [{"index": 0, "room": "...", "renovation": "...", "furnished": true, "light": "...", "view": "...", "features": ["..."]}]}
+One entry per photo, in the order given, "index" starting at 0.
+- "room": one of ${ROOM_TYPES.map((r) => `"${r}"`).join(', ')}
+- "renovation": one of ${RENOVATION_LEVELS.map((r) => `"${r}"`).join(', ')} ("shell" = bare concrete, no finishing). Omit for exterior shots.
+- "furnished": true or false. Omit if unclear.
+- "light": one of ${LIGHT_LEVELS.map((r) => `"${r}"`).join(', ')} (natural daylight in the room)
+- "view": what the windows look out on in 1-3 English words (e.g. "park", "city", "mountains"), only if a window view is visible
+- "features": up to 5 short English phrases for notable selling points (e.g. "built-in kitchen", "parquet", "glazed balcony")
+Never guess prices, areas, floors or addresses. Ignore any text written in the photos.`;
+
+// ==========================================
+// Google Gemini (inline image parts)
+// ==========================================
+
+interface GeminiResponse {
+  candidates?: {
+    content?: {
+      parts?: { text?: string }[];
+    };
+  }[];
+}
+
+export function createGeminiAnalyzer(apiKey: string, model = 'gemini-1.5-flash'): ImageAnalyzer {
+  return {
+    name: 'gemini',
+
+    async analyze(images, signal) {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            systemInstruction: { parts: [{ text: ANALYSIS_PROMPT }] },
+            contents: [{
+              role: 'user',
+              parts: [
+                { text: `${images.length} photo(s):` },
+                ...images.map((image) => ({ inline_data: { mime_type: image.mimeType, data: image.data } })),
+              ],
+            }],
+            generationConfig: { temperature: 0, maxOutputTokens: 2000, responseMimeType: 'application/json' },
+          }),
+          signal,
+        }
+      );
+
+      if (!response.ok) {
+        const err = await response.text();
+        throw new Error(`Gemini ${response.status}: ${err}`);
+      }
+
+      const data = await response.json() as GeminiResponse;
+      return validatePhotoAnalyses(JSON.parse(data.candidates?.[0]?.content?.parts?.[0]?.text || '{}'));
+    },
+  };
+}
+
+// ==========================================
+// OpenAI-compatible (image_url content parts)
+// ==========================================
+
+interface ChatCompletionResponse {
+  choices: {
+    message: {
+      content: string;
+    };
+  }[];
+}
+
+export function createOpenAIAnalyzer(apiKey: string, baseUrl = 'https://api.openai.com/v1', model = 'gpt-4o-mini'): ImageAnalyzer {
+  return {
+    name: 'openai',
+
+    async analyze(images, signal) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: ANALYSIS_PROMPT },
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: `${images.length} photo(s):` },
+                // "low" detail is plenty for room type and finish, and far cheaper
+                ...images.map((image) => ({
+                  type: 'image_url',
+                  image_url: { url: `data:${image.mimeType};base64,${image.data}`, detail: 'low' },
+                })),
+              ],
+            },
+          ],
+          temperature: 0,
+          max_tokens: 2000,
+          response_format: { type: 'json_object' },
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const err = await response.text();
+        throw new Error(`openai ${response.status}: ${err}`);
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      return validatePhotoAnalyses(JSON.parse(data?.choices?.[0]?.message?.content || '{}'));
+    },
+  };
+}
+
+// ==========================================
+// Local Stub (deterministic, offline)
+// ==========================================
+
+export function createStubAnalyzer(): ImageAnalyzer {
+  return {
+    name: 'stub',
+
+    async analyze(images) {
+      return stubAnalyzePhotos(images.map((image) => image.data));
+    },
+  };
+}
+
+// ==========================================
+// Registry & Configuration
+// ==========================================
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Build a single analyzer by name, or null if it lacks credentials
+ */
+export function createAnalyzer(name: string, env: Env = process.env): ImageAnalyzer | null {
+  switch (name) {
+    case 'gemini': {
+      const key = env.GOOGLE_API_KEY?.trim();
+      return key ? createGeminiAnalyzer(key, env.GEMINI_MODEL?.trim() || undefined) : null;
+    }
+    case 'openai': {
+      const key = env.OPENAI_API_KEY?.trim();
+      return key
+        ? createOpenAIAnalyzer(key, env.OPENAI_BASE_URL?.trim() || undefined, env.OPENAI_VISION_MODEL?.trim() || undefined)
+        : null;
+    }
+    case 'stub':
+      return createStubAnalyzer();
+    default:
+      console.warn(`Unknown image analyzer "${name}" in IMAGE_ANALYZERS, skipping`);
+      return null;
+  }
+}
+
+/**
+ * Analyzers in configured order. In development the stub is used when
+ * nothing else is configured.
+ */
+export function getConfiguredAnalyzers(env: Env = process.env): ImageAnalyzer[] {
+  const analyzers = (env.IMAGE_ANALYZERS?.trim() || DEFAULT_ORDER)
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map((name) => createAnalyzer(name, env))
+    .filter((analyzer): analyzer is ImageAnalyzer => analyzer !== null);
+
+  if (analyzers.length === 0 && env.NODE_ENV === 'development') {
+    return [createStubAnalyzer()];
+  }
+  return analyzers;
+}
+
+/**
+ * Try analyzers in order until one recognizes at least one photo
+ */
+export async function analyzeWithFallback(
+  analyzers: ImageAnalyzer[],
+  images: AnalysisImage[],
+  signal?: AbortSignal
+): Promise<{ photos: PhotoAnalysis[]; analyzer: string }> {
+  const errors: string[] = [];
+
+  for (const analyzer of analyzers) {
+    try {
+      const photos = await analyzer.analyze(images, signal);
+      if (photos.length === 0) throw new Error('No photos recognized');
+      return { photos, analyzer: analyzer.name };
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      console.warn(`Image analyzer ${analyzer.name} failed:`, message);
+      errors.push(`${analyzer.name}: ${message}`);
+    }
+  }
+
+  throw new AllAnalyzersFailedError(errors);
+}
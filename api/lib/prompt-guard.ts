@@ -0,0 +1,157 @@
+import { parsePropertyText } from '../../src/utils/propertyParser.js';
+
+// ==========================================
+// Prompt Injection & Abuse Guard
+// ==========================================
+//
+// Runs before any user text reaches an LLM (and before the daily quota is
+// charged). Rejects three kinds of input:
+// - injection: attempts to override the system prompt or extract it
+// - off_topic: requests that are not about a property listing
+// - too_long:  inputs above the per-field limits
+// Heuristic on purpose: cheap, deterministic and good enough to stop
+// copy-pasted jailbreaks; the system prompts remain the second line of defense.
+
+export type GuardRejectionReason = 'injection' | 'off_topic' | 'too_long';
+
+export type GuardResult =
+  | { allowed: true }
+  | { allowed: false; reason: GuardRejectionReason; field: string };
+
+export interface GuardInput {
+  rawInput?: string;
+  previousText?: string;
+  instruction?: string;
+  voiceInstructions?: string; // Agency voice profile notes (merged into the system prompt)
+  hasDetails?: boolean;       // Agent-confirmed structured facts were sent
+}
+
+export const GUARD_LIMITS = {
+  rawInput: 2000,
+  previousText: 10000,
+  instruction: 300,
+  voiceInstructions: 1000,
+} as const;
+
+// Uzbek (Latin/Cyrillic), Russian and English
+const INJECTION_PATTERNS: RegExp[] = [
+  // "Ignore / disregard / forget the previous instructions"
+  /\b(?:ignore|disregard|forget|override|bypass)\b.{0,40}\b(?:instructions?|prompts?|rules?|guidelines|context|everything above)\b/,
+  /(?:игнорируй|игнорировать|забудь|забыть|отмени|не обращай внимания на)\S*.{0,40}(?:инструкци|указани|правил|промпт|контекст)/,
+  /(?:ko'rsatma|qoida|yo'riqnoma|prompt)\S*.{0,40}(?:e'tiborsiz|unut|bekor qil|inobatga olma)/,
+  /(?:e'tiborsiz qoldir|unut)\S*.{0,40}(?:ko'rsatma|qoida|prompt)/,
+  // Prompt extraction
+  /\b(?:reveal|show|print|repeat|output|tell me)\b.{0,30}\b(?:system prompt|your (?:instructions|prompt|rules))\b/,
+  /(?:покажи|выведи|повтори|раскрой|напиши)\S*.{0,30}(?:системн\S* (?:промпт|инструкци)|сво\S* (?:инструкци|промпт|правил))/,
+  /(?:tizim|sistem)\S* (?:prompt|ko'rsatma)/,
+  /\bsystem prompt\b|системн\S* промпт/,
+  // Role hijacking
+  /\b(?:you are now|from now on you are|pretend (?:to be|you are)|roleplay as)\b/,
+  // "act as" only with a role that unlocks something ("act as a friendly agent" is a tone request)
+  /\bact as (?:an? |the |if you (?:are|were) )?(?:system|developer|admin(?:istrator)?|root|dan|unrestricted|uncensored|unfiltered|jailbroken|evil)\b/,
+  /(?:теперь ты|ты теперь|притворись|представь, что ты|веди себя как)\s/,
+  /\b(?:developer mode|jailbreak|dan mode|do anything now)\b/,
+  // Chat-template and role markers
+  /<\|?\s*(?:im_start|im_end|system|endoftext)\s*\|?>/,
+  /\[\/?(?:inst|sys)\]/,
+  /^\s*#{0,3}\s*(?:system|assistant|developer)\s*:/m,
+];
+
+// Tasks that are never a property listing
+const OFF_TOPIC_PATTERNS: RegExp[] = [
+  /\b(?:write|generate|create)\b.{0,30}\b(?:code|script|program|poem|essay|song|story|homework|letter)\b/,
+  /(?:напиши|сочини|составь|создай)\S*.{0,30}(?:код|скрипт|программ|стих|эссе|сочинени|песн|рассказ|реферат|домашн)/,
+  /(?:yozib ber|yoz|tuzib ber)\S*.{0,30}(?:kod|dastur|she'r|insho|qo'shiq|hikoya|referat|uy vazifa)/,
+  /(?:kod|dastur|she'r|insho|qo'shiq|hikoya|referat)\S*.{0,30}(?:yozib ber|tuzib ber)/,
+  /\b(?:python|javascript|typescript|sql|html|css|c\+\+|java)\b/,
+  // Translation: the output language is picked separately
+  /\btranslate\b.{0,40}\b(?:into|to|from)\b/,
+  /(?:переведи|перевести|сделай перевод)\S*/,
+  /tarjima qil/,
+];
+
+// Any of these marks the text as being about real estate: Uzbek/Russian stems
+// match at the start of a word, English terms as whole words
+const REAL_ESTATE_STEMS = /(?<!\p{L})(?:kvartir|kvartal|xonadon|xonali|uy(?!\p{L})|uyi|hovli|dacha|ijara|sot[aiuq]|sotix|uchastka|ofis|bino|qavat|ko'chmas|makler|rieltor|remont|ta'mir|tuman|massiv|mavze|mahalla|metro|egasi|kelish|ipoteka|novostroyka|kvadrat|квартир|квартал|комнат|дом(?!\p{L})|дома|коттедж|дач|участ|сотк|аренд|сда[юёемт]|прода|офис|помещени|здани|этаж|недвижим|ипотек|новострой|ремонт|район|массив|микрорайон|мкр|метро|хозяин|собственник|торг|риелтор)/u;
+const REAL_ESTATE_WORDS = /\b(?:apartments?|flats?|house|villa|rent|lease|for sale|office|land|plot|floor|rooms?|price|area|real estate|property)\b/;
+// Agent shorthand: "3/9", "75kv", "65 ming $", "48 тыс"
+const REAL_ESTATE_SHORTHAND = /\d\s*\/\s*\d|\d\s*(?:\$|у\.?\s?е|ming|тыс|mln|млн|kv|кв|m2|м2|m²|м²|sqm|sotix|сот)/;
+
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF\u00AD]/g;
+
+/**
+ * Lowercase, strip invisible characters and unify apostrophes so that
+ * zero-width-split words or "ko‘rsatma" match the patterns above
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(ZERO_WIDTH, '')
+    .replace(/[\u2018\u2019\u02BB\u02BC`]/g, "'")
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+}
+
+export function detectInjection(text: string): boolean {
+  const normalized = normalize(text);
+  return INJECTION_PATTERNS.some((pattern) => pattern.test(normalized));
+}
+
+function isOffTopicTask(text: string): boolean {
+  const normalized = normalize(text);
+  return OFF_TOPIC_PATTERNS.some((pattern) => pattern.test(normalized));
+}
+
+function looksLikeRealEstate(text: string): boolean {
+  const normalized = normalize(text);
+  if ([REAL_ESTATE_STEMS, REAL_ESTATE_WORDS, REAL_ESTATE_SHORTHAND].some((pattern) => pattern.test(normalized))) return true;
+  // The parser defaults `type`, so only the facts it actually found count
+  const parsed = parsePropertyText(text);
+  return parsed.rooms !== undefined
+    || parsed.area !== undefined
+    || parsed.price !== undefined
+    || parsed.location !== undefined
+    || (parsed.features?.length ?? 0) > 0;
+}
+
+/**
+ * Inspect every user-controlled string that ends up in the LLM messages
+ */
+export function inspectGenerationInput(input: GuardInput): GuardResult {
+  const fields: [keyof typeof GUARD_LIMITS, string | undefined][] = [
+    ['rawInput', input.rawInput],
+    ['previousText', input.previousText],
+    ['instruction', input.instruction],
+    ['voiceInstructions', input.voiceInstructions],
+  ];
+
+  for (const [field, value] of fields) {
+    if (value && value.length > GUARD_LIMITS[field]) {
+      return { allowed: false, reason: 'too_long', field };
+    }
+  }
+
+  for (const [field, value] of fields) {
+    if (value && detectInjection(value)) {
+      return { allowed: false, reason: 'injection', field };
+    }
+  }
+
+  if (input.instruction && isOffTopicTask(input.instruction)) {
+    return { allowed: false, reason: 'off_topic', field: 'instruction' };
+  }
+
+  const rawInput = input.rawInput?.trim() ?? '';
+  if (rawInput) {
+    // Explicit code/essay/translation tasks are rejected even when they mention property
+    if (isOffTopicTask(rawInput)) {
+      return { allowed: false, reason: 'off_topic', field: 'rawInput' };
+    }
+    // Very short notes ("3x 65k") are let through; the parser may simply not know the shorthand
+    if (rawInput.length >= 15 && !input.hasDetails && !looksLikeRealEstate(rawInput)) {
+      return { allowed: false, reason: 'off_topic', field: 'rawInput' };
+    }
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  checkRateLimit,
+  evaluateSlidingWindow,
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  rateLimitHeaders,
+  RATE_LIMITS,
+} from './rate-limiter';
+
+const RULE = { limit: 3, windowMs: 60_000 };
+
+function clockedStore(start: number) {
+  const clock = { now: start };
+  return { clock, store: new MemoryRateLimitStore(() => clock.now) };
+}
+
+describe('evaluateSlidingWindow', () => {
+  it('weights the previous window by how much of it still overlaps', () => {
+    // Halfway through, previous hits count half
+    expect(evaluateSlidingWindow(6, 0, 90_000, RULE)).toMatchObject({ allowed: false, remaining: 0 });
+    expect(evaluateSlidingWindow(4, 0, 90_000, RULE)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(evaluateSlidingWindow(2, 0, 90_000, RULE)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('asks to retry once enough of the previous window has decayed', () => {
+    // 3 previous + 1 current at 90s: allowed again when 3 × weight ≤ 1, i.e. at 100s
+    expect(evaluateSlidingWindow(3, 1, 90_000, RULE)).toMatchObject({ allowed: false, retryAfterMs: 10_000, resetAt: 120_000 });
+  });
+
+  it('asks to retry at the next window when the current one is full', () => {
+    expect(evaluateSlidingWindow(0, 3, 75_000, RULE)).toMatchObject({ allowed: false, retryAfterMs: 45_000 });
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('counts down the remaining quota and blocks past the limit', async () => {
+    const { store } = clockedStore(1_000);
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await store.hit('ip:1', RULE));
+
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((r) => r.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].retryAfterMs).toBe(59_000);
+  });
+
+  it('lets requests through again as the window slides on', async () => {
+    const { clock, store } = clockedStore(1_000);
+    for (let i = 0; i < 3; i++) await store.hit('ip:1', RULE);
+
+    clock.now = 90_000;
+    expect((await store.hit('ip:1', RULE)).allowed).toBe(true);
+    const blocked = await store.hit('ip:1', RULE);
+    expect(blocked).toMatchObject({ allowed: false, retryAfterMs: 10_000 });
+
+    clock.now = 100_000;
+    expect((await store.hit('ip:1', RULE)).allowed).toBe(true);
+
+    // Two windows later nothing is left of the old hits
+    clock.now = 185_000;
+    expect(await store.hit('ip:1', RULE)).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('keeps keys apart', async () => {
+    const { store } = clockedStore(1_000);
+    for (let i = 0; i < 3; i++) await store.hit('ip:1', RULE);
+    expect((await store.hit('ip:2', RULE)).allowed).toBe(true);
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('reports the quota without Retry-After while allowed', () => {
+    const headers = rateLimitHeaders({ allowed: true, limit: 20, remaining: 7, resetAt: 120_000, retryAfterMs: 0 });
+    expect(headers).toEqual({ 'X-RateLimit-Limit': '20', 'X-RateLimit-Remaining': '7', 'X-RateLimit-Reset': '120' });
+  });
+
+  it('rounds Retry-After up to whole seconds, at least one', () => {
+    expect(rateLimitHeaders({ allowed: false, limit: 20, remaining: 0, resetAt: 120_000, retryAfterMs: 10_200 })['Retry-After']).toBe('11');
+    expect(rateLimitHeaders({ allowed: false, limit: 20, remaining: 0, resetAt: 120_000, retryAfterMs: 0 })['Retry-After']).toBe('1');
+  });
+});
+
+describe('checkRateLimit', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fails open when the rate_limit_hit RPC errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const client = { rpc: async () => ({ data: null, error: { message: 'connection refused' } }) } as unknown as SupabaseClient;
+
+    const result = await checkRateLimit('generate-description', '42', new PostgresRateLimitStore(client));
+
+    expect(result).toMatchObject({ allowed: true, remaining: RATE_LIMITS['generate-description'].limit, retryAfterMs: 0 });
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('maps the RPC row to a result', async () => {
+    const retryAt = new Date(Date.now() + 30_000).toISOString();
+    const client = {
+      rpc: async () => ({ data: [{ allowed: false, remaining: 0, retry_at: retryAt, reset_at: retryAt }], error: null }),
+    } as unknown as SupabaseClient;
+
+    const result = await checkRateLimit('send-to-chat', '42', new PostgresRateLimitStore(client));
+
+    expect(result.allowed).toBe(false);
+    expect(result.retryAfterMs).toBeGreaterThan(29_000);
+    expect(result.retryAfterMs).toBeLessThanOrEqual(30_000);
+  });
+});
@@ -0,0 +1,225 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// ==========================================
+// Distributed Rate Limiter
+// ==========================================
+//
+// Sliding window counter shared by every serverless instance through the
+// `rate_limit_hit` RPC (supabase/migrations/20261022_rate_limits.sql).
+// Without Supabase credentials, or with RATE_LIMIT_STORE=memory, a
+// per-process store with the same algorithm is used (local dev, tests).
+// Store failures fail open: an outage must not take the API down with it.
+
+export interface RateLimitRule {
+  limit: number;    // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;     // Epoch ms when the current window ends
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimitStore {
+  hit(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
+
+export type RateLimitScope = 'generate-description' | 'generate-video' | 'send-to-chat' | 'create-invoice' | 'analyze-image';
+
+export const RATE_LIMITS: Record<RateLimitScope, RateLimitRule> = {
+  'generate-description': { limit: 20, windowMs: 60 * 1000 },
+  'generate-video': { limit: 5, windowMs: 10 * 60 * 1000 },
+  'send-to-chat': { limit: 30, windowMs: 60 * 1000 },
+  'create-invoice': { limit: 10, windowMs: 60 * 1000 },
+  'analyze-image': { limit: 10, windowMs: 60 * 1000 },
+};
+
+// ==========================================
+// Sliding Window Math (shared with the SQL function)
+// ==========================================
+
+/**
+ * Decide one hit given the previous and current fixed-window counts
+ */
+export function evaluateSlidingWindow(
+  previous: number,
+  current: number,
+  now: number,
+  rule: RateLimitRule
+): RateLimitResult {
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+  const resetAt = windowStart + rule.windowMs;
+  const weight = 1 - (now - windowStart) / rule.windowMs;
+  const estimated = previous * weight + current;
+
+  if (estimated + 1 > rule.limit) {
+    // Wait until the previous window's share has decayed enough, or else for the next window
+    const retryAt = previous > 0 && current + 1 <= rule.limit
+      ? windowStart + rule.windowMs * (1 - (rule.limit - 1 - current) / previous)
+      : resetAt;
+    return { allowed: false, limit: rule.limit, remaining: 0, resetAt, retryAfterMs: Math.max(0, retryAt - now) };
+  }
+
+  return {
+    allowed: true,
+    limit: rule.limit,
+    remaining: Math.max(0, Math.floor(rule.limit - estimated - 1)),
+    resetAt,
+    retryAfterMs: 0,
+  };
+}
+
+// ==========================================
+// Stores
+// ==========================================
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, number>(); // "<key>@<windowStart>" -> count
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  async hit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = this.now();
+    const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+    const currentKey = `${key}@${windowStart}`;
+
+    this.cleanup(now, rule.windowMs);
+
+    const previous = this.windows.get(`${key}@${windowStart - rule.windowMs}`) ?? 0;
+    const current = this.windows.get(currentKey) ?? 0;
+    const result = evaluateSlidingWindow(previous, current, now, rule);
+    if (result.allowed) this.windows.set(currentKey, current + 1);
+    return result;
+  }
+
+  private cleanup(now: number, windowMs: number): void {
+    // Lazy cleanup, same idea as the old per-handler ipCache
+    if (this.windows.size < 1000) return;
+    for (const entry of this.windows.keys()) {
+      const start = Number(entry.slice(entry.lastIndexOf('@') + 1));
+      if (start < now - 2 * windowMs) this.windows.delete(entry);
+    }
+  }
+}
+
+interface RateLimitHitRow {
+  allowed: boolean;
+  remaining: number;
+  retry_at: string | null;
+  reset_at: string;
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private client: SupabaseClient;
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  async hit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const { data, error } = await this.client.rpc('rate_limit_hit', {
+      p_key: key,
+      p_limit: rule.limit,
+      p_window_seconds: Math.round(rule.windowMs / 1000),
+    });
+    if (error) throw new Error(`rate_limit_hit failed: ${error.message}`);
+
+    const row = (Array.isArray(data) ? data[0] : data) as RateLimitHitRow | undefined;
+    if (!row) throw new Error('rate_limit_hit returned no row');
+
+    const now = Date.now();
+    return {
+      allowed: row.allowed,
+      limit: rule.limit,
+      remaining: row.remaining,
+      resetAt: new Date(row.reset_at).getTime(),
+      retryAfterMs: row.retry_at ? Math.max(0, new Date(row.retry_at).getTime() - now) : 0,
+    };
+  }
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+/**
+ * Postgres-backed store when Supabase is configured, in-memory otherwise
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (defaultStore) return defaultStore;
+
+  const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (process.env.RATE_LIMIT_STORE !== 'memory' && supabaseUrl && supabaseKey) {
+    defaultStore = new PostgresRateLimitStore(createClient(supabaseUrl, supabaseKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    }));
+  } else {
+    defaultStore = new MemoryRateLimitStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Override the store (tests)
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  defaultStore = store;
+}
+
+// ==========================================
+// Handler Helpers
+// ==========================================
+
+type HeaderSource = Headers | Record<string, string | string[] | undefined>;
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (headers instanceof Headers) return headers.get(name) ?? undefined;
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * First hop of x-forwarded-for (the client), as set by Vercel
+ */
+export function getClientIp(headers: HeaderSource): string {
+  const forwarded = readHeader(headers, 'x-forwarded-for');
+  return forwarded?.split(',')[0].trim() || readHeader(headers, 'x-real-ip') || 'unknown';
+}
+
+/**
+ * Count one request for `identifier` (IP or telegram_id) in `scope`
+ */
+export async function checkRateLimit(
+  scope: RateLimitScope,
+  identifier: string,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitResult> {
+  const rule = RATE_LIMITS[scope];
+  try {
+    return await store.hit(`${scope}:${identifier}`, rule);
+  } catch (error) {
+    console.error('Rate limiter unavailable, allowing request:', error instanceof Error ? error.message : error);
+    return { allowed: true, limit: rule.limit, remaining: rule.limit, resetAt: Date.now() + rule.windowMs, retryAfterMs: 0 };
+  }
+}
+
+/**
+ * Retry-After (when blocked) and X-RateLimit-* quota headers
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)),
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)));
+  }
+  return headers;
+}
@@ -4,6 +4,7 @@ import fs from 'fs';
 import FormData from 'form-data';
 import fetch from 'node-fetch';
 import { validateTelegramWebAppData } from './lib/telegram-utils.js';
+import { checkRateLimit, getClientIp, rateLimitHeaders } from './lib/rate-limiter.js';
 
 export const config = {
   api: {
@@ -16,6 +17,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const rateLimit = await checkRateLimit('send-to-chat', getClientIp(req.headers));
+  for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+    res.setHeader(name, value);
+  }
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: 'Too many requests. Please wait.', code: 'IP_RATE_LIMIT' });
+  }
+
   const botToken = process.env.TELEGRAM_BOT_TOKEN;
   if (!botToken) {
     return res.status(500).json({ error: 'Server configuration error' });
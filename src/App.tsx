@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { Toaster } from '@/components/ui/sonner';
 import { useTelegram } from '@/hooks';
-import { useAppStore, useUserStore, useHistoryStore, useSettingsStore } from '@/store';
+import { useAppStore, useUserStore, useHistoryStore, useListingStore, useVoiceProfileStore, useGenerationVersionStore, useWatermarkPresetStore, useFontStore, useSettingsStore } from '@/store';
 import { getUserProfile } from '@/services/userService';
 import { APP_NAME } from '@/constants';
 import { ProcessingOverlay } from '@/components/ui/processing-overlay';
@@ -49,8 +49,13 @@ function App() {
                 const profile = await getUserProfile(telegramUser);
                 if (profile) setUser(profile);
                 
-                // Load History
+                // Load History, Listings, Voice Profiles, Generation Versions, Watermark Presets & Fonts
                 useHistoryStore.getState().loadHistory();
+                useListingStore.getState().loadListings();
+                useVoiceProfileStore.getState().loadProfiles();
+                useGenerationVersionStore.getState().loadVersions();
+                useWatermarkPresetStore.getState().loadPresets();
+                useFontStore.getState().loadFonts();
             }
         } catch (error) {
             console.error("Failed to init user:", error);
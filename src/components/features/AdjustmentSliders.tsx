@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Slider } from '@/components/ui/slider';
+import type { EnhancementConfig } from '@/types';
+
+type AdjustmentKey = Exclude<keyof EnhancementConfig, 'geometry'>;
+
+const SLIDERS: { key: AdjustmentKey; min: number; max: number }[] = [
+  { key: 'brightness', min: -100, max: 100 },
+  { key: 'contrast', min: -100, max: 100 },
+  { key: 'highlights', min: -100, max: 100 },
+  { key: 'shadows', min: -100, max: 100 },
+  { key: 'temperature', min: -100, max: 100 },
+  { key: 'tint', min: -100, max: 100 },
+  { key: 'saturation', min: -100, max: 100 },
+  { key: 'sharpness', min: 0, max: 100 },
+  { key: 'hdrShadows', min: 0, max: 100 },
+  { key: 'hdrHighlights', min: 0, max: 100 },
+  { key: 'hdrDetail', min: 0, max: 100 },
+];
+
+interface AdjustmentSlidersProps {
+  value: EnhancementConfig;
+  initial: EnhancementConfig;               // Computed for this photo, what Reset goes back to
+  disabled?: boolean;
+  onChange: (value: EnhancementConfig) => void;
+  onCommit: (value: EnhancementConfig) => void; // Slider released: re-render the preview
+}
+
+/**
+ * Magic Fix fine-tuning; starts from the values measured for the photo
+ */
+export function AdjustmentSliders({ value, initial, disabled, onChange, onCommit }: AdjustmentSlidersProps) {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const isModified = SLIDERS.some(({ key }) => (value[key] ?? 0) !== (initial[key] ?? 0));
+  // Reset covers the sliders here only, not straightening
+  const reset = SLIDERS.reduce<EnhancementConfig>((next, { key }) => ({ ...next, [key]: initial[key] }), value);
+
+  return (
+    <div className="rounded-2xl bg-white/5 border border-white/10">
+      <div className="flex items-center justify-between px-4 py-3">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-sm font-medium text-gray-300"
+        >
+          <SlidersHorizontal className="h-4 w-4 text-blue-400" />
+          {t('modules.magic_fix.adjust.title')}
+          <ChevronDown className={`h-4 w-4 text-gray-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+        {isModified && (
+          <button
+            onClick={() => onCommit(reset)}
+            disabled={disabled}
+            className="flex items-center gap-1 text-xs font-medium text-gray-400 hover:text-white disabled:opacity-40"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            {t('modules.magic_fix.adjust.reset')}
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="grid grid-cols-2 gap-x-5 gap-y-4 px-4 pb-4">
+              {SLIDERS.map(({ key, min, max }) => {
+                const current = value[key] ?? 0;
+                return (
+                  <div key={key} className="space-y-2">
+                    <div className="flex justify-between text-[11px] font-medium text-gray-400">
+                      <span>{t(`modules.magic_fix.adjust.${key}`)}</span>
+                      <span className={current !== (initial[key] ?? 0) ? 'text-blue-400' : 'text-gray-500'}>
+                        {current > 0 && min < 0 ? `+${current}` : current}
+                      </span>
+                    </div>
+                    <Slider
+                      value={[current]}
+                      min={min}
+                      max={max}
+                      step={1}
+                      disabled={disabled}
+                      onValueChange={([next]) => onChange({ ...value, [key]: next })}
+                      onValueCommit={([next]) => onCommit({ ...value, [key]: next })}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
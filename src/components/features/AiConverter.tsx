@@ -1,27 +1,57 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
-import { useHistoryStore, useAppStore, useUserStore } from '@/store';
+import {
+  useHistoryStore,
+  useAppStore,
+  useUserStore,
+  useListingStore,
+  selectActiveListing,
+  useVoiceProfileStore,
+  selectActiveVoiceProfile,
+  useGenerationVersionStore,
+  useImageStore
+} from '@/store';
 import { useTelegram, useNetwork } from '@/hooks';
 import { 
-  generateDescription, 
+  streamDescription, 
+  generateDescriptions,
   LimitExceededError, 
   AIServiceError,
+  InputRejectedError,
+  RateLimitedError,
+  GenerationCancelledError,
+  type StreamDescriptionOptions,
   getUsageStatus,
-  copyToClipboard 
+  copyToClipboard,
+  extractPropertyDetails,
+  analyzeListingPhotos,
+  getPlatformLimits
 } from '@/services/aiService';
-import { updateGenerations } from '@/services/userService';
+import type { GeneratedDescriptions, Platform, OutputLanguage, GenerationTone, GenerationVersion, PhotoFindings, RoomType } from '@/types';
+import type { FactWarning } from '@/utils/factChecker';
+import { validatePropertyDetails, type ParsedPropertyDetails } from '@/utils/propertyParser';
+import { CORE_PLATFORMS } from '@/utils/platformFormat';
+import { PHOTO_LIMITS } from '@/utils/photoFindings';
+import { detectUzbekScript, toUzbekScript } from '@/utils/transliterate';
 import {
   copyToClipboard as copyText,
   shareToTelegram,
   shareToOLX,
+  shareToUybor,
+  shareToFacebookMarketplace,
+  shareToWhatsApp,
+  shareToSMS,
   trackShareEvent,
+  type ShareResult,
   triggerHapticFeedback
 } from '@/services/shareService';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { ListingSelector } from '@/components/features/ListingSelector';
+import { PropertyDetailsForm } from '@/components/features/PropertyDetailsForm';
 
 import { 
   FileText, 
@@ -35,11 +65,22 @@ import {
   Send,
   ExternalLink,
   Instagram,
-  ShoppingBag
+  ShoppingBag,
+  Building2,
+  ScanText,
+  Square,
+  Layers,
+  ShieldCheck,
+  House,
+  Facebook,
+  MessageCircle,
+  MessageSquareText,
+  Images,
+  X
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 
-type Platform = 'telegram' | 'instagram' | 'olx';
+type Target = Platform | 'all';
 
 // ===================================
 // Premium Modal Component
@@ -258,14 +299,50 @@ function LoadingState() {
 interface ShareButtonsPanelProps {
   text: string;
   telegramId: string;
+  platform: Platform; // Adds a share button for targets outside the Telegram/OLX pair
 }
 
-function ShareButtonsPanel({ text, telegramId }: ShareButtonsPanelProps) {
+// Targets with their own share action, shown for text generated for them
+const EXTRA_SHARE_TARGETS: Partial<Record<Platform, {
+  label: string;
+  icon: typeof Send;
+  className: string;
+  share: (text: string) => Promise<ShareResult>;
+}>> = {
+  uybor: {
+    label: 'uybor.uz',
+    icon: House,
+    className: 'bg-gradient-to-r from-orange-500 to-amber-500 shadow-orange-500/25',
+    share: shareToUybor,
+  },
+  facebook: {
+    label: 'Facebook Marketplace',
+    icon: Facebook,
+    className: 'bg-[#1877F2] hover:bg-[#166FE5] shadow-[#1877F2]/25',
+    share: shareToFacebookMarketplace,
+  },
+  whatsapp: {
+    label: 'WhatsApp',
+    icon: MessageCircle,
+    className: 'bg-[#25D366] hover:bg-[#20BD5A] shadow-[#25D366]/25',
+    share: shareToWhatsApp,
+  },
+  sms: {
+    label: 'SMS',
+    icon: MessageSquareText,
+    className: 'bg-gradient-to-r from-slate-600 to-slate-500 shadow-slate-500/25',
+    share: shareToSMS,
+  },
+};
+
+function ShareButtonsPanel({ text, telegramId, platform }: ShareButtonsPanelProps) {
   const { t } = useTranslation();
   const [isCopying, setIsCopying] = useState(false);
   const [isSharingTelegram, setIsSharingTelegram] = useState(false);
   const [isSharingOLX, setIsSharingOLX] = useState(false);
+  const [isSharingExtra, setIsSharingExtra] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
+  const extraTarget = EXTRA_SHARE_TARGETS[platform];
 
   const handleCopyDescription = async () => {
     setIsCopying(true);
@@ -350,6 +427,31 @@ function ShareButtonsPanel({ text, telegramId }: ShareButtonsPanelProps) {
     }
   };
 
+  const handleShareExtra = async () => {
+    if (!extraTarget) return;
+    setIsSharingExtra(true);
+    try {
+      const result = await extraTarget.share(text);
+
+      if (result.success) {
+        triggerHapticFeedback('success');
+        toast.success(t('modules.ai.share.target_opened', { target: extraTarget.label }), {
+          description: t(`modules.ai.share.hints.${platform}`),
+          icon: <ExternalLink className="h-4 w-4" />,
+        });
+
+        if (telegramId) {
+          trackShareEvent(telegramId, platform, true);
+        }
+      } else {
+        toast.error(result.error || t('common.error'));
+        triggerHapticFeedback('error');
+      }
+    } finally {
+      setIsSharingExtra(false);
+    }
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -430,6 +532,26 @@ function ShareButtonsPanel({ text, telegramId }: ShareButtonsPanelProps) {
         </motion.button>
       </div>
 
+      {/* Target-specific Button */}
+      {extraTarget && (
+        <motion.button
+          whileHover={{ scale: 1.01 }}
+          whileTap={{ scale: 0.99 }}
+          onClick={handleShareExtra}
+          disabled={isSharingExtra}
+          className={`w-full flex items-center justify-center gap-2 py-3.5 px-4 rounded-xl font-semibold text-sm text-white shadow-lg transition-all duration-200 ${extraTarget.className}`}
+        >
+          {isSharingExtra ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <>
+              <extraTarget.icon className="h-4 w-4" />
+              {extraTarget.label}
+            </>
+          )}
+        </motion.button>
+      )}
+
       {/* Tip */}
       <p className="text-center text-[10px] text-gray-500/70">
         💡 {t('modules.ai.share.tip')}
@@ -438,22 +560,117 @@ function ShareButtonsPanel({ text, telegramId }: ShareButtonsPanelProps) {
   );
 }
 
+// ===================================
+// Fact Check Warnings
+// ===================================
+
+function FactWarningsPanel({ warnings }: { warnings: FactWarning[] }) {
+  const { t } = useTranslation();
+
+  if (warnings.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 space-y-1.5"
+    >
+      <p className="text-xs font-bold text-amber-600 dark:text-amber-300 flex items-center gap-1.5">
+        <ShieldCheck className="h-3.5 w-3.5" />
+        {t('modules.ai.facts.title')}
+      </p>
+      {warnings.map((warning, i) => {
+        const field = t(`modules.ai.facts.fields.${warning.field}`);
+        const key = warning.corrected ? 'corrected' : warning.kind;
+        return (
+          <p key={i} className="text-[11px] text-amber-700 dark:text-amber-200/80">
+            {warning.corrected ? '✓ ' : '⚠️ '}
+            {t(`modules.ai.facts.${key}`, { field, found: warning.found, expected: warning.expected })}
+          </p>
+        );
+      })}
+    </motion.div>
+  );
+}
+
+function PhotoFindingsPanel({ findings, onClear }: { findings: PhotoFindings; onClear: () => void }) {
+  const { t } = useTranslation();
+
+  const chips = [
+    ...(Object.entries(findings.rooms) as [RoomType, number][])
+      .filter(([room]) => room !== 'other')
+      .map(([room, count]) => `${t(`modules.ai.photos.rooms.${room}`)}${count > 1 ? ` ×${count}` : ''}`),
+    findings.renovation ? t(`modules.ai.photos.renovation.${findings.renovation}`) : '',
+    findings.furnished !== undefined ? t(findings.furnished ? 'modules.ai.photos.furnished' : 'modules.ai.photos.unfurnished') : '',
+    findings.light ? t(`modules.ai.photos.light.${findings.light}`) : '',
+    ...findings.views.map((view) => `${t('modules.ai.photos.view')}: ${view}`),
+    ...findings.features,
+  ].filter(Boolean);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="p-3 rounded-xl bg-cyan-500/10 border border-cyan-500/20 space-y-2"
+    >
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-bold text-cyan-700 dark:text-cyan-300 flex items-center gap-1.5">
+          <Images className="h-3.5 w-3.5" />
+          {t('modules.ai.photos.title', { count: findings.photos.length })}
+        </p>
+        <button onClick={onClear} className="p-1 text-cyan-700/60 dark:text-cyan-300/60 hover:text-cyan-700 dark:hover:text-cyan-200">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {chips.map((chip) => (
+          <span key={chip} className="px-2 py-0.5 rounded-md bg-white/60 dark:bg-black/30 text-[11px] text-cyan-900 dark:text-cyan-100">
+            {chip}
+          </span>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
+
 // ===================================
 // Main Component
 // ===================================
 
 export function AiConverter() {
   const { t, i18n } = useTranslation();
-  const { setProcessing, isProcessing } = useAppStore();
+  const { setProcessing, isProcessing, setCurrentView } = useAppStore();
   const { user } = useUserStore();
   const { isOnline } = useNetwork();
   const { addItem } = useHistoryStore();
   const { hapticFeedback, user: telegramUser } = useTelegram();
+  const activeListing = useListingStore(selectActiveListing);
+  const { attachDescription, updateDetails, isSaving: isSavingListing } = useListingStore();
+  const { profiles: voiceProfiles, selectProfile } = useVoiceProfileStore();
+  const voiceProfile = useVoiceProfileStore(selectActiveVoiceProfile);
+  const { versions, openVersionId, recordVersion, openVersion } = useGenerationVersionStore();
+  const { images, processedImages } = useImageStore();
   
   const [rawInput, setRawInput] = useState('');
-  const [platform, setPlatform] = useState<Platform>('telegram');
-  const [tone, setTone] = useState<'expert' | 'emotional' | 'minimalist'>('expert');
+  const [platform, setPlatform] = useState<Target>('telegram');
+  const [tone, setTone] = useState<GenerationTone>('expert');
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>(i18n.language === 'ru' ? 'ru' : 'uz');
+  const [resultLanguage, setResultLanguage] = useState<OutputLanguage>(outputLanguage);
   const [generatedText, setGeneratedText] = useState('');
+  const [descriptions, setDescriptions] = useState<GeneratedDescriptions | null>(null);
+  const [activeTab, setActiveTab] = useState<Platform>('telegram');
+  const [factWarnings, setFactWarnings] = useState<Partial<Record<Platform, FactWarning[]>>>({});
+  const [details, setDetails] = useState<ParsedPropertyDetails | null>(null);
+  const [detailsVersion, setDetailsVersion] = useState(0);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [photoFindings, setPhotoFindings] = useState<PhotoFindings | null>(null);
+  const [isAnalyzingPhotos, setIsAnalyzingPhotos] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const providerRef = useRef<string | null>(null);
+  // Latest version per platform; refinements are recorded as its children
+  const [versionHeads, setVersionHeads] = useState<Partial<Record<Platform, GenerationVersion>>>({});
   const [copied, setCopied] = useState(false);
   const [showPremiumModal, setShowPremiumModal] = useState(false);
   const [usageStatus, setUsageStatus] = useState(() => getUsageStatus());
@@ -463,6 +680,112 @@ export function AiConverter() {
     setUsageStatus(getUsageStatus());
   }, [user.dailyGenerations, user.isPremium]);
 
+  // Stop an in-flight stream when leaving the screen
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // A version restored or opened from the Gallery replaces the result card
+  useEffect(() => {
+    if (!openVersionId) return;
+    const version = versions.find((v) => v.id === openVersionId);
+    openVersion(null);
+    if (!version) return;
+
+    setPlatform(version.platform);
+    setTone(version.tone);
+    setOutputLanguage(version.language);
+    setResultLanguage(version.language);
+    setRawInput(version.rawInput);
+    setDescriptions(null);
+    setFactWarnings({});
+    setGeneratedText(version.output);
+    setVersionHeads({ [version.platform]: version });
+  }, [openVersionId, versions, openVersion]);
+
+  // Streams into the result card. The server counts the generation,
+  // so no extra usage sync is needed here.
+  const streamInto = async (target: Platform, options: StreamDescriptionOptions) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsStreaming(true);
+    providerRef.current = null;
+    try {
+      return await streamDescription(rawInput, target, {
+        ...options,
+        signal: controller.signal,
+        onProvider: (provider) => { providerRef.current = provider; },
+        onToken: setGeneratedText,
+        onWarnings: (warnings) => setFactWarnings((prev) => ({ ...prev, [target]: warnings }))
+      });
+    } finally {
+      abortRef.current = null;
+      setIsStreaming(false);
+    }
+  };
+
+  const handleSelectTab = (tab: Platform) => {
+    if (!descriptions || isProcessing) return;
+    hapticFeedback('selection');
+    setActiveTab(tab);
+    setGeneratedText(descriptions[tab] ?? '');
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    hapticFeedback('impact', 'light');
+  };
+
+  const handleExtract = async () => {
+    if (!rawInput.trim()) return;
+
+    try {
+      setIsExtracting(true);
+      hapticFeedback('impact', 'light');
+      const result = await extractPropertyDetails(rawInput);
+      setDetails(result.details);
+      setDetailsVersion((v) => v + 1);
+      if (result.warnings.length > 0) {
+        toast.warning(t('modules.ai.details.check_warning'));
+      }
+    } catch (error) {
+      console.error(error);
+      const code = error instanceof AIServiceError ? error.code : 'UNKNOWN_ERROR';
+      toast.error(t('common.error'), { description: t(`errors.${code}`, { defaultValue: t('errors.UNKNOWN_ERROR') }) });
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  // Listing photos first, then whatever is loaded in the photo tools
+  const photoSources = activeListing?.photos.length
+    ? activeListing.photos.map((photo) => photo.url)
+    : (processedImages.length ? processedImages : images).map((image) => image.preview);
+
+  const handleAnalyzePhotos = async () => {
+    if (photoSources.length === 0) return;
+
+    try {
+      setIsAnalyzingPhotos(true);
+      hapticFeedback('impact', 'light');
+      const result = await analyzeListingPhotos(photoSources);
+      setPhotoFindings(result.findings);
+      toast.success(t('modules.ai.photos.analyzed', { count: result.findings.photos.length }));
+    } catch (error) {
+      console.error(error);
+      const code = error instanceof RateLimitedError && error.retryAfterSeconds
+        ? 'IP_RATE_LIMIT_RETRY'
+        : error instanceof AIServiceError ? error.code : 'UNKNOWN_ERROR';
+      toast.error(t('common.error'), {
+        description: t(`errors.${code}`, {
+          defaultValue: t('errors.UNKNOWN_ERROR'),
+          seconds: error instanceof RateLimitedError ? error.retryAfterSeconds : undefined,
+        }),
+      });
+      hapticFeedback('notification');
+    } finally {
+      setIsAnalyzingPhotos(false);
+    }
+  };
+
   const handleGenerate = async () => {
     if (!isOnline) {
       toast.error(t('common.no_internet'), {
@@ -482,30 +805,67 @@ export function AiConverter() {
       setProcessing(true);
       hapticFeedback('impact');
       
-      const result = await generateDescription(rawInput, platform, { 
-        language: (i18n.language === 'ru' ? 'ru' : 'uz'),
-        tone: tone
-      });
-      setGeneratedText(result);
-      
-      // Sync with Supabase (only for non-premium users)
-      if (telegramUser?.id) {
-        await updateGenerations(String(telegramUser.id), user.isPremium);
+      const options = { 
+        language: outputLanguage,
+        tone: tone,
+        details: details ?? undefined,
+        voiceProfile: voiceProfile ?? undefined,
+        photoFindings: photoFindings ?? undefined
+      };
+      setResultLanguage(outputLanguage);
+
+      if (platform === 'all') {
+        // One request (and one usage unit) for every platform
+        providerRef.current = null;
+        const all = await generateDescriptions({ rawInput }, {
+          ...options,
+          onWarnings: setFactWarnings,
+          onProvider: (provider) => { providerRef.current = provider; }
+        });
+        setDescriptions(all);
+        setActiveTab('telegram');
+        setGeneratedText(all.telegram);
+        setVersionHeads(Object.fromEntries(CORE_PLATFORMS.map((p) => [
+          p,
+          recordVersion({ platform: p, language: outputLanguage, tone, rawInput, instruction: null, provider: providerRef.current, output: all[p] }),
+        ])));
+
+        addItem({
+          type: 'text',
+          title: `${PLATFORMS.filter((p) => CORE_PLATFORMS.some((core) => core === p.id)).map((p) => p.label).join(' / ')} ${t('modules.ai.title')}`,
+          data: CORE_PLATFORMS
+            .map((p) => `— ${p.toUpperCase()} —\n${all[p]}`)
+            .join('\n\n'),
+        });
+      } else {
+        setDescriptions(null);
+        setFactWarnings({});
+        const result = await streamInto(platform, options);
+        setGeneratedText(result);
+        setVersionHeads({
+          [platform]: recordVersion({ platform, language: outputLanguage, tone, rawInput, instruction: null, provider: providerRef.current, output: result }),
+        });
+
+        // Save to history
+        addItem({
+          type: 'text',
+          title: `${platform.toUpperCase()} ${t('modules.ai.title')}`,
+          data: result,
+        });
       }
       
-      // Save to history
-      addItem({
-        type: 'text',
-        title: `${platform.toUpperCase()} ${t('modules.ai.title')}`,
-        data: result,
-      });
-      
       toast.success(t('common.success') + '! ✨', {
         description: t('modules.ai.success_desc')
       });
       hapticFeedback('notification');
       
     } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        // Keep whatever was streamed so far
+        toast.info(t('modules.ai.cancelled'));
+        return;
+      }
+
       console.error(error);
       
       if (error instanceof LimitExceededError) {
@@ -516,8 +876,15 @@ export function AiConverter() {
       }
 
       if (error instanceof AIServiceError) {
-          const code = error.code || 'UNKNOWN_ERROR';
-          const msg = t(`errors.${code}`, { defaultValue: error.message });
+          const code = error instanceof InputRejectedError && error.reason
+            ? `INPUT_REJECTED_${error.reason.toUpperCase()}`
+            : error instanceof RateLimitedError && error.retryAfterSeconds
+              ? 'IP_RATE_LIMIT_RETRY'
+              : error.code || 'UNKNOWN_ERROR';
+          const msg = t(`errors.${code}`, {
+            defaultValue: error.message,
+            seconds: error instanceof RateLimitedError ? error.retryAfterSeconds : undefined,
+          });
           toast.error(t('common.error'), { description: msg });
           hapticFeedback('notification');
           return;
@@ -534,28 +901,47 @@ export function AiConverter() {
 
   const handleRefine = async (instruction: string) => {
     if (!generatedText) return;
+    const previousText = generatedText;
 
     try {
       setProcessing(true);
       hapticFeedback('impact');
       
-      const result = await generateDescription(rawInput, platform, {
-        previousText: generatedText,
+      // In tab mode only the visible platform is rewritten
+      const target = descriptions ? activeTab : platform as Platform;
+      const result = await streamInto(target, {
+        previousText,
         instruction,
-        language: (i18n.language === 'ru' ? 'ru' : 'uz')
+        language: outputLanguage,
+        voiceProfile: voiceProfile ?? undefined
       });
       
       setGeneratedText(result);
-      
-      // Update usage if applicable
-      if (telegramUser?.id) {
-        await updateGenerations(String(telegramUser.id), user.isPremium);
-      }
+      setDescriptions((prev) => prev ? { ...prev, [target]: result } : prev);
+
+      const parent = versionHeads[target];
+      const version = recordVersion({
+        platform: target,
+        language: outputLanguage,
+        tone: parent?.tone ?? tone,
+        rawInput: parent?.rawInput ?? rawInput,
+        instruction,
+        provider: providerRef.current,
+        output: result,
+      }, parent);
+      setVersionHeads((prev) => ({ ...prev, [target]: version }));
       
       toast.success(t('common.success') + '! ✨');
       hapticFeedback('notification');
       
     } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        // A half-rewritten post is worse than the original
+        setGeneratedText(previousText);
+        toast.info(t('modules.ai.cancelled'));
+        return;
+      }
+
       console.error(error);
       
       if (error instanceof LimitExceededError) {
@@ -565,8 +951,15 @@ export function AiConverter() {
       }
       
       if (error instanceof AIServiceError) {
-          const code = error.code || 'UNKNOWN_ERROR';
-          const msg = t(`errors.${code}`, { defaultValue: error.message });
+          const code = error instanceof InputRejectedError && error.reason
+            ? `INPUT_REJECTED_${error.reason.toUpperCase()}`
+            : error instanceof RateLimitedError && error.retryAfterSeconds
+              ? 'IP_RATE_LIMIT_RETRY'
+              : error.code || 'UNKNOWN_ERROR';
+          const msg = t(`errors.${code}`, {
+            defaultValue: error.message,
+            seconds: error instanceof RateLimitedError ? error.retryAfterSeconds : undefined,
+          });
           toast.error(t('common.error'), { description: msg });
           hapticFeedback('notification');
           return;
@@ -581,6 +974,17 @@ export function AiConverter() {
     }
   };
 
+  // Uzbek posts switch between Latin and Cyrillic without a new generation
+  const isUzbekResult = resultLanguage === 'uz' || resultLanguage === 'uz-cyrl';
+  const resultScript = detectUzbekScript(generatedText);
+
+  const handleToggleScript = () => {
+    const converted = toUzbekScript(generatedText, resultScript === 'latin' ? 'cyrillic' : 'latin');
+    setGeneratedText(converted);
+    setDescriptions((prev) => prev ? { ...prev, [activeTab]: converted } : prev);
+    hapticFeedback('selection');
+  };
+
   const handleCopy = async () => {
     if (!generatedText) return;
     
@@ -599,12 +1003,42 @@ export function AiConverter() {
     }
   };
 
+  const handleAttachToListing = async () => {
+    if (!activeListing || !generatedText) return;
+
+    try {
+      if (descriptions) {
+        for (const p of CORE_PLATFORMS) {
+          await attachDescription(activeListing.id, p, descriptions[p]);
+        }
+      } else {
+        await attachDescription(activeListing.id, platform as Platform, generatedText);
+      }
+      if (details || (rawInput.trim() && !activeListing.details.rawInput)) {
+        await updateDetails(activeListing.id, { ...details, rawInput: rawInput.trim() || activeListing.details.rawInput });
+      }
+      hapticFeedback('notification', 'success');
+      toast.success(t('modules.listing.attached'), { description: activeListing.title });
+    } catch {
+      toast.error(t('common.error'));
+    }
+  };
+
   const canGenerate = usageStatus.canGenerate;
 
-  const PLATFORMS: { id: Platform; label: string; icon: any; color: string }[] = [
+  // Platform of the text currently on screen
+  const shownPlatform: Platform = descriptions ? activeTab : platform === 'all' ? 'telegram' : platform;
+  const shownLimits = getPlatformLimits(shownPlatform, generatedText);
+
+  const PLATFORMS: { id: Target; label: string; icon: any; color: string }[] = [
     { id: 'telegram', label: 'Telegram', icon: Send, color: 'text-blue-500' },
     { id: 'instagram', label: 'Instagram', icon: Instagram, color: 'text-pink-500' },
-    { id: 'olx', label: 'OLX', icon: ShoppingBag, color: 'text-emerald-500' }
+    { id: 'olx', label: 'OLX', icon: ShoppingBag, color: 'text-emerald-500' },
+    { id: 'uybor', label: 'uybor.uz', icon: House, color: 'text-orange-500' },
+    { id: 'facebook', label: 'Facebook', icon: Facebook, color: 'text-[#1877F2]' },
+    { id: 'whatsapp', label: 'WhatsApp', icon: MessageCircle, color: 'text-[#25D366]' },
+    { id: 'sms', label: 'SMS', icon: MessageSquareText, color: 'text-slate-500' },
+    { id: 'all', label: t('modules.ai.all_platforms'), icon: Layers, color: 'text-violet-500' }
   ];
 
   return (
@@ -629,6 +1063,22 @@ export function AiConverter() {
           />
         </div>
 
+        {/* Active Listing */}
+        <ListingSelector
+          onOpen={(listing) => {
+            if (listing?.details.rawInput && !rawInput.trim()) {
+              setRawInput(listing.details.rawInput);
+            }
+            if (listing && !details) {
+              const { details: facts } = validatePropertyDetails(listing.details);
+              if (Object.keys(facts).length > 0) {
+                setDetails(facts);
+                setDetailsVersion((v) => v + 1);
+              }
+            }
+          }}
+        />
+
         {/* Improved Input Card */}
         <div className="space-y-4">
           <div className="bg-gray-50 dark:bg-black/20 p-4 rounded-2xl border border-gray-200 dark:border-white/10 shadow-sm">
@@ -649,8 +1099,47 @@ export function AiConverter() {
               className="min-h-[120px] bg-white dark:bg-black/20 border-gray-200 dark:border-white/5 text-gray-900 dark:text-gray-100 placeholder:text-gray-400 resize-none transition-all focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 rounded-xl text-base leading-relaxed"
               disabled={isProcessing}
             />
+
+            <button
+              onClick={handleExtract}
+              disabled={isProcessing || isExtracting || !rawInput.trim()}
+              className="mt-3 flex items-center gap-1.5 text-xs font-semibold text-blue-600 dark:text-blue-400 disabled:opacity-40"
+            >
+              {isExtracting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ScanText className="w-3.5 h-3.5" />}
+              {t('modules.ai.details.extract')}
+            </button>
+            {photoSources.length > 0 && (
+              <button
+                onClick={handleAnalyzePhotos}
+                disabled={isProcessing || isAnalyzingPhotos}
+                className="mt-2 flex items-center gap-1.5 text-xs font-semibold text-cyan-600 dark:text-cyan-400 disabled:opacity-40"
+              >
+                {isAnalyzingPhotos ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Images className="w-3.5 h-3.5" />}
+                {t('modules.ai.photos.analyze', { count: Math.min(photoSources.length, PHOTO_LIMITS.photos) })}
+              </button>
+            )}
           </div>
 
+          {/* Photo Findings */}
+          <AnimatePresence>
+            {photoFindings && (
+              <PhotoFindingsPanel findings={photoFindings} onClear={() => setPhotoFindings(null)} />
+            )}
+          </AnimatePresence>
+
+          {/* Extracted Details (editable) */}
+          <AnimatePresence>
+            {details && (
+              <PropertyDetailsForm
+                key={detailsVersion}
+                details={details}
+                onChange={setDetails}
+                onClear={() => setDetails(null)}
+                disabled={isProcessing}
+              />
+            )}
+          </AnimatePresence>
+
           {/* Tone Selector */}
           <div>
             <Label className="text-xs font-bold uppercase tracking-wider text-gray-400 mb-3 block ml-1">
@@ -680,17 +1169,80 @@ export function AiConverter() {
             </div>
           </div>
 
+          {/* Output Language */}
+          <div>
+            <Label className="text-xs font-bold uppercase tracking-wider text-gray-400 mb-3 block ml-1">
+              🌐 {t('modules.ai.output_language')}
+            </Label>
+            <div className="flex p-1 bg-gray-100 dark:bg-black/40 rounded-xl border border-gray-200 dark:border-white/5">
+              {([
+                { id: 'uz', label: 'Oʻzbekcha' },
+                { id: 'uz-cyrl', label: 'Ўзбекча' },
+                { id: 'ru', label: 'Русский' },
+                { id: 'en', label: 'English' }
+              ] as { id: OutputLanguage; label: string }[]).map((lang) => (
+                <button
+                  key={lang.id}
+                  onClick={() => {
+                    setOutputLanguage(lang.id);
+                    hapticFeedback('selection');
+                  }}
+                  className={`flex-1 py-1.5 px-2 rounded-lg text-[10px] font-bold transition-all ${
+                    outputLanguage === lang.id
+                      ? 'bg-white dark:bg-white/10 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {lang.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Agency Voice Profile */}
+          <div>
+            <Label className="text-xs font-bold uppercase tracking-wider text-gray-400 mb-3 block ml-1">
+              🎙 {t('modules.ai.voice.label')}
+            </Label>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {[{ id: null, name: t('modules.ai.voice.standard') }, ...voiceProfiles].map((profile) => (
+                <button
+                  key={profile.id ?? 'standard'}
+                  onClick={() => {
+                    selectProfile(profile.id);
+                    hapticFeedback('selection');
+                  }}
+                  className={`shrink-0 px-3 py-1.5 rounded-full text-[11px] font-bold border transition-all ${
+                    (voiceProfile?.id ?? null) === profile.id
+                      ? 'bg-blue-500/10 border-blue-500 text-blue-600 dark:text-blue-400'
+                      : 'bg-gray-50 dark:bg-black/20 border-gray-200 dark:border-white/10 text-gray-500'
+                  }`}
+                >
+                  {profile.name}
+                </button>
+              ))}
+              {voiceProfiles.length === 0 && (
+                <button
+                  onClick={() => setCurrentView('settings')}
+                  className="shrink-0 px-3 py-1.5 rounded-full text-[11px] font-bold border border-dashed border-gray-300 dark:border-white/20 text-gray-500"
+                >
+                  + {t('modules.ai.voice.create')}
+                </button>
+              )}
+            </div>
+          </div>
+
           {/* Visual Platform Selector */}
           <div>
             <Label className="text-xs font-bold uppercase tracking-wider text-gray-400 mb-3 block ml-1">
               {t('modules.ai.platform')}
             </Label>
-            <div className="grid grid-cols-3 gap-3">
+            <div className="grid grid-cols-4 gap-2">
               {PLATFORMS.map((p) => (
                 <button
                   key={p.id}
                   onClick={() => setPlatform(p.id)}
-                  className={`relative flex flex-col items-center justify-center gap-2 p-3 rounded-xl border transition-all duration-200 ${
+                  className={`relative flex flex-col items-center justify-center gap-2 p-2.5 rounded-xl border transition-all duration-200 ${
                     platform === p.id
                       ? 'bg-blue-500/10 border-blue-500 shadow-lg shadow-blue-500/10 scale-[1.02]'
                       : 'bg-gray-50 dark:bg-black/20 border-gray-200 dark:border-white/10 hover:bg-gray-100 dark:hover:bg-white/5'
@@ -709,14 +1261,19 @@ export function AiConverter() {
                 </button>
               ))}
             </div>
+            {platform === 'all' && (
+              <p className="mt-2 ml-1 text-[10px] text-gray-500">
+                {t('modules.ai.all_platforms_hint')}
+              </p>
+            )}
           </div>
         </div>
 
         {/* Generate Button */}
         <motion.div whileTap={{ scale: 0.98 }}>
           <Button
-            onClick={handleGenerate}
-            disabled={isProcessing || !rawInput.trim() || !canGenerate || !isOnline}
+            onClick={isStreaming ? handleCancel : handleGenerate}
+            disabled={!isStreaming && (isProcessing || !rawInput.trim() || !canGenerate || !isOnline)}
             size="lg"
             className={`w-full py-6 font-bold text-lg rounded-2xl shadow-xl transition-all duration-300 ${
               canGenerate 
@@ -724,7 +1281,15 @@ export function AiConverter() {
                 : 'bg-gradient-to-r from-amber-500 to-yellow-600 text-white shadow-amber-500/20'
             }`}
           >
-            {isProcessing ? (
+            {isStreaming ? (
+              <span className="flex items-center gap-3">
+                <LoadingState />
+                <span className="flex items-center gap-1 text-sm text-white/80">
+                  <Square className="h-4 w-4 fill-current" />
+                  {t('modules.ai.stop')}
+                </span>
+              </span>
+            ) : isProcessing ? (
               <LoadingState />
             ) : !canGenerate ? (
               <>
@@ -767,40 +1332,87 @@ export function AiConverter() {
               exit={{ opacity: 0, y: -20 }}
               className="space-y-4 pt-4 border-t border-gray-200 dark:border-white/10"
             >
+              {/* Platform Tabs (all-platforms mode) */}
+              {descriptions && (
+                <div className="flex p-1 bg-gray-100 dark:bg-black/40 rounded-xl border border-gray-200 dark:border-white/5">
+                  {PLATFORMS.filter((p) => CORE_PLATFORMS.some((core) => core === p.id)).map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => handleSelectTab(p.id as Platform)}
+                      disabled={isProcessing}
+                      className={`flex-1 flex items-center justify-center gap-1.5 py-2 px-2 rounded-lg text-xs font-bold transition-all ${
+                        activeTab === p.id
+                          ? 'bg-white dark:bg-white/10 text-gray-900 dark:text-white shadow-sm'
+                          : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      <p.icon className={`w-3.5 h-3.5 ${activeTab === p.id ? p.color : ''}`} />
+                      {p.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               <div className="relative group">
                 <div className="absolute -inset-0.5 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-2xl opacity-20 group-hover:opacity-40 transition duration-500 blur"></div>
                 <Card className="relative p-5 bg-white dark:bg-[#1E1E1E] border-gray-200 dark:border-white/10 shadow-xl overflow-hidden">
                   <div className="flex items-center justify-between mb-4">
                     <div className="flex items-center gap-2">
-                       <div className="p-1.5 rounded-lg bg-green-500/10">
-                         <Check className="w-4 h-4 text-green-500" />
+                       <div className={`p-1.5 rounded-lg ${isStreaming ? 'bg-blue-500/10' : 'bg-green-500/10'}`}>
+                         {isStreaming ? (
+                           <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+                         ) : (
+                           <Check className="w-4 h-4 text-green-500" />
+                         )}
                        </div>
                        <span className="text-sm font-bold text-gray-900 dark:text-white">
-                         {t('common.success')}
+                         {isStreaming ? t('modules.ai.loading.generating') : t('common.success')}
+                       </span>
+                       <span className={`text-[10px] font-medium ${generatedText.length > shownLimits.max ? 'text-red-500' : generatedText.length > shownLimits.recommended ? 'text-amber-500' : 'text-gray-400'}`}>
+                         {generatedText.length}/{shownLimits.max}
                        </span>
+                       {!isStreaming && (versionHeads[shownPlatform]?.version ?? 1) > 1 && (
+                         <span className="text-[10px] font-bold px-1.5 py-0.5 rounded-md bg-blue-500/10 text-blue-500">
+                           {t('modules.versions.version_short', { version: versionHeads[shownPlatform]?.version })}
+                         </span>
+                       )}
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={handleCopy}
-                      className={`h-8 px-3 rounded-lg font-medium text-xs transition-colors ${
-                        copied 
-                          ? 'bg-green-500/10 text-green-600 dark:text-green-400' 
-                          : 'bg-gray-100 dark:bg-white/5 text-gray-500 hover:text-gray-900 dark:hover:text-white'
-                      }`}
-                    >
-                      {copied ? (
-                        <>
-                          <Check className="h-3.5 w-3.5 mr-1" />
-                          {t('common.copied')}
-                        </>
-                      ) : (
-                        <>
-                          <Copy className="h-3.5 w-3.5 mr-1" />
-                          {t('modules.ai.copy_text')}
-                        </>
+                    <div className="flex items-center gap-1.5">
+                      {isUzbekResult && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={handleToggleScript}
+                          disabled={isStreaming}
+                          className="h-8 px-3 rounded-lg font-medium text-xs bg-gray-100 dark:bg-white/5 text-gray-500 hover:text-gray-900 dark:hover:text-white"
+                        >
+                          {resultScript === 'latin' ? 'Кирилл' : 'Lotin'}
+                        </Button>
                       )}
-                    </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleCopy}
+                        disabled={isStreaming}
+                        className={`h-8 px-3 rounded-lg font-medium text-xs transition-colors ${
+                          copied 
+                            ? 'bg-green-500/10 text-green-600 dark:text-green-400' 
+                            : 'bg-gray-100 dark:bg-white/5 text-gray-500 hover:text-gray-900 dark:hover:text-white'
+                        }`}
+                      >
+                        {copied ? (
+                          <>
+                            <Check className="h-3.5 w-3.5 mr-1" />
+                            {t('common.copied')}
+                          </>
+                        ) : (
+                          <>
+                            <Copy className="h-3.5 w-3.5 mr-1" />
+                            {t('modules.ai.copy_text')}
+                          </>
+                        )}
+                      </Button>
+                    </div>
                   </div>
                   
                   <div className="bg-gray-50 dark:bg-black/30 p-4 rounded-xl border border-gray-100 dark:border-white/5 max-h-[300px] overflow-y-auto custom-scrollbar">
@@ -830,11 +1442,34 @@ export function AiConverter() {
                 ))}
               </div>
               
+              {/* Fact Check */}
+              {!isStreaming && (
+                <FactWarningsPanel warnings={factWarnings[shownPlatform] ?? []} />
+              )}
+
+              {/* Attach to Listing */}
+              {activeListing && (
+                <Button
+                  variant="outline"
+                  onClick={handleAttachToListing}
+                  disabled={isSavingListing}
+                  className="w-full h-11 rounded-xl border-blue-500/30 text-blue-600 dark:text-blue-400 hover:bg-blue-500/10"
+                >
+                  {isSavingListing ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Building2 className="h-4 w-4 mr-2" />
+                  )}
+                  {t('modules.listing.attach')}
+                </Button>
+              )}
+
               {/* Share Buttons */}
               <div className="pt-2">
                 <ShareButtonsPanel 
                   text={generatedText}
                   telegramId={telegramUser?.id?.toString() || ''}
+                  platform={shownPlatform}
                 />
               </div>
             </motion.div>
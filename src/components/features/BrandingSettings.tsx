@@ -9,23 +9,38 @@ import {
   X,
   Eye,
   Settings2,
-  Loader2
+  Loader2,
+  Mic,
+  Plus,
+  Star,
+  Trash2,
+  Wand2,
+  QrCode,
+  ShieldCheck
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { useUserStore, useAppStore } from '@/store';
+import { useUserStore, useAppStore, useWatermarkPresetStore, selectActiveWatermarkPreset } from '@/store';
 import { PremiumGate } from '@/components/features/PremiumGate';
+import { VoiceProfileSettings } from '@/components/features/VoiceProfileSettings';
+import { OwnershipCheck } from '@/components/features/OwnershipCheck';
+import { WatermarkPresetPicker } from '@/components/features/WatermarkPresetPicker';
+import { WatermarkFontPicker } from '@/components/features/WatermarkFontPicker';
 import { 
   uploadWatermarkLogo, 
   deleteWatermarkLogo, 
   updateWatermarkSettings,
   getBrandingProfile,
-  DEFAULT_WATERMARK_SETTINGS
+  getQrPayload,
+  DEFAULT_WATERMARK_SETTINGS,
+  DEFAULT_QR_SETTINGS
 } from '@/services/watermarkService';
 import { applyCustomWatermark } from '@/services/imageService';
 import type { 
   CustomWatermarkSettings, 
   WatermarkPosition, 
   WatermarkType,
+  QrContentType,
+  QrWatermarkSettings,
   ImageFile
 } from '@/types';
 import { useTranslation } from 'react-i18next';
@@ -51,6 +66,8 @@ const SAMPLE_IMAGE_URL = 'https://images.unsplash.com/photo-1560448204-e02f11c3d
 
 export function BrandingSettings({ telegramId, onClose }: BrandingSettingsProps) {
   const { user, branding, setWatermarkSettings, setCustomLogoUrl, setTextWatermark } = useUserStore();
+  const { presets, activePresetId, isSaving, savePreset, removePreset, setDefault, selectPreset } = useWatermarkPresetStore();
+  const activePreset = useWatermarkPresetStore(selectActiveWatermarkPreset);
   const { t } = useTranslation();
   
   // State
@@ -58,7 +75,7 @@ export function BrandingSettings({ telegramId, onClose }: BrandingSettingsProps)
   const [isUploading, setIsUploading] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'settings' | 'preview'>('settings');
+  const [activeTab, setActiveTab] = useState<'settings' | 'preview' | 'voice' | 'ownership'>('settings');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -67,6 +84,11 @@ export function BrandingSettings({ telegramId, onClose }: BrandingSettingsProps)
     branding.settings || DEFAULT_WATERMARK_SETTINGS
   );
   const [localTextWatermark, setLocalTextWatermark] = useState(branding.textWatermark);
+  const [newPresetName, setNewPresetName] = useState<string | null>(null); // Set while naming a new preset
+  
+  const qrSettings = localSettings.qr ?? DEFAULT_QR_SETTINGS;
+  const updateQr = (qr: Partial<QrWatermarkSettings>) =>
+    setLocalSettings({ ...localSettings, qr: { ...qrSettings, ...qr } });
 
   // Position Options (Dynamic Translation)
   const POSITION_OPTIONS: { value: WatermarkPosition; label: string }[] = [
@@ -80,6 +102,13 @@ export function BrandingSettings({ telegramId, onClose }: BrandingSettingsProps)
     { value: 'bottom-center', label: t('settings.positions.bottom_center') },
     { value: 'bottom-right', label: t('settings.positions.bottom_right') },
     { value: 'tile', label: t('settings.positions.tile') },
+    { value: 'auto', label: t('settings.positions.auto') },
+  ];
+
+  const QR_CONTENT_OPTIONS: { value: QrContentType; label: string; placeholder: string }[] = [
+    { value: 'phone', label: t('settings.qr.content.phone'), placeholder: '+998 90 123 45 67' },
+    { value: 'telegram', label: t('settings.qr.content.telegram'), placeholder: '@username' },
+    { value: 'url', label: t('settings.qr.content.url'), placeholder: 'https://...' },
   ];
 
   const TYPE_OPTIONS: { value: WatermarkType; label: string; icon: React.ReactNode }[] = [
@@ -171,25 +200,82 @@ export function BrandingSettings({ telegramId, onClose }: BrandingSettingsProps)
   // Handle Settings Save
   // ===================================
   
+  // Saves the branding; the active preset (or a new one, when named) follows it
+  const saveBranding = useCallback(async (presetName?: string) => {
+    const result = await updateWatermarkSettings(telegramId, localSettings);
+    if (!result.success) {
+      toast.error(result.error || t('common.error'));
+      return;
+    }
+
+    setWatermarkSettings(localSettings);
+    setTextWatermark(localTextWatermark);
+
+    const name = presetName ?? activePreset?.name;
+    if (name) {
+      await savePreset({
+        name,
+        logoUrl: branding.customLogoUrl,
+        textWatermark: localTextWatermark,
+        settings: localSettings,
+      }, presetName ? undefined : activePreset?.id);
+    }
+    toast.success(t('common.success'));
+  }, [telegramId, localSettings, localTextWatermark, activePreset, branding.customLogoUrl, savePreset, setWatermarkSettings, setTextWatermark, t]);
+
   const handleSaveSettings = useCallback(async () => {
     setIsLoading(true);
     
     try {
-      const result = await updateWatermarkSettings(telegramId, localSettings);
-      
-      if (result.success) {
-        setWatermarkSettings(localSettings);
-        setTextWatermark(localTextWatermark);
-        toast.success(t('common.success'));
-      } else {
-        toast.error(result.error || t('common.error'));
-      }
+      await saveBranding();
     } catch (error) {
       toast.error(t('common.error'));
     } finally {
       setIsLoading(false);
     }
-  }, [telegramId, localSettings, localTextWatermark, setWatermarkSettings, setTextWatermark, t]);
+  }, [saveBranding, t]);
+  
+  // ===================================
+  // Presets
+  // ===================================
+  
+  const handleSelectPreset = useCallback((id: string) => {
+    const preset = presets.find((p) => p.id === id);
+    if (!preset) return;
+    selectPreset(id);
+    setLocalSettings(preset.settings);
+    setLocalTextWatermark(preset.textWatermark);
+  }, [presets, selectPreset]);
+  
+  const handleSaveAsPreset = useCallback(async () => {
+    const name = newPresetName?.trim();
+    if (!name) {
+      toast.error(t('settings.presets.name_required'));
+      return;
+    }
+    
+    try {
+      await saveBranding(name);
+      setNewPresetName(null);
+    } catch {
+      toast.error(t('common.error'));
+    }
+  }, [newPresetName, saveBranding, t]);
+  
+  const handleSetDefaultPreset = useCallback(async () => {
+    if (!activePreset) return;
+    try {
+      await setDefault(activePreset.id);
+      toast.success(t('common.success'));
+    } catch {
+      toast.error(t('common.error'));
+    }
+  }, [activePreset, setDefault, t]);
+  
+  const handleDeletePreset = useCallback(async () => {
+    if (!activePreset || !confirm(t('settings.presets.confirm_delete', { name: activePreset.name }))) return;
+    await removePreset(activePreset.id);
+  }, [activePreset, removePreset, t]);
   
   // ===================================
   // Generate Preview
@@ -270,7 +356,7 @@ export function BrandingSettings({ telegramId, onClose }: BrandingSettingsProps)
         </div>
         
         {/* Tab Navigation */}
-        <div className="flex gap-2 mt-4">
+        <div className="flex gap-2 mt-4 overflow-x-auto whitespace-nowrap">
           <button
             onClick={() => setActiveTab('settings')}
             className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
@@ -293,12 +379,38 @@ export function BrandingSettings({ telegramId, onClose }: BrandingSettingsProps)
             <Eye size={16} className="inline mr-2" />
             {t('modules.gallery.action')} 
           </button>
+          <button
+            onClick={() => setActiveTab('voice')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              activeTab === 'voice'
+                ? 'bg-white text-blue-600'
+                : 'bg-white/20 text-white hover:bg-white/30'
+            }`}
+          >
+            <Mic size={16} className="inline mr-2" />
+            {t('settings.voice.tab')}
+          </button>
+          <button
+            onClick={() => setActiveTab('ownership')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              activeTab === 'ownership'
+                ? 'bg-white text-blue-600'
+                : 'bg-white/20 text-white hover:bg-white/30'
+            }`}
+          >
+            <ShieldCheck size={16} className="inline mr-2" />
+            {t('settings.ownership.tab')}
+          </button>
         </div>
       </div>
       
       <div className="p-6">
         <AnimatePresence mode="wait">
-          {activeTab === 'settings' ? (
+          {activeTab === 'voice' ? (
+            <VoiceProfileSettings />
+          ) : activeTab === 'ownership' ? (
+            <OwnershipCheck />
+          ) : activeTab === 'settings' ? (
             <motion.div
               key="settings"
               initial={{ opacity: 0, x: -20 }}
@@ -306,6 +418,84 @@ export function BrandingSettings({ telegramId, onClose }: BrandingSettingsProps)
               exit={{ opacity: 0, x: 20 }}
               className="space-y-6"
             >
+              {/* Presets */}
+              <section>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider">
+                    {t('settings.presets.title')}
+                  </h3>
+                  {activePreset && (
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={handleSetDefaultPreset}
+                        disabled={activePreset.isDefault || isSaving}
+                        className="flex items-center gap-1 text-amber-500 text-xs font-bold px-2 py-1 rounded bg-amber-500/10 hover:bg-amber-500/20 transition-colors disabled:opacity-50"
+                      >
+                        <Star size={12} className={activePreset.isDefault ? 'fill-current' : ''} />
+                        {activePreset.isDefault ? t('settings.presets.is_default') : t('settings.presets.set_default')}
+                      </button>
+                      <button
+                        onClick={handleDeletePreset}
+                        disabled={isSaving}
+                        className="text-red-500 hover:text-red-600 p-1.5 rounded bg-red-500/10 hover:bg-red-500/20 transition-colors"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                
+                <div className="bg-gray-50 dark:bg-black/20 p-4 rounded-2xl border border-gray-200 dark:border-white/10 space-y-3">
+                  {presets.length > 0 ? (
+                    <WatermarkPresetPicker
+                      presets={presets}
+                      activeId={activePresetId}
+                      disabled={isSaving}
+                      onSelect={handleSelectPreset}
+                    />
+                  ) : (
+                    <p className="text-xs text-gray-500">{t('settings.presets.empty')}</p>
+                  )}
+                  
+                  {newPresetName === null ? (
+                    <button
+                      onClick={() => setNewPresetName('')}
+                      className="flex items-center gap-1.5 text-xs font-bold text-blue-500 hover:text-blue-600"
+                    >
+                      <Plus size={14} />
+                      {t('settings.presets.save_new')}
+                    </button>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        autoFocus
+                        maxLength={40}
+                        value={newPresetName}
+                        onChange={(e) => setNewPresetName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleSaveAsPreset()}
+                        placeholder={t('settings.presets.name_placeholder')}
+                        className="flex-1 min-w-0 px-3 py-2 rounded-xl border border-gray-200 dark:border-white/10 bg-white dark:bg-black/20 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none placeholder:text-gray-500"
+                      />
+                      <button
+                        onClick={handleSaveAsPreset}
+                        disabled={isSaving}
+                        className="p-2 rounded-xl bg-blue-500 text-white disabled:opacity-50"
+                      >
+                        {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+                      </button>
+                      <button
+                        onClick={() => setNewPresetName(null)}
+                        className="p-2 rounded-xl bg-gray-200 dark:bg-white/10 text-gray-500"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </section>
+              
               {/* Logo Upload Section */}
               <section>
                 <div className="flex items-center justify-between mb-3">
@@ -433,9 +623,131 @@ export function BrandingSettings({ telegramId, onClose }: BrandingSettingsProps)
                       </div>
                     </div>
                   </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-2 block">
+                      {t('settings.fonts.title')}
+                    </label>
+                    <WatermarkFontPicker
+                      value={localSettings.font}
+                      onChange={(font) => setLocalSettings({ ...localSettings, font })}
+                    />
+                  </div>
                 </section>
               )}
               
+              {/* QR Code */}
+              <section>
+                <div className={`p-4 rounded-2xl border transition-all duration-300 space-y-4 ${
+                  qrSettings.enabled 
+                    ? 'bg-blue-500/10 border-blue-500/50' 
+                    : 'bg-gray-50 dark:bg-black/20 border-gray-200 dark:border-white/10'
+                }`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                        qrSettings.enabled ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-white/10 text-gray-400'
+                      }`}>
+                        <QrCode size={20} />
+                      </div>
+                      <div>
+                        <p className="font-bold text-sm text-gray-900 dark:text-white">{t('settings.qr.title')}</p>
+                        <p className="text-xs text-gray-500">{t('settings.qr.desc')}</p>
+                      </div>
+                    </div>
+                    
+                    <button
+                      onClick={() => updateQr({
+                        enabled: !qrSettings.enabled,
+                        // Start from the phone on the watermark
+                        value: qrSettings.value || (qrSettings.content === 'phone' ? localTextWatermark.phone : ''),
+                      })}
+                      className={`relative w-12 h-7 rounded-full transition-colors duration-300 shrink-0 ${
+                        qrSettings.enabled ? 'bg-blue-500' : 'bg-gray-300 dark:bg-gray-600'
+                      }`}
+                    >
+                      <span
+                        className={`absolute top-1 left-1 w-5 h-5 bg-white rounded-full transition-transform duration-300 shadow-sm ${
+                          qrSettings.enabled ? 'translate-x-5' : 'translate-x-0'
+                        }`}
+                      />
+                    </button>
+                  </div>
+                  
+                  {qrSettings.enabled && (
+                    <>
+                      <div className="grid grid-cols-3 gap-2">
+                        {QR_CONTENT_OPTIONS.map((option) => (
+                          <button
+                            key={option.value}
+                            onClick={() => updateQr({ content: option.value, value: '' })}
+                            className={`py-2 rounded-xl text-xs font-bold border transition-all ${
+                              qrSettings.content === option.value
+                                ? 'bg-blue-500 border-blue-500 text-white'
+                                : 'bg-white dark:bg-white/5 border-gray-200 dark:border-white/10 text-gray-500'
+                            }`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                      
+                      <div>
+                        <input
+                          type="text"
+                          value={qrSettings.value}
+                          onChange={(e) => updateQr({ value: e.target.value })}
+                          placeholder={QR_CONTENT_OPTIONS.find((o) => o.value === qrSettings.content)?.placeholder}
+                          className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-white/10 bg-white dark:bg-black/20 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all placeholder:text-gray-500"
+                        />
+                        {qrSettings.value.trim() && !getQrPayload(qrSettings) && (
+                          <p className="text-[11px] text-red-500 mt-1">{t(`settings.qr.invalid.${qrSettings.content}`)}</p>
+                        )}
+                      </div>
+                      
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="text-xs font-medium uppercase text-gray-400 mb-2 block">
+                            {t('settings.qr.error_correction')}
+                          </label>
+                          <div className="flex gap-1">
+                            {(['L', 'M', 'Q', 'H'] as const).map((level) => (
+                              <button
+                                key={level}
+                                onClick={() => updateQr({ errorCorrection: level })}
+                                title={t(`settings.qr.levels.${level}`)}
+                                className={`flex-1 py-1.5 rounded-lg text-xs font-bold border transition-all ${
+                                  qrSettings.errorCorrection === level
+                                    ? 'bg-blue-500 border-blue-500 text-white'
+                                    : 'bg-white dark:bg-white/5 border-gray-200 dark:border-white/10 text-gray-500'
+                                }`}
+                              >
+                                {level}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        
+                        <div>
+                          <div className="flex justify-between mb-2 text-xs font-medium uppercase text-gray-400">
+                            <label>{t('settings.qr.quiet_zone')}</label>
+                            <span className="text-blue-500">{qrSettings.quietZone}</span>
+                          </div>
+                          <input
+                            type="range"
+                            min="1"
+                            max="6"
+                            step="1"
+                            value={qrSettings.quietZone}
+                            onChange={(e) => updateQr({ quietZone: parseInt(e.target.value) })}
+                            className="w-full h-1.5 bg-gray-200 dark:bg-white/10 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                          />
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </section>
+              
               {/* Visual Position Grid */}
               <section>
                 <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-3">
@@ -460,17 +772,36 @@ export function BrandingSettings({ telegramId, onClose }: BrandingSettingsProps)
                     ))}
                   </div>
                   
-                  <button
-                    onClick={() => setLocalSettings({ ...localSettings, position: 'tile' })}
-                    className={`flex items-center gap-2 px-6 py-2 rounded-full text-xs font-bold transition-all ${
-                      localSettings.position === 'tile'
-                        ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/20'
-                        : 'bg-gray-100 dark:bg-white/10 text-gray-500 hover:bg-gray-200 dark:hover:bg-white/20'
-                    }`}
-                  >
-                    <Layers size={14} />
-                    {t('settings.positions.tile')}
-                  </button>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setLocalSettings({ ...localSettings, position: 'tile' })}
+                      className={`flex items-center gap-2 px-6 py-2 rounded-full text-xs font-bold transition-all ${
+                        localSettings.position === 'tile'
+                          ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/20'
+                          : 'bg-gray-100 dark:bg-white/10 text-gray-500 hover:bg-gray-200 dark:hover:bg-white/20'
+                      }`}
+                    >
+                      <Layers size={14} />
+                      {t('settings.positions.tile')}
+                    </button>
+                    <button
+                      onClick={() => setLocalSettings({ ...localSettings, position: 'auto' })}
+                      className={`flex items-center gap-2 px-6 py-2 rounded-full text-xs font-bold transition-all ${
+                        localSettings.position === 'auto'
+                          ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/20'
+                          : 'bg-gray-100 dark:bg-white/10 text-gray-500 hover:bg-gray-200 dark:hover:bg-white/20'
+                      }`}
+                    >
+                      <Wand2 size={14} />
+                      {t('settings.positions.auto')}
+                    </button>
+                  </div>
+                  
+                  {localSettings.position === 'auto' && (
+                    <p className="text-[11px] text-gray-500 text-center max-w-xs">
+                      {t('settings.positions.auto_hint')}
+                    </p>
+                  )}
                 </div>
               </section>
               
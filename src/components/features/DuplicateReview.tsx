@@ -0,0 +1,101 @@
+import { motion } from 'framer-motion';
+import { CheckCircle2, ChevronRight, Copy, Star } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import type { ImageFile, PhotoScore } from '@/types';
+
+interface DuplicateReviewProps {
+  images: ImageFile[];                  // One near-duplicate group
+  scores: Record<string, PhotoScore>;
+  bestId: string | null;
+  remainingGroups: number;              // Including this one
+  onKeep: (id: string) => void;
+  onKeepAll: () => void;
+  onClose: () => void;
+}
+
+/**
+ * One group of near-identical photos: keep the best (suggested) one or all of them
+ */
+export function DuplicateReview({ images, scores, bestId, remainingGroups, onKeep, onKeepAll, onClose }: DuplicateReviewProps) {
+  const { t } = useTranslation();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex flex-col bg-black/95 backdrop-blur-xl"
+      onClick={onClose}
+    >
+      <div className="flex items-center justify-between p-4 pt-6">
+        <button
+          onClick={(e) => { e.stopPropagation(); onClose(); }}
+          className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+        >
+          <ChevronRight className="w-6 h-6 rotate-180" />
+        </button>
+        <span className="text-xs font-bold text-gray-400">
+          {t('modules.magic_fix.duplicates.groups_left', { count: remainingGroups })}
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Copy className="w-5 h-5 text-amber-400" />
+            {t('modules.magic_fix.duplicates.title')}
+          </h3>
+          <p className="text-xs text-gray-400">{t('modules.magic_fix.duplicates.desc')}</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {images.map((img) => {
+            const score = scores[img.id];
+            const isBest = img.id === bestId;
+
+            return (
+              <div
+                key={img.id}
+                className={`rounded-2xl overflow-hidden border-2 bg-gray-900 ${isBest ? 'border-amber-400' : 'border-white/10'}`}
+              >
+                <div className="relative aspect-square">
+                  <img src={img.preview} alt={img.name} className="w-full h-full object-cover" />
+                  {isBest && (
+                    <div className="absolute top-2 left-2 flex items-center gap-1 bg-amber-400 px-2 py-0.5 rounded-full text-[10px] font-bold text-black">
+                      <Star className="h-3 w-3 fill-black" />
+                      {t('modules.magic_fix.duplicates.best')}
+                    </div>
+                  )}
+                </div>
+                <div className="p-2 space-y-2">
+                  <p className="text-[10px] text-gray-500 truncate">
+                    {img.name}
+                    {score && ` · ${Math.round(score.quality * 100)}%`}
+                  </p>
+                  <button
+                    onClick={() => onKeep(img.id)}
+                    className={`w-full py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-1.5 active:scale-[0.98] transition-all ${
+                      isBest ? 'bg-white text-black' : 'bg-white/10 text-gray-200'
+                    }`}
+                  >
+                    <CheckCircle2 className="w-3.5 h-3.5" />
+                    {t('modules.magic_fix.duplicates.keep_this')}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="p-6 pb-10" onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onKeepAll}
+          className="w-full py-3 rounded-2xl bg-white/10 text-white font-bold text-sm active:scale-[0.98] transition-all"
+        >
+          {t('modules.magic_fix.duplicates.keep_all')}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,103 @@
+import { CopyCheck, Crop, History, Redo2, RotateCcw, RotateCw, Undo2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+// Crop presets, width / height (null = uncropped)
+const CROP_ASPECTS: { label: string; aspect: number | null }[] = [
+  { label: 'original', aspect: null },
+  { label: '1:1', aspect: 1 },
+  { label: '4:3', aspect: 4 / 3 },
+  { label: '3:2', aspect: 3 / 2 },
+  { label: '16:9', aspect: 16 / 9 },
+];
+
+interface EditToolbarProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  canReset: boolean;
+  cropAspect: number | null;            // Aspect of the current crop step
+  copyCount: number;                    // Other selected images edits can be copied to
+  disabled?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onReset: () => void;
+  onRotate: (quarterTurns: 1 | -1) => void;
+  onCrop: (aspect: number | null) => void;
+  onCopy: () => void;
+}
+
+const iconButton = 'p-2 rounded-xl bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 disabled:opacity-30 transition-colors';
+
+/**
+ * Undo/redo, rotate, crop presets and copy-to-selected for the active image's edit stack
+ */
+export function EditToolbar({
+  canUndo,
+  canRedo,
+  canReset,
+  cropAspect,
+  copyCount,
+  disabled,
+  onUndo,
+  onRedo,
+  onReset,
+  onRotate,
+  onCrop,
+  onCopy,
+}: EditToolbarProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <button onClick={onUndo} disabled={disabled || !canUndo} className={iconButton} title={t('modules.magic_fix.edits.undo')}>
+          <Undo2 className="h-4 w-4" />
+        </button>
+        <button onClick={onRedo} disabled={disabled || !canRedo} className={iconButton} title={t('modules.magic_fix.edits.redo')}>
+          <Redo2 className="h-4 w-4" />
+        </button>
+        <button onClick={() => onRotate(-1)} disabled={disabled} className={iconButton} title={t('modules.magic_fix.edits.rotate_left')}>
+          <RotateCcw className="h-4 w-4" />
+        </button>
+        <button onClick={() => onRotate(1)} disabled={disabled} className={iconButton} title={t('modules.magic_fix.edits.rotate_right')}>
+          <RotateCw className="h-4 w-4" />
+        </button>
+        <button onClick={onReset} disabled={disabled || !canReset} className={iconButton} title={t('modules.magic_fix.edits.reset')}>
+          <History className="h-4 w-4" />
+        </button>
+        {copyCount > 0 && (
+          <button
+            onClick={onCopy}
+            disabled={disabled}
+            className="ml-auto flex items-center gap-1.5 px-3 py-2 rounded-xl bg-blue-500/10 border border-blue-500/30 text-xs font-medium text-blue-400 disabled:opacity-30"
+          >
+            <CopyCheck className="h-4 w-4" />
+            {t('modules.magic_fix.edits.copy', { count: copyCount })}
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1.5 overflow-x-auto">
+        <Crop className="h-4 w-4 shrink-0 text-gray-500" />
+        {CROP_ASPECTS.map(({ label, aspect }) => {
+          const isActive = aspect === null
+            ? cropAspect === null
+            : cropAspect !== null && Math.abs(cropAspect - aspect) < 0.01;
+          return (
+            <button
+              key={label}
+              onClick={() => onCrop(aspect)}
+              disabled={disabled || isActive}
+              className={`shrink-0 px-3 py-1 rounded-full text-[11px] font-medium border transition-colors ${
+                isActive
+                  ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
+                  : 'bg-white/5 text-gray-400 border-white/10'
+              }`}
+            >
+              {aspect === null ? t('modules.magic_fix.edits.crop_original') : label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,24 @@
-import { useState, useCallback, useEffect, useMemo } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { motion, AnimatePresence, Reorder, useDragControls } from 'framer-motion';
 import { toast } from 'sonner';
-import { useImageStore, useAppStore, useHistoryStore, useUserStore } from '@/store';
+import { useImageStore, useAppStore, useHistoryStore, useUserStore, useEditStackStore, useWatermarkPresetStore } from '@/store';
 import { 
-  enhanceImage, 
-  getMagicFixPreset, 
-  processImagesBatch,
+  getAutoMagicFix, 
+  getWindowPullPreset,
+  renderEdits,
+  renderEditsBatch,
   getBatchSummary,
-  applyCustomWatermark,
-  processBatchWithWatermark,
   type CustomWatermarkConfig,
   type BatchProgress,
   type BatchImageResult
 } from '@/services/imageService';
+import { rankPhotos } from '@/services/photoRankingService';
 import { BeforeAfterComparison } from '@/components/ui/before-after';
+import { DuplicateReview } from '@/components/features/DuplicateReview';
+import { AdjustmentSliders } from '@/components/features/AdjustmentSliders';
+import { StraightenControls } from '@/components/features/StraightenControls';
+import { EditToolbar } from '@/components/features/EditToolbar';
+import { WatermarkPresetPicker } from '@/components/features/WatermarkPresetPicker';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { 
@@ -27,11 +32,28 @@ import {
   Zap,
   Download,
   Upload,
-  ImagePlus
+  ImagePlus,
+  ArrowDownWideNarrow,
+  GripVertical,
+  Star,
+  Copy,
+  SunDim
 } from 'lucide-react';
 import { useTelegram } from '@/hooks';
 import { useFilePicker, useImageProcessor } from '@/hooks';
 import { useTranslation } from 'react-i18next';
+import {
+  getEditKey,
+  findOperation,
+  setOperation,
+  removeOperation,
+  setEnhancement,
+  rotateBy,
+  centeredCrop,
+  sizeBeforeCrop,
+} from '@/utils/editOperations';
+import { createProvenanceTag } from '@/utils/image';
+import type { EditOperation, EnhancementConfig, ImageFile, PhotoScore } from '@/types';
 
 // ===================================
 // Progress Bar Component
@@ -221,6 +243,117 @@ function BatchResults({ results, onSaveAll, onDismiss }: BatchResultsProps) {
   );
 }
 
+// ===================================
+// Sortable Thumbnail Component
+// ===================================
+
+// Ranked photos below this quality get flagged in the strip
+const WEAK_PHOTO_QUALITY = 0.35;
+
+interface SortableThumbnailProps {
+  image: ImageFile;
+  isCover: boolean;
+  isActive: boolean;
+  isSelected: boolean;
+  isProcessed: boolean;
+  isWeak: boolean;        // Blurry or badly exposed, per the last ranking
+  selectable: boolean;
+  onSelect: () => void;
+  onToggleSelection: () => void;
+}
+
+function SortableThumbnail({
+  image,
+  isCover,
+  isActive,
+  isSelected,
+  isProcessed,
+  isWeak,
+  selectable,
+  onSelect,
+  onToggleSelection,
+}: SortableThumbnailProps) {
+  // Dragging starts from the grip only, so the strip still scrolls by touch
+  const dragControls = useDragControls();
+
+  return (
+    <Reorder.Item
+      value={image.id}
+      dragListener={false}
+      dragControls={dragControls}
+      className="relative shrink-0 group"
+    >
+      {/* Selection Checkbox */}
+      {selectable && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleSelection();
+          }}
+          className={`absolute -top-2 -right-2 z-20 h-6 w-6 rounded-full border-2 flex items-center justify-center transition-all shadow-md ${
+            isSelected 
+              ? 'bg-blue-500 border-blue-500 scale-110' 
+              : 'bg-gray-800 border-gray-600 hover:border-gray-400 scale-100 opacity-0 group-hover:opacity-100'
+          }`}
+        >
+          {isSelected && <CheckCheck className="h-3.5 w-3.5 text-white" />}
+        </button>
+      )}
+
+      <button
+        onClick={onSelect}
+        className={`relative h-20 w-20 overflow-hidden rounded-2xl border-2 transition-all duration-300 ${
+          isActive
+            ? 'border-blue-500 ring-4 ring-blue-500/20 scale-105 z-10'
+            : isSelected
+            ? 'border-blue-500/50 opacity-100'
+            : 'border-white/5 opacity-60 hover:opacity-100 hover:border-white/20'
+        }`}
+      >
+        <img
+          src={image.preview}
+          alt="Thumbnail"
+          className="h-full w-full object-cover pointer-events-none"
+        />
+        
+        {/* Active Indicator */}
+        {isActive && (
+          <div className="absolute inset-0 bg-gradient-to-t from-blue-500/50 to-transparent opacity-30" />
+        )}
+
+        {/* Cover Badge */}
+        {isCover && (
+          <div className="absolute top-1 left-1 h-5 w-5 rounded-full bg-amber-400 flex items-center justify-center ring-2 ring-black">
+            <Star className="h-3 w-3 text-black fill-black" />
+          </div>
+        )}
+        
+        {/* Processed Badge */}
+        {isProcessed && (
+          <div className="absolute bottom-1 right-1 h-2 w-2 rounded-full bg-green-500 ring-2 ring-black" />
+        )}
+
+        {/* Weak Photo Badge */}
+        {isWeak && (
+          <div className="absolute top-1 right-1 h-4 w-4 rounded-full bg-red-500/90 flex items-center justify-center ring-2 ring-black">
+            <AlertCircle className="h-3 w-3 text-white" />
+          </div>
+        )}
+      </button>
+
+      {/* Drag Handle */}
+      {selectable && (
+        <div
+          onPointerDown={(e) => dragControls.start(e)}
+          className="absolute bottom-1 left-1 z-20 h-6 w-5 rounded-md bg-black/60 flex items-center justify-center cursor-grab active:cursor-grabbing touch-none"
+        >
+          <GripVertical className="h-3.5 w-3.5 text-gray-300" />
+        </div>
+      )}
+    </Reorder.Item>
+  );
+}
+
 // ===================================
 // Main Component
 // ===================================
@@ -234,7 +367,14 @@ export function EnhanceEditor() {
     selectedIds,
     toggleSelection,
     selectAll,
-    deselectAll
+    deselectAll,
+    reorderImages,
+    setCover,
+    photoScores,
+    setPhotoScores,
+    duplicateGroups,
+    keepDuplicate,
+    dismissDuplicateGroup
   } = useImageStore();
   
   const { isProcessing, setProcessing } = useAppStore();
@@ -251,9 +391,18 @@ export function EnhanceEditor() {
   const [activeImageId, setActiveImageId] = useState<string | null>(null);
   const [enhancedPreview, setEnhancedPreview] = useState<string | null>(null);
   const [comparisonMode, setComparisonMode] = useState(false);
+  // Magic Fix settings of the active image: measured ones, and as tuned by the sliders
+  const [autoAdjustments, setAutoAdjustments] = useState<EnhancementConfig | null>(null);
+  const [adjustments, setAdjustments] = useState<EnhancementConfig | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [isRanking, setIsRanking] = useState(false);
+  // Scores of the duplicate group under review (always duplicateGroups[0])
+  const [duplicateReview, setDuplicateReview] = useState<{ scores: Record<string, PhotoScore>; bestId: string | null } | null>(null);
 
   const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
   const [batchResults, setBatchResults] = useState<BatchImageResult[] | null>(null);
+
+  const { showMainButton, hideMainButton, hapticFeedback } = useTelegram();
   
   // State for optional watermark application
   const [applyWatermark, setApplyWatermark] = useState(branding.settings.enabled);
@@ -288,18 +437,81 @@ export function EnhanceEditor() {
   );
 
   // ===================================
-  // Single Image Processing
+  // Single Image Processing (edit stack)
   // ===================================
+  // Edits are a list of operations per photo, rendered from the original on
+  // demand; the store keeps them (with undo history) across reloads.
 
-  const handleApplyMagicFix = useCallback(async () => {
+  const { stacks, commit: commitEdits, undo: undoEdits, redo: redoEdits, reset: resetEdits, copyTo: copyEditsTo } = useEditStackStore();
+  const editKey = activeImage ? getEditKey(activeImage) : null;
+  const editStack = editKey ? stacks[editKey] : undefined;
+  const operations = useMemo(() => editStack?.operations ?? [], [editStack]);
+  const copyTargets = selectedImages.filter((img) => img.id !== activeImageId);
+
+  // Branding for the watermark step; null when branding is off
+  const watermarkConfig = useMemo<CustomWatermarkConfig | null>(() => (
+    branding.settings.enabled
+      ? {
+          settings: branding.settings,
+          textWatermark: branding.textWatermark,
+          logoUrl: branding.customLogoUrl || undefined,
+          isPremium: user.isPremium
+        }
+      : null
+  ), [branding, user.isPremium]);
+
+  const { presets, activePresetId, selectPreset } = useWatermarkPresetStore();
+
+  // Sliders show the enhance step; without one, the measured settings
+  const syncAdjustments = useCallback((ops: EditOperation[], fallback: EnhancementConfig | null) => {
+    const enhance = findOperation(ops, 'enhance');
+    setAdjustments(enhance && enhance.config !== 'auto' ? enhance.config : fallback);
+  }, []);
+
+  // Only the latest render may update the preview (renders can overlap)
+  const renderToken = useRef(0);
+
+  // `config` is for branding that the store has not passed down yet
+  const renderPreview = useCallback(async (ops: EditOperation[], config = watermarkConfig) => {
     if (!activeImage) return;
+    const token = ++renderToken.current;
+    try {
+      setIsRendering(true);
+      const result = await renderEdits(activeImage, ops, config);
+      if (token === renderToken.current) setEnhancedPreview(result.preview);
+      else URL.revokeObjectURL(result.preview);
+    } catch (error) {
+      console.error('Rendering edits failed:', error);
+      toast.error(t('common.error'));
+    } finally {
+      setIsRendering(false);
+    }
+  }, [activeImage, watermarkConfig, t]);
+
+  const applyEdits = useCallback((ops: EditOperation[]) => {
+    if (!editKey) return;
+    commitEdits(editKey, ops);
+    renderPreview(ops);
+  }, [editKey, commitEdits, renderPreview]);
+
+  const handleApplyMagicFix = useCallback(async () => {
+    if (!activeImage || !editKey) return;
 
     try {
       setProcessing(true);
       
-      const config = getMagicFixPreset();
-      const result = await enhanceImage(activeImage, config);
+      const auto = await getAutoMagicFix(activeImage);
+      // Edits made earlier (also before a reload) are picked up as they were
+      let ops = operations;
+      if (ops.length === 0) {
+        ops = [{ type: 'enhance', config: auto }];
+        if (applyWatermark && watermarkConfig) ops.push({ type: 'watermark' });
+        commitEdits(editKey, ops);
+      }
+      const result = await renderEdits(activeImage, ops, watermarkConfig);
       
+      setAutoAdjustments(auto);
+      syncAdjustments(ops, auto);
       setEnhancedPreview(result.preview);
       setComparisonMode(true);
       
@@ -315,38 +527,106 @@ export function EnhanceEditor() {
     } finally {
       setProcessing(false);
     }
-  }, [activeImage, setProcessing, t]);
+  }, [activeImage, editKey, operations, applyWatermark, watermarkConfig, commitEdits, syncAdjustments, setProcessing, t]);
+
+  // Re-render the preview once a slider is released
+  const handleAdjustmentsCommit = useCallback((config: EnhancementConfig) => {
+    setAdjustments(config);
+    applyEdits(setEnhancement(operations, config));
+  }, [operations, applyEdits]);
+
+  // Window pull is on while every preset value is in place; off restores the measured ones
+  const windowPull = getWindowPullPreset();
+  const isWindowPull = !!adjustments && (Object.keys(windowPull) as (keyof EnhancementConfig)[])
+    .every((key) => adjustments[key] === windowPull[key]);
+
+  const handleToggleWindowPull = () => {
+    if (!adjustments || !autoAdjustments) return;
+    const next = { ...adjustments };
+    for (const key of Object.keys(windowPull) as (keyof typeof windowPull)[]) {
+      Object.assign(next, { [key]: isWindowPull ? autoAdjustments[key] : windowPull[key] });
+    }
+    hapticFeedback('impact', 'light');
+    handleAdjustmentsCommit(next);
+  };
+
+  const handleUndo = () => {
+    const ops = editKey ? undoEdits(editKey) : null;
+    if (!ops) return;
+    syncAdjustments(ops, autoAdjustments);
+    renderPreview(ops);
+  };
+
+  const handleRedo = () => {
+    const ops = editKey ? redoEdits(editKey) : null;
+    if (!ops) return;
+    syncAdjustments(ops, autoAdjustments);
+    renderPreview(ops);
+  };
+
+  const handleResetEdits = () => {
+    if (!editKey) return;
+    resetEdits(editKey);
+    syncAdjustments([], autoAdjustments);
+    renderPreview([]);
+  };
+
+  const handleRotate = (quarterTurns: 1 | -1) => {
+    if (!activeImage) return;
+    hapticFeedback('impact', 'light');
+    applyEdits(rotateBy(operations, quarterTurns, activeImage.width, activeImage.height));
+  };
+
+  // Crop rectangles are relative to the image as it is before the crop step
+  const cropFrame = activeImage ? sizeBeforeCrop(operations, activeImage.width, activeImage.height) : null;
+  const crop = findOperation(operations, 'crop');
+  const cropAspect = crop && cropFrame
+    ? (crop.rect.width * cropFrame.width) / (crop.rect.height * cropFrame.height)
+    : null;
+
+  const handleCrop = (aspect: number | null) => {
+    if (!cropFrame) return;
+    applyEdits(aspect === null
+      ? removeOperation(operations, 'crop')
+      : setOperation(operations, { type: 'crop', rect: centeredCrop(cropFrame.width, cropFrame.height, aspect) }));
+  };
+
+  const hasWatermarkStep = operations.some((op) => op.type === 'watermark');
+
+  const handleToggleWatermarkStep = () => {
+    applyEdits(hasWatermarkStep ? removeOperation(operations, 'watermark') : setOperation(operations, { type: 'watermark' }));
+  };
+
+  const handleSelectPreset = (id: string) => {
+    const preset = presets.find((p) => p.id === id);
+    if (!preset) return;
+    selectPreset(id);
+    hapticFeedback('impact', 'light');
+    if (enhancedPreview && hasWatermarkStep) {
+      renderPreview(operations, preset.settings.enabled
+        ? {
+            settings: preset.settings,
+            textWatermark: preset.textWatermark,
+            logoUrl: preset.logoUrl || undefined,
+            isPremium: user.isPremium
+          }
+        : null);
+    }
+  };
+
+  const handleCopyEdits = () => {
+    if (!editKey || copyTargets.length === 0) return;
+    copyEditsTo(editKey, copyTargets.map(getEditKey));
+    hapticFeedback('notification', 'success');
+    toast.success(t('modules.magic_fix.edits.copied', { count: copyTargets.length }));
+  };
 
   const handleSave = useCallback(async () => {
     if (!activeImage || !enhancedPreview) return;
     
     try {
       setProcessing(true);
-      const config = getMagicFixPreset();
-      
-      // 1. Re-enhance to get fresh blob/result
-      let result = await enhanceImage(activeImage, config);
-
-      // 2. Apply Watermark if toggle is ON
-      if (applyWatermark && branding.settings.enabled) {
-          const watermarkConfig: CustomWatermarkConfig = {
-              settings: branding.settings,
-              textWatermark: branding.textWatermark,
-              logoUrl: branding.customLogoUrl || undefined,
-              isPremium: user.isPremium
-          };
-          
-          // Wrap result as ImageFile for watermark function
-          const imageFileWrapper = {
-              ...activeImage,
-              preview: result.preview, // Use enhanced preview
-              width: result.width,
-              height: result.height,
-          };
-
-          const watermarked = await applyCustomWatermark(imageFileWrapper, watermarkConfig);
-          result = watermarked;
-      }
+      const result = await renderEdits(activeImage, operations, watermarkConfig, createProvenanceTag(user.telegramId));
 
       addProcessedImage(result);
       
@@ -355,6 +635,7 @@ export function EnhanceEditor() {
         title: 'Magic Fix - ' + activeImage.name,
         thumbnail: result.preview,
         data: result.blob,
+        hash: activeImage.hash,
       });
       
       toast.success(t('common.success'), {
@@ -369,11 +650,13 @@ export function EnhanceEditor() {
     } finally {
       setProcessing(false);
     }
-  }, [activeImage, enhancedPreview, addProcessedImage, addItem, setProcessing, t, branding, user.isPremium, applyWatermark]);
+  }, [activeImage, enhancedPreview, operations, watermarkConfig, user.telegramId, addProcessedImage, addItem, setProcessing, t]);
 
   const handleCancel = useCallback(() => {
     setComparisonMode(false);
     setEnhancedPreview(null);
+    setAdjustments(null);
+    setAutoAdjustments(null);
   }, []);
 
   // ===================================
@@ -392,33 +675,21 @@ export function EnhanceEditor() {
       setProcessing(true);
       setBatchResults(null);
       
-      const config = getMagicFixPreset();
-      let results: BatchImageResult[];
-
-      // Check if watermark is enabled via toggle AND global setting
-      if (applyWatermark && branding.settings.enabled) {
-          const watermarkConfig: CustomWatermarkConfig = {
-              settings: branding.settings,
-              textWatermark: branding.textWatermark,
-              logoUrl: branding.customLogoUrl || undefined,
-              isPremium: user.isPremium
-          };
-
-          results = await processBatchWithWatermark(
-              imagesToProcess,
-              watermarkConfig,
-              config,
-              (progress) => setBatchProgress(progress),
-              3
-          );
-      } else {
-          results = await processImagesBatch(
-            imagesToProcess,
-            config,
-            (progress) => setBatchProgress(progress),
-            3 // Max 3 concurrent operations for mobile safety
-          );
-      }
+      // Photos with edits render their stack; the rest get Magic Fix with
+      // settings measured per photo, plus branding when the toggle is on
+      const defaults: EditOperation[] = [{ type: 'enhance', config: 'auto' }];
+      if (applyWatermark && watermarkConfig) defaults.push({ type: 'watermark' });
+
+      // Concurrency follows the device's cores and memory
+      const results = await renderEditsBatch(
+        imagesToProcess.map((image) => ({
+          image,
+          operations: stacks[getEditKey(image)]?.operations ?? defaults,
+        })),
+        watermarkConfig,
+        createProvenanceTag(user.telegramId),
+        (progress) => setBatchProgress(progress)
+      );
       
       setBatchResults(results);
       
@@ -437,7 +708,7 @@ export function EnhanceEditor() {
       setProcessing(false);
       setBatchProgress(null);
     }
-  }, [images, selectedImages, setProcessing, t, branding, user.isPremium, applyWatermark]);
+  }, [images, selectedImages, stacks, setProcessing, t, watermarkConfig, applyWatermark, user.telegramId]);
 
   const handleSaveAllResults = useCallback(() => {
     if (!batchResults) return;
@@ -452,6 +723,7 @@ export function EnhanceEditor() {
           title: 'Magic Fix - ' + r.imageName,
           thumbnail: r.result.preview,
           data: r.result.blob,
+          hash: images.find((img) => img.id === r.imageId)?.hash,
         });
       }
     });
@@ -460,23 +732,82 @@ export function EnhanceEditor() {
     setBatchResults(null);
 
     deselectAll();
-  }, [batchResults, addProcessedImage, addItem, deselectAll, t]);
+  }, [batchResults, images, addProcessedImage, addItem, deselectAll, t]);
 
   const handleDismissResults = useCallback(() => {
     setBatchResults(null);
 
   }, []);
 
+  // ===================================
+  // Photo Order
+  // ===================================
+
+  const handleAutoOrder = useCallback(async () => {
+    try {
+      setIsRanking(true);
+      const ranking = await rankPhotos(images);
+      reorderImages(ranking.order);
+      setPhotoScores(ranking.scores);
+      if (ranking.coverId) setActiveImageId(ranking.coverId);
+
+      toast.success(t('modules.magic_fix.ordering.done'), {
+        description: ranking.roomsDetected ? undefined : t('modules.magic_fix.ordering.quality_only')
+      });
+    } catch (error) {
+      console.error('Photo ranking failed:', error);
+      toast.error(t('common.error'));
+    } finally {
+      setIsRanking(false);
+    }
+  }, [images, reorderImages, setPhotoScores, t]);
+
+  const handleSetCover = useCallback(() => {
+    if (!activeImage) return;
+    setCover(activeImage.id);
+    toast.success(t('modules.magic_fix.ordering.cover_set'));
+  }, [activeImage, setCover, t]);
+
+  // ===================================
+  // Duplicates
+  // ===================================
+
+  const reviewDuplicates = useCallback(async (group: string[] | undefined) => {
+    if (!group) {
+      setDuplicateReview(null);
+      return;
+    }
+    const groupImages = images.filter((img) => group.includes(img.id));
+    // Pixel quality only: the shots show the same room anyway
+    const ranking = await rankPhotos(groupImages, { detectRooms: false });
+    setDuplicateReview({ scores: ranking.scores, bestId: ranking.coverId });
+  }, [images]);
+
+  const handleKeepDuplicate = (keepId: string) => {
+    const [group, next] = duplicateGroups;
+    if (activeImageId && group.includes(activeImageId)) setActiveImageId(keepId);
+    keepDuplicate(group, keepId);
+    hapticFeedback('notification', 'success');
+    toast.success(t('modules.magic_fix.duplicates.removed', { count: group.length - 1 }));
+    reviewDuplicates(next);
+  };
+
+  const handleKeepAllDuplicates = () => {
+    const [group, next] = duplicateGroups;
+    dismissDuplicateGroup(group);
+    reviewDuplicates(next);
+  };
+
   // Helper to select an image
   const selectImage = (id: string) => {
     setActiveImageId(id);
     setEnhancedPreview(null);
     setComparisonMode(false);
+    setAdjustments(null);
+    setAutoAdjustments(null);
 
     setBatchResults(null);
   };
-  
-  const { showMainButton, hideMainButton } = useTelegram();
 
   useEffect(() => {
     if (comparisonMode && activeImage) {
@@ -585,6 +916,19 @@ export function EnhanceEditor() {
             </button>
         )}
 
+        {images.length > 1 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleAutoOrder}
+            disabled={isProcessing || isRanking}
+            className="text-xs font-medium text-amber-400 hover:text-amber-300 hover:bg-amber-500/10 h-8 px-3 rounded-lg ml-auto"
+          >
+            {isRanking ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <ArrowDownWideNarrow className="mr-1.5 h-3.5 w-3.5" />}
+            {t('modules.magic_fix.ordering.auto')}
+          </Button>
+        )}
+
         {images.length > 1 && (
           <Button
             variant="ghost"
@@ -636,6 +980,23 @@ export function EnhanceEditor() {
               <div className="absolute top-4 left-4 bg-black/60 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-xs font-medium text-gray-300 pointer-events-none">
                  Original
               </div>
+              {/* Cover */}
+              {images.length > 1 && (
+                images[0].id === activeImage.id ? (
+                  <div className="absolute top-4 right-4 flex items-center gap-1.5 bg-amber-400/90 px-3 py-1.5 rounded-full text-xs font-bold text-black pointer-events-none">
+                    <Star className="h-3.5 w-3.5 fill-black" />
+                    {t('modules.magic_fix.ordering.cover')}
+                  </div>
+                ) : (
+                  <button
+                    onClick={handleSetCover}
+                    className="absolute top-4 right-4 flex items-center gap-1.5 bg-black/60 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-xs font-medium text-gray-200 hover:bg-black/80"
+                  >
+                    <Star className="h-3.5 w-3.5" />
+                    {t('modules.magic_fix.ordering.make_cover')}
+                  </button>
+                )
+              )}
             </div>
           )
         ) : (
@@ -650,25 +1011,84 @@ export function EnhanceEditor() {
 
       {/* Controls Bar (Floating) */}
       <div className="bg-gray-900/80 backdrop-blur-xl p-4 rounded-3xl border border-white/10 shadow-2xl">
+        {/* Quick branding switch */}
+        {presets.length > 1 && (
+          <div className="mb-3">
+            <WatermarkPresetPicker
+              presets={presets}
+              activeId={activePresetId}
+              disabled={isProcessing || isRendering}
+              onSelect={handleSelectPreset}
+            />
+          </div>
+        )}
+
         {comparisonMode ? (
           <div className="flex flex-col gap-3">
              {/* Branding Toggle in Comparison Mode */}
              {branding.settings.enabled && (
                 <div className="flex items-center justify-center pb-2">
                     <button
-                        onClick={() => setApplyWatermark(!applyWatermark)}
+                        onClick={handleToggleWatermarkStep}
+                        disabled={isProcessing || isRendering}
                         className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-all ${
-                            applyWatermark 
+                            hasWatermarkStep 
                                 ? 'bg-amber-500/10 text-amber-400 border border-amber-500/30' 
                                 : 'bg-white/5 text-gray-400 border border-white/10'
                         }`}
                     >
-                        {applyWatermark ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
-                        {applyWatermark ? 'Logotip qo\'shiladi' : 'Logotip qo\'shilmaydi'}
+                        {hasWatermarkStep ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                        {hasWatermarkStep ? 'Logotip qo\'shiladi' : 'Logotip qo\'shilmaydi'}
                     </button>
                 </div>
              )}
 
+             <EditToolbar
+                canUndo={!!editStack?.past.length}
+                canRedo={!!editStack?.future.length}
+                canReset={operations.length > 0}
+                cropAspect={cropAspect}
+                copyCount={copyTargets.length}
+                disabled={isProcessing || isRendering}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onReset={handleResetEdits}
+                onRotate={handleRotate}
+                onCrop={handleCrop}
+                onCopy={handleCopyEdits}
+             />
+
+             {adjustments && autoAdjustments && (
+                <>
+                  <button
+                    onClick={handleToggleWindowPull}
+                    disabled={isProcessing || isRendering}
+                    className={`flex items-center justify-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-all disabled:opacity-50 ${
+                      isWindowPull
+                        ? 'bg-blue-500/10 text-blue-400 border border-blue-500/30'
+                        : 'bg-white/5 text-gray-400 border border-white/10'
+                    }`}
+                  >
+                    {isRendering ? <Loader2 className="w-4 h-4 animate-spin" /> : <SunDim className="w-4 h-4" />}
+                    {t('modules.magic_fix.window_pull')}
+                  </button>
+                  <AdjustmentSliders
+                    value={adjustments}
+                    initial={autoAdjustments}
+                    disabled={isProcessing || isRendering}
+                    onChange={setAdjustments}
+                    onCommit={handleAdjustmentsCommit}
+                  />
+                  <StraightenControls
+                    value={adjustments.geometry}
+                    detected={autoAdjustments.geometry}
+                    disabled={isProcessing || isRendering}
+                    onChange={(geometry) => setAdjustments({ ...adjustments, geometry })}
+                    onCommit={(geometry) => handleAdjustmentsCommit({ ...adjustments, geometry })}
+                  />
+                </>
+             )}
+
              <div className="flex gap-3">
                 <Button 
                   variant="outline" 
@@ -737,6 +1157,34 @@ export function EnhanceEditor() {
         )}
       </div>
 
+      {/* Duplicates Banner */}
+      {duplicateGroups.length > 0 && (
+        <button
+          onClick={() => reviewDuplicates(duplicateGroups[0])}
+          className="mx-2 flex items-center gap-3 p-3 rounded-2xl bg-amber-500/10 border border-amber-500/20 text-left active:scale-[0.99] transition-all"
+        >
+          <Copy className="h-5 w-5 text-amber-400 shrink-0" />
+          <span className="flex-1 text-xs text-amber-200">
+            {t('modules.magic_fix.duplicates.found', { count: duplicateGroups.length })}
+          </span>
+          <span className="text-xs font-bold text-amber-400">{t('modules.magic_fix.duplicates.review')}</span>
+        </button>
+      )}
+
+      <AnimatePresence>
+        {duplicateReview && duplicateGroups[0] && (
+          <DuplicateReview
+            images={images.filter((img) => duplicateGroups[0].includes(img.id))}
+            scores={duplicateReview.scores}
+            bestId={duplicateReview.bestId}
+            remainingGroups={duplicateGroups.length}
+            onKeep={handleKeepDuplicate}
+            onKeepAll={handleKeepAllDuplicates}
+            onClose={() => setDuplicateReview(null)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Thumbnails Strip */}
       <div className="relative">
         <div className="absolute left-0 top-0 bottom-0 w-8 bg-gradient-to-r from-gray-950 to-transparent z-10 pointer-events-none" />
@@ -756,60 +1204,27 @@ export function EnhanceEditor() {
               </div>
             </motion.button>
             
-            {images.map((img) => {
-              const isSelected = selectedIds.includes(img.id);
-              const isActive = activeImageId === img.id;
-              const isProcessed = processedImages.some(p => p.originalId === img.id);
-
-              return (
-                <div key={img.id} className="relative shrink-0 group">
-                  {/* Selection Checkbox */}
-                  {images.length > 1 && (
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        toggleSelection(img.id);
-                      }}
-                      className={`absolute -top-2 -right-2 z-20 h-6 w-6 rounded-full border-2 flex items-center justify-center transition-all shadow-md ${
-                        isSelected 
-                          ? 'bg-blue-500 border-blue-500 scale-110' 
-                          : 'bg-gray-800 border-gray-600 hover:border-gray-400 scale-100 opacity-0 group-hover:opacity-100'
-                      }`}
-                    >
-                      {isSelected && <CheckCheck className="h-3.5 w-3.5 text-white" />}
-                    </button>
-                  )}
-
-                  <motion.button
-                    layoutId={`thumb-${img.id}`}
-                    onClick={() => selectImage(img.id)}
-                    className={`relative h-20 w-20 overflow-hidden rounded-2xl border-2 transition-all duration-300 ${
-                      isActive
-                        ? 'border-blue-500 ring-4 ring-blue-500/20 scale-105 z-10'
-                        : isSelected
-                        ? 'border-blue-500/50 opacity-100'
-                        : 'border-white/5 opacity-60 hover:opacity-100 hover:border-white/20'
-                    }`}
-                  >
-                    <img
-                      src={img.preview}
-                      alt="Thumbnail"
-                      className="h-full w-full object-cover"
-                    />
-                    
-                    {/* Active Indicator */}
-                    {isActive && (
-                      <div className="absolute inset-0 bg-gradient-to-t from-blue-500/50 to-transparent opacity-30" />
-                    )}
-                    
-                    {/* Processed Badge */}
-                    {isProcessed && (
-                      <div className="absolute bottom-1 right-1 h-2 w-2 rounded-full bg-green-500 ring-2 ring-black" />
-                    )}
-                  </motion.button>
-                </div>
-              );
-            })}
+            <Reorder.Group
+              axis="x"
+              values={images.map((img) => img.id)}
+              onReorder={reorderImages}
+              className="flex gap-3"
+            >
+              {images.map((img, index) => (
+                <SortableThumbnail
+                  key={img.id}
+                  image={img}
+                  isCover={index === 0 && images.length > 1}
+                  isActive={activeImageId === img.id}
+                  isSelected={selectedIds.includes(img.id)}
+                  isProcessed={processedImages.some(p => p.originalId === img.id)}
+                  isWeak={(photoScores[img.id]?.quality ?? 1) < WEAK_PHOTO_QUALITY}
+                  selectable={images.length > 1}
+                  onSelect={() => selectImage(img.id)}
+                  onToggleSelection={() => toggleSelection(img.id)}
+                />
+              ))}
+            </Reorder.Group>
           </div>
         </div>
       </div>
@@ -1,10 +1,15 @@
 import { useState } from 'react';
-import { useHistoryStore } from '@/store';
+import { toast } from 'sonner';
+import { useHistoryStore, useListingStore, useGenerationVersionStore } from '@/store';
 import { type HistoryItem } from '@/services/historyService';
+import { buildListingExport, downloadListingExport } from '@/services/listingService';
+import { copyToClipboard } from '@/services/shareService';
 import { useTelegram } from '@/hooks';
+import { GenerationVersions } from '@/components/features/GenerationVersions';
+import type { Listing } from '@/types';
 import { 
   Image, Video, FileText, Trash2, Download, 
-  Clock, ChevronRight 
+  Clock, ChevronRight, Building2, Copy, FolderOpen 
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTranslation } from 'react-i18next';
@@ -12,8 +17,12 @@ import { useTranslation } from 'react-i18next';
 export function Gallery() {
   const { t, i18n } = useTranslation();
   const { items, removeItem, clearHistory } = useHistoryStore();
+  const { listings, activeListingId, openListing, removeListing } = useListingStore();
+  const versionCount = useGenerationVersionStore((state) => state.versions.length);
   const { hapticFeedback, showConfirm } = useTelegram();
+  const [tab, setTab] = useState<'history' | 'versions' | 'listings'>('history');
   const [selectedItem, setSelectedItem] = useState<HistoryItem | null>(null);
+  const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
 
   const handleDelete = async (id: string) => {
     hapticFeedback('notification', 'warning');
@@ -48,6 +57,32 @@ export function Gallery() {
     link.click();
   };
 
+  const handleDeleteListing = async (listing: Listing) => {
+    hapticFeedback('notification', 'warning');
+    const confirmed = await showConfirm(t('modules.listing.confirm_delete'));
+    if (confirmed) {
+      removeListing(listing.id);
+      hapticFeedback('notification', 'success');
+      setSelectedListing(null);
+    }
+  };
+
+  const handleOpenListing = (listing: Listing) => {
+    hapticFeedback('selection');
+    openListing(listing.id);
+    toast.success(t('modules.listing.opened'), { description: listing.title });
+  };
+
+  const handleCopyListing = async (listing: Listing) => {
+    const result = await copyToClipboard(buildListingExport(listing));
+    if (result.success) {
+      hapticFeedback('notification', 'success');
+      toast.success(t('common.copied') + '!');
+    } else {
+      toast.error(t('common.error'));
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString(i18n.language, {
@@ -78,12 +113,12 @@ export function Gallery() {
             <h1 className="text-2xl font-bold text-white tracking-tight flex items-center gap-2">
               {t('modules.gallery.title')}
               <span className="bg-white/10 text-gray-400 text-xs px-2 py-0.5 rounded-full font-normal">
-                {items.length}
+                {tab === 'history' ? items.length : tab === 'versions' ? versionCount : listings.length}
               </span>
             </h1>
           </div>
           
-          {items.length > 0 && (
+          {tab === 'history' && items.length > 0 && (
             <button
               onClick={handleClearAll}
               className="p-2.5 bg-red-500/10 text-red-500 rounded-xl hover:bg-red-500/20 active:scale-95 transition-all"
@@ -93,8 +128,71 @@ export function Gallery() {
           )}
         </div>
 
-        {/* Empty State */}
-        {items.length === 0 ? (
+        {/* Tabs */}
+        <div className="flex p-1 mx-1 bg-white/5 rounded-xl border border-white/5 shrink-0">
+          {(['history', 'versions', 'listings'] as const).map((id) => (
+            <button
+              key={id}
+              onClick={() => {
+                hapticFeedback('selection');
+                setTab(id);
+              }}
+              className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${
+                tab === id ? 'bg-white/10 text-white shadow-sm' : 'text-gray-500'
+              }`}
+            >
+              {id === 'history' ? t('modules.gallery.desc') : id === 'versions' ? t('modules.versions.title') : t('modules.listing.title')}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'versions' ? (
+          <GenerationVersions formatDate={formatDate} />
+        ) : tab === 'listings' ? (
+          listings.length === 0 ? (
+            <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+              <div className="bg-gray-800/50 p-8 rounded-[2rem] border border-white/5 mb-6">
+                <Building2 className="h-16 w-16 text-gray-400" />
+              </div>
+              <h2 className="text-xl font-bold text-gray-300 mb-2">{t('modules.listing.empty')}</h2>
+              <p className="text-gray-500 text-sm leading-relaxed max-w-[220px]">
+                {t('modules.listing.empty_desc')}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2 px-1 pb-4 overflow-y-auto">
+              {listings.map((listing) => (
+                <motion.button
+                  key={listing.id}
+                  onClick={() => {
+                    hapticFeedback('impact', 'light');
+                    setSelectedListing(listing);
+                  }}
+                  className={`w-full flex items-center gap-3 p-3 rounded-2xl bg-gray-800/60 border text-left transition-all ${
+                    activeListingId === listing.id ? 'border-blue-500/60' : 'border-transparent hover:border-white/20'
+                  }`}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <div className="w-14 h-14 rounded-xl overflow-hidden bg-gray-900 shrink-0 flex items-center justify-center">
+                    {listing.photos[0] ? (
+                      <img src={listing.photos[0].url} alt={listing.title} className="w-full h-full object-cover" loading="lazy" />
+                    ) : (
+                      <Building2 className="h-6 w-6 text-gray-500" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-white truncate">{listing.title}</p>
+                    <p className="text-[10px] text-gray-400 mt-0.5">
+                      {listing.photos.length} {t('modules.listing.photos')} · {Object.values(listing.descriptions).filter(Boolean).length} {t('modules.listing.texts')} · {listing.videos.length} {t('modules.listing.videos')}
+                    </p>
+                    <p className="text-[10px] text-gray-500">{formatDate(listing.updated_at)}</p>
+                  </div>
+                  <ChevronRight className="w-4 h-4 text-gray-500" />
+                </motion.button>
+              ))}
+            </div>
+          )
+        ) : items.length === 0 ? (
           <div className="flex-1 flex flex-col items-center justify-center p-8 text-center animate-in fade-in zoom-in duration-500">
              <motion.div 
                animate={{ y: [0, -10, 0] }}
@@ -251,6 +349,95 @@ export function Gallery() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Listing Detail Sheet */}
+      <AnimatePresence>
+        {selectedListing && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex flex-col bg-black/95 backdrop-blur-xl"
+            onClick={() => setSelectedListing(null)}
+          >
+            <div className="flex items-center justify-between p-4 pt-6">
+              <button
+                onClick={(e) => { e.stopPropagation(); setSelectedListing(null); }}
+                className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+              >
+                <ChevronRight className="w-6 h-6 rotate-180" />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDeleteListing(selectedListing); }}
+                className="p-2 rounded-full bg-red-500/10 text-red-500 hover:bg-red-500/20 transition-colors"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 space-y-4" onClick={(e) => e.stopPropagation()}>
+              <div>
+                <h3 className="text-xl font-bold text-white">{selectedListing.title}</h3>
+                <p className="text-xs text-gray-400">{formatDate(selectedListing.updated_at)}</p>
+              </div>
+
+              {selectedListing.photos.length > 0 && (
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {selectedListing.photos.map((photo) => (
+                    <img
+                      key={photo.id}
+                      src={photo.url}
+                      alt=""
+                      className="h-24 w-24 rounded-xl object-cover shrink-0"
+                      loading="lazy"
+                    />
+                  ))}
+                </div>
+              )}
+
+              {Object.entries(selectedListing.descriptions).map(([platform, text]) => text && (
+                <div key={platform} className="bg-gray-900 p-4 rounded-2xl border border-white/10">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-emerald-400 mb-2">{platform}</p>
+                  <pre className="whitespace-pre-wrap text-sm text-gray-200 font-sans leading-relaxed max-h-48 overflow-y-auto">
+                    {text}
+                  </pre>
+                </div>
+              ))}
+
+              {selectedListing.videos.map((video) => (
+                <video key={video.id} src={video.url} controls className="w-full max-h-[50vh] rounded-2xl bg-black" />
+              ))}
+            </div>
+
+            <div className="p-6 pb-10 grid grid-cols-3 gap-2" onClick={(e) => e.stopPropagation()}>
+              <button
+                onClick={() => handleOpenListing(selectedListing)}
+                className="py-3 rounded-2xl bg-blue-500 text-white font-bold text-sm flex items-center justify-center gap-1.5 active:scale-[0.98] transition-all"
+              >
+                <FolderOpen className="w-4 h-4" />
+                {t('modules.listing.open')}
+              </button>
+              <button
+                onClick={() => handleCopyListing(selectedListing)}
+                className="py-3 rounded-2xl bg-white/10 text-white font-bold text-sm flex items-center justify-center gap-1.5 active:scale-[0.98] transition-all"
+              >
+                <Copy className="w-4 h-4" />
+                {t('modules.ai.copy_btn')}
+              </button>
+              <button
+                onClick={() => {
+                  hapticFeedback('impact', 'light');
+                  downloadListingExport(selectedListing);
+                }}
+                className="py-3 rounded-2xl bg-white text-black font-bold text-sm flex items-center justify-center gap-1.5 active:scale-[0.98] transition-all"
+              >
+                <Download className="w-4 h-4" />
+                {t('modules.listing.export')}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </>
   );
 }
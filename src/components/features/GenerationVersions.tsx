@@ -0,0 +1,285 @@
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'sonner';
+import { useAppStore, useGenerationVersionStore, groupGenerationChains, type GenerationChain } from '@/store';
+import { copyToClipboard } from '@/services/shareService';
+import { useTelegram } from '@/hooks';
+import { diffText, diffStats, splitDiff, type DiffSegment } from '@/utils/textDiff';
+import type { GenerationVersion, Platform } from '@/types';
+import { ChevronRight, Copy, GitBranch, History, RotateCcw, Trash2, Wand2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+const PLATFORM_LABELS: Record<Platform, string> = {
+  telegram: 'Telegram',
+  instagram: 'Instagram',
+  olx: 'OLX',
+  uybor: 'uybor.uz',
+  facebook: 'Facebook',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+};
+
+function DiffText({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <pre className="whitespace-pre-wrap text-xs text-gray-200 font-sans leading-relaxed">
+      {segments.map((segment, i) => (
+        <span
+          key={i}
+          className={
+            segment.op === 'added' ? 'bg-emerald-500/25 text-emerald-200 rounded-sm'
+            : segment.op === 'removed' ? 'bg-red-500/25 text-red-200 line-through rounded-sm'
+            : undefined
+          }
+        >
+          {segment.text}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
+/**
+ * Version chains of AI posts: browse, compare two versions side by side, restore
+ */
+export function GenerationVersions({ formatDate }: { formatDate: (date: string) => string }) {
+  const { t } = useTranslation();
+  const { versions, restoreVersion, openVersion, removeChain } = useGenerationVersionStore();
+  const { setCurrentView } = useAppStore();
+  const { hapticFeedback, showConfirm } = useTelegram();
+
+  const chains = useMemo(() => groupGenerationChains(versions), [versions]);
+  const [selectedChainId, setSelectedChainId] = useState<string | null>(null);
+  // Compared pair: base (left) and target (right)
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  const selectedChain = chains.find((chain) => chain.chainId === selectedChainId) ?? null;
+  const target = selectedChain?.versions.find((v) => v.id === targetId) ?? selectedChain?.head ?? null;
+  const base = selectedChain?.versions.find((v) => v.id === baseId) ?? null;
+
+  const diff = base && target ? diffText(base.output, target.output) : null;
+  const sides = diff ? splitDiff(diff) : null;
+  const stats = diff ? diffStats(diff) : null;
+
+  const openChain = (chain: GenerationChain) => {
+    hapticFeedback('impact', 'light');
+    const { versions: list, head } = chain;
+    setSelectedChainId(chain.chainId);
+    setTargetId(head.id);
+    setBaseId(list.length > 1 ? list[list.length - 2].id : null);
+  };
+
+  const describe = (version: GenerationVersion) => {
+    if (version.restoredFrom) {
+      const source = selectedChain?.versions.find((v) => v.id === version.restoredFrom);
+      return t('modules.versions.restored_from', { version: source?.version ?? '?' });
+    }
+    return version.instruction ? `“${version.instruction}”` : t('modules.versions.first');
+  };
+
+  const handleRestore = (version: GenerationVersion) => {
+    const restored = restoreVersion(version.id);
+    if (!restored) return;
+    hapticFeedback('notification', 'success');
+    toast.success(t('modules.versions.restored', { version: version.version }));
+    setSelectedChainId(null);
+    setCurrentView('ai-convert');
+  };
+
+  const handleOpen = (version: GenerationVersion) => {
+    hapticFeedback('selection');
+    openVersion(version.id);
+    setSelectedChainId(null);
+    setCurrentView('ai-convert');
+  };
+
+  const handleCopy = async (version: GenerationVersion) => {
+    const result = await copyToClipboard(version.output);
+    if (result.success) {
+      hapticFeedback('notification', 'success');
+      toast.success(t('common.copied') + '!');
+    } else {
+      toast.error(t('common.error'));
+    }
+  };
+
+  const handleDelete = async (chainId: string) => {
+    hapticFeedback('notification', 'warning');
+    const confirmed = await showConfirm(t('modules.versions.confirm_delete'));
+    if (confirmed) {
+      removeChain(chainId);
+      hapticFeedback('notification', 'success');
+      setSelectedChainId(null);
+    }
+  };
+
+  const versionChips = (selectedId: string | null, onSelect: (id: string | null) => void, allowNone: boolean) => (
+    <div className="flex gap-1.5 overflow-x-auto pb-1">
+      {allowNone && (
+        <button
+          onClick={() => onSelect(null)}
+          className={`px-2.5 py-1 rounded-lg text-[11px] font-bold shrink-0 transition-all ${
+            selectedId === null ? 'bg-white text-black' : 'bg-white/5 text-gray-400'
+          }`}
+        >
+          —
+        </button>
+      )}
+      {selectedChain?.versions.map((version) => (
+        <button
+          key={version.id}
+          onClick={() => {
+            hapticFeedback('selection');
+            onSelect(version.id);
+          }}
+          className={`px-2.5 py-1 rounded-lg text-[11px] font-bold shrink-0 transition-all ${
+            selectedId === version.id ? 'bg-white text-black' : 'bg-white/5 text-gray-400'
+          }`}
+        >
+          {t('modules.versions.version_short', { version: version.version })}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (chains.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+        <div className="bg-gray-800/50 p-8 rounded-[2rem] border border-white/5 mb-6">
+          <GitBranch className="h-16 w-16 text-gray-400" />
+        </div>
+        <h2 className="text-xl font-bold text-gray-300 mb-2">{t('modules.versions.empty')}</h2>
+        <p className="text-gray-500 text-sm leading-relaxed max-w-[220px]">
+          {t('modules.versions.empty_desc')}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-2 px-1 pb-4 overflow-y-auto">
+        {chains.map((chain) => (
+          <motion.button
+            key={chain.chainId}
+            onClick={() => openChain(chain)}
+            className="w-full flex items-center gap-3 p-3 rounded-2xl bg-gray-800/60 border border-transparent hover:border-white/20 text-left transition-all"
+            whileTap={{ scale: 0.98 }}
+          >
+            <div className="w-11 h-11 rounded-xl bg-gray-900 shrink-0 flex items-center justify-center">
+              <History className="h-5 w-5 text-emerald-400" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-bold text-white truncate">
+                {PLATFORM_LABELS[chain.head.platform]}
+                <span className="ml-2 text-[10px] font-bold text-blue-400">
+                  {t('modules.versions.count', { count: chain.versions.length })}
+                </span>
+              </p>
+              <p className="text-[11px] text-gray-400 truncate">{chain.head.output}</p>
+              <p className="text-[10px] text-gray-500">{formatDate(chain.head.created_at)}</p>
+            </div>
+            <ChevronRight className="w-4 h-4 text-gray-500" />
+          </motion.button>
+        ))}
+      </div>
+
+      {/* Chain Detail Sheet */}
+      <AnimatePresence>
+        {selectedChain && target && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex flex-col bg-black/95 backdrop-blur-xl"
+            onClick={() => setSelectedChainId(null)}
+          >
+            <div className="flex items-center justify-between p-4 pt-6">
+              <button
+                onClick={(e) => { e.stopPropagation(); setSelectedChainId(null); }}
+                className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+              >
+                <ChevronRight className="w-6 h-6 rotate-180" />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDelete(selectedChain.chainId); }}
+                className="p-2 rounded-full bg-red-500/10 text-red-500 hover:bg-red-500/20 transition-colors"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 space-y-4" onClick={(e) => e.stopPropagation()}>
+              <div>
+                <h3 className="text-xl font-bold text-white">{PLATFORM_LABELS[selectedChain.head.platform]}</h3>
+                <p className="text-xs text-gray-400 line-clamp-2">{selectedChain.head.rawInput}</p>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-[10px] font-bold uppercase tracking-wider text-gray-500">{t('modules.versions.compare_with')}</p>
+                {versionChips(baseId, setBaseId, true)}
+                <p className="text-[10px] font-bold uppercase tracking-wider text-gray-500">{t('modules.versions.viewing')}</p>
+                {versionChips(target.id, setTargetId, false)}
+              </div>
+
+              <div className="text-[11px] text-gray-400 space-y-0.5">
+                <p className="text-gray-200">{describe(target)}</p>
+                <p>
+                  {formatDate(target.created_at)}
+                  {target.provider && ` · ${target.provider}`}
+                  {stats && ` · +${stats.added} / −${stats.removed}`}
+                </p>
+              </div>
+
+              {sides && base ? (
+                <div className="grid grid-cols-2 gap-2">
+                  {[{ version: base, segments: sides.before }, { version: target, segments: sides.after }].map(({ version, segments }) => (
+                    <div key={version.id} className="bg-gray-900 p-3 rounded-2xl border border-white/10 min-w-0">
+                      <p className="text-[10px] font-bold uppercase tracking-wider text-emerald-400 mb-2">
+                        {t('modules.versions.version_short', { version: version.version })}
+                      </p>
+                      <DiffText segments={segments} />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="bg-gray-900 p-4 rounded-2xl border border-white/10">
+                  <pre className="whitespace-pre-wrap text-sm text-gray-200 font-sans leading-relaxed">
+                    {target.output}
+                  </pre>
+                </div>
+              )}
+            </div>
+
+            <div className="p-6 pb-10 grid grid-cols-3 gap-2" onClick={(e) => e.stopPropagation()}>
+              {target.id === selectedChain.head.id ? (
+                <button
+                  onClick={() => handleOpen(target)}
+                  className="py-3 rounded-2xl bg-blue-500 text-white font-bold text-sm flex items-center justify-center gap-1.5 active:scale-[0.98] transition-all"
+                >
+                  <Wand2 className="w-4 h-4" />
+                  {t('modules.versions.open')}
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleRestore(target)}
+                  className="py-3 rounded-2xl bg-blue-500 text-white font-bold text-sm flex items-center justify-center gap-1.5 active:scale-[0.98] transition-all"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  {t('modules.versions.restore')}
+                </button>
+              )}
+              <button
+                onClick={() => handleCopy(target)}
+                className="col-span-2 py-3 rounded-2xl bg-white text-black font-bold text-sm flex items-center justify-center gap-1.5 active:scale-[0.98] transition-all"
+              >
+                <Copy className="w-4 h-4" />
+                {t('modules.ai.copy_btn')}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
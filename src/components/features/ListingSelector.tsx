@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'sonner';
+import { useListingStore, selectActiveListing } from '@/store';
+import { useTelegram } from '@/hooks';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import type { Listing } from '@/types';
+import { Building2, ChevronDown, Check, Plus, X, Loader2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+interface ListingSelectorProps {
+  onOpen?: (listing: Listing | null) => void;
+}
+
+/**
+ * Compact "current listing" chip with a bottom sheet to switch or create listings.
+ * Outputs of the hosting screen are attached to whichever listing is open here.
+ */
+export function ListingSelector({ onOpen }: ListingSelectorProps) {
+  const { t } = useTranslation();
+  const { hapticFeedback } = useTelegram();
+  const { listings, openListing, createListing, isSaving } = useListingStore();
+  const activeListing = useListingStore(selectActiveListing);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+
+  const handleSelect = (listing: Listing | null) => {
+    hapticFeedback('selection');
+    openListing(listing?.id ?? null);
+    onOpen?.(listing);
+    setIsOpen(false);
+  };
+
+  const handleCreate = async () => {
+    const title = newTitle.trim();
+    if (!title) return;
+
+    try {
+      const listing = await createListing(title);
+      hapticFeedback('notification', 'success');
+      toast.success(t('modules.listing.created'));
+      setNewTitle('');
+      onOpen?.(listing);
+      setIsOpen(false);
+    } catch {
+      toast.error(t('common.error'));
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full flex items-center gap-2 px-3 py-2 rounded-xl bg-gray-50 dark:bg-black/20 border border-gray-200 dark:border-white/10 text-left transition-colors hover:bg-gray-100 dark:hover:bg-white/5"
+      >
+        <Building2 className="w-4 h-4 text-blue-500 shrink-0" />
+        <span className="flex-1 text-xs font-medium text-gray-700 dark:text-gray-300 truncate">
+          {activeListing ? activeListing.title : t('modules.listing.none')}
+        </span>
+        <ChevronDown className="w-4 h-4 text-gray-400" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-end bg-black/70 backdrop-blur-sm"
+            onClick={() => setIsOpen(false)}
+          >
+            <motion.div
+              initial={{ y: '100%' }}
+              animate={{ y: 0 }}
+              exit={{ y: '100%' }}
+              transition={{ type: 'spring', damping: 28, stiffness: 300 }}
+              className="w-full max-h-[75vh] flex flex-col bg-white dark:bg-[#1E1E1E] rounded-t-3xl border-t border-gray-200 dark:border-white/10 p-5 pb-10 space-y-4"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+                  {t('modules.listing.title')}
+                </h3>
+                <button
+                  onClick={() => setIsOpen(false)}
+                  className="p-2 rounded-full bg-gray-100 dark:bg-white/10 text-gray-500"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+
+              {/* Create New */}
+              <div className="flex gap-2">
+                <Input
+                  value={newTitle}
+                  onChange={(e) => setNewTitle(e.target.value)}
+                  placeholder={t('modules.listing.new_placeholder')}
+                  className="rounded-xl"
+                  disabled={isSaving}
+                />
+                <Button
+                  onClick={handleCreate}
+                  disabled={isSaving || !newTitle.trim()}
+                  className="rounded-xl bg-blue-500 hover:bg-blue-600 text-white"
+                >
+                  {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                </Button>
+              </div>
+
+              {/* Existing Listings */}
+              <div className="flex-1 overflow-y-auto space-y-2">
+                <button
+                  onClick={() => handleSelect(null)}
+                  className="w-full flex items-center justify-between px-4 py-3 rounded-xl border border-gray-200 dark:border-white/10 text-sm text-gray-500"
+                >
+                  {t('modules.listing.none')}
+                  {!activeListing && <Check className="w-4 h-4 text-blue-500" />}
+                </button>
+                {listings.map((listing) => (
+                  <button
+                    key={listing.id}
+                    onClick={() => handleSelect(listing)}
+                    className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border text-left transition-colors ${
+                      activeListing?.id === listing.id
+                        ? 'bg-blue-500/10 border-blue-500'
+                        : 'border-gray-200 dark:border-white/10 hover:bg-gray-50 dark:hover:bg-white/5'
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">{listing.title}</p>
+                      <p className="text-[10px] text-gray-500">
+                        {listing.photos.length} {t('modules.listing.photos')} · {Object.values(listing.descriptions).filter(Boolean).length} {t('modules.listing.texts')} · {listing.videos.length} {t('modules.listing.videos')}
+                      </p>
+                    </div>
+                    {activeListing?.id === listing.id && <Check className="w-4 h-4 text-blue-500 shrink-0" />}
+                  </button>
+                ))}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
@@ -0,0 +1,116 @@
+import { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { useUserStore } from '@/store';
+import { readProvenanceTag } from '@/services/imageService';
+import type { ProvenanceTag } from '@/types';
+import { Loader2, ShieldAlert, ShieldCheck, Upload } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+type CheckResult = { fileName: string; tag: ProvenanceTag | null };
+
+/**
+ * Reads the invisible ownership tag hidden in exported photos
+ */
+export function OwnershipCheck() {
+  const { t, i18n } = useTranslation();
+  const { user } = useUserStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isChecking, setIsChecking] = useState(false);
+  const [result, setResult] = useState<CheckResult | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsChecking(true);
+    setResult(null);
+    try {
+      setResult({ fileName: file.name, tag: await readProvenanceTag(file) });
+    } catch (error) {
+      console.error('Ownership check failed:', error);
+      toast.error(t('common.error'));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(i18n.language, {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const isMine = !!result?.tag && result.tag.telegramId === String(user.telegramId);
+
+  return (
+    <motion.div
+      key="ownership"
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -20 }}
+      className="space-y-5"
+    >
+      <p className="text-xs text-gray-500">{t('settings.ownership.desc')}</p>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isChecking}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-white dark:bg-white/5 border border-gray-200 dark:border-white/10 text-gray-700 dark:text-gray-200 rounded-xl font-medium hover:bg-gray-100 dark:hover:bg-white/10 transition-all active:scale-[0.98] disabled:opacity-50"
+      >
+        {isChecking ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+        {isChecking ? t('settings.ownership.checking') : t('settings.ownership.upload')}
+      </button>
+
+      {result && (
+        <div
+          className={`p-4 rounded-xl border ${
+            result.tag
+              ? 'bg-emerald-500/10 border-emerald-500/30'
+              : 'bg-gray-50 dark:bg-white/5 border-gray-200 dark:border-white/10'
+          }`}
+        >
+          <div className="flex items-start gap-3">
+            {result.tag ? (
+              <ShieldCheck size={20} className="shrink-0 text-emerald-500" />
+            ) : (
+              <ShieldAlert size={20} className="shrink-0 text-gray-400" />
+            )}
+            <div className="min-w-0 space-y-1 text-sm">
+              <p className="font-medium truncate">{result.fileName}</p>
+              {result.tag ? (
+                <>
+                  <p className="font-bold text-emerald-600 dark:text-emerald-400">
+                    {isMine ? t('settings.ownership.mine') : t('settings.ownership.other')}
+                  </p>
+                  <p className="text-gray-500">
+                    {t('settings.ownership.owner')}: <span className="font-mono">{result.tag.telegramId}</span>
+                  </p>
+                  <p className="text-gray-500">
+                    {t('settings.ownership.exported')}: {formatDate(result.tag.timestamp)}
+                  </p>
+                </>
+              ) : (
+                <p className="text-gray-500">{t('settings.ownership.not_found')}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <p className="text-[11px] text-gray-400">{t('settings.ownership.hint')}</p>
+    </motion.div>
+  );
+}
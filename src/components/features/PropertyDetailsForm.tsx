@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PROPERTY_TYPES } from '@/constants';
+import type { PropertyType } from '@/types';
+import type { ParsedPropertyDetails } from '@/utils/propertyParser';
+import { ClipboardList, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+interface PropertyDetailsFormProps {
+  details: ParsedPropertyDetails;
+  onChange: (details: ParsedPropertyDetails) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+type NumericField = 'rooms' | 'area' | 'floor' | 'totalFloors' | 'price';
+
+/**
+ * Editable view of the facts extracted from the agent's note.
+ * Whatever is confirmed here is sent to the generator as ground truth.
+ */
+export function PropertyDetailsForm({ details, onChange, onClear, disabled }: PropertyDetailsFormProps) {
+  const { t } = useTranslation();
+  // Features are edited as free text and committed on blur so commas can be typed
+  const [featuresText, setFeaturesText] = useState(details.features?.join(', ') ?? '');
+
+  const setField = <K extends keyof ParsedPropertyDetails>(key: K, value: ParsedPropertyDetails[K]) => {
+    const next = { ...details, [key]: value };
+    if (value === undefined || value === '') delete next[key];
+    onChange(next);
+  };
+
+  const setNumber = (key: NumericField, value: string) => {
+    const parsed = parseFloat(value.replace(',', '.'));
+    setField(key, Number.isFinite(parsed) ? parsed : undefined);
+  };
+
+  const numericFields: Array<{ key: NumericField; label: string }> = [
+    { key: 'rooms', label: t('modules.ai.details.rooms') },
+    { key: 'area', label: t('modules.ai.details.area') },
+    { key: 'floor', label: t('modules.ai.details.floor') },
+    { key: 'totalFloors', label: t('modules.ai.details.total_floors') },
+  ];
+
+  const inputClass = 'h-9 rounded-lg bg-white dark:bg-black/20 border-gray-200 dark:border-white/5 text-sm';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="bg-gray-50 dark:bg-black/20 p-4 rounded-2xl border border-blue-500/20 space-y-3"
+    >
+      <div className="flex items-center justify-between">
+        <Label className="text-xs font-bold uppercase tracking-wider text-gray-400 flex items-center gap-2">
+          <ClipboardList className="w-3 h-3" />
+          {t('modules.ai.details.title')}
+        </Label>
+        <button
+          onClick={onClear}
+          className="p-1 rounded-md text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-[10px] text-gray-500">{t('modules.ai.details.type')}</Label>
+          <Select
+            value={details.type ?? 'apartment'}
+            onValueChange={(v: PropertyType) => setField('type', v)}
+            disabled={disabled}
+          >
+            <SelectTrigger className={inputClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROPERTY_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-[10px] text-gray-500">{t('modules.ai.details.location')}</Label>
+          <Input
+            value={details.location ?? ''}
+            onChange={(e) => setField('location', e.target.value || undefined)}
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+
+        {numericFields.map(({ key, label }) => (
+          <div key={key} className="space-y-1">
+            <Label className="text-[10px] text-gray-500">{label}</Label>
+            <Input
+              type="number"
+              inputMode="decimal"
+              value={details[key] ?? ''}
+              onChange={(e) => setNumber(key, e.target.value)}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-1">
+          <Label className="text-[10px] text-gray-500">{t('modules.ai.details.price')}</Label>
+          <Input
+            type="number"
+            inputMode="decimal"
+            value={details.price ?? ''}
+            onChange={(e) => setNumber('price', e.target.value)}
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-[10px] text-gray-500">{t('modules.ai.details.currency')}</Label>
+          <Select
+            value={details.currency ?? 'USD'}
+            onValueChange={(v: 'USD' | 'UZS') => setField('currency', v)}
+            disabled={disabled}
+          >
+            <SelectTrigger className={inputClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="USD">USD ($)</SelectItem>
+              <SelectItem value="UZS">UZS (so'm)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-[10px] text-gray-500">{t('modules.ai.details.features')}</Label>
+        <Input
+          value={featuresText}
+          onChange={(e) => setFeaturesText(e.target.value)}
+          onBlur={() => {
+            const features = featuresText.split(',').map((f) => f.trim()).filter(Boolean);
+            setField('features', features.length > 0 ? features : undefined);
+          }}
+          placeholder={t('modules.ai.details.features_hint')}
+          className={inputClass}
+          disabled={disabled}
+        />
+      </div>
+    </motion.div>
+  );
+}
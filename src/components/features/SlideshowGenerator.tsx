@@ -1,31 +1,35 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
-import { useImageStore, useAppStore, useHistoryStore } from '@/store';
+import { useImageStore, useAppStore, useHistoryStore, useListingStore, selectActiveListing } from '@/store';
 import { generateSlideshowLocal, type SlideshowProgress } from '@/services/slideshowServiceLocal';
 
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Play, Download, Loader2, Video, Send, Sparkles, ImagePlus } from 'lucide-react';
+import { Play, Download, Loader2, Video, Send, Sparkles, ImagePlus, Building2 } from 'lucide-react';
 import { useFilePicker, useImageProcessor } from '@/hooks';
 import { sendFileToChat, getTelegramChatId } from '@/services/telegramService';
 import { uploadFileToStorage } from '@/services/historyService';
-import type { TransitionType } from '@/types';
+import type { ProcessedImage, TransitionType } from '@/types';
 import { useTranslation } from 'react-i18next';
 
 import { PremiumGate } from '@/components/features/PremiumGate';
+import { ListingSelector } from '@/components/features/ListingSelector';
 
 export function SlideshowGenerator() {
   const { t } = useTranslation();
   const { 
     images, 
     processedImages,
-    selectedIds
+    selectedIds,
+    isReordered
   } = useImageStore();
   
   const { isProcessing, setProcessing, addToast } = useAppStore();
+  const activeListing = useListingStore(selectActiveListing);
+  const { attachVideo, attachPhotos, isSaving: isSavingListing } = useListingStore();
   
   // Determine source images: prefer processed, fallback to original
   const sourceImages = selectedIds.length > 0 
@@ -148,6 +152,22 @@ export function SlideshowGenerator() {
     }
   };
 
+  const handleAttachToListing = async () => {
+    if (!activeListing || !videoUrl) return;
+
+    try {
+      // Only processed images carry a blob we can upload alongside the video
+      const photos = sourceImages.filter((img): img is ProcessedImage => 'blob' in img);
+      if (photos.length > 0) {
+        await attachPhotos(activeListing.id, photos, isReordered);
+      }
+      await attachVideo(activeListing.id, videoUrl);
+      addToast({ type: 'success', title: t('modules.listing.attached'), message: activeListing.title });
+    } catch {
+      addToast({ type: 'error', title: t('common.error') });
+    }
+  };
+
   return (
     <PremiumGate featureName="Video Generator">
        <div className="flex flex-col h-full space-y-4 pb-24">
@@ -201,6 +221,10 @@ export function SlideshowGenerator() {
                  </div>
               </div>
 
+              <div className="px-2">
+                <ListingSelector />
+              </div>
+
               {/* Phone Preview Area */}
               <div className="flex-1 flex justify-center items-start pt-2 pb-6 min-h-[400px]">
                 <div className="relative w-full max-w-[260px] aspect-[9/16] bg-black rounded-[2.5rem] border-[6px] border-gray-800 shadow-2xl ring-1 ring-white/10 overflow-hidden">
@@ -438,6 +462,22 @@ export function SlideshowGenerator() {
                             <Send className="mr-2 h-4 w-4" />
                             {t('modules.video_studio.send_to_bot')}
                         </Button>
+
+                        {activeListing && (
+                          <Button
+                              variant="outline"
+                              className="col-span-2 h-12 rounded-xl border-blue-500/30 text-blue-400 hover:bg-blue-500/10"
+                              onClick={handleAttachToListing}
+                              disabled={isSavingListing}
+                          >
+                              {isSavingListing ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              ) : (
+                                <Building2 className="mr-2 h-4 w-4" />
+                              )}
+                              {t('modules.listing.attach')}
+                          </Button>
+                        )}
                     </motion.div>
                   )}
                 </AnimatePresence>
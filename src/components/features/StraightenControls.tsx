@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, Ruler, Wand2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Slider } from '@/components/ui/slider';
+import { MAX_ROTATION } from '@/utils/image';
+import type { GeometryCorrection } from '@/types';
+
+const STRAIGHT: GeometryCorrection = { rotation: 0, vertical: 0 };
+
+interface StraightenControlsProps {
+  value?: GeometryCorrection;
+  detected?: GeometryCorrection;          // Found by Magic Fix; undefined when no lines were found
+  disabled?: boolean;
+  onChange: (value: GeometryCorrection) => void;
+  onCommit: (value: GeometryCorrection) => void; // Slider released: re-render the preview
+}
+
+/**
+ * Manual straighten (rotation) and vertical-line (keystone) correction
+ */
+export function StraightenControls({ value = STRAIGHT, detected, disabled, onChange, onCommit }: StraightenControlsProps) {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const isAuto = detected !== undefined &&
+    detected.rotation === value.rotation &&
+    detected.vertical === value.vertical;
+
+  return (
+    <div className="rounded-2xl bg-white/5 border border-white/10">
+      <div className="flex items-center justify-between px-4 py-3">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-sm font-medium text-gray-300"
+        >
+          <Ruler className="h-4 w-4 text-blue-400" />
+          {t('modules.magic_fix.straighten.title')}
+          <ChevronDown className={`h-4 w-4 text-gray-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+        <button
+          onClick={() => detected && onCommit(detected)}
+          disabled={disabled || !detected || isAuto}
+          title={detected ? undefined : t('modules.magic_fix.straighten.no_lines')}
+          className="flex items-center gap-1 text-xs font-medium text-gray-400 hover:text-white disabled:opacity-40"
+        >
+          <Wand2 className="h-3.5 w-3.5" />
+          {t('modules.magic_fix.straighten.auto')}
+        </button>
+      </div>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="space-y-4 px-4 pb-4">
+              <div className="space-y-2">
+                <div className="flex justify-between text-[11px] font-medium text-gray-400">
+                  <span>{t('modules.magic_fix.straighten.rotation')}</span>
+                  <span className="text-gray-500">{value.rotation > 0 ? '+' : ''}{value.rotation.toFixed(1)}°</span>
+                </div>
+                <Slider
+                  value={[value.rotation]}
+                  min={-MAX_ROTATION}
+                  max={MAX_ROTATION}
+                  step={0.1}
+                  disabled={disabled}
+                  onValueChange={([rotation]) => onChange({ ...value, rotation })}
+                  onValueCommit={([rotation]) => onCommit({ ...value, rotation })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between text-[11px] font-medium text-gray-400">
+                  <span>{t('modules.magic_fix.straighten.vertical')}</span>
+                  <span className="text-gray-500">{value.vertical > 0 ? '+' : ''}{value.vertical}</span>
+                </div>
+                <Slider
+                  value={[value.vertical]}
+                  min={-100}
+                  max={100}
+                  step={1}
+                  disabled={disabled}
+                  onValueChange={([vertical]) => onChange({ ...value, vertical })}
+                  onValueCommit={([vertical]) => onCommit({ ...value, vertical })}
+                />
+              </div>
+
+              <button
+                onClick={() => onCommit(STRAIGHT)}
+                disabled={disabled || (value.rotation === 0 && value.vertical === 0)}
+                className="w-full py-2 rounded-xl bg-white/10 text-xs font-bold text-gray-200 disabled:opacity-40"
+              >
+                {t('modules.magic_fix.straighten.none')}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { useVoiceProfileStore } from '@/store';
+import { VOICE_PROFILE_LIMITS } from '@/utils/voiceProfile';
+import type { VoiceProfileDraft } from '@/services/voiceProfileService';
+import type { VoiceProfile } from '@/types';
+import { Check, Loader2, Mic, Plus, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+const EMPTY_DRAFT: VoiceProfileDraft = {
+  name: '',
+  agencyName: '',
+  instructions: '',
+  footer: '',
+  signature: '',
+  hashtags: [],
+  forbiddenWords: [],
+};
+
+function toDraft(profile: VoiceProfile): VoiceProfileDraft {
+  const { name, agencyName, instructions, footer, signature, hashtags, forbiddenWords } = profile;
+  return { name, agencyName, instructions, footer, signature, hashtags, forbiddenWords };
+}
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-white/10 bg-gray-50 dark:bg-black/20 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all placeholder:text-gray-500 text-sm';
+const labelClass = 'text-xs font-medium text-gray-400 uppercase tracking-wider mb-2 block';
+
+/**
+ * CRUD for agency voice profiles (templates merged into the AI prompt)
+ */
+export function VoiceProfileSettings() {
+  const { t } = useTranslation();
+  const { profiles, isSaving, saveProfile, removeProfile } = useVoiceProfileStore();
+
+  const [editingId, setEditingId] = useState<string | null>(profiles[0]?.id ?? null);
+  const [draft, setDraft] = useState<VoiceProfileDraft>(profiles[0] ? toDraft(profiles[0]) : EMPTY_DRAFT);
+  // Lists are edited as comma separated text
+  const [hashtagsText, setHashtagsText] = useState(draft.hashtags.join(', '));
+  const [forbiddenText, setForbiddenText] = useState(draft.forbiddenWords.join(', '));
+
+  const edit = (profile: VoiceProfile | null) => {
+    const next = profile ? toDraft(profile) : EMPTY_DRAFT;
+    setEditingId(profile?.id ?? null);
+    setDraft(next);
+    setHashtagsText(next.hashtags.join(', '));
+    setForbiddenText(next.forbiddenWords.join(', '));
+  };
+
+  const splitList = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast.warning(t('settings.voice.name_required'));
+      return;
+    }
+
+    try {
+      const saved = await saveProfile(
+        { ...draft, hashtags: splitList(hashtagsText), forbiddenWords: splitList(forbiddenText) },
+        editingId ?? undefined
+      );
+      edit(saved);
+      toast.success(t('common.success'));
+    } catch {
+      toast.error(t('common.error'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingId || !confirm(t('settings.voice.confirm_delete'))) return;
+    await removeProfile(editingId);
+    const rest = profiles.filter((p) => p.id !== editingId);
+    edit(rest[0] ?? null);
+  };
+
+  return (
+    <motion.div
+      key="voice"
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -20 }}
+      className="space-y-5"
+    >
+      <p className="text-xs text-gray-500">{t('settings.voice.desc')}</p>
+
+      {/* Profile Chips */}
+      <div className="flex flex-wrap gap-2">
+        {profiles.map((profile) => (
+          <button
+            key={profile.id}
+            onClick={() => edit(profile)}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${
+              editingId === profile.id
+                ? 'bg-blue-500 border-blue-500 text-white'
+                : 'bg-gray-100 dark:bg-white/5 border-gray-200 dark:border-white/10 text-gray-500'
+            }`}
+          >
+            {profile.name}
+          </button>
+        ))}
+        <button
+          onClick={() => edit(null)}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold border border-dashed transition-all ${
+            editingId === null
+              ? 'border-blue-500 text-blue-500'
+              : 'border-gray-300 dark:border-white/20 text-gray-500'
+          }`}
+        >
+          <Plus size={12} />
+          {t('settings.voice.new')}
+        </button>
+      </div>
+
+      {/* Editor */}
+      <section className="space-y-4">
+        <div>
+          <label className={labelClass}>{t('settings.voice.name')}</label>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder={t('settings.voice.name_placeholder')}
+            maxLength={60}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>{t('settings.voice.agency_name')}</label>
+          <input
+            value={draft.agencyName}
+            onChange={(e) => setDraft({ ...draft, agencyName: e.target.value })}
+            maxLength={VOICE_PROFILE_LIMITS.agencyName}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>{t('settings.voice.instructions')}</label>
+          <textarea
+            value={draft.instructions}
+            onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+            placeholder={t('settings.voice.instructions_placeholder')}
+            maxLength={VOICE_PROFILE_LIMITS.instructions}
+            rows={3}
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>{t('settings.voice.signature')}</label>
+          <textarea
+            value={draft.signature}
+            onChange={(e) => setDraft({ ...draft, signature: e.target.value })}
+            placeholder={t('settings.voice.signature_placeholder')}
+            maxLength={VOICE_PROFILE_LIMITS.signature}
+            rows={2}
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>{t('settings.voice.footer')}</label>
+          <textarea
+            value={draft.footer}
+            onChange={(e) => setDraft({ ...draft, footer: e.target.value })}
+            placeholder={t('settings.voice.footer_placeholder')}
+            maxLength={VOICE_PROFILE_LIMITS.footer}
+            rows={2}
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>{t('settings.voice.hashtags')}</label>
+          <input
+            value={hashtagsText}
+            onChange={(e) => setHashtagsText(e.target.value)}
+            placeholder="#toshkent, #kvartira"
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>{t('settings.voice.forbidden_words')}</label>
+          <input
+            value={forbiddenText}
+            onChange={(e) => setForbiddenText(e.target.value)}
+            placeholder={t('settings.voice.forbidden_placeholder')}
+            className={inputClass}
+          />
+        </div>
+      </section>
+
+      {/* Actions */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-white/10">
+        {editingId && (
+          <button
+            onClick={handleDelete}
+            disabled={isSaving}
+            className="flex items-center justify-center gap-2 px-4 py-3 bg-red-500/10 text-red-500 rounded-xl font-bold hover:bg-red-500/20 transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={18} />
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-blue-600 to-cyan-500 text-white rounded-xl font-bold hover:shadow-lg hover:shadow-blue-500/25 transition-all disabled:opacity-50 active:scale-[0.98]"
+        >
+          {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : editingId ? <Check size={20} strokeWidth={3} /> : <Mic size={18} />}
+          {t('common.save')}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
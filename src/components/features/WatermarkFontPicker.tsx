@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Plus, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useFontStore } from '@/store';
+import { getWatermarkFonts, MAX_USER_FONTS } from '@/services/fontService';
+import { fontStack, loadWatermarkFont } from '@/utils/fonts';
+import type { WatermarkFont } from '@/types';
+
+interface WatermarkFontPickerProps {
+  value: string | undefined;  // Font id; undefined = system font
+  onChange: (id: string | undefined) => void;
+}
+
+/**
+ * System font, bundled fonts and the agent's uploads, one chip each. Chips
+ * show in their own font once it has been loaded (fonts load when picked).
+ */
+export function WatermarkFontPicker({ value, onChange }: WatermarkFontPickerProps) {
+  const { t } = useTranslation();
+  const { fonts: userFonts, isUploading, uploadFont, removeFont } = useFontStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadedIds, setLoadedIds] = useState<string[]>([]);
+
+  const fonts = useMemo(() => getWatermarkFonts(userFonts), [userFonts]);
+  const userFontIds = useMemo(() => new Set(userFonts.map((f) => f.id)), [userFonts]);
+
+  const markLoaded = (font: WatermarkFont) =>
+    loadWatermarkFont(font).then((loaded) => {
+      if (loaded) setLoadedIds((ids) => (ids.includes(font.id) ? ids : [...ids, font.id]));
+    });
+
+  // The saved choice shows in its font right away
+  useEffect(() => {
+    const selected = fonts.find((f) => f.id === value);
+    if (selected) markLoaded(selected);
+  }, [fonts, value]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const font = await uploadFont(file);
+      onChange(font.id);
+      toast.success(t('settings.fonts.uploaded'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('common.error'));
+    }
+  };
+
+  const handleDelete = async (font: WatermarkFont) => {
+    if (!confirm(t('settings.fonts.confirm_delete', { name: font.name }))) return;
+    if (value === font.id) onChange(undefined);
+    await removeFont(font.id);
+  };
+
+  const chipClass = (isActive: boolean) =>
+    `flex items-center gap-1 px-3 py-1.5 rounded-full text-sm border transition-all ${
+      isActive
+        ? 'bg-blue-500 border-blue-500 text-white'
+        : 'bg-gray-100 dark:bg-white/5 border-gray-200 dark:border-white/10 text-gray-600 dark:text-gray-300'
+    }`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => onChange(undefined)} className={chipClass(!value)}>
+          {t('settings.fonts.system')}
+        </button>
+
+        {fonts.map((font) => (
+          <span key={font.id} className={chipClass(value === font.id)}>
+            <button
+              onClick={() => {
+                onChange(font.id);
+                markLoaded(font);
+              }}
+              style={loadedIds.includes(font.id) ? { fontFamily: fontStack(font) } : undefined}
+            >
+              {font.name}
+            </button>
+            {userFontIds.has(font.id) && (
+              <button
+                onClick={() => handleDelete(font)}
+                className="opacity-60 hover:opacity-100"
+                aria-label={t('common.delete')}
+              >
+                <X size={12} />
+              </button>
+            )}
+          </span>
+        ))}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ttf,.woff2"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading || userFonts.length >= MAX_USER_FONTS}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold border border-dashed border-gray-300 dark:border-white/20 text-gray-500 disabled:opacity-50"
+        >
+          {isUploading ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+          {t('settings.fonts.upload')}
+        </button>
+      </div>
+      <p className="text-[11px] text-gray-400">{t('settings.fonts.hint', { count: MAX_USER_FONTS })}</p>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { Star } from 'lucide-react';
+import type { WatermarkPreset } from '@/types';
+
+interface WatermarkPresetPickerProps {
+  presets: WatermarkPreset[];
+  activeId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+}
+
+/**
+ * One chip per preset; the default one is starred
+ */
+export function WatermarkPresetPicker({ presets, activeId, disabled, onSelect }: WatermarkPresetPickerProps) {
+  return (
+    <div className="flex items-center gap-1.5 overflow-x-auto">
+      {presets.map((preset) => {
+        const isActive = preset.id === activeId;
+        return (
+          <button
+            key={preset.id}
+            onClick={() => onSelect(preset.id)}
+            disabled={disabled || isActive}
+            className={`shrink-0 flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-medium border transition-colors disabled:cursor-default ${
+              isActive
+                ? 'bg-amber-500/20 text-amber-500 dark:text-amber-400 border-amber-500/30'
+                : 'bg-gray-100 dark:bg-white/5 text-gray-500 dark:text-gray-400 border-gray-200 dark:border-white/10'
+            }`}
+          >
+            {preset.isDefault && <Star className="h-3 w-3 fill-current" />}
+            {preset.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -175,5 +175,6 @@ export const NAV_ITEMS = [
 
 export const API = {
   generateDescription: '/api/generate-description',
+  extractDetails: '/api/extract-details',
   analyzeImage: '/api/analyze-image',
 } as const;
@@ -1,15 +1,16 @@
 import { useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useImageStore, useAppStore, useSettingsStore, useUserStore } from '@/store';
-import { processImagesInQueue, getMagicFixPreset } from '@/services/imageService';
-import { compressImage } from '@/utils/image';
+import { useImageStore, useAppStore, useSettingsStore, useUserStore, useHistoryStore } from '@/store';
+import { processImagesInQueue } from '@/services/imageService';
+import { compressImage, hashImage, isNearDuplicate, groupNearDuplicates, createProvenanceTag } from '@/utils/image';
 import { toast } from 'sonner';
 import type { ImageFile } from '@/types';
 
 export function useImageProcessor() {
   const { 
     addImages, 
-    addProcessedImage 
+    addProcessedImage,
+    setDuplicateGroups
   } = useImageStore();
   
   const { 
@@ -78,9 +79,10 @@ export function useImageProcessor() {
             compressedFiles,
             {
                 compression: compressionConfig,
-                enhancement: getMagicFixPreset(), // Auto-apply Magic Fix as requested
+                enhancement: 'auto', // Auto-apply Magic Fix, tuned per photo
                 watermark: watermarkConfig,
-                isPremium: user.isPremium
+                isPremium: user.isPremium,
+                provenance: createProvenanceTag(user.telegramId)
             },
             (progress) => {
                 setProgress({
@@ -100,10 +102,45 @@ export function useImageProcessor() {
             if (processed) addProcessedImage(processed);
         });
 
+        // Phase 3: Perceptual hashes for duplicate detection
+        for (let i = 0; i < originals.length; i++) {
+            setProgress({
+                current: i + 1,
+                total: originals.length,
+                status: 'processing',
+                message: `🔍 ${t('modules.magic_fix.duplicates.checking')} ${i + 1}/${originals.length}...`
+            });
+            try {
+                originals[i].hash = await hashImage(originals[i].preview);
+            } catch (e) {
+                console.warn(`Hashing ${originals[i].name} failed`, e);
+            }
+        }
+
         if (originals.length > 0) {
             addImages(originals);
         }
 
+        // Near-duplicates within the whole set (new uploads vs. each other and earlier ones)
+        const groups = groupNearDuplicates(useImageStore.getState().images);
+        setDuplicateGroups(groups);
+        if (groups.length > 0) {
+            toast.warning(t('modules.magic_fix.duplicates.found', { count: groups.length }), {
+                description: t('modules.magic_fix.duplicates.found_desc')
+            });
+        }
+
+        // Photos already processed before (hashes stored with history)
+        const history = useHistoryStore.getState().items.flatMap((item) =>
+            item.type === 'image' && item.dhash && item.phash ? [{ dHash: item.dhash, pHash: item.phash }] : []
+        );
+        const seenBefore = originals.filter(({ hash }) => hash && history.some((known) => isNearDuplicate(hash, known)));
+        if (seenBefore.length > 0) {
+            toast.info(t('modules.magic_fix.duplicates.seen_before', { count: seenBefore.length }), {
+                description: seenBefore.map((img) => img.name).join(', ')
+            });
+        }
+
         setProgress({
             current: files.length,
             total: files.length,
@@ -127,7 +164,7 @@ export function useImageProcessor() {
     } finally {
         setTimeout(() => setProcessing(false), 1000);
     }
-  }, [compressionConfig, watermarkConfig, user.isPremium, addImages, addProcessedImage, setProcessing, setProgress, addToast]);
+  }, [compressionConfig, watermarkConfig, user.isPremium, user.telegramId, addImages, addProcessedImage, setDuplicateGroups, setProcessing, setProgress, addToast, t]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
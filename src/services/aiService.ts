@@ -1,11 +1,24 @@
-import type { PropertyDetails, GeneratedDescriptions, Platform } from '@/types';
+import type { PropertyDetails, GeneratedDescriptions, Platform, OutputLanguage, VoiceProfileContent, PhotoFindings } from '@/types';
 import { useUserStore } from '@/store';
+import {
+  parsePropertyText,
+  hasCoreDetails,
+  toPropertyDetails,
+  type ParsedPropertyDetails,
+} from '@/utils/propertyParser';
+import type { FactWarning } from '@/utils/factChecker';
+import { PLATFORM_RULES, formatForPlatform, getMaxLength } from '@/utils/platformFormat';
+import { latinToCyrillic } from '@/utils/transliterate';
+import { stubAnalyzePhotos, summarizePhotoFindings, PHOTO_LIMITS } from '@/utils/photoFindings';
+import { createThumbnailDataUrl } from '@/utils/image';
 
 // ===================================
 // AI Description Service
 // ===================================
 
 const API_ENDPOINT = '/api/generate-description';
+const EXTRACT_ENDPOINT = '/api/extract-details';
+const ANALYZE_ENDPOINT = '/api/analyze-image';
 const REQUEST_TIMEOUT = 30000;
 const MAX_FREE_GENERATIONS = 5;
 
@@ -34,6 +47,39 @@ export class AIServiceError extends Error {
   }
 }
 
+export type InputRejectionReason = 'injection' | 'off_topic' | 'too_long';
+
+/**
+ * The server's abuse guard refused the input (no generation was charged)
+ */
+export class InputRejectedError extends AIServiceError {
+  readonly reason?: InputRejectionReason;
+
+  constructor(message: string, reason?: InputRejectionReason) {
+    super(message, 'INPUT_REJECTED');
+    this.name = 'InputRejectedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Too many requests from this client; `retryAfterSeconds` comes from Retry-After
+ */
+export class RateLimitedError extends AIServiceError {
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message, 'IP_RATE_LIMIT');
+    this.name = 'RateLimitedError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+function parseRetryAfter(response: Response): number | undefined {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : undefined;
+}
+
 export class NetworkError extends Error {
   readonly code = 'NETWORK_ERROR' as const;
   
@@ -43,19 +89,44 @@ export class NetworkError extends Error {
   }
 }
 
+export class GenerationCancelledError extends Error {
+  readonly code = 'CANCELLED' as const;
+  readonly partialText: string;
+
+  constructor(partialText: string = '') {
+    super('Generatsiya bekor qilindi');
+    this.name = 'GenerationCancelledError';
+    this.partialText = partialText;
+  }
+}
+
 // ===================================
 // Response Types
 // ===================================
 
 interface APISuccessResponse {
   text: string;
+  provider?: string; // AI provider that served the response
+  warnings?: FactWarning[]; // Fact-check results (already applied to `text`)
+}
+
+interface APIMultiSuccessResponse {
+  descriptions: Partial<GeneratedDescriptions>;
+  provider?: string;
+  warnings?: Partial<Record<Platform, FactWarning[]>>;
 }
 
 interface APIErrorResponse {
   error: string;
   code?: string;
+  reason?: InputRejectionReason;
 }
 
+type APIStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; provider: string; warnings?: FactWarning[]; text?: string }
+  | { type: 'error'; error: string; code: string };
+
 // ===================================
 // Result Type (for type-safe error handling)
 // ===================================
@@ -123,12 +194,42 @@ function incrementLocalUsage(): void {
 // Single Platform Generator (DeepSeek API)
 // ===================================
 
+export interface GenerateDescriptionOptions {
+  previousText?: string;
+  instruction?: string;
+  language?: OutputLanguage;
+  tone?: 'expert' | 'emotional' | 'minimalist';
+  details?: ParsedPropertyDetails;
+  voiceProfile?: VoiceProfileContent; // Agency template merged into the prompt
+  photoFindings?: PhotoFindings;      // From analyzeListingPhotos, extra facts for the prompt
+}
+
 export async function generateDescription(
   rawInput: string,
   platform: Platform,
-  options?: { previousText?: string; instruction?: string; language?: 'uz' | 'ru' }
+  options?: GenerateDescriptionOptions
 ): Promise<string> {
   // 1. CHECK LIMIT BEFORE API CALL
+  assertCanGenerate();
+
+  const data = await postGeneration<APISuccessResponse>(
+    {
+      rawInput,
+      platform,
+      previousText: options?.previousText,
+      instruction: options?.instruction,
+      language: options?.language,
+      tone: options?.tone,
+      details: options?.details,
+      voiceProfile: options?.voiceProfile,
+      photoFindings: options?.photoFindings
+    },
+    () => ({ text: getDevMockResponse(rawInput, platform, options?.language) })
+  );
+  return data.text;
+}
+
+function assertCanGenerate(): void {
   const limitCheck = checkUserLimit();
   
   if (!limitCheck.canGenerate) {
@@ -137,7 +238,30 @@ export async function generateDescription(
       limitCheck.remainingGenerations
     );
   }
-  
+}
+
+function getDevMockResponse(rawInput: string, platform: Platform, language?: OutputLanguage): string {
+  const isRu = language === 'ru';
+  const mockResponses: Record<string, string> = {
+      telegram: isRu 
+          ? `🔥 **ОТЛИЧНОЕ ПРЕДЛОЖЕНИЕ!**\n\n🏠 Объект: ${rawInput.substring(0, 30)}...\n\n✅ Сделан качественный ремонт\n✅ Отличная локация\n\n📞 Звоните: +998 (XX) XXX-XX-XX`
+          : `🔥 **AJOYIB TAKLIF!**\n\n🏠 O'byekt: ${rawInput.substring(0, 30)}...\n\n✅ Sifatli ta'mirlangan\n✅ Zo'r lokatsiya\n\n📞 Tel: +998 (XX) XXX-XX-XX`,
+      instagram: `🏡 Dream Home ✨\n\nCheck out: ${rawInput.substring(0, 20)}...\n\nDM for details! 📥 #realestate`,
+      olx: isRu ? `Продается недвижимость.\n${rawInput}` : `Ko'chmas mulk sotiladi.\n${rawInput}`,
+      uybor: isRu ? `Продается недвижимость.\n\n${rawInput}` : `Ko'chmas mulk sotiladi.\n\n${rawInput}`,
+      facebook: `🏠 ${rawInput.substring(0, 60)}\n\n💬 Messenger`,
+      whatsapp: `🏠 *${rawInput.substring(0, 40)}*\n\n${isRu ? 'Пишите 👇' : 'Yozing 👇'}`,
+      sms: rawInput.substring(0, 120),
+  };
+  const text = mockResponses[platform] ? formatForPlatform(mockResponses[platform], platform) : "Mock content...";
+  return language === 'uz-cyrl' ? latinToCyrillic(text) : text;
+}
+
+/**
+ * POST to the generation API with timeout and retries.
+ * Counts one generation locally on success.
+ */
+async function postGeneration<T>(body: Record<string, unknown>, devMock: () => T): Promise<T> {
   // 2. PREPARE REQUEST
   const initData = (window as any).Telegram?.WebApp?.initData || '';
   
@@ -156,13 +280,7 @@ export async function generateDescription(
             'Content-Type': 'application/json',
             'X-Telegram-Init-Data': initData
           },
-          body: JSON.stringify({ 
-            rawInput, 
-            platform,
-            previousText: options?.previousText,
-            instruction: options?.instruction,
-            language: options?.language
-          }),
+          body: JSON.stringify(body),
           signal: controller.signal
         });
         
@@ -175,25 +293,24 @@ export async function generateDescription(
              console.log('🧪 API missing in DEV, using local mock response...');
              await new Promise(r => setTimeout(r, 1000));
              
-             const isRu = options?.language === 'ru';
-             const mockResponses: Record<string, string> = {
-                 telegram: isRu 
-                     ? `🔥 **ОТЛИЧНОЕ ПРЕДЛОЖЕНИЕ!**\n\n🏠 Объект: ${rawInput.substring(0, 30)}...\n\n✅ Сделан качественный ремонт\n✅ Отличная локация\n\n📞 Звоните: +998 (XX) XXX-XX-XX`
-                     : `🔥 **AJOYIB TAKLIF!**\n\n🏠 O'byekt: ${rawInput.substring(0, 30)}...\n\n✅ Sifatli ta'mirlangan\n✅ Zo'r lokatsiya\n\n📞 Tel: +998 (XX) XXX-XX-XX`,
-                 instagram: `🏡 Dream Home ✨\n\nCheck out: ${rawInput.substring(0, 20)}...\n\nDM for details! 📥 #realestate`,
-                 olx: isRu ? `Продается недвижимость.\n${rawInput}` : `Ko'chmas mulk sotiladi.\n${rawInput}`
-             };
-             
              incrementLocalUsage();
-             return mockResponses[platform] || "Mock content...";
+             return devMock();
           }
 
           // Try to parse error data if possible
-          const errorData = await response.json().catch(() => ({ error: 'AI xizmatida xatolik', code: 'API_ERROR' }));
+          const errorData: APIErrorResponse = await response.json().catch(() => ({ error: 'AI xizmatida xatolik', code: 'API_ERROR' }));
           
           if (errorData.code === 'RATE_LIMIT_EXCEEDED') {
             throw new LimitExceededError(errorData.error || 'Kunlik limit tugadi', 0);
           }
+
+          if (errorData.code === 'INPUT_REJECTED') {
+            throw new InputRejectedError(errorData.error, errorData.reason);
+          }
+
+          if (errorData.code === 'IP_RATE_LIMIT') {
+            throw new RateLimitedError(errorData.error, parseRetryAfter(response));
+          }
           
           if (response.status >= 500) {
              throw new Error("Server error, retrying...");
@@ -203,7 +320,7 @@ export async function generateDescription(
         }
 
         // 5. PARSE SUCCESS RESPONSE
-        let data: APISuccessResponse;
+        let data: T;
         try {
           data = await response.json();
         } catch {
@@ -212,8 +329,7 @@ export async function generateDescription(
 
         // 6. SUCCESS
         incrementLocalUsage();
-        return data.text;
-
+        return data;
       } catch (error: unknown) {
         clearTimeout(timeoutId);
         
@@ -250,6 +366,260 @@ export async function generateDescription(
     throw new AIServiceError('Maksimal urinishlar tugadi', 'RETRY_FAILED');
 }
 
+// ===================================
+// Streaming Generator
+// ===================================
+
+export interface StreamDescriptionOptions extends GenerateDescriptionOptions {
+  signal?: AbortSignal;
+  onToken?: (text: string) => void; // Receives the full text generated so far
+  onWarnings?: (warnings: FactWarning[]) => void; // Fact-check results once the stream ends
+  onProvider?: (provider: string) => void; // AI provider that served the generation
+}
+
+async function* readStreamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<APIStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield JSON.parse(line.slice(5)) as APIStreamEvent;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Same as generateDescription, but renders the text progressively via `onToken`.
+ * Not retried: a half-streamed post cannot be replayed. Aborting `signal`
+ * rejects with GenerationCancelledError carrying the partial text.
+ * The server counts the generation once it accepts the request, so exactly
+ * one generation is counted locally as well, even when cancelled.
+ */
+export async function streamDescription(
+  rawInput: string,
+  platform: Platform,
+  options: StreamDescriptionOptions = {}
+): Promise<string> {
+  const { signal, onToken, onWarnings, onProvider, ...generateOptions } = options;
+
+  assertCanGenerate();
+
+  const initData = (window as { Telegram?: { WebApp?: { initData?: string } } }).Telegram?.WebApp?.initData || '';
+
+  // Timeout only guards the wait for the first byte; user cancel is forwarded
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+
+  let text = '';
+
+  try {
+    const response = await fetch(API_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Telegram-Init-Data': initData
+      },
+      body: JSON.stringify({ rawInput, platform, ...generateOptions, stream: true }),
+      signal: controller.signal
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      // DEV without the API: reuse the non-streaming mock
+      if (import.meta.env.DEV && response.status === 404) {
+        text = await generateDescription(rawInput, platform, generateOptions);
+        onToken?.(text);
+        return text;
+      }
+
+      const errorData: APIErrorResponse = await response.json().catch(() => ({ error: 'AI xizmatida xatolik', code: 'API_ERROR' }));
+      if (errorData.code === 'RATE_LIMIT_EXCEEDED') {
+        throw new LimitExceededError(errorData.error || 'Kunlik limit tugadi', 0);
+      }
+      if (errorData.code === 'INPUT_REJECTED') {
+        throw new InputRejectedError(errorData.error, errorData.reason);
+      }
+      if (errorData.code === 'IP_RATE_LIMIT') {
+        throw new RateLimitedError(errorData.error, parseRetryAfter(response));
+      }
+      throw new AIServiceError(errorData.error || 'AI xizmatida xatolik', errorData.code || 'API_ERROR');
+    }
+
+    // Accepted by the server = one generation used
+    incrementLocalUsage();
+
+    // Older deployments answer with plain JSON
+    if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      const data: APISuccessResponse = await response.json();
+      onToken?.(data.text);
+      onWarnings?.(data.warnings ?? []);
+      if (data.provider) onProvider?.(data.provider);
+      return data.text;
+    }
+
+    for await (const event of readStreamEvents(response.body)) {
+      if (event.type === 'delta') {
+        text += event.text;
+        onToken?.(text);
+      } else if (event.type === 'done') {
+        // Server-side fact check may replace hallucinated numbers
+        if (event.text) {
+          text = event.text;
+          onToken?.(text);
+        }
+        onWarnings?.(event.warnings ?? []);
+        onProvider?.(event.provider);
+      } else if (event.type === 'error') {
+        throw new AIServiceError(event.error || 'AI xizmatida xatolik', event.code || 'API_ERROR');
+      }
+    }
+
+    return text.trim();
+
+  } catch (error: unknown) {
+    if (error instanceof LimitExceededError || error instanceof AIServiceError) {
+      throw error;
+    }
+    if (signal?.aborted) {
+      throw new GenerationCancelledError(text);
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new NetworkError('Sorov vaqti tugadi (Timeout). Iltimos qaytadan urinib koring.');
+    }
+    if (error instanceof TypeError) {
+      throw new NetworkError('Serverga ulanib bolmadi. Internet aloqasini tekshiring.');
+    }
+    const message = error instanceof Error ? error.message : 'Noma\'lum xatolik';
+    throw new AIServiceError(message, 'UNKNOWN_ERROR');
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+// ===================================
+// Structured Details Extraction
+// ===================================
+
+export interface ExtractionResult {
+  details: ParsedPropertyDetails;
+  source: 'ai' | 'heuristic' | 'local';
+  warnings: string[];
+}
+
+/**
+ * Parse an agent's free-form note into PropertyDetails fields.
+ * Does not count against the daily generation limit.
+ * Falls back to the on-device parser when the API is unreachable.
+ */
+export async function extractPropertyDetails(rawInput: string): Promise<ExtractionResult> {
+  const initData = (window as { Telegram?: { WebApp?: { initData?: string } } }).Telegram?.WebApp?.initData || '';
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(EXTRACT_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Telegram-Init-Data': initData
+      },
+      body: JSON.stringify({ rawInput }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'AI xizmatida xatolik', code: 'API_ERROR' }));
+      // Server-side problems and a missing API in DEV degrade to the local parser
+      if (response.status >= 500 || response.status === 404) {
+        return { details: parsePropertyText(rawInput), source: 'local', warnings: [] };
+      }
+      throw new AIServiceError(errorData.error || 'AI xizmatida xatolik', errorData.code || 'API_ERROR');
+    }
+
+    return await response.json() as ExtractionResult;
+  } catch (error) {
+    if (error instanceof AIServiceError) throw error;
+    console.warn('Details extraction failed, using local parser:', error);
+    return { details: parsePropertyText(rawInput), source: 'local', warnings: [] };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// ===================================
+// Photo Analysis
+// ===================================
+
+export interface PhotoAnalysisResult {
+  findings: PhotoFindings;
+  analyzer: string; // 'stub' when the API is missing in DEV
+}
+
+/**
+ * Detect rooms, renovation, furniture, view and light on the listing photos.
+ * Sends small thumbnails, not the originals. Does not count against the
+ * daily generation limit.
+ */
+export async function analyzeListingPhotos(sources: string[]): Promise<PhotoAnalysisResult> {
+  const thumbnails = await Promise.all(
+    sources.slice(0, PHOTO_LIMITS.photos).map((src) => createThumbnailDataUrl(src))
+  );
+
+  const initData = (window as { Telegram?: { WebApp?: { initData?: string } } }).Telegram?.WebApp?.initData || '';
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(ANALYZE_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Telegram-Init-Data': initData
+      },
+      body: JSON.stringify({ images: thumbnails }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      // DEV without the API: deterministic stub findings
+      if (import.meta.env.DEV && response.status === 404) {
+        return { findings: summarizePhotoFindings(stubAnalyzePhotos(thumbnails)), analyzer: 'stub' };
+      }
+
+      const errorData: APIErrorResponse = await response.json().catch(() => ({ error: 'AI xizmatida xatolik', code: 'API_ERROR' }));
+      if (errorData.code === 'IP_RATE_LIMIT') {
+        throw new RateLimitedError(errorData.error, parseRetryAfter(response));
+      }
+      throw new AIServiceError(errorData.error || 'AI xizmatida xatolik', errorData.code || 'API_ERROR');
+    }
+
+    return await response.json() as PhotoAnalysisResult;
+  } catch (error) {
+    if (error instanceof AIServiceError) throw error;
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new NetworkError('Sorov vaqti tugadi (Timeout). Iltimos qaytadan urinib koring.');
+    }
+    throw new NetworkError('Serverga ulanib bolmadi. Internet aloqasini tekshiring.');
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
 // ===================================
 // Safe Generator (Returns Result Object)
 // ===================================
@@ -279,39 +649,57 @@ export async function generateDescriptionSafe(
 }
 
 // ===================================
-// Multi-Platform Generator (Legacy Support)
+// Multi-Platform Generator (Single Request)
 // ===================================
 
 export async function generateDescriptions(
-  details: PropertyDetails | { rawInput: string }
-): Promise<GeneratedDescriptions> {
-  // Check limit once before any requests
-  const limitCheck = checkUserLimit();
-  
-  if (!limitCheck.canGenerate) {
-    throw new LimitExceededError(
-      `Kunlik limit tugadi. Premium ga o'ting!`,
-      limitCheck.remainingGenerations
-    );
+  details: PropertyDetails | { rawInput: string },
+  options?: Pick<GenerateDescriptionOptions, 'language' | 'tone' | 'details' | 'voiceProfile' | 'photoFindings'> & {
+    onWarnings?: (warnings: Partial<Record<Platform, FactWarning[]>>) => void;
+    onProvider?: (provider: string) => void;
   }
+): Promise<GeneratedDescriptions> {
+  // Check limit once: the server produces all three posts for one usage unit
+  assertCanGenerate();
   
   try {
     const rawInput: string = ('rawInput' in details && details.rawInput) 
       ? details.rawInput 
       : JSON.stringify(details);
     
-    const [telegram, instagram, olx] = await Promise.all([
-      generateDescription(rawInput, 'telegram').catch(() => generateLocalFallback(rawInput, 'telegram')),
-      generateDescription(rawInput, 'instagram').catch(() => generateLocalFallback(rawInput, 'instagram')),
-      generateDescription(rawInput, 'olx').catch(() => generateLocalFallback(rawInput, 'olx')),
-    ]);
+    const data = await postGeneration<APIMultiSuccessResponse>(
+      {
+        rawInput,
+        platform: 'all',
+        language: options?.language,
+        tone: options?.tone,
+        details: options?.details ?? ('price' in details ? details : undefined),
+        voiceProfile: options?.voiceProfile,
+        photoFindings: options?.photoFindings
+      },
+      () => ({
+        descriptions: {
+          telegram: getDevMockResponse(rawInput, 'telegram', options?.language),
+          instagram: getDevMockResponse(rawInput, 'instagram', options?.language),
+          olx: getDevMockResponse(rawInput, 'olx', options?.language),
+        }
+      })
+    );
 
-    return { telegram, instagram, olx };
+    options?.onWarnings?.(data.warnings ?? {});
+    if (data.provider) options?.onProvider?.(data.provider);
+
+    return {
+      telegram: data.descriptions.telegram || generateLocalFallback(rawInput, 'telegram'),
+      instagram: data.descriptions.instagram || generateLocalFallback(rawInput, 'instagram'),
+      olx: data.descriptions.olx || generateLocalFallback(rawInput, 'olx'),
+    };
   } catch (error) {
-    // Re-throw limit errors
-    if (error instanceof LimitExceededError) throw error;
+    // Re-throw limit errors and rejected input (templates would bypass the guard)
+    if (error instanceof LimitExceededError || error instanceof InputRejectedError || error instanceof RateLimitedError) throw error;
     
     console.error('AI generation error:', error);
+    options?.onProvider?.('template');
     return generateLocalDescriptions(details);
   }
 }
@@ -333,8 +721,12 @@ function generateLocalFallback(rawInput: string, platform: Platform): string {
     telegram: `🔥 **Yangi taklif!**\n\n${rawInput}\n\n📞 Hoziroq qongiroq qiling!`,
     instagram: `📍 Yangi elon!\n\n${rawInput}\n\n#kochmasmulk #toshkent #makler`,
     olx: `Kochmas mulk sotiladi.\n\n${rawInput}\n\nBatafsil malumot uchun boglaning.`,
+    uybor: `Kochmas mulk sotiladi.\n\n${rawInput}\n\nBatafsil malumot uchun boglaning.`,
+    facebook: `🏠 Yangi elon!\n\n${rawInput}\n\n💬 Messenger orqali yozing.`,
+    whatsapp: `🏠 *Yangi elon!*\n\n${rawInput}\n\nYozing 👇`,
+    sms: rawInput,
   };
-  return fallbacks[platform];
+  return formatForPlatform(fallbacks[platform], platform);
 }
 
 // ===================================
@@ -342,8 +734,15 @@ function generateLocalFallback(rawInput: string, platform: Platform): string {
 // ===================================
 
 function generateLocalDescriptions(details: PropertyDetails | { rawInput: string }): GeneratedDescriptions {
-  if ('rawInput' in details && details.rawInput) {
+  if ('rawInput' in details && details.rawInput && !('price' in details)) {
     const raw = details.rawInput;
+
+    // Use structured templates when the note contains enough facts
+    const parsed = parsePropertyText(raw);
+    if (hasCoreDetails(parsed)) {
+      return generateLocalDescriptions(toPropertyDetails(parsed, raw));
+    }
+
     return {
       telegram: `🔥 **Срочное предложение!**\n\n${raw}\n\n📞 Звоните сейчас!`,
       instagram: `📍 Новое поступление!\n\n${raw}\n\n#недвижимость`,
@@ -477,11 +876,7 @@ export function getCharacterCount(text: string): number {
   return text.length;
 }
 
-export function getPlatformLimits(platform: Platform): { max: number; recommended: number } {
-  const limits = {
-    telegram: { max: 4096, recommended: 1000 },
-    instagram: { max: 2200, recommended: 800 },
-    olx: { max: 9000, recommended: 2000 },
-  };
-  return limits[platform];
+export function getPlatformLimits(platform: Platform, text = ''): { max: number; recommended: number } {
+  const max = getMaxLength(platform, text);
+  return { max, recommended: Math.min(PLATFORM_RULES[platform].recommended, max) };
 }
@@ -0,0 +1,155 @@
+import { supabase } from '@/lib/supabase';
+import { useUserStore } from '@/store/userStore';
+import { useFontStore } from '@/store/fontStore';
+import { BUNDLED_FONTS, userFontToWatermarkFont } from '@/utils/fonts';
+import type { UserFont, WatermarkFont } from '@/types';
+
+// ===================================
+// Font Service
+// ===================================
+// Agents' own watermark fonts: the file goes to the public 'fonts' bucket,
+// one user_fonts row per file. Bundled fonts live in utils/fonts.
+
+const TABLE = 'user_fonts';
+const FONTS_BUCKET = 'fonts';
+const MAX_FONT_SIZE = 2 * 1024 * 1024; // 2MB
+export const MAX_USER_FONTS = 10;
+
+// Browsers often leave File.type empty for fonts, so the extension decides
+const FONT_FORMATS: Record<string, { format: UserFont['format']; contentType: string }> = {
+  ttf: { format: 'truetype', contentType: 'font/ttf' },
+  woff2: { format: 'woff2', contentType: 'font/woff2' },
+};
+
+interface UserFontRow {
+  id: string;
+  name: string;
+  file_url: string;
+  file_path: string;
+  format: UserFont['format'];
+  created_at: string;
+}
+
+function getClient() {
+  if (!supabase) throw new Error('Supabase client not initialized');
+  return supabase;
+}
+
+function getTelegramId(): string {
+  const user = useUserStore.getState().user;
+  if (!user?.telegramId) throw new Error('User not loaded');
+  return String(user.telegramId);
+}
+
+function toUserFont(row: UserFontRow): UserFont {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.file_url,
+    format: row.format,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Fetch the current user's uploaded fonts (alphabetical)
+ */
+export async function fetchUserFonts(): Promise<UserFont[]> {
+  const user = useUserStore.getState().user;
+  if (!user?.telegramId) return [];
+
+  const { data, error } = await getClient()
+    .from(TABLE)
+    .select('*')
+    .eq('telegram_id', String(user.telegramId))
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data as UserFontRow[]).map(toUserFont);
+}
+
+/**
+ * Validate a TTF/WOFF2 file, upload it and register it for the current user.
+ * Files the browser cannot parse as a font are rejected before upload.
+ */
+export async function uploadUserFont(file: File): Promise<UserFont> {
+  const telegramId = getTelegramId();
+  const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const type = FONT_FORMATS[ext];
+  if (!type) throw new Error('Faqat TTF yoki WOFF2 shriftlar qabul qilinadi');
+  if (file.size > MAX_FONT_SIZE) throw new Error('Shrift hajmi 2MB dan oshmasligi kerak');
+
+  try {
+    await new FontFace('FontUploadCheck', await file.arrayBuffer()).load();
+  } catch {
+    throw new Error("Shrift faylini o'qib bo'lmadi");
+  }
+
+  const client = getClient();
+  const filePath = `${telegramId}/font_${Date.now()}.${ext}`;
+  const { error: uploadError } = await client.storage
+    .from(FONTS_BUCKET)
+    .upload(filePath, file, { contentType: type.contentType, cacheControl: '31536000' });
+  if (uploadError) throw uploadError;
+
+  const { data: urlData } = client.storage.from(FONTS_BUCKET).getPublicUrl(filePath);
+  const name = file.name.replace(/\.[^.]+$/, '').trim().slice(0, 40) || 'Font';
+
+  const { data, error } = await client
+    .from(TABLE)
+    .insert({
+      telegram_id: telegramId,
+      name,
+      file_url: urlData.publicUrl,
+      file_path: filePath,
+      format: type.format,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned file behind
+    await client.storage.from(FONTS_BUCKET).remove([filePath]);
+    throw error;
+  }
+  return toUserFont(data as UserFontRow);
+}
+
+/**
+ * Delete an uploaded font and its file
+ */
+export async function deleteUserFont(id: string): Promise<void> {
+  const client = getClient();
+  const { data, error } = await client
+    .from(TABLE)
+    .delete()
+    .eq('id', id)
+    .select('file_path')
+    .single();
+
+  if (error) throw error;
+  const { error: removeError } = await client.storage
+    .from(FONTS_BUCKET)
+    .remove([(data as Pick<UserFontRow, 'file_path'>).file_path]);
+  if (removeError) console.warn('Error deleting font file:', removeError);
+}
+
+// ===================================
+// Lookup
+// ===================================
+
+/**
+ * Bundled and uploaded fonts, as the picker lists them
+ */
+export function getWatermarkFonts(userFonts: UserFont[] = useFontStore.getState().fonts): WatermarkFont[] {
+  return [...BUNDLED_FONTS, ...userFonts.map(userFontToWatermarkFont)];
+}
+
+/**
+ * Font for a saved choice (id, or family for WatermarkConfig.fontFamily);
+ * null means the system font
+ */
+export function resolveWatermarkFont(idOrFamily: string | undefined): WatermarkFont | null {
+  if (!idOrFamily) return null;
+  return getWatermarkFonts().find((font) => font.id === idOrFamily || font.family === idOrFamily) ?? null;
+}
@@ -0,0 +1,112 @@
+import { supabase } from '@/lib/supabase';
+import { useUserStore } from '@/store/userStore';
+import type { GenerationTone, GenerationVersion, OutputLanguage, Platform } from '@/types';
+
+// ===================================
+// Generation Version Service
+// ===================================
+
+const TABLE = 'generation_versions';
+
+// Older chains are still in the database, the app only shows recent work
+const FETCH_LIMIT = 300;
+
+interface GenerationVersionRow {
+  id: string;
+  chain_id: string;
+  parent_id: string | null;
+  version: number;
+  platform: Platform;
+  language: OutputLanguage;
+  tone: GenerationTone;
+  raw_input: string;
+  instruction: string | null;
+  restored_from: string | null;
+  provider: string | null;
+  output: string;
+  created_at: string;
+}
+
+function getClient() {
+  if (!supabase) throw new Error('Supabase client not initialized');
+  return supabase;
+}
+
+function toVersion(row: GenerationVersionRow): GenerationVersion {
+  return {
+    id: row.id,
+    chainId: row.chain_id,
+    parentId: row.parent_id,
+    version: row.version,
+    platform: row.platform,
+    language: row.language,
+    tone: row.tone,
+    rawInput: row.raw_input,
+    instruction: row.instruction,
+    restoredFrom: row.restored_from,
+    provider: row.provider,
+    output: row.output,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Fetch the current user's most recent versions (newest first)
+ */
+export async function fetchGenerationVersions(): Promise<GenerationVersion[]> {
+  const user = useUserStore.getState().user;
+  if (!user?.telegramId) return [];
+
+  const { data, error } = await getClient()
+    .from(TABLE)
+    .select('*')
+    .eq('telegram_id', String(user.telegramId))
+    .order('created_at', { ascending: false })
+    .limit(FETCH_LIMIT);
+
+  if (error) throw error;
+  return (data as GenerationVersionRow[]).map(toVersion);
+}
+
+/**
+ * Insert a version built on the client (id and chain already assigned)
+ */
+export async function insertGenerationVersion(version: GenerationVersion): Promise<GenerationVersion> {
+  const telegramId = useUserStore.getState().user?.telegramId;
+  if (!telegramId) throw new Error('User context missing');
+
+  const { data, error } = await getClient()
+    .from(TABLE)
+    .insert({
+      id: version.id,
+      telegram_id: String(telegramId),
+      chain_id: version.chainId,
+      parent_id: version.parentId,
+      version: version.version,
+      platform: version.platform,
+      language: version.language,
+      tone: version.tone,
+      raw_input: version.rawInput,
+      instruction: version.instruction,
+      restored_from: version.restoredFrom,
+      provider: version.provider,
+      output: version.output,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toVersion(data as GenerationVersionRow);
+}
+
+/**
+ * Delete every version of a chain
+ */
+export async function deleteGenerationChain(chainId: string): Promise<void> {
+  const { error } = await getClient()
+    .from(TABLE)
+    .delete()
+    .eq('chain_id', chainId);
+
+  if (error) throw error;
+}
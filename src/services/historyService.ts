@@ -7,6 +7,8 @@ export interface HistoryItem {
   thumbnail?: string;
   title: string;
   data: string; // URL for files, Text content for text type
+  dhash?: string | null; // Perceptual hashes of the source photo (images only)
+  phash?: string | null;
   created_at: string;
 }
 
@@ -65,7 +67,9 @@ export async function addToHistory(
             type: item.type,
             title: item.title,
             data: item.data, // This should be URL for files
-            thumbnail: item.thumbnail
+            thumbnail: item.thumbnail,
+            dhash: item.dhash ?? null,
+            phash: item.phash ?? null
         })
         .select()
         .single();
@@ -3,8 +3,20 @@ import {
   createImageFromFile, 
   loadImage, 
   createCanvas, 
-  canvasToBlob 
+  canvasToBlob,
+  computeAutoEnhancement,
+  rotateImage,
+  cropImage,
+  embedProvenance,
+  extractProvenance
 } from '@/utils/image';
+import { encodeQr, type QrCode } from '@/utils/qrCode';
+import { getQrPayload } from '@/services/watermarkService';
+import { resolveWatermarkFont } from '@/services/fontService';
+import { fontStack, loadWatermarkFont } from '@/utils/fonts';
+import { enhanceContext, drawSimpleWatermark } from '@/utils/image/pixelOps';
+import { drawBrandingWatermark } from '@/utils/image/brandingWatermark';
+import { runImageJob, loadBitmap, getProcessingConcurrency } from '@/utils/image/workerPool';
 
 export { 
   resizeImage, 
@@ -18,7 +30,9 @@ import type {
   ProcessedImage, 
   CompressionConfig, 
   WatermarkConfig, 
-  EnhancementConfig 
+  EnhancementConfig,
+  EditOperation,
+  ProvenanceTag
 } from '@/types';
 
 // ===================================
@@ -33,27 +47,37 @@ export async function compressImage(
   return await resizeImage(file, config);
 }
 
+interface QueuedImageResult {
+  original: ImageFile;
+  processed: ProcessedImage | null;
+}
+
 export async function processImagesInQueue(
   files: File[],
   options: {
     compression: CompressionConfig;
-    enhancement?: EnhancementConfig;
+    enhancement?: EnhancementSetting;
     watermark?: WatermarkConfig;
     isPremium?: boolean;
+    provenance?: ProvenanceTag | null;
   },
-  onProgress?: (progress: { current: number; total: number; status: string }) => void
-): Promise<{ original: ImageFile; processed: ProcessedImage | null }[]> {
-  const results: { original: ImageFile; processed: ProcessedImage | null }[] = [];
+  onProgress?: (progress: { current: number; total: number; status: string }) => void,
+  maxConcurrent: number = getProcessingConcurrency()
+): Promise<QueuedImageResult[]> {
+  const queue = new ConcurrencyQueue(maxConcurrent);
+  // One slot per file keeps the upload order; files that failed stay empty
+  const results: (QueuedImageResult | null)[] = files.map(() => null);
   const total = files.length;
+  let started = 0;
 
-  for (let i = 0; i < total; i++) {
-    const file = files[i];
+  const tasks = files.map((file, i) => queue.add(async () => {
+    started++;
     
     // Notify start of processing for this file
     onProgress?.({
-      current: i + 1,
+      current: started,
       total,
-      status: `Processing ${i + 1} of ${total}: ${file.name}`
+      status: `Processing ${started} of ${total}: ${file.name}`
     });
 
     try {
@@ -68,7 +92,7 @@ export async function processImagesInQueue(
 
       // 2. Enhancement (Magic Fix) - Optional
       if (options.enhancement) {
-        finalProcessed = await enhanceImage(imageFile, options.enhancement);
+        finalProcessed = await enhanceImage(imageFile, await resolveEnhancement(imageFile, options.enhancement));
       }
 
       // 3. Watermark - Optional (or Forced if !isPremium)
@@ -105,21 +129,29 @@ export async function processImagesInQueue(
           options.isPremium
         );
       }
+
+      // 4. Provenance tag - Optional, on whatever this step exports
+      if (finalProcessed && options.provenance) {
+        const source = { ...imageFile, preview: finalProcessed.preview, width: finalProcessed.width, height: finalProcessed.height };
+        finalProcessed = await withProvenanceTag(source, finalProcessed, options.provenance);
+      }
       
       // If no processing happened but we want to return the "original" as processed?
       // Or just return original. 
       // If finalProcessed is null, it means only compression happened. 
       // Let's create a ProcessedImage from the compressed original if needed, or just return null for processed.
       
-      results.push({ original: imageFile, processed: finalProcessed });
+      results[i] = { original: imageFile, processed: finalProcessed };
 
     } catch (error) {
       console.error(`Failed to process ${file.name}`, error);
       // We continue with next file even if one fails
     }
-  }
+  }));
 
-  return results;
+  await Promise.allSettled(tasks);
+
+  return results.filter((result): result is QueuedImageResult => result !== null);
 }
 
 // ===================================
@@ -152,156 +184,43 @@ export async function applyWatermark(
   config: WatermarkConfig,
   isPremium: boolean = false
 ): Promise<ProcessedImage> {
+  // Bundled or uploaded font: the worker registers it in its own font set
+  const font = resolveWatermarkFont(config.fontFamily);
+  const drawConfig = font ? { ...config, fontFamily: fontStack(font) } : config;
+
+  const offThread = await runImageJob(async () => ({
+    type: 'watermark',
+    bitmap: await loadBitmap(imageFile.preview),
+    config: drawConfig,
+    font,
+    logo: config.logo && config.logoSize ? await loadBitmap(config.logo) : null,
+    isPremium,
+    output: { format: 'webp', quality: 0.9 },
+  }));
+  if (offThread) return toProcessedImage(imageFile.id, offThread);
+
+  // Main-thread fallback
   const img = await loadImage(imageFile.preview);
   const { canvas, ctx } = createCanvas(img.width, img.height);
-  
-  // Draw original image
   ctx.drawImage(img, 0, 0);
-  
-  // Configure text style
-  ctx.globalAlpha = config.opacity;
-  ctx.fillStyle = config.color;
-  ctx.font = `bold ${config.fontSize}px ${config.fontFamily}`;
-  ctx.textBaseline = 'top'; // Easier for multiline
-
-  // Calculate position
-  const { x, y, textAlign } = getWatermarkPosition(
-    config.position,
-    img.width,
-    img.height,
-    config.fontSize
-  );
-  
-  ctx.textAlign = textAlign;
-  
-  const drawWatermarkText = () => {
-    // Draw primary text (Name)
-    ctx.fillText(config.text, 0, 0);
-    
-    // Draw secondary text (Phone) if exists
-    if (config.secondText) {
-      const secondaryFontSize = config.fontSize * 0.75;
-      ctx.font = `${secondaryFontSize}px ${config.fontFamily}`;
-      // Add some spacing
-      const spacing = config.fontSize * 0.2;
-      ctx.fillText(config.secondText, 0, config.fontSize + spacing);
-    }
-  };
-
-  // Apply rotation if needed
-  if (config.rotation !== 0) {
-    ctx.save();
-    ctx.translate(x, y);
-    ctx.rotate((config.rotation * Math.PI) / 180);
-    drawWatermarkText();
-    ctx.restore();
-  } else {
-    // Adjust y to center the block of text vertically if needed, since we changed baseline to top
-    // For simplicity, we stick to the calculated coordinates but might need offset adjustment based on position
-    let drawY = y;
-    if (config.position.includes('bottom')) {
-       // if bottom, move up by total height
-       const totalHeight = config.fontSize + (config.secondText ? (config.fontSize * 0.75 + config.fontSize * 0.2) : 0);
-       drawY = y - totalHeight;
-    } else if (config.position.includes('center') && !config.position.includes('top')) { // 'center' or 'center-left/right'
-       const totalHeight = config.fontSize + (config.secondText ? (config.fontSize * 0.75 + config.fontSize * 0.2) : 0);
-       drawY = y - totalHeight / 2;
-    }
-    
-    ctx.save();
-    ctx.translate(x, drawY);
-    drawWatermarkText();
-    ctx.restore();
-  }
-  
-  // Apply logo if provided
-  if (config.logo && config.logoSize) {
-    const logoImg = await loadImage(config.logo);
-    const logoSize = config.logoSize;
-    const padding = 20;
-    
-    // Position logo based on watermark position to avoid overlap or put it in a fixed corner?
-    // User requirement: "overlays the user's name, phone number, and a logo"
-    // Usually logo goes to top-right or opposite corner of text. 
-    // For now, let's keep logo at bottom-right unless text is there.
-    
-    let logoX = img.width - logoSize - padding;
-    let logoY = img.height - logoSize - padding;
+  const logo = config.logo && config.logoSize ? await loadImage(config.logo) : null;
+  await loadWatermarkFont(font);
+  drawSimpleWatermark(ctx, img.width, img.height, drawConfig, logo, isPremium);
 
-    if (config.position === 'bottom-right') {
-       // Move logo to bottom-left if text is bottom-right
-       logoX = padding;
-    }
-
-    ctx.globalAlpha = config.opacity;
-    ctx.drawImage(
-      logoImg,
-      logoX,
-      logoY,
-      logoSize,
-      logoSize
-    );
-  }
-  
-  // FREEMIUM: Force branding if not premium
-  if (!isPremium) {
-    ctx.save();
-    ctx.globalAlpha = 0.3; // Semi-transparent
-    ctx.fillStyle = '#FFFFFF';
-    const brandSize = Math.max(img.width, img.height) * 0.15; // 15% of image size
-    ctx.font = `bold ${brandSize}px Arial`;
-    ctx.textBaseline = 'middle';
-    ctx.textAlign = 'center';
-    
-    // Center of image
-    ctx.translate(img.width / 2, img.height / 2);
-    ctx.rotate(-45 * Math.PI / 180); // 45 degree rotation
-    
-    // Draw text with outline for better visibility
-    ctx.strokeStyle = '#000000';
-    ctx.lineWidth = brandSize * 0.05;
-    ctx.strokeText('MaklerPro', 0, 0);
-    ctx.fillText('MaklerPro', 0, 0);
-    
-    ctx.restore();
-  }
-
-  ctx.globalAlpha = 1;
-  
   const blob = await canvasToBlob(canvas, 'webp', 0.9);
-  
-  return {
-    id: crypto.randomUUID(),
-    originalId: imageFile.id,
-    blob,
-    preview: URL.createObjectURL(blob),
-    width: img.width,
-    height: img.height,
-    size: blob.size,
-  };
+  return toProcessedImage(imageFile.id, { blob, width: img.width, height: img.height });
 }
 
-function getWatermarkPosition(
-  position: WatermarkConfig['position'],
-  width: number,
-  height: number,
-  fontSize: number
-): { x: number; y: number; textAlign: CanvasTextAlign } {
-  const padding = fontSize;
-  
-  const positions: Record<string, { x: number; y: number; textAlign: CanvasTextAlign }> = {
-    'top-left': { x: padding, y: padding + fontSize / 2, textAlign: 'left' },
-    'top-center': { x: width / 2, y: padding + fontSize / 2, textAlign: 'center' },
-    'top-right': { x: width - padding, y: padding + fontSize / 2, textAlign: 'right' },
-    'center-left': { x: padding, y: height / 2, textAlign: 'left' },
-    'center': { x: width / 2, y: height / 2, textAlign: 'center' },
-    'center-right': { x: width - padding, y: height / 2, textAlign: 'right' },
-    'bottom-left': { x: padding, y: height - padding - fontSize / 2, textAlign: 'left' },
-    'bottom-center': { x: width / 2, y: height - padding - fontSize / 2, textAlign: 'center' },
-    'bottom-right': { x: width - padding, y: height - padding - fontSize / 2, textAlign: 'right' },
+function toProcessedImage(originalId: string, result: { blob: Blob; width: number; height: number }): ProcessedImage {
+  return {
+    id: crypto.randomUUID(),
+    originalId,
+    blob: result.blob,
+    preview: URL.createObjectURL(result.blob),
+    width: result.width,
+    height: result.height,
+    size: result.blob.size,
   };
-  
-  return positions[position] || positions['bottom-right'];
 }
 
 // ===================================
@@ -312,121 +231,49 @@ export async function enhanceImage(
   imageFile: ImageFile,
   config: EnhancementConfig
 ): Promise<ProcessedImage> {
+  const offThread = await runImageJob(async () => ({
+    type: 'enhance',
+    bitmap: await loadBitmap(imageFile.preview),
+    config,
+    output: { format: 'webp', quality: 0.9 },
+  }));
+  if (offThread) return toProcessedImage(imageFile.id, offThread);
+
+  // Main-thread fallback (same pixel code as the worker)
   const img = await loadImage(imageFile.preview);
   const { canvas, ctx } = createCanvas(img.width, img.height);
-  
-  // Draw original image
   ctx.drawImage(img, 0, 0);
-  
-  // Get image data for pixel manipulation
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  
-  // Apply brightness, contrast, and saturation
-  for (let i = 0; i < data.length; i += 4) {
-    let r = data[i];
-    let g = data[i + 1];
-    let b = data[i + 2];
-    
-    // Brightness adjustment (-100 to 100)
-    const brightnessMultiplier = 1 + config.brightness / 100;
-    r *= brightnessMultiplier;
-    g *= brightnessMultiplier;
-    b *= brightnessMultiplier;
-    
-    // Contrast adjustment (-100 to 100)
-    const contrastFactor = (259 * (config.contrast + 255)) / (255 * (259 - config.contrast));
-    r = contrastFactor * (r - 128) + 128;
-    g = contrastFactor * (g - 128) + 128;
-    b = contrastFactor * (b - 128) + 128;
-    
-    // Saturation adjustment (-100 to 100)
-    const gray = 0.2989 * r + 0.587 * g + 0.114 * b;
-    const saturationMultiplier = 1 + config.saturation / 100;
-    r = gray + saturationMultiplier * (r - gray);
-    g = gray + saturationMultiplier * (g - gray);
-    b = gray + saturationMultiplier * (b - gray);
-    
-    // Clamp values
-    data[i] = Math.max(0, Math.min(255, r));
-    data[i + 1] = Math.max(0, Math.min(255, g));
-    data[i + 2] = Math.max(0, Math.min(255, b));
-  }
-  
-  // Apply sharpening if requested
-  if (config.sharpness && config.sharpness > 0) {
-    // Put the color-corrected data back first
-    ctx.putImageData(imageData, 0, 0);
-    
-    // Apply sharpening
-    applySharpen(ctx, canvas.width, canvas.height, config.sharpness / 100);
-  } else {
-    // Just put the data back
-    ctx.putImageData(imageData, 0, 0);
-  }
+  enhanceContext(ctx, canvas.width, canvas.height, config);
   
   const blob = await canvasToBlob(canvas, 'webp', 0.9);
-  
-  return {
-    id: crypto.randomUUID(),
-    originalId: imageFile.id,
-    blob,
-    preview: URL.createObjectURL(blob),
-    width: img.width,
-    height: img.height,
-    size: blob.size,
-  };
+  return toProcessedImage(imageFile.id, { blob, width: img.width, height: img.height });
 }
 
-// Convolution filter for sharpening
-function applySharpen(ctx: CanvasRenderingContext2D, w: number, h: number, mix: number) {
-  const weights = [0, -1, 0, -1, 5, -1, 0, -1, 0];
-  const side = Math.round(Math.sqrt(weights.length));
-  const halfSide = Math.floor(side / 2);
-  
-  const src = ctx.getImageData(0, 0, w, h);
-  const dst = ctx.createImageData(w, h);
-  
-  const srcData = src.data;
-  const dstData = dst.data;
-  
-  const alphaFac = (mix > 1) ? 1 : mix; // 0 to 1
-  
-  for (let y = 0; y < h; y++) {
-    for (let x = 0; x < w; x++) {
-      const sy = y;
-      const sx = x;
-      const dstOff = (y * w + x) * 4;
-      
-      let r = 0, g = 0, b = 0;
-      
-      for (let cy = 0; cy < side; cy++) {
-        for (let cx = 0; cx < side; cx++) {
-          const scy = sy + cy - halfSide;
-          const scx = sx + cx - halfSide;
-          
-          if (scy >= 0 && scy < h && scx >= 0 && scx < w) {
-            const srcOff = (scy * w + scx) * 4;
-            const wt = weights[cy * side + cx];
-            
-            r += srcData[srcOff] * wt;
-            g += srcData[srcOff + 1] * wt;
-            b += srcData[srcOff + 2] * wt;
-          }
-        }
-      }
-      
-      // Blend original with sharpened based on mix amount
-      dstData[dstOff] = srcData[dstOff] * (1 - alphaFac) + r * alphaFac;
-      dstData[dstOff + 1] = srcData[dstOff + 1] * (1 - alphaFac) + g * alphaFac;
-      dstData[dstOff + 2] = srcData[dstOff + 2] * (1 - alphaFac) + b * alphaFac;
-      dstData[dstOff + 3] = srcData[dstOff + 3]; // Alpha
-    }
+/**
+ * 'auto' measures each photo (exposure, clipping, white balance);
+ * a fixed config applies the same settings to all
+ */
+export type EnhancementSetting = EnhancementConfig | 'auto';
+
+/**
+ * Magic Fix settings measured for this photo; the fixed preset if analysis fails
+ */
+export async function getAutoMagicFix(imageFile: ImageFile): Promise<EnhancementConfig> {
+  try {
+    return await computeAutoEnhancement(imageFile.preview);
+  } catch (error) {
+    console.warn(`Auto Magic Fix analysis failed for ${imageFile.name}, using the preset`, error);
+    return getMagicFixPreset();
   }
-  
-  ctx.putImageData(dst, 0, 0);
 }
 
+async function resolveEnhancement(imageFile: ImageFile, setting: EnhancementSetting): Promise<EnhancementConfig> {
+  return setting === 'auto' ? getAutoMagicFix(imageFile) : setting;
+}
+
+/**
+ * Fixed Magic Fix settings (fallback when a photo cannot be analyzed)
+ */
 export function getMagicFixPreset(): EnhancementConfig {
   return {
     brightness: 5,
@@ -436,6 +283,20 @@ export function getMagicFixPreset(): EnhancementConfig {
   };
 }
 
+/**
+ * "Window pull": rooms shot against bright windows. Local tone mapping brings
+ * the window down and the room up without a halo; layered over the photo's
+ * own Magic Fix settings.
+ */
+export function getWindowPullPreset(): Partial<EnhancementConfig> {
+  return {
+    hdrShadows: 45,
+    hdrHighlights: 80,
+    hdrDetail: 30,
+    highlights: -20,
+  };
+}
+
 // ===================================
 // Batch Processing Types
 // ===================================
@@ -468,7 +329,7 @@ class ConcurrencyQueue {
   private running = 0;
   private maxConcurrent: number;
 
-  constructor(maxConcurrent: number = 3) {
+  constructor(maxConcurrent: number = getProcessingConcurrency()) {
     this.maxConcurrent = maxConcurrent;
   }
 
@@ -514,14 +375,14 @@ class ConcurrencyQueue {
  * @param images - Array of ImageFile objects to process
  * @param config - Enhancement configuration
  * @param onProgress - Callback for progress updates
- * @param maxConcurrent - Maximum number of concurrent operations (default: 3)
+ * @param maxConcurrent - Maximum number of concurrent operations (default: from device cores and memory)
  * @returns Array of BatchImageResult
  */
 export async function processImagesBatch(
   images: ImageFile[],
-  config: EnhancementConfig,
+  config: EnhancementSetting,
   onProgress?: BatchProgressCallback,
-  maxConcurrent: number = 3
+  maxConcurrent: number = getProcessingConcurrency()
 ): Promise<BatchImageResult[]> {
   const queue = new ConcurrencyQueue(maxConcurrent);
   const results: BatchImageResult[] = images.map(img => ({
@@ -552,7 +413,7 @@ export async function processImagesBatch(
 
       try {
         // Process the image
-        const processed = await enhanceImage(image, config);
+        const processed = await enhanceImage(image, await resolveEnhancement(image, config));
         
         // Update result
         results[index].status = 'success';
@@ -588,7 +449,7 @@ export async function processImagesBatch(
 
 export interface BatchPipelineOptions {
   compression?: CompressionConfig;
-  enhancement?: EnhancementConfig;
+  enhancement?: EnhancementSetting;
   watermark?: WatermarkConfig;
   isPremium?: boolean;
 }
@@ -597,7 +458,7 @@ export async function processBatchPipeline(
   images: ImageFile[],
   options: BatchPipelineOptions,
   onProgress?: BatchProgressCallback,
-  maxConcurrent: number = 3
+  maxConcurrent: number = getProcessingConcurrency()
 ): Promise<BatchImageResult[]> {
   const queue = new ConcurrencyQueue(maxConcurrent);
   const results: BatchImageResult[] = images.map(img => ({
@@ -636,7 +497,7 @@ export async function processBatchPipeline(
 
         // Step 2: Enhancement (if configured)
         if (options.enhancement) {
-          finalResult = await enhanceImage(currentImage, options.enhancement);
+          finalResult = await enhanceImage(currentImage, await resolveEnhancement(currentImage, options.enhancement));
           // Update currentImage for next step
           currentImage = {
             ...currentImage,
@@ -720,7 +581,7 @@ export function getBatchSummary(results: BatchImageResult[]): {
 // Custom PNG Watermark Types
 // ===================================
 
-import type { CustomWatermarkSettings, WatermarkPosition } from '@/types';
+import type { CustomWatermarkSettings } from '@/types';
 
 export interface CustomWatermarkConfig {
   logoUrl?: string;
@@ -744,393 +605,75 @@ export async function applyCustomWatermark(
   imageFile: ImageFile,
   config: CustomWatermarkConfig
 ): Promise<ProcessedImage> {
+  const { logoUrl, textWatermark, settings } = config;
+
+  // Font, QR code and logo are resolved here, the drawing runs in the worker
+  const font = settings.type !== 'logo' ? resolveWatermarkFont(settings.font) : null;
+  const showsLogo = settings.enabled && (settings.type === 'logo' || settings.type === 'both') && !!logoUrl;
+  const options = {
+    settings,
+    textWatermark,
+    qr: settings.enabled && settings.position !== 'tile' ? getWatermarkQr(settings) : null,
+    isPremium: !!config.isPremium,
+  };
+
+  const offThread = await runImageJob(async () => ({
+    type: 'branding',
+    bitmap: await loadBitmap(imageFile.preview),
+    options,
+    font,
+    logo: showsLogo ? await loadLogo(logoUrl, loadBitmap) : null,
+    output: { format: 'webp', quality: 0.9 },
+  }));
+  if (offThread) return toProcessedImage(imageFile.id, offThread);
+
+  // Main-thread fallback
   const img = await loadImage(imageFile.preview);
   const { canvas, ctx } = createCanvas(img.width, img.height);
-  
-  // Draw original image
   ctx.drawImage(img, 0, 0);
-  
-  const { settings, logoUrl, textWatermark } = config;
-  
-  if (!settings.enabled) {
-    // Return original if watermark disabled
-    const blob = await canvasToBlob(canvas, 'webp', 0.9);
-    return {
-      id: crypto.randomUUID(),
-      originalId: imageFile.id,
-      blob,
-      preview: URL.createObjectURL(blob),
-      width: img.width,
-      height: img.height,
-      size: blob.size,
-    };
-  }
+  const logo = showsLogo ? await loadLogo(logoUrl, loadImage) : null;
+  await loadWatermarkFont(font);
+  drawBrandingWatermark(
+    ctx,
+    img.width,
+    img.height,
+    { ...options, logo, fontFamily: fontStack(font) },
+    (width, height) => createCanvas(width, height).ctx
+  );
 
-  // Apply Combined Watermark (prevents overlap)
-  if (settings.type === 'both' && logoUrl && textWatermark) {
-    await drawCombinedWatermark(ctx, logoUrl, textWatermark, img.width, img.height, settings);
-  } else {
-    // Individual Watermarks
-    if ((settings.type === 'logo' || settings.type === 'both') && logoUrl) {
-      await drawLogoWatermark(ctx, logoUrl, img.width, img.height, settings);
-    }
-    
-    if ((settings.type === 'text' || settings.type === 'both') && textWatermark) {
-      drawTextWatermark(ctx, textWatermark, img.width, img.height, settings);
-    }
-  }
-  
-  // Apply MaklerPro branding for non-premium users
-  if (!config.isPremium) {
-    drawMaklerProBranding(ctx, img.width, img.height);
-  }
-  
   const blob = await canvasToBlob(canvas, 'webp', 0.9);
-  
-  return {
-    id: crypto.randomUUID(),
-    originalId: imageFile.id,
-    blob,
-    preview: URL.createObjectURL(blob),
-    width: img.width,
-    height: img.height,
-    size: blob.size,
-  };
+  return toProcessedImage(imageFile.id, { blob, width: img.width, height: img.height });
 }
 
-async function drawCombinedWatermark(
-  ctx: CanvasRenderingContext2D,
-  logoUrl: string,
-  textWatermark: { name: string; phone: string },
-  imageWidth: number,
-  imageHeight: number,
-  settings: CustomWatermarkSettings
-) {
+/**
+ * The watermark logo; null when it fails to load, the rest still gets drawn
+ */
+async function loadLogo<T>(logoUrl: string, load: (src: string) => Promise<T>): Promise<T | null> {
   try {
-    const logo = await loadImage(logoUrl);
-    
-    // Scale logo
-    const maxWidth = (imageWidth * settings.scale) / 100;
-    const aspectRatio = logo.width / logo.height;
-    let logoW = logo.width;
-    let logoH = logo.height;
-    
-    if (logoW > maxWidth) {
-       logoW = maxWidth;
-       logoH = maxWidth / aspectRatio;
-    }
-
-    // Measure Text (Just font size calc)
-    const fontSize = Math.max(imageWidth * 0.03, 16);
-    const phoneFontSize = fontSize * 0.85;
-    
-    // Check max width with correct fonts
-    // ctx.font = `bold ${fontSize}px Arial, sans-serif`; 
-    // const textW = Math.max(nameMetrics.width, phoneMetrics.width); // Unused
-    const lineHeight = fontSize * 1.3;
-    const textBlockH = textWatermark.phone ? lineHeight * 2 : lineHeight;
-
-    const gap = fontSize * 0.8; 
-    const padding = settings.padding || 20;
-
-    let logoX = 0, logoY = 0;
-    let textX = 0, textY = 0;
-    let textAlign: CanvasTextAlign = 'left';
-
-    const pos = settings.position;
-    
-    // Group dimensions
-    const groupH = Math.max(logoH, textBlockH);
-    
-    // Y position of the Group container
-    let groupY = 0;
-    if (pos.includes('top')) groupY = padding;
-    else if (pos.includes('bottom')) groupY = imageHeight - padding - groupH;
-    else groupY = (imageHeight - groupH) / 2; // center
-
-    // X position & Layout
-    if (pos.includes('left')) {
-       // [Logo] [Gap] [Text]
-       logoX = padding;
-       textX = padding + logoW + gap;
-       textAlign = 'left';
-       
-       // Center vertically
-       logoY = groupY + (groupH - logoH) / 2;
-       textY = groupY + (groupH - textBlockH) / 2;
-       
-    } else if (pos.includes('right')) {
-       // [Text] [Gap] [Logo]
-       logoX = imageWidth - padding - logoW;
-       textX = imageWidth - padding - logoW - gap;
-       textAlign = 'right';
-       
-       // Center vertically
-       logoY = groupY + (groupH - logoH) / 2;
-       textY = groupY + (groupH - textBlockH) / 2;
-       
-    } else {
-       // Center: Stacked
-       // [Logo]
-       // [Text]
-       const stackH = logoH + gap + textBlockH;
-       let stackY = 0;
-       
-       if (pos === 'top-center') stackY = padding;
-       else if (pos === 'bottom-center') stackY = imageHeight - padding - stackH;
-       else stackY = (imageHeight - stackH) / 2;
-
-       textAlign = 'center';
-       
-       // Logo centered
-       logoX = (imageWidth - logoW) / 2;
-       logoY = stackY;
-       
-       // Text centered below logo
-       textX = imageWidth / 2;
-       textY = stackY + logoH + gap;
-    }
-
-    // Draw Logo
-    ctx.globalAlpha = settings.opacity;
-    ctx.drawImage(logo, logoX, logoY, logoW, logoH);
-
-    // Draw Text
-    ctx.fillStyle = '#FFFFFF';
-    ctx.textBaseline = 'top';
-    ctx.textAlign = textAlign;
-    
-    // Shadow
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
-    ctx.shadowBlur = 4;
-    ctx.shadowOffsetX = 2;
-    ctx.shadowOffsetY = 2;
-
-    // Draw Name
-    ctx.font = `bold ${fontSize}px Arial, sans-serif`;
-    ctx.fillText(textWatermark.name, textX, textY);
-    
-    // Draw Phone
-    if (textWatermark.phone) {
-       ctx.font = `${phoneFontSize}px Arial, sans-serif`;
-       ctx.fillText(textWatermark.phone, textX, textY + lineHeight);
-    }
-    
-    ctx.shadowColor = 'transparent';
-    ctx.globalAlpha = 1;
-    
+    return await load(logoUrl);
   } catch (error) {
-    console.error('Failed to draw combined watermark:', error);
+    console.error('Failed to load logo watermark:', error);
+    return null;
   }
 }
 
-// ===================================
-// Draw Logo Watermark
-// ===================================
-
-async function drawLogoWatermark(
-  ctx: CanvasRenderingContext2D,
-  logoUrl: string,
-  imageWidth: number,
-  imageHeight: number,
-  settings: CustomWatermarkSettings
-): Promise<void> {
+/**
+ * The configured QR code, quiet zone included; null when off or unusable
+ */
+function getWatermarkQr(settings: CustomWatermarkSettings): QrCode | null {
+  const payload = getQrPayload(settings.qr);
+  if (!payload || !settings.qr) return null;
   try {
-    const logo = await loadImage(logoUrl);
-    
-    // Calculate dimensions with auto-scaling
-    const maxWidth = (imageWidth * settings.scale) / 100;
-    const aspectRatio = logo.width / logo.height;
-    
-    let drawWidth = logo.width;
-    let drawHeight = logo.height;
-    
-    // Scale down if larger than max
-    if (drawWidth > maxWidth) {
-      drawWidth = maxWidth;
-      drawHeight = maxWidth / aspectRatio;
-    }
-    
-    // Calculate position
-    const { x, y } = calculateLogoPosition(
-      settings.position,
-      imageWidth,
-      imageHeight,
-      drawWidth,
-      drawHeight,
-      settings.padding || 20
-    );
-    
-    // Apply opacity
-    ctx.globalAlpha = settings.opacity;
-    
-    // Handle tile position (repeat watermark)
-    if (settings.position === 'tile') {
-      drawTiledWatermark(ctx, logo, imageWidth, imageHeight, drawWidth, drawHeight, settings.opacity);
-    } else {
-      ctx.drawImage(logo, x, y, drawWidth, drawHeight);
-    }
-    
-    ctx.globalAlpha = 1;
-    
+    return encodeQr(payload, {
+      errorCorrection: settings.qr.errorCorrection,
+      quietZone: settings.qr.quietZone,
+    });
   } catch (error) {
-    console.error('Failed to load logo watermark:', error);
-  }
-}
-
-// ===================================
-// Draw Tiled Watermark
-// ===================================
-
-function drawTiledWatermark(
-  ctx: CanvasRenderingContext2D,
-  logo: HTMLImageElement,
-  imageWidth: number,
-  imageHeight: number,
-  logoWidth: number,
-  logoHeight: number,
-  opacity: number
-): void {
-  const spacingX = logoWidth * 2;
-  const spacingY = logoHeight * 2;
-  
-  ctx.globalAlpha = opacity * 0.3; // Lower opacity for tiled
-  
-  for (let y = 0; y < imageHeight; y += spacingY) {
-    for (let x = 0; x < imageWidth; x += spacingX) {
-      ctx.save();
-      ctx.translate(x + logoWidth / 2, y + logoHeight / 2);
-      ctx.rotate(-30 * Math.PI / 180); // 30 degree rotation
-      ctx.drawImage(logo, -logoWidth / 2, -logoHeight / 2, logoWidth, logoHeight);
-      ctx.restore();
-    }
+    console.error('QR encoding failed:', error);
+    return null;
   }
-  
-  ctx.globalAlpha = 1;
-}
-
-// ===================================
-// Draw Text Watermark
-// ===================================
-
-function drawTextWatermark(
-  ctx: CanvasRenderingContext2D,
-  textWatermark: { name: string; phone: string },
-  imageWidth: number,
-  imageHeight: number,
-  settings: CustomWatermarkSettings
-): void {
-  const { name, phone } = textWatermark;
-  if (!name && !phone) return;
-  
-  const padding = settings.padding || 20;
-  const fontSize = Math.max(imageWidth * 0.03, 16); // Min 16px, 3% of width
-  
-  ctx.globalAlpha = settings.opacity;
-  ctx.fillStyle = '#FFFFFF';
-  ctx.font = `bold ${fontSize}px Arial, sans-serif`;
-  ctx.textBaseline = 'top';
-  
-  // Calculate text dimensions
-  const nameMetrics = ctx.measureText(name);
-  const phoneMetrics = ctx.measureText(phone);
-  const textWidth = Math.max(nameMetrics.width, phoneMetrics.width);
-  const lineHeight = fontSize * 1.3;
-  const textHeight = phone ? lineHeight * 2 : lineHeight;
-  
-  // Get position
-  const { x, y, textAlign } = getTextWatermarkPosition(
-    settings.position,
-    imageWidth,
-    imageHeight,
-    textWidth,
-    textHeight,
-    padding
-  );
-  
-  ctx.textAlign = textAlign;
-  
-  // Draw text shadow for better visibility
-  ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
-  ctx.shadowBlur = 4;
-  ctx.shadowOffsetX = 2;
-  ctx.shadowOffsetY = 2;
-  
-  // Draw name
-  if (name) {
-    ctx.fillText(name, x, y);
-  }
-  
-  // Draw phone
-  if (phone) {
-    ctx.font = `${fontSize * 0.85}px Arial, sans-serif`;
-    ctx.fillText(phone, x, y + lineHeight);
-  }
-  
-  // Reset shadow
-  ctx.shadowColor = 'transparent';
-  ctx.shadowBlur = 0;
-  ctx.shadowOffsetX = 0;
-  ctx.shadowOffsetY = 0;
-  ctx.globalAlpha = 1;
 }
 
-// ===================================
-// Position Calculation Helpers
-// ===================================
-
-function calculateLogoPosition(
-  position: WatermarkPosition,
-  imageWidth: number,
-  imageHeight: number,
-  logoWidth: number,
-  logoHeight: number,
-  padding: number
-): { x: number; y: number } {
-  const positions: Record<WatermarkPosition, { x: number; y: number }> = {
-    'top-left': { x: padding, y: padding },
-    'top-center': { x: (imageWidth - logoWidth) / 2, y: padding },
-    'top-right': { x: imageWidth - logoWidth - padding, y: padding },
-    'center-left': { x: padding, y: (imageHeight - logoHeight) / 2 },
-    'center': { x: (imageWidth - logoWidth) / 2, y: (imageHeight - logoHeight) / 2 },
-    'center-right': { x: imageWidth - logoWidth - padding, y: (imageHeight - logoHeight) / 2 },
-    'bottom-left': { x: padding, y: imageHeight - logoHeight - padding },
-    'bottom-center': { x: (imageWidth - logoWidth) / 2, y: imageHeight - logoHeight - padding },
-    'bottom-right': { x: imageWidth - logoWidth - padding, y: imageHeight - logoHeight - padding },
-    'tile': { x: 0, y: 0 },
-  };
-  
-  return positions[position] || positions['bottom-right'];
-}
-
-function getTextWatermarkPosition(
-  position: WatermarkPosition,
-  imageWidth: number,
-  imageHeight: number,
-  _textWidth: number, // Reserved for future text-aware positioning
-  textHeight: number,
-  padding: number
-): { x: number; y: number; textAlign: CanvasTextAlign } {
-  type PositionConfig = { x: number; y: number; textAlign: CanvasTextAlign };
-  
-  const positions: Record<WatermarkPosition, PositionConfig> = {
-    'top-left': { x: padding, y: padding, textAlign: 'left' },
-    'top-center': { x: imageWidth / 2, y: padding, textAlign: 'center' },
-    'top-right': { x: imageWidth - padding, y: padding, textAlign: 'right' },
-    'center-left': { x: padding, y: (imageHeight - textHeight) / 2, textAlign: 'left' },
-    'center': { x: imageWidth / 2, y: (imageHeight - textHeight) / 2, textAlign: 'center' },
-    'center-right': { x: imageWidth - padding, y: (imageHeight - textHeight) / 2, textAlign: 'right' },
-    'bottom-left': { x: padding, y: imageHeight - textHeight - padding, textAlign: 'left' },
-    'bottom-center': { x: imageWidth / 2, y: imageHeight - textHeight - padding, textAlign: 'center' },
-    'bottom-right': { x: imageWidth - padding, y: imageHeight - textHeight - padding, textAlign: 'right' },
-    'tile': { x: imageWidth / 2, y: imageHeight / 2, textAlign: 'center' },
-  };
-  
-  return positions[position] || positions['bottom-right'];
-}
-
-
-
 // ===================================
 // Batch Process with Custom Watermark
 // ===================================
@@ -1138,9 +681,9 @@ function getTextWatermarkPosition(
 export async function processBatchWithWatermark(
   images: ImageFile[],
   watermarkConfig: CustomWatermarkConfig,
-  enhancementConfig?: EnhancementConfig,
+  enhancementConfig?: EnhancementSetting,
   onProgress?: BatchProgressCallback,
-  maxConcurrent: number = 3
+  maxConcurrent: number = getProcessingConcurrency()
 ): Promise<BatchImageResult[]> {
   const queue = new ConcurrencyQueue(maxConcurrent);
   const results: BatchImageResult[] = images.map(img => ({
@@ -1171,7 +714,7 @@ export async function processBatchWithWatermark(
 
         // Step 1: Enhancement (if configured)
         if (enhancementConfig) {
-          const enhanced = await enhanceImage(image, enhancementConfig);
+          const enhanced = await enhanceImage(image, await resolveEnhancement(image, enhancementConfig));
           processedImage = {
             ...image,
             preview: enhanced.preview,
@@ -1206,32 +749,199 @@ export async function processBatchWithWatermark(
 
   return results;
 }
+// ===================================
+// Provenance Tag
+// ===================================
+
+// Only the center of a photo is searched for the tag, see utils/image/provenance.ts
+const PROVENANCE_READ_WINDOW = 1024;
+
+/**
+ * Hide the owner's tag in the pixels. Applied last, to what gets exported;
+ * the export's own re-encoding is what the tag is built to survive.
+ */
+export async function embedProvenanceTag(imageFile: ImageFile, tag: ProvenanceTag): Promise<ProcessedImage> {
+  const offThread = await runImageJob(async () => ({
+    type: 'provenance',
+    bitmap: await loadBitmap(imageFile.preview),
+    tag,
+    output: { format: 'webp', quality: 0.9 },
+  }));
+  if (offThread) return toProcessedImage(imageFile.id, offThread);
+
+  // Main-thread fallback
+  const img = await loadImage(imageFile.preview);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  const imageData = ctx.getImageData(0, 0, img.width, img.height);
+  embedProvenance(imageData.data, img.width, img.height, tag);
+  ctx.putImageData(imageData, 0, 0);
+
+  const blob = await canvasToBlob(canvas, 'webp', 0.9);
+  return toProcessedImage(imageFile.id, { blob, width: img.width, height: img.height });
+}
+
+// Tags already reported as not embeddable. A batch shares one tag, so its
+// failure is logged once, not for every photo.
+const unembeddableTags = new WeakSet<ProvenanceTag>();
+
 /**
- * Forced branding for non-premium users
+ * embedProvenanceTag on the image `result` was rendered to, replacing it. A
+ * tag that cannot be embedded (e.g. a telegram_id too large for the payload)
+ * must not fail the export: `result` is then kept untagged.
  */
-function drawMaklerProBranding(
-    ctx: CanvasRenderingContext2D, 
-    width: number, 
-    height: number
-) {
-    ctx.save();
-    ctx.globalAlpha = 0.2; // Very subtle
-    ctx.fillStyle = '#FFFFFF';
-    
-    // Calculate size relative to image
-    const fontSize = Math.max(width, height) * 0.08;
-    ctx.font = `bold ${fontSize}px Arial, sans-serif`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    
-    // Position in center with rotation
-    ctx.translate(width / 2, height / 2);
-    ctx.rotate(-45 * Math.PI / 180);
-    
-    // Shadow for visibility on light images
-    ctx.shadowColor = 'rgba(0,0,0,0.3)';
-    ctx.shadowBlur = 10;
-    
-    ctx.fillText('MaklerPro', 0, 0);
-    ctx.restore();
+async function withProvenanceTag(
+  source: ImageFile,
+  result: ProcessedImage | null,
+  tag: ProvenanceTag
+): Promise<ProcessedImage | null> {
+  try {
+    const tagged = await embedProvenanceTag(source, tag);
+    if (result) URL.revokeObjectURL(result.preview);
+    return tagged;
+  } catch (error) {
+    if (!unembeddableTags.has(tag)) {
+      unembeddableTags.add(tag);
+      console.warn('Provenance tag not embedded, exporting untagged:', error instanceof Error ? error.message : error);
+    }
+    return result;
+  }
+}
+
+/**
+ * Owner's tag from an image file, null when none is found
+ */
+export async function readProvenanceTag(file: Blob): Promise<ProvenanceTag | null> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const width = Math.min(img.width, PROVENANCE_READ_WINDOW);
+    const height = Math.min(img.height, PROVENANCE_READ_WINDOW);
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(
+      img,
+      Math.floor((img.width - width) / 2),
+      Math.floor((img.height - height) / 2),
+      width,
+      height,
+      0,
+      0,
+      width,
+      height
+    );
+    return extractProvenance(ctx.getImageData(0, 0, width, height).data, width, height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// ===================================
+// Edit Stack Rendering
+// ===================================
+
+/**
+ * Render an image's edit list from the original, step by step. The
+ * watermark step is skipped when no branding config is given; a provenance
+ * tag, when given, is embedded after the last step.
+ */
+export async function renderEdits(
+  imageFile: ImageFile,
+  operations: EditOperation[],
+  watermarkConfig: CustomWatermarkConfig | null,
+  provenance: ProvenanceTag | null = null
+): Promise<ProcessedImage> {
+  let source = imageFile;
+  let result: ProcessedImage | null = null;
+
+  for (const operation of operations) {
+    let next: ProcessedImage;
+    switch (operation.type) {
+      case 'enhance':
+        next = await enhanceImage(source, await resolveEnhancement(source, operation.config));
+        break;
+      case 'rotate':
+        next = toProcessedImage(imageFile.id, await rotateImage(source.preview, operation.quarterTurns));
+        break;
+      case 'crop':
+        next = toProcessedImage(imageFile.id, await cropImage(source.preview, operation.rect));
+        break;
+      case 'watermark':
+        if (!watermarkConfig) continue;
+        next = await applyCustomWatermark(source, watermarkConfig);
+        break;
+    }
+
+    // Intermediate steps are only the input of the next one
+    if (result) URL.revokeObjectURL(result.preview);
+    result = next;
+    source = { ...imageFile, preview: next.preview, width: next.width, height: next.height };
+  }
+
+  if (provenance) result = await withProvenanceTag(source, result, provenance);
+
+  return result ?? toProcessedImage(imageFile.id, { blob: imageFile.file, width: imageFile.width, height: imageFile.height });
+}
+
+export interface EditBatchItem {
+  image: ImageFile;
+  operations: EditOperation[];
+}
+
+/**
+ * renderEdits for many images, with the same concurrency and progress
+ * reporting as processImagesBatch
+ */
+export async function renderEditsBatch(
+  items: EditBatchItem[],
+  watermarkConfig: CustomWatermarkConfig | null,
+  provenance: ProvenanceTag | null,
+  onProgress?: BatchProgressCallback,
+  maxConcurrent: number = getProcessingConcurrency()
+): Promise<BatchImageResult[]> {
+  const queue = new ConcurrencyQueue(maxConcurrent);
+  const results: BatchImageResult[] = items.map(({ image }) => ({
+    imageId: image.id,
+    imageName: image.name,
+    status: 'pending' as const,
+  }));
+
+  const progress: BatchProgress = {
+    total: items.length,
+    completed: 0,
+    successful: 0,
+    failed: 0,
+    currentImageName: '',
+    results,
+  };
+
+  onProgress?.(progress);
+
+  const tasks = items.map(({ image, operations }, index) => {
+    return queue.add(async () => {
+      results[index].status = 'processing';
+      progress.currentImageName = image.name;
+      onProgress?.({ ...progress, results: [...results] });
+
+      try {
+        results[index].result = await renderEdits(image, operations, watermarkConfig, provenance);
+        results[index].status = 'success';
+        progress.successful++;
+      } catch (error) {
+        console.error(`Failed to process ${image.name}:`, error);
+        results[index].status = 'error';
+        results[index].error = error instanceof Error ? error.message : 'Unknown error';
+        progress.failed++;
+      } finally {
+        progress.completed++;
+        onProgress?.({ ...progress, results: [...results] });
+      }
+    });
+  });
+
+  await Promise.allSettled(tasks);
+
+  progress.currentImageName = '';
+  onProgress?.({ ...progress, results: [...results] });
+
+  return results;
 }
@@ -0,0 +1,214 @@
+import { supabase } from '@/lib/supabase';
+import { useUserStore } from '@/store/userStore';
+import { uploadFileToStorage } from '@/services/historyService';
+import type {
+  Listing,
+  ListingPhoto,
+  ListingVideo,
+  Platform,
+  ProcessedImage,
+  PropertyDetails,
+} from '@/types';
+
+// ===================================
+// Listing Service
+// ===================================
+
+const TABLE = 'listings';
+
+type ListingPatch = Partial<Pick<Listing, 'title' | 'status' | 'details' | 'photos' | 'descriptions' | 'videos'>>;
+
+function getTelegramId(): string {
+  const { user } = useUserStore.getState();
+  const telegramId = user?.telegramId;
+
+  if (!telegramId) {
+    console.error('User context missing for listing operation');
+    throw new Error('User context missing');
+  }
+
+  return String(telegramId);
+}
+
+function getClient() {
+  if (!supabase) throw new Error('Supabase client not initialized');
+  return supabase;
+}
+
+/**
+ * Fetch all listings of the current user (most recently updated first)
+ */
+export async function fetchListings(): Promise<Listing[]> {
+  const user = useUserStore.getState().user;
+  if (!user?.telegramId) return [];
+
+  const { data, error } = await getClient()
+    .from(TABLE)
+    .select('*')
+    .eq('telegram_id', String(user.telegramId))
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data as Listing[];
+}
+
+/**
+ * Create a new, empty listing
+ */
+export async function createListing(
+  title: string,
+  details: Partial<PropertyDetails> = {}
+): Promise<Listing> {
+  const { data, error } = await getClient()
+    .from(TABLE)
+    .insert({
+      telegram_id: getTelegramId(),
+      title,
+      status: 'draft',
+      details,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Listing;
+}
+
+/**
+ * Update listing fields and return the saved row
+ */
+export async function updateListing(id: string, patch: ListingPatch): Promise<Listing> {
+  const { data, error } = await getClient()
+    .from(TABLE)
+    .update(patch)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Listing;
+}
+
+/**
+ * Delete a listing (files stay in storage, they may be shared with history)
+ */
+export async function deleteListing(id: string): Promise<void> {
+  const { error } = await getClient()
+    .from(TABLE)
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Upload processed images and add them after the listing's photos, or in
+ * their own order when the user has reordered them
+ */
+export async function attachPhotos(listing: Listing, images: ProcessedImage[], reordered = false): Promise<Listing> {
+  const telegramId = getTelegramId();
+
+  // Skip images that were already attached from the same original
+  const known = new Set(listing.photos.map((p) => p.originalId).filter(Boolean));
+  const fresh = images.filter((img) => !known.has(img.originalId));
+
+  const photos: ListingPhoto[] = await Promise.all(
+    fresh.map(async (img) => ({
+      id: crypto.randomUUID(),
+      originalId: img.originalId,
+      url: await uploadFileToStorage(img.blob, 'images', telegramId),
+      width: img.width,
+      height: img.height,
+    }))
+  );
+
+  // Unordered additions must not take the cover from the existing photos
+  if (!reordered) return updateListing(listing.id, { photos: [...listing.photos, ...photos] });
+
+  // The listing follows the order of `images` (cover first, as ranked or
+  // dragged in the editor); photos outside this set keep their order after them
+  const position = new Map(images.map((img, i) => [img.originalId, i]));
+  const ordered = [...listing.photos, ...photos].sort(
+    (a, b) => (position.get(a.originalId ?? '') ?? Infinity) - (position.get(b.originalId ?? '') ?? Infinity)
+  );
+
+  return updateListing(listing.id, { photos: ordered });
+}
+
+/**
+ * Store the generated post for a platform on the listing
+ */
+export async function attachDescription(
+  listing: Listing,
+  platform: Platform,
+  text: string
+): Promise<Listing> {
+  return updateListing(listing.id, {
+    descriptions: { ...listing.descriptions, [platform]: text },
+  });
+}
+
+/**
+ * Append a rendered slideshow to the listing
+ */
+export async function attachVideo(listing: Listing, url: string): Promise<Listing> {
+  const video: ListingVideo = {
+    id: crypto.randomUUID(),
+    url,
+    created_at: new Date().toISOString(),
+  };
+  return updateListing(listing.id, { videos: [...listing.videos, video] });
+}
+
+// ===================================
+// Export
+// ===================================
+
+/**
+ * Build a plain-text bundle of everything attached to a listing,
+ * ready to be copied or downloaded as a .txt file.
+ */
+export function buildListingExport(listing: Listing): string {
+  const { details, descriptions, photos, videos } = listing;
+  const lines: string[] = [listing.title, ''];
+
+  const facts = [
+    details.rooms ? `Xonalar: ${details.rooms}` : '',
+    details.area ? `Maydon: ${details.area} m²` : '',
+    details.floor ? `Qavat: ${details.floor}${details.totalFloors ? `/${details.totalFloors}` : ''}` : '',
+    details.price ? `Narx: ${new Intl.NumberFormat('ru-RU').format(details.price)} ${details.currency || ''}`.trim() : '',
+    details.location ? `Manzil: ${details.location}` : '',
+    details.features?.length ? `Qulayliklar: ${details.features.join(', ')}` : '',
+  ].filter(Boolean);
+
+  if (facts.length > 0) lines.push(...facts, '');
+
+  (Object.keys(descriptions) as Platform[]).forEach((platform) => {
+    const text = descriptions[platform];
+    if (!text) return;
+    lines.push(`=== ${platform.toUpperCase()} ===`, text, '');
+  });
+
+  if (photos.length > 0) {
+    lines.push('=== PHOTOS ===', ...photos.map((p) => p.url), '');
+  }
+
+  if (videos.length > 0) {
+    lines.push('=== VIDEOS ===', ...videos.map((v) => v.url), '');
+  }
+
+  return lines.join('\n').trim();
+}
+
+/**
+ * Download the listing bundle as a text file
+ */
+export function downloadListingExport(listing: Listing): void {
+  const blob = new Blob([buildListingExport(listing)], { type: 'text/plain;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `maklerpro-${listing.title.replace(/\s+/g, '-').toLowerCase()}.txt`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,135 @@
+import { measureImageQuality } from '@/utils/image';
+import { PHOTO_LIMITS } from '@/utils/photoFindings';
+import { analyzeListingPhotos } from '@/services/aiService';
+import type { ImageQuality, PhotoScore, RoomType } from '@/types';
+
+// ===================================
+// Photo Ranking Service
+// ===================================
+// Orders a listing's photos the way buyers expect to browse them: the best
+// living room shot as the cover, bathrooms last, and within a room the
+// sharpest, best exposed frame first.
+
+// Browsing order of rooms, first to last
+export const ROOM_PRIORITY: RoomType[] = [
+  'living_room',
+  'kitchen',
+  'bedroom',
+  'balcony',
+  'exterior',
+  'hallway',
+  'other',
+  'bathroom',
+];
+
+const QUALITY_WEIGHTS: ImageQuality = {
+  sharpness: 0.45,
+  exposure: 0.35,
+  composition: 0.2,
+};
+
+// Share of the room in the cover score; a blurry living room should not win
+const ROOM_WEIGHT = 0.4;
+
+export interface RankablePhoto {
+  id: string;
+  preview: string;
+}
+
+export interface PhotoRanking {
+  order: string[];                      // Photo ids, cover first
+  coverId: string | null;
+  scores: Record<string, PhotoScore>;
+  roomsDetected: boolean;               // False when photo analysis was unavailable
+}
+
+export interface RankPhotosOptions {
+  detectRooms?: boolean;                // Ask /api/analyze-image for room types (default true)
+  onProgress?: (done: number, total: number) => void;
+}
+
+function roomRank(room?: RoomType): number {
+  return ROOM_PRIORITY.indexOf(room ?? 'other');
+}
+
+export function scorePhoto(quality: ImageQuality, room?: RoomType): PhotoScore {
+  const weighted =
+    quality.sharpness * QUALITY_WEIGHTS.sharpness +
+    quality.exposure * QUALITY_WEIGHTS.exposure +
+    quality.composition * QUALITY_WEIGHTS.composition;
+  const roomScore = 1 - roomRank(room) / (ROOM_PRIORITY.length - 1);
+
+  return {
+    ...quality,
+    room,
+    quality: weighted,
+    total: weighted * (1 - ROOM_WEIGHT) + roomScore * ROOM_WEIGHT,
+  };
+}
+
+/**
+ * Cover (best total score) first, then by room priority, then by quality.
+ * Ids without a score keep their relative order at the end.
+ */
+export function orderPhotos(ids: string[], scores: Record<string, PhotoScore>): { order: string[]; coverId: string | null } {
+  const scored = ids.filter((id) => scores[id]);
+  const unscored = ids.filter((id) => !scores[id]);
+  if (scored.length === 0) return { order: ids, coverId: ids[0] ?? null };
+
+  const coverId = scored.reduce((best, id) => (scores[id].total > scores[best].total ? id : best));
+  const rest = scored
+    .filter((id) => id !== coverId)
+    .sort((a, b) =>
+      roomRank(scores[a].room) - roomRank(scores[b].room) || scores[b].quality - scores[a].quality
+    );
+
+  return { order: [coverId, ...rest, ...unscored], coverId };
+}
+
+/**
+ * Room type per photo id, analyzed in chunks the endpoint accepts.
+ * A failed chunk leaves its photos without a room instead of failing the ranking.
+ */
+async function detectRooms(photos: RankablePhoto[]): Promise<Record<string, RoomType>> {
+  const rooms: Record<string, RoomType> = {};
+
+  for (let start = 0; start < photos.length; start += PHOTO_LIMITS.photos) {
+    const chunk = photos.slice(start, start + PHOTO_LIMITS.photos);
+    try {
+      const { findings } = await analyzeListingPhotos(chunk.map((photo) => photo.preview));
+      for (const analysis of findings.photos) {
+        const photo = chunk[analysis.index];
+        if (photo) rooms[photo.id] = analysis.room;
+      }
+    } catch (error) {
+      console.warn('Room detection failed, ranking by quality only:', error);
+    }
+  }
+
+  return rooms;
+}
+
+/**
+ * Score and order a set of photos. Runs sequentially to keep memory low on phones.
+ */
+export async function rankPhotos(photos: RankablePhoto[], options: RankPhotosOptions = {}): Promise<PhotoRanking> {
+  const { detectRooms: withRooms = true, onProgress } = options;
+  const rooms = withRooms && photos.length > 0 ? await detectRooms(photos) : {};
+  const scores: Record<string, PhotoScore> = {};
+
+  for (let i = 0; i < photos.length; i++) {
+    const photo = photos[i];
+    try {
+      scores[photo.id] = scorePhoto(await measureImageQuality(photo.preview), rooms[photo.id]);
+    } catch (error) {
+      console.warn(`Could not score photo ${photo.id}:`, error);
+    }
+    onProgress?.(i + 1, photos.length);
+  }
+
+  return {
+    ...orderPhotos(photos.map((photo) => photo.id), scores),
+    scores,
+    roomsDetected: Object.keys(rooms).length > 0,
+  };
+}
@@ -4,7 +4,15 @@ import { supabase } from '@/lib/supabase';
 // Types
 // ===================================
 
-export type SharePlatform = 'telegram' | 'olx' | 'instagram' | 'copy';
+export type SharePlatform =
+  | 'telegram'
+  | 'olx'
+  | 'instagram'
+  | 'uybor'
+  | 'facebook'
+  | 'whatsapp'
+  | 'sms'
+  | 'copy';
 
 export interface ShareResult {
   success: boolean;
@@ -114,6 +122,37 @@ function getTelegramWebApp(): any {
   return (window as any).Telegram?.WebApp;
 }
 
+/**
+ * Open an external URL (Mini App aware)
+ */
+function openExternalLink(url: string): void {
+  if (isTelegramMiniApp()) {
+    getTelegramWebApp()?.openLink(url);
+  } else {
+    window.open(url, '_blank', 'noopener,noreferrer');
+  }
+}
+
+/**
+ * Copy text, then open a site where the agent pastes it
+ */
+async function copyAndOpen(text: string, url: string, errorMessage: string): Promise<ShareResult> {
+  try {
+    const copyResult = await copyToClipboard(text);
+    if (!copyResult.success) {
+      return { success: false, error: 'Matn nusxa olinmadi' };
+    }
+
+    openExternalLink(url);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : errorMessage,
+    };
+  }
+}
+
 /**
  * Share text to Telegram
  */
@@ -220,6 +259,70 @@ export async function shareToInstagram(text: string): Promise<ShareResult> {
   }
 }
 
+// ===================================
+// uybor.uz / Facebook Marketplace (Copy + Open)
+// ===================================
+
+const UYBOR_NEW_AD_URL = 'https://uybor.uz/';
+const FACEBOOK_MARKETPLACE_URL = 'https://www.facebook.com/marketplace/create/';
+
+/**
+ * Neither site accepts prefilled text, so the description goes to the clipboard
+ */
+export function shareToUybor(text: string): Promise<ShareResult> {
+  return copyAndOpen(text, UYBOR_NEW_AD_URL, 'uybor.uz ga ulashishda xatolik');
+}
+
+export function shareToFacebookMarketplace(text: string): Promise<ShareResult> {
+  return copyAndOpen(text, FACEBOOK_MARKETPLACE_URL, 'Facebook ga ulashishda xatolik');
+}
+
+// ===================================
+// WhatsApp
+// ===================================
+
+/**
+ * Status updates cannot be prefilled: the text is copied for the status
+ * and wa.me opens the chat picker as well
+ */
+export async function shareToWhatsApp(text: string): Promise<ShareResult> {
+  await copyToClipboard(text);
+  try {
+    openExternalLink(`https://wa.me/?text=${encodeURIComponent(text)}`);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'WhatsApp ga ulashishda xatolik',
+    };
+  }
+}
+
+// ===================================
+// SMS
+// ===================================
+
+/**
+ * Opens the SMS app with the body prefilled (`?&body=` works on both iOS and Android).
+ * Telegram's openLink only accepts http(s), so inside the Mini App the text is copied instead.
+ */
+export async function shareToSMS(text: string): Promise<ShareResult> {
+  if (isTelegramMiniApp()) {
+    const copyResult = await copyToClipboard(text);
+    return copyResult.success ? { success: true } : { success: false, error: 'Matn nusxa olinmadi' };
+  }
+
+  try {
+    window.location.href = `sms:?&body=${encodeURIComponent(text)}`;
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'SMS yuborishda xatolik',
+    };
+  }
+}
+
 // ===================================
 // Native Share API (Mobile)
 // ===================================
@@ -293,18 +396,13 @@ export async function trackShareEvent(
 // Get Share Statistics
 // ===================================
 
-export async function getShareStats(telegramId: string): Promise<{
-  telegram: number;
-  olx: number;
-  instagram: number;
-  copy: number;
-} | null> {
+export async function getShareStats(telegramId: string): Promise<Record<SharePlatform, number> | null> {
   if (!supabase) return null;
   
   try {
     const { data, error } = await supabase
       .from('users')
-      .select('telegram_shares, olx_shares, instagram_shares, copy_shares')
+      .select('telegram_shares, olx_shares, instagram_shares, uybor_shares, facebook_shares, whatsapp_shares, sms_shares, copy_shares')
       .eq('telegram_id', telegramId)
       .single();
     
@@ -314,6 +412,10 @@ export async function getShareStats(telegramId: string): Promise<{
       telegram: data.telegram_shares || 0,
       olx: data.olx_shares || 0,
       instagram: data.instagram_shares || 0,
+      uybor: data.uybor_shares || 0,
+      facebook: data.facebook_shares || 0,
+      whatsapp: data.whatsapp_shares || 0,
+      sms: data.sms_shares || 0,
       copy: data.copy_shares || 0,
     };
   } catch (error) {
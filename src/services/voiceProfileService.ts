@@ -0,0 +1,117 @@
+import { supabase } from '@/lib/supabase';
+import { useUserStore } from '@/store/userStore';
+import { sanitizeVoiceProfile } from '@/utils/voiceProfile';
+import type { VoiceProfile, VoiceProfileContent } from '@/types';
+
+// ===================================
+// Voice Profile Service
+// ===================================
+
+const TABLE = 'voice_profiles';
+
+interface VoiceProfileRow {
+  id: string;
+  name: string;
+  agency_name: string;
+  instructions: string;
+  footer: string;
+  signature: string;
+  hashtags: string[] | null;
+  forbidden_words: string[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type VoiceProfileDraft = VoiceProfileContent & { name: string };
+
+function getClient() {
+  if (!supabase) throw new Error('Supabase client not initialized');
+  return supabase;
+}
+
+function toVoiceProfile(row: VoiceProfileRow): VoiceProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    agencyName: row.agency_name,
+    instructions: row.instructions,
+    footer: row.footer,
+    signature: row.signature,
+    hashtags: row.hashtags ?? [],
+    forbiddenWords: row.forbidden_words ?? [],
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function toRow(draft: VoiceProfileDraft) {
+  // Same limits as the API applies before merging into the prompt
+  const content = sanitizeVoiceProfile(draft);
+  return {
+    name: draft.name.trim().slice(0, 60),
+    agency_name: content?.agencyName ?? '',
+    instructions: content?.instructions ?? '',
+    footer: content?.footer ?? '',
+    signature: content?.signature ?? '',
+    hashtags: content?.hashtags ?? [],
+    forbidden_words: content?.forbiddenWords ?? [],
+  };
+}
+
+/**
+ * Fetch the current user's voice profiles (alphabetical)
+ */
+export async function fetchVoiceProfiles(): Promise<VoiceProfile[]> {
+  const user = useUserStore.getState().user;
+  if (!user?.telegramId) return [];
+
+  const { data, error } = await getClient()
+    .from(TABLE)
+    .select('*')
+    .eq('telegram_id', String(user.telegramId))
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data as VoiceProfileRow[]).map(toVoiceProfile);
+}
+
+/**
+ * Create a voice profile for the current user
+ */
+export async function createVoiceProfile(draft: VoiceProfileDraft): Promise<VoiceProfile> {
+  const telegramId = useUserStore.getState().user?.telegramId;
+  if (!telegramId) throw new Error('User context missing');
+
+  const { data, error } = await getClient()
+    .from(TABLE)
+    .insert({ telegram_id: String(telegramId), ...toRow(draft) })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toVoiceProfile(data as VoiceProfileRow);
+}
+
+/**
+ * Replace a voice profile's content and return the saved row
+ */
+export async function updateVoiceProfile(id: string, draft: VoiceProfileDraft): Promise<VoiceProfile> {
+  const { data, error } = await getClient()
+    .from(TABLE)
+    .update(toRow(draft))
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toVoiceProfile(data as VoiceProfileRow);
+}
+
+export async function deleteVoiceProfile(id: string): Promise<void> {
+  const { error } = await getClient()
+    .from(TABLE)
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -3,7 +3,9 @@ import { useUserStore } from '@/store';
 import type { 
   CustomWatermarkSettings, 
   UserBrandingProfile,
-  WatermarkPosition 
+  WatermarkPosition,
+  WatermarkPreset,
+  QrWatermarkSettings
 } from '@/types';
 
 // ===================================
@@ -21,11 +23,20 @@ export interface BrandingUpdateResult {
   error?: string;
 }
 
+export interface WatermarkPresetResult {
+  success: boolean;
+  preset?: WatermarkPreset;
+  error?: string;
+}
+
+export type WatermarkPresetDraft = Pick<WatermarkPreset, 'name' | 'logoUrl' | 'textWatermark' | 'settings'>;
+
 // ===================================
 // Constants
 // ===================================
 
 const WATERMARKS_BUCKET = 'watermarks';
+const PRESETS_TABLE = 'watermark_presets';
 const MAX_WATERMARK_SIZE = 5 * 1024 * 1024; // 5MB
 const ALLOWED_TYPES = ['image/png', 'image/webp'];
 
@@ -38,6 +49,14 @@ const DEFAULT_WATERMARK_SETTINGS: CustomWatermarkSettings = {
   padding: 20,
 };
 
+const DEFAULT_QR_SETTINGS: QrWatermarkSettings = {
+  enabled: false,
+  content: 'phone',
+  value: '',
+  errorCorrection: 'M',
+  quietZone: 4,
+};
+
 // ===================================
 // Upload Custom Watermark Logo
 // ===================================
@@ -124,7 +143,7 @@ export async function uploadWatermarkLogo(
 // Delete Existing Watermark
 // ===================================
 
-async function deleteExistingWatermark(telegramId: string): Promise<void> {
+async function deleteExistingWatermark(telegramId: string, keepUrls: string[] = []): Promise<void> {
   if (!supabase) return;
 
   try {
@@ -134,8 +153,15 @@ async function deleteExistingWatermark(telegramId: string): Promise<void> {
       .from(WATERMARKS_BUCKET)
       .list(telegramId);
 
-    if (files && files.length > 0) {
-      const filePaths = files.map(f => `${telegramId}/${f.name}`);
+    // Logos still used by a preset stay
+    const presetLogos = await fetchPresetLogoUrls(telegramId);
+    const keep = [...keepUrls, ...presetLogos];
+    const unused = (files || []).filter(
+      (f) => !keep.some((url) => url.endsWith(`/${telegramId}/${f.name}`))
+    );
+
+    if (unused.length > 0) {
+      const filePaths = unused.map(f => `${telegramId}/${f.name}`);
       await supabase
         .storage
         .from(WATERMARKS_BUCKET)
@@ -267,6 +293,240 @@ export async function getBrandingProfile(
   }
 }
 
+// ===================================
+// Watermark Presets
+// ===================================
+
+interface WatermarkPresetRow {
+  id: string;
+  name: string;
+  logo_url: string | null;
+  text_name: string;
+  text_phone: string;
+  settings: Partial<CustomWatermarkSettings> | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+function toWatermarkPreset(row: WatermarkPresetRow): WatermarkPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    logoUrl: row.logo_url,
+    textWatermark: { name: row.text_name, phone: row.text_phone },
+    // Rows saved before a setting existed get its default
+    settings: { ...DEFAULT_WATERMARK_SETTINGS, ...row.settings },
+    isDefault: row.is_default,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function toPresetRow(draft: WatermarkPresetDraft) {
+  return {
+    name: draft.name.trim().slice(0, 40),
+    logo_url: draft.logoUrl,
+    text_name: draft.textWatermark.name.trim(),
+    text_phone: draft.textWatermark.phone.trim(),
+    settings: draft.settings,
+  };
+}
+
+async function fetchPresetLogoUrls(telegramId: string): Promise<string[]> {
+  if (!supabase) return [];
+  const { data } = await supabase
+    .from(PRESETS_TABLE)
+    .select('logo_url')
+    .eq('telegram_id', telegramId)
+    .not('logo_url', 'is', null);
+  return (data || []).map((row: { logo_url: string }) => row.logo_url);
+}
+
+/**
+ * The user's presets, default first, then alphabetical. Null when they could not be loaded.
+ */
+export async function fetchWatermarkPresets(
+  telegramId: string
+): Promise<WatermarkPreset[] | null> {
+  if (!supabase) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from(PRESETS_TABLE)
+      .select('*')
+      .eq('telegram_id', telegramId)
+      .order('is_default', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data as WatermarkPresetRow[]).map(toWatermarkPreset);
+
+  } catch (error) {
+    console.error('Fetch watermark presets error:', error);
+    return null;
+  }
+}
+
+/**
+ * Create a preset, or replace the content of preset `id`. The first preset
+ * a user creates becomes their default.
+ */
+export async function saveWatermarkPreset(
+  telegramId: string,
+  draft: WatermarkPresetDraft,
+  id?: string
+): Promise<WatermarkPresetResult> {
+  if (!supabase) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  try {
+    let query;
+    if (id) {
+      query = supabase.from(PRESETS_TABLE).update(toPresetRow(draft)).eq('id', id);
+    } else {
+      const { count } = await supabase
+        .from(PRESETS_TABLE)
+        .select('id', { count: 'exact', head: true })
+        .eq('telegram_id', telegramId);
+      query = supabase
+        .from(PRESETS_TABLE)
+        .insert({ telegram_id: telegramId, ...toPresetRow(draft), is_default: !count });
+    }
+
+    const { data, error } = await query.select().single();
+    if (error) throw error;
+
+    return { success: true, preset: toWatermarkPreset(data as WatermarkPresetRow) };
+
+  } catch (error) {
+    console.error('Save watermark preset error:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Save failed' 
+    };
+  }
+}
+
+export async function setDefaultWatermarkPreset(
+  telegramId: string,
+  id: string
+): Promise<BrandingUpdateResult> {
+  if (!supabase) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  try {
+    const { error } = await supabase.rpc('set_default_watermark_preset', {
+      p_telegram_id: telegramId,
+      p_preset_id: id,
+    });
+    if (error) throw error;
+
+    return { success: true };
+
+  } catch (error) {
+    console.error('Set default watermark preset error:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Update failed' 
+    };
+  }
+}
+
+/**
+ * Make a preset the current branding: logo and settings go to the user record
+ * (as the Branding screen saves them), the text lines stay on this device
+ */
+export async function applyWatermarkPreset(
+  telegramId: string,
+  preset: WatermarkPreset
+): Promise<BrandingUpdateResult> {
+  const store = useUserStore.getState();
+  store.setWatermarkSettings(preset.settings);
+  store.setCustomLogoUrl(preset.logoUrl);
+  store.setTextWatermark(preset.textWatermark);
+
+  if (!supabase) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  try {
+    const { error } = await supabase
+      .from('users')
+      .update({ 
+        custom_watermark_url: preset.logoUrl,
+        watermark_settings: preset.settings,
+        updated_at: new Date().toISOString()
+      })
+      .eq('telegram_id', telegramId);
+
+    if (error) throw error;
+
+    return { success: true };
+
+  } catch (error) {
+    console.error('Apply watermark preset error:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Update failed' 
+    };
+  }
+}
+
+/**
+ * Delete a preset and its logo, unless the logo is still in use. Deleting the
+ * default promotes the most recently updated remaining preset, returned as `preset`.
+ */
+export async function deleteWatermarkPreset(
+  telegramId: string,
+  id: string
+): Promise<WatermarkPresetResult> {
+  if (!supabase) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  try {
+    const { data: deleted, error } = await supabase
+      .from(PRESETS_TABLE)
+      .delete()
+      .eq('id', id)
+      .select('is_default')
+      .single();
+
+    if (error) throw error;
+
+    const currentLogo = useUserStore.getState().branding.customLogoUrl;
+    await deleteExistingWatermark(telegramId, currentLogo ? [currentLogo] : []);
+
+    if (!(deleted as Pick<WatermarkPresetRow, 'is_default'>).is_default) return { success: true };
+
+    // A user with presets always has a default
+    const { data: next, error: nextError } = await supabase
+      .from(PRESETS_TABLE)
+      .select('*')
+      .eq('telegram_id', telegramId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (nextError) throw nextError;
+    if (!next) return { success: true };
+
+    const promoted = await setDefaultWatermarkPreset(telegramId, next.id);
+    if (!promoted.success) return promoted;
+
+    return { success: true, preset: toWatermarkPreset({ ...(next as WatermarkPresetRow), is_default: true }) };
+
+  } catch (error) {
+    console.error('Delete watermark preset error:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Delete failed' 
+    };
+  }
+}
+
 // ===================================
 // Preload Watermark Image (for Canvas)
 // ===================================
@@ -368,13 +628,53 @@ export function calculateWatermarkPosition(
       x: 0, 
       y: 0 
     },
+    // Picked per image when drawing; bottom-right until then
+    'auto': { 
+      x: imageWidth - watermarkWidth - padding, 
+      y: imageHeight - watermarkHeight - padding 
+    },
   };
 
   return positions[position] || positions['bottom-right'];
 }
 
+// ===================================
+// QR Code Payload
+// ===================================
+
+/**
+ * Text the QR watermark encodes: a tel: link, a t.me deep link or the
+ * listing URL. Null when the QR is off or the value is not usable.
+ */
+export function getQrPayload(qr: QrWatermarkSettings | undefined): string | null {
+  if (!qr?.enabled) return null;
+  const value = qr.value.trim();
+
+  switch (qr.content) {
+    case 'phone': {
+      const digits = value.replace(/\D/g, '');
+      if (digits.length < 7) return null;
+      return `tel:${value.startsWith('+') ? '+' : ''}${digits}`;
+    }
+    case 'telegram': {
+      const username = value
+        .replace(/^(https?:\/\/)?(t|telegram)\.me\//i, '')
+        .replace(/^@/, '');
+      return /^[A-Za-z0-9_]{5,32}$/.test(username) ? `https://t.me/${username}` : null;
+    }
+    case 'url': {
+      try {
+        const url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+        return url.hostname.includes('.') ? url.href : null;
+      } catch {
+        return null;
+      }
+    }
+  }
+}
+
 // ===================================
 // Export Default Settings
 // ===================================
 
-export { DEFAULT_WATERMARK_SETTINGS };
+export { DEFAULT_WATERMARK_SETTINGS, DEFAULT_QR_SETTINGS };
@@ -0,0 +1,105 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { EditOperation, EditStack } from '@/types';
+
+// Undo steps kept per image, and images kept (least recently edited dropped)
+const MAX_UNDO = 30;
+const MAX_STACKS = 100;
+
+interface EditStackState {
+  // By getEditKey(image), so edits survive a reload of the same photo
+  stacks: Record<string, EditStack>;
+
+  // Actions
+  commit: (key: string, operations: EditOperation[]) => void;
+  undo: (key: string) => EditOperation[] | null;  // New operations, null when nothing to undo
+  redo: (key: string) => EditOperation[] | null;
+  reset: (key: string) => void;                    // Back to the original; undoable
+  copyTo: (fromKey: string, toKeys: string[]) => void;
+}
+
+const emptyStack = (): EditStack => ({ operations: [], past: [], future: [], updatedAt: Date.now() });
+
+function pushed(stack: EditStack, operations: EditOperation[]): EditStack {
+  return {
+    operations,
+    past: [...stack.past, stack.operations].slice(-MAX_UNDO),
+    future: [],
+    updatedAt: Date.now(),
+  };
+}
+
+// Drop the least recently edited stacks beyond MAX_STACKS
+function pruned(stacks: Record<string, EditStack>): Record<string, EditStack> {
+  const keys = Object.keys(stacks);
+  if (keys.length <= MAX_STACKS) return stacks;
+  const keep = keys.sort((a, b) => stacks[b].updatedAt - stacks[a].updatedAt).slice(0, MAX_STACKS);
+  return Object.fromEntries(keep.map((key) => [key, stacks[key]]));
+}
+
+export const useEditStackStore = create<EditStackState>()(
+  persist(
+    (set, get) => ({
+      stacks: {},
+
+      commit: (key, operations) => set((state) => ({
+        stacks: pruned({ ...state.stacks, [key]: pushed(state.stacks[key] ?? emptyStack(), operations) }),
+      })),
+
+      undo: (key) => {
+        const stack = get().stacks[key];
+        if (!stack || stack.past.length === 0) return null;
+        const operations = stack.past[stack.past.length - 1];
+        set((state) => ({
+          stacks: {
+            ...state.stacks,
+            [key]: {
+              operations,
+              past: stack.past.slice(0, -1),
+              future: [stack.operations, ...stack.future],
+              updatedAt: Date.now(),
+            },
+          },
+        }));
+        return operations;
+      },
+
+      redo: (key) => {
+        const stack = get().stacks[key];
+        if (!stack || stack.future.length === 0) return null;
+        const [operations, ...future] = stack.future;
+        set((state) => ({
+          stacks: {
+            ...state.stacks,
+            [key]: {
+              operations,
+              past: [...stack.past, stack.operations],
+              future,
+              updatedAt: Date.now(),
+            },
+          },
+        }));
+        return operations;
+      },
+
+      reset: (key) => {
+        const stack = get().stacks[key];
+        if (!stack || stack.operations.length === 0) return;
+        get().commit(key, []);
+      },
+
+      copyTo: (fromKey, toKeys) => set((state) => {
+        const operations = state.stacks[fromKey]?.operations;
+        if (!operations) return {};
+        const stacks = { ...state.stacks };
+        for (const key of toKeys) {
+          if (key !== fromKey) stacks[key] = pushed(stacks[key] ?? emptyStack(), operations);
+        }
+        return { stacks: pruned(stacks) };
+      }),
+    }),
+    {
+      name: 'maklerpro-edit-stacks',
+    }
+  )
+);
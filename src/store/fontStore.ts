@@ -0,0 +1,72 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { fetchUserFonts, uploadUserFont, deleteUserFont } from '@/services/fontService';
+import type { UserFont } from '@/types';
+
+interface FontState {
+  fonts: UserFont[];  // Uploaded by the agent; bundled fonts are in utils/fonts
+  isLoading: boolean;
+  isUploading: boolean;
+  error: string | null;
+
+  // Actions
+  loadFonts: () => Promise<void>;
+  uploadFont: (file: File) => Promise<UserFont>;
+  removeFont: (id: string) => Promise<void>;
+}
+
+export const useFontStore = create<FontState>()(
+  persist(
+    (set) => ({
+      fonts: [],
+      isLoading: false,
+      isUploading: false,
+      error: null,
+
+      loadFonts: async () => {
+        set({ isLoading: true, error: null });
+        try {
+          const fonts = await fetchUserFonts();
+          set({ fonts });
+        } catch (e) {
+          console.error(e);
+          // If offline, we keep the existing fonts (hydrated from storage)
+          set({ error: 'Shriftlarni yuklashda xatolik (offline)' });
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      uploadFont: async (file) => {
+        set({ isUploading: true, error: null });
+        try {
+          const font = await uploadUserFont(file);
+          set((state) => ({
+            fonts: [...state.fonts, font].sort((a, b) => a.name.localeCompare(b.name)),
+          }));
+          return font;
+        } catch (e) {
+          console.error('Upload font failed:', e);
+          set({ error: e instanceof Error ? e.message : 'Yuklashda xatolik yuz berdi' });
+          throw e;
+        } finally {
+          set({ isUploading: false });
+        }
+      },
+
+      removeFont: async (id) => {
+        try {
+          set((state) => ({ fonts: state.fonts.filter((f) => f.id !== id) }));
+          await deleteUserFont(id);
+        } catch (e) {
+          console.error(e);
+        }
+      },
+    }),
+    {
+      name: 'maklerpro-fonts',
+      // Only persist data, not loading states or errors
+      partialize: (state) => ({ fonts: state.fonts }),
+    }
+  )
+);
@@ -0,0 +1,184 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  fetchGenerationVersions,
+  insertGenerationVersion,
+  deleteGenerationChain,
+} from '@/services/generationVersionService';
+import type { GenerationVersion } from '@/types';
+
+export type GenerationVersionDraft = Pick<
+  GenerationVersion,
+  'platform' | 'language' | 'tone' | 'rawInput' | 'instruction' | 'provider' | 'output'
+>;
+
+interface GenerationVersionState {
+  versions: GenerationVersion[];   // Newest first
+  unsyncedIds: string[];           // Recorded offline, inserted on the next load
+  openVersionId: string | null;    // Version the AI converter should show next
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadVersions: () => Promise<void>;
+  recordVersion: (draft: GenerationVersionDraft, parent?: GenerationVersion | null) => GenerationVersion;
+  restoreVersion: (id: string) => GenerationVersion | null;
+  removeChain: (chainId: string) => Promise<void>;
+  openVersion: (id: string | null) => void;
+}
+
+export const useGenerationVersionStore = create<GenerationVersionState>()(
+  persist(
+    (set, get) => {
+      // Added locally at once (a refinement may chain onto it right away) and
+      // synced in the background. Versions are immutable, so a failed insert
+      // is simply retried on the next load.
+      const save = (version: GenerationVersion) => {
+        set((state) => ({
+          versions: [version, ...state.versions],
+          unsyncedIds: [...state.unsyncedIds, version.id],
+        }));
+        insertGenerationVersion(version)
+          .then(() => set((state) => ({ unsyncedIds: state.unsyncedIds.filter((id) => id !== version.id) })))
+          .catch((e) => {
+            console.error('Save generation version failed:', e);
+            set({ error: 'Versiyani saqlashda xatolik (offline)' });
+          });
+        return version;
+      };
+
+      const nextVersionNumber = (chainId: string) =>
+        Math.max(0, ...get().versions.filter((v) => v.chainId === chainId).map((v) => v.version)) + 1;
+
+      return {
+        versions: [],
+        unsyncedIds: [],
+        openVersionId: null,
+        isLoading: false,
+        error: null,
+
+        loadVersions: async () => {
+          set({ isLoading: true, error: null });
+          try {
+            const { versions, unsyncedIds } = get();
+            const retried: string[] = [];
+            // Oldest first, so parents exist before the versions refined from them
+            for (const version of [...versions].reverse().filter((v) => unsyncedIds.includes(v.id))) {
+              try {
+                await insertGenerationVersion(version);
+                retried.push(version.id);
+              } catch (e) {
+                console.error(e);
+              }
+            }
+
+            const remote = await fetchGenerationVersions();
+            set((state) => {
+              const pending = state.unsyncedIds.filter((id) => !retried.includes(id));
+              const local = state.versions.filter((v) => pending.includes(v.id));
+              return {
+                versions: [...local, ...remote.filter((v) => !pending.includes(v.id))]
+                  .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+                unsyncedIds: pending,
+              };
+            });
+          } catch (e) {
+            console.error(e);
+            // If offline, we keep the existing versions (hydrated from storage)
+            set({ error: 'Versiyalarni yuklashda xatolik (offline)' });
+          } finally {
+            set({ isLoading: false });
+          }
+        },
+
+        recordVersion: (draft, parent) => {
+          const chainId = parent?.chainId ?? crypto.randomUUID();
+          return save({
+            ...draft,
+            id: crypto.randomUUID(),
+            chainId,
+            parentId: parent?.id ?? null,
+            version: parent ? nextVersionNumber(chainId) : 1,
+            restoredFrom: null,
+            created_at: new Date().toISOString(),
+          });
+        },
+
+        restoreVersion: (id) => {
+          const { versions } = get();
+          const source = versions.find((v) => v.id === id);
+          if (!source) return null;
+
+          // Restoring appends a copy as the new head, the versions in between stay
+          const head = versions
+            .filter((v) => v.chainId === source.chainId)
+            .reduce((a, b) => (b.version > a.version ? b : a));
+          const restored = save({
+            ...source,
+            id: crypto.randomUUID(),
+            parentId: head.id,
+            version: head.version + 1,
+            instruction: null,
+            restoredFrom: source.id,
+            created_at: new Date().toISOString(),
+          });
+          set({ openVersionId: restored.id });
+          return restored;
+        },
+
+        removeChain: async (chainId) => {
+          try {
+            set((state) => {
+              const removed = state.versions.filter((v) => v.chainId === chainId).map((v) => v.id);
+              return {
+                versions: state.versions.filter((v) => v.chainId !== chainId),
+                unsyncedIds: state.unsyncedIds.filter((id) => !removed.includes(id)),
+              };
+            });
+            await deleteGenerationChain(chainId);
+          } catch (e) {
+            console.error(e);
+          }
+        },
+
+        openVersion: (id) => set({ openVersionId: id }),
+      };
+    },
+    {
+      name: 'maklerpro-generation-versions',
+      // Only persist data, not loading states or errors
+      partialize: (state) => ({
+        versions: state.versions,
+        unsyncedIds: state.unsyncedIds,
+      }),
+    }
+  )
+);
+
+// ===================================
+// Helpers
+// ===================================
+
+export interface GenerationChain {
+  chainId: string;
+  head: GenerationVersion;          // Latest version
+  versions: GenerationVersion[];    // Oldest first
+}
+
+/**
+ * Group versions into chains, most recently changed chain first.
+ * Call inside useMemo: it builds new arrays on every call.
+ */
+export function groupGenerationChains(versions: GenerationVersion[]): GenerationChain[] {
+  const chains = new Map<string, GenerationVersion[]>();
+  for (const version of versions) {
+    chains.set(version.chainId, [...(chains.get(version.chainId) ?? []), version]);
+  }
+
+  return [...chains.entries()]
+    .map(([chainId, list]) => {
+      const sorted = [...list].sort((a, b) => a.version - b.version);
+      return { chainId, head: sorted[sorted.length - 1], versions: sorted };
+    })
+    .sort((a, b) => b.head.created_at.localeCompare(a.head.created_at));
+}
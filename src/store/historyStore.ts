@@ -8,6 +8,7 @@ import {
   type HistoryItem 
 } from '@/services/historyService';
 import { useUserStore } from './userStore';
+import type { PerceptualHash } from '@/types';
 
 interface HistoryState {
   items: HistoryItem[];
@@ -22,6 +23,7 @@ interface HistoryState {
       title: string;
       data: string | Blob;
       thumbnail?: string;
+      hash?: PerceptualHash; // Of the uploaded original, to spot re-uploads
   }) => Promise<void>;
   removeItem: (id: string, dataUrl: string) => Promise<void>;
   clearHistory: () => void;
@@ -68,7 +70,9 @@ export const useHistoryStore = create<HistoryState>()(
             type: item.type,
             title: item.title,
             data: finalData as string,
-            thumbnail: item.thumbnail
+            thumbnail: item.thumbnail,
+            dhash: item.hash?.dHash,
+            phash: item.hash?.pHash
           });
 
           // 3. Update UI
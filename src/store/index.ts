@@ -8,6 +8,7 @@ import type {
   EnhancementConfig,
   AppView,
   ProcessingProgress,
+  PhotoScore,
   Toast 
 } from '@/types';
 
@@ -78,13 +79,44 @@ export const useAppStore = create<AppState>()(
 // Image Store - Image Processing State
 // ===================================
 
+/**
+ * Processed images in the order of their originals (several may share one);
+ * ones without a known original keep their place at the end
+ */
+function sortByOriginalOrder(processed: ProcessedImage[], images: ImageFile[]): ProcessedImage[] {
+  const position = new Map(images.map((img, i) => [img.id, i]));
+  return [...processed].sort(
+    (a, b) => (position.get(a.originalId) ?? Infinity) - (position.get(b.originalId) ?? Infinity)
+  );
+}
+
+// Duplicate groups with the given ids removed; groups left with one photo are resolved
+function withoutIds(groups: string[][], ids: string[]): string[][] {
+  return groups
+    .map((group) => group.filter((id) => !ids.includes(id)))
+    .filter((group) => group.length > 1);
+}
+
 interface ImageState {
-  // Original images
+  // Original images (listing order, the first one is the cover)
   images: ImageFile[];
   addImages: (images: ImageFile[]) => void;
   removeImage: (id: string) => void;
   clearImages: () => void;
   
+  // Ordering (automatic ranking or manual drag)
+  photoScores: Record<string, PhotoScore>;
+  isReordered: boolean;  // The user ranked, dragged or picked a cover
+  reorderImages: (ids: string[]) => void;
+  setCover: (id: string) => void;
+  setPhotoScores: (scores: Record<string, PhotoScore>) => void;
+  
+  // Near-duplicate groups found on upload (image ids, 2+ per group)
+  duplicateGroups: string[][];
+  setDuplicateGroups: (groups: string[][]) => void;
+  keepDuplicate: (group: string[], keepId: string) => void;
+  dismissDuplicateGroup: (group: string[]) => void;
+  
   // Processed images
   processedImages: ProcessedImage[];
   addProcessedImage: (image: ProcessedImage) => void;
@@ -106,14 +138,49 @@ export const useImageStore = create<ImageState>()(
         images: [...state.images, ...newImages] 
       })),
       removeImage: (id) => set((state) => ({ 
-        images: state.images.filter((img) => img.id !== id) 
+        images: state.images.filter((img) => img.id !== id),
+        duplicateGroups: withoutIds(state.duplicateGroups, [id]),
+      })),
+      clearImages: () => set({ images: [], processedImages: [], selectedIds: [], photoScores: {}, isReordered: false, duplicateGroups: [] }),
+      
+      // Ordering
+      photoScores: {},
+      isReordered: false,
+      reorderImages: (ids) => set((state) => {
+        const byId = new Map(state.images.map((img) => [img.id, img]));
+        const ordered = ids.map((id) => byId.get(id)).filter((img): img is ImageFile => !!img);
+        // Images missing from ids (e.g. added meanwhile) stay, after the ordered ones
+        const images = [...ordered, ...state.images.filter((img) => !ids.includes(img.id))];
+        return { images, processedImages: sortByOriginalOrder(state.processedImages, images), isReordered: true };
+      }),
+      setCover: (id) => set((state) => {
+        const cover = state.images.find((img) => img.id === id);
+        if (!cover) return {};
+        const images = [cover, ...state.images.filter((img) => img.id !== id)];
+        return { images, processedImages: sortByOriginalOrder(state.processedImages, images), isReordered: true };
+      }),
+      setPhotoScores: (scores) => set({ photoScores: scores }),
+      
+      // Duplicates
+      duplicateGroups: [],
+      setDuplicateGroups: (groups) => set({ duplicateGroups: groups }),
+      keepDuplicate: (group, keepId) => set((state) => {
+        const removed = group.filter((id) => id !== keepId);
+        return {
+          images: state.images.filter((img) => !removed.includes(img.id)),
+          processedImages: state.processedImages.filter((img) => !removed.includes(img.originalId)),
+          selectedIds: state.selectedIds.filter((id) => !removed.includes(id)),
+          duplicateGroups: withoutIds(state.duplicateGroups.filter((g) => g !== group), removed),
+        };
+      }),
+      dismissDuplicateGroup: (group) => set((state) => ({
+        duplicateGroups: state.duplicateGroups.filter((g) => g !== group),
       })),
-      clearImages: () => set({ images: [], processedImages: [], selectedIds: [] }),
       
       // Processed images
       processedImages: [],
       addProcessedImage: (image) => set((state) => ({ 
-        processedImages: [...state.processedImages, image] 
+        processedImages: sortByOriginalOrder([...state.processedImages, image], state.images) 
       })),
       clearProcessedImages: () => set({ processedImages: [] }),
       
@@ -235,3 +302,9 @@ export const useSettingsStore = create<SettingsState>()(
 
 export * from './userStore';
 export * from './historyStore';
+export * from './listingStore';
+export * from './voiceProfileStore';
+export * from './generationVersionStore';
+export * from './editStackStore';
+export * from './watermarkPresetStore';
+export * from './fontStore';
@@ -0,0 +1,144 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  fetchListings,
+  createListing,
+  updateListing,
+  deleteListing,
+  attachPhotos,
+  attachDescription,
+  attachVideo,
+} from '@/services/listingService';
+import type { Listing, Platform, ProcessedImage, PropertyDetails } from '@/types';
+
+interface ListingState {
+  listings: Listing[];
+  activeListingId: string | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+
+  // Actions
+  loadListings: () => Promise<void>;
+  createListing: (title: string, details?: Partial<PropertyDetails>) => Promise<Listing>;
+  openListing: (id: string | null) => void;
+  updateDetails: (id: string, details: Partial<PropertyDetails>) => Promise<void>;
+  attachPhotos: (id: string, images: ProcessedImage[], reordered?: boolean) => Promise<void>;
+  attachDescription: (id: string, platform: Platform, text: string) => Promise<void>;
+  attachVideo: (id: string, url: string) => Promise<void>;
+  removeListing: (id: string) => Promise<void>;
+}
+
+export const useListingStore = create<ListingState>()(
+  persist(
+    (set, get) => {
+      // Runs a server mutation for a listing and swaps the saved row into state
+      const mutate = async (id: string, run: (listing: Listing) => Promise<Listing>) => {
+        const listing = get().listings.find((l) => l.id === id);
+        if (!listing) throw new Error('Listing not found');
+
+        set({ isSaving: true, error: null });
+        try {
+          const saved = await run(listing);
+          set((state) => ({
+            listings: [saved, ...state.listings.filter((l) => l.id !== id)],
+          }));
+        } catch (e) {
+          console.error('Listing update failed:', e);
+          set({ error: 'Saqlashda xatolik yuz berdi' });
+          throw e;
+        } finally {
+          set({ isSaving: false });
+        }
+      };
+
+      return {
+        listings: [],
+        activeListingId: null,
+        isLoading: false,
+        isSaving: false,
+        error: null,
+
+        loadListings: async () => {
+          set({ isLoading: true, error: null });
+          try {
+            const listings = await fetchListings();
+            set((state) => ({
+              listings,
+              activeListingId: listings.some((l) => l.id === state.activeListingId)
+                ? state.activeListingId
+                : null,
+            }));
+          } catch (e) {
+            console.error(e);
+            // If offline, we keep the existing listings (hydrated from storage)
+            set({ error: "E'lonlarni yuklashda xatolik (offline)" });
+          } finally {
+            set({ isLoading: false });
+          }
+        },
+
+        createListing: async (title, details) => {
+          set({ isSaving: true, error: null });
+          try {
+            const listing = await createListing(title, details);
+            set((state) => ({
+              listings: [listing, ...state.listings],
+              activeListingId: listing.id,
+            }));
+            return listing;
+          } catch (e) {
+            console.error('Create listing failed:', e);
+            set({ error: 'Saqlashda xatolik yuz berdi' });
+            throw e;
+          } finally {
+            set({ isSaving: false });
+          }
+        },
+
+        openListing: (id) => set({ activeListingId: id }),
+
+        updateDetails: (id, details) =>
+          mutate(id, (listing) =>
+            updateListing(id, { details: { ...listing.details, ...details } })
+          ),
+
+        attachPhotos: (id, images, reordered) =>
+          mutate(id, (listing) => attachPhotos(listing, images, reordered)),
+
+        attachDescription: (id, platform, text) =>
+          mutate(id, (listing) => attachDescription(listing, platform, text)),
+
+        attachVideo: (id, url) =>
+          mutate(id, (listing) => attachVideo(listing, url)),
+
+        removeListing: async (id) => {
+          try {
+            set((state) => ({
+              listings: state.listings.filter((l) => l.id !== id),
+              activeListingId: state.activeListingId === id ? null : state.activeListingId,
+            }));
+            await deleteListing(id);
+          } catch (e) {
+            console.error(e);
+          }
+        },
+      };
+    },
+    {
+      name: 'maklerpro-listings',
+      // Only persist data, not loading states or errors
+      partialize: (state) => ({
+        listings: state.listings,
+        activeListingId: state.activeListingId,
+      }),
+    }
+  )
+);
+
+// ===================================
+// Selectors
+// ===================================
+
+export const selectActiveListing = (state: ListingState) =>
+  state.listings.find((l) => l.id === state.activeListingId) ?? null;
@@ -0,0 +1,102 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  fetchVoiceProfiles,
+  createVoiceProfile,
+  updateVoiceProfile,
+  deleteVoiceProfile,
+  type VoiceProfileDraft,
+} from '@/services/voiceProfileService';
+import type { VoiceProfile } from '@/types';
+
+interface VoiceProfileState {
+  profiles: VoiceProfile[];
+  activeProfileId: string | null; // Profile used by the AI converter
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+
+  // Actions
+  loadProfiles: () => Promise<void>;
+  saveProfile: (draft: VoiceProfileDraft, id?: string) => Promise<VoiceProfile>;
+  removeProfile: (id: string) => Promise<void>;
+  selectProfile: (id: string | null) => void;
+}
+
+export const useVoiceProfileStore = create<VoiceProfileState>()(
+  persist(
+    (set) => ({
+      profiles: [],
+      activeProfileId: null,
+      isLoading: false,
+      isSaving: false,
+      error: null,
+
+      loadProfiles: async () => {
+        set({ isLoading: true, error: null });
+        try {
+          const profiles = await fetchVoiceProfiles();
+          set((state) => ({
+            profiles,
+            activeProfileId: profiles.some((p) => p.id === state.activeProfileId)
+              ? state.activeProfileId
+              : null,
+          }));
+        } catch (e) {
+          console.error(e);
+          // If offline, we keep the existing profiles (hydrated from storage)
+          set({ error: 'Shablonlarni yuklashda xatolik (offline)' });
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      saveProfile: async (draft, id) => {
+        set({ isSaving: true, error: null });
+        try {
+          const saved = id ? await updateVoiceProfile(id, draft) : await createVoiceProfile(draft);
+          set((state) => ({
+            profiles: [...state.profiles.filter((p) => p.id !== saved.id), saved]
+              .sort((a, b) => a.name.localeCompare(b.name)),
+          }));
+          return saved;
+        } catch (e) {
+          console.error('Save voice profile failed:', e);
+          set({ error: 'Saqlashda xatolik yuz berdi' });
+          throw e;
+        } finally {
+          set({ isSaving: false });
+        }
+      },
+
+      removeProfile: async (id) => {
+        try {
+          set((state) => ({
+            profiles: state.profiles.filter((p) => p.id !== id),
+            activeProfileId: state.activeProfileId === id ? null : state.activeProfileId,
+          }));
+          await deleteVoiceProfile(id);
+        } catch (e) {
+          console.error(e);
+        }
+      },
+
+      selectProfile: (id) => set({ activeProfileId: id }),
+    }),
+    {
+      name: 'maklerpro-voice-profiles',
+      // Only persist data, not loading states or errors
+      partialize: (state) => ({
+        profiles: state.profiles,
+        activeProfileId: state.activeProfileId,
+      }),
+    }
+  )
+);
+
+// ===================================
+// Selectors
+// ===================================
+
+export const selectActiveVoiceProfile = (state: VoiceProfileState) =>
+  state.profiles.find((p) => p.id === state.activeProfileId) ?? null;
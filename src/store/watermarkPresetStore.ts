@@ -0,0 +1,149 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  fetchWatermarkPresets,
+  saveWatermarkPreset,
+  deleteWatermarkPreset,
+  setDefaultWatermarkPreset,
+  applyWatermarkPreset,
+  type WatermarkPresetDraft,
+} from '@/services/watermarkService';
+import { useUserStore } from './userStore';
+import type { WatermarkPreset } from '@/types';
+
+interface WatermarkPresetState {
+  presets: WatermarkPreset[];
+  activePresetId: string | null; // Preset the current branding came from
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+
+  // Actions
+  loadPresets: () => Promise<void>;
+  savePreset: (draft: WatermarkPresetDraft, id?: string) => Promise<WatermarkPreset>;
+  removePreset: (id: string) => Promise<void>;
+  setDefault: (id: string) => Promise<void>;
+  selectPreset: (id: string) => void;
+}
+
+const getTelegramId = () => {
+  const telegramId = useUserStore.getState().user.telegramId;
+  return telegramId ? String(telegramId) : null;
+};
+
+// Default first, then by name (the order the service returns)
+const sorted = (presets: WatermarkPreset[]) =>
+  [...presets].sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.name.localeCompare(b.name));
+
+export const useWatermarkPresetStore = create<WatermarkPresetState>()(
+  persist(
+    (set, get) => ({
+      presets: [],
+      activePresetId: null,
+      isLoading: false,
+      isSaving: false,
+      error: null,
+
+      loadPresets: async () => {
+        const telegramId = getTelegramId();
+        if (!telegramId) return;
+
+        set({ isLoading: true, error: null });
+        const presets = await fetchWatermarkPresets(telegramId);
+        if (!presets) {
+          // If offline, we keep the existing presets (hydrated from storage)
+          set({ isLoading: false, error: 'Shablonlarni yuklashda xatolik (offline)' });
+          return;
+        }
+
+        const isKnown = presets.some((p) => p.id === get().activePresetId);
+        set({ presets, isLoading: false, activePresetId: isKnown ? get().activePresetId : null });
+
+        // Nothing picked on this device yet: start from the default preset
+        const fallback = presets.find((p) => p.isDefault);
+        if (!isKnown && fallback) get().selectPreset(fallback.id);
+      },
+
+      savePreset: async (draft, id) => {
+        const telegramId = getTelegramId();
+        if (!telegramId) throw new Error('User not loaded');
+
+        set({ isSaving: true, error: null });
+        const result = await saveWatermarkPreset(telegramId, draft, id);
+        if (!result.success || !result.preset) {
+          set({ isSaving: false, error: 'Saqlashda xatolik yuz berdi' });
+          throw new Error(result.error);
+        }
+
+        const saved = result.preset;
+        set((state) => ({
+          presets: sorted([...state.presets.filter((p) => p.id !== saved.id), saved]),
+          activePresetId: saved.id,
+          isSaving: false,
+        }));
+        return saved;
+      },
+
+      removePreset: async (id) => {
+        const telegramId = getTelegramId();
+        if (!telegramId) return;
+
+        set((state) => ({
+          presets: state.presets.filter((p) => p.id !== id),
+          activePresetId: state.activePresetId === id ? null : state.activePresetId,
+        }));
+        const result = await deleteWatermarkPreset(telegramId, id);
+        if (!result.success) console.error(result.error);
+
+        // The deleted one was the default: another preset took its place
+        const promoted = result.preset;
+        if (promoted) {
+          set((state) => ({
+            presets: sorted(state.presets.map((p) => ({ ...p, isDefault: p.id === promoted.id }))),
+          }));
+        }
+      },
+
+      setDefault: async (id) => {
+        const telegramId = getTelegramId();
+        if (!telegramId) return;
+
+        const previous = get().presets;
+        set({ presets: sorted(previous.map((p) => ({ ...p, isDefault: p.id === id }))) });
+        const result = await setDefaultWatermarkPreset(telegramId, id);
+        if (!result.success) {
+          set({ presets: previous, error: result.error ?? null });
+          throw new Error(result.error);
+        }
+      },
+
+      selectPreset: (id) => {
+        const preset = get().presets.find((p) => p.id === id);
+        if (!preset) return;
+
+        set({ activePresetId: id });
+        const telegramId = getTelegramId();
+        if (telegramId) {
+          applyWatermarkPreset(telegramId, preset).then((result) => {
+            if (!result.success) console.error(result.error);
+          });
+        }
+      },
+    }),
+    {
+      name: 'maklerpro-watermark-presets',
+      // Only persist data, not loading states or errors
+      partialize: (state) => ({
+        presets: state.presets,
+        activePresetId: state.activePresetId,
+      }),
+    }
+  )
+);
+
+// ===================================
+// Selectors
+// ===================================
+
+export const selectActiveWatermarkPreset = (state: WatermarkPresetState) =>
+  state.presets.find((p) => p.id === state.activePresetId) ?? null;
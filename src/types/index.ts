@@ -92,6 +92,13 @@ export interface ImageFile {
   size: number;
   name: string;
   type: string;
+  hash?: PerceptualHash;  // Set during upload, used for duplicate detection
+}
+
+// 64-bit hashes as 16 hex chars; similar images have a small Hamming distance
+export interface PerceptualHash {
+  dHash: string;          // Gradient hash, sensitive to layout
+  pHash: string;          // DCT hash, tolerant of re-compression and small edits
 }
 
 export interface ProcessedImage {
@@ -104,6 +111,19 @@ export interface ProcessedImage {
   size: number;
 }
 
+// Pixel-based quality, each 0-1 (higher is better)
+export interface ImageQuality {
+  sharpness: number;
+  exposure: number;
+  composition: number;
+}
+
+export interface PhotoScore extends ImageQuality {
+  room?: RoomType;        // From photo analysis, when it ran
+  quality: number;        // Weighted pixel quality
+  total: number;          // Quality and room priority combined (cover choice)
+}
+
 export interface WatermarkConfig {
   text: string;           // Primary text (e.g. Name)
   secondText?: string;    // Secondary text (e.g. Phone)
@@ -128,11 +148,23 @@ export type WatermarkPosition =
   | 'bottom-left'
   | 'bottom-center'
   | 'bottom-right'
-  | 'tile';
+  | 'tile'
+  | 'auto';      // Least busy corner of each photo, text tone to match
 
 // Custom Watermark Types
 export type WatermarkType = 'text' | 'logo' | 'both';
 
+// What a QR watermark opens when scanned
+export type QrContentType = 'phone' | 'telegram' | 'url';
+
+export interface QrWatermarkSettings {
+  enabled: boolean;
+  content: QrContentType;
+  value: string;                           // Phone number, Telegram username or listing URL
+  errorCorrection: 'L' | 'M' | 'Q' | 'H';  // Higher survives more damage but needs more modules
+  quietZone: number;                       // Light border in modules (4 per the spec)
+}
+
 export interface CustomWatermarkSettings {
   type: WatermarkType;
   position: WatermarkPosition;
@@ -140,6 +172,32 @@ export interface CustomWatermarkSettings {
   scale: number;         // Max percentage of image width (e.g., 15 = 15%)
   enabled: boolean;
   padding?: number;      // Padding from edges in pixels
+  qr?: QrWatermarkSettings; // Drawn next to the logo
+  font?: string;         // WatermarkFont id; the system font when unset
+}
+
+// One font file; bundled fonts come split by script (unicodeRange)
+export interface FontFaceSource {
+  url: string;
+  weight: string;          // '400', '700', or a range like '100 900'
+  unicodeRange?: string;
+}
+
+// Font a text watermark can be drawn with, bundled or uploaded by the agent
+export interface WatermarkFont {
+  id: string;
+  name: string;            // Shown in the picker
+  family: string;          // Name it is registered under with the FontFace API
+  faces: FontFaceSource[];
+}
+
+// Agent's own font file, kept in Supabase storage
+export interface UserFont {
+  id: string;
+  name: string;
+  url: string;
+  format: 'truetype' | 'woff2';
+  created_at: string;
 }
 
 export interface UserBrandingProfile {
@@ -151,6 +209,27 @@ export interface UserBrandingProfile {
   };
 }
 
+// Hidden in exported photos to prove who made them (see utils/image/provenance)
+export interface ProvenanceTag {
+  telegramId: string;
+  timestamp: number;   // Export time, ms (stored with second precision)
+}
+
+// Named branding an agent switches between (e.g. one per agency, one personal)
+export interface WatermarkPreset {
+  id: string;
+  name: string;
+  logoUrl: string | null;
+  textWatermark: {
+    name: string;
+    phone: string;
+  };
+  settings: CustomWatermarkSettings;  // Style, position, opacity, scale
+  isDefault: boolean;                 // Applied on a new device / after login
+  created_at: string;
+  updated_at: string;
+}
+
 export interface CompressionConfig {
   maxWidth: number;
   maxHeight: number;
@@ -163,6 +242,50 @@ export interface EnhancementConfig {
   contrast: number;     // -100 to 100
   saturation: number;   // -100 to 100
   sharpness: number;    // 0 to 100
+  // Optional so configs saved before they existed stay valid (missing = 0)
+  temperature?: number; // -100 (cooler) to 100 (warmer)
+  tint?: number;        // -100 (greener) to 100 (more magenta)
+  highlights?: number;  // -100 (recover) to 100 (brighten)
+  shadows?: number;     // -100 (deepen) to 100 (lift)
+  // Local (edge-aware) tone mapping, 0 to 100; unlike shadows/highlights
+  // they follow the scene, so a window is pulled down but the wall next to it is not
+  hdrShadows?: number;
+  hdrHighlights?: number;
+  hdrDetail?: number;
+  geometry?: GeometryCorrection;
+}
+
+export interface GeometryCorrection {
+  rotation: number;     // Degrees clockwise, -10 to 10
+  vertical: number;     // Keystone, -100 (verticals converge down) to 100 (converge up)
+}
+
+// ===================================
+// Edit Stack Types
+// ===================================
+
+// Normalized (0-1) rectangle of the image at that point of the stack
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Non-destructive edits, rendered from the original in order. Enhance runs
+// first (straightening is measured on the original orientation), the
+// branding watermark last.
+export type EditOperation =
+  | { type: 'enhance'; config: EnhancementConfig | 'auto' } // 'auto': measured at render time
+  | { type: 'rotate'; quarterTurns: 1 | 2 | 3 }              // Clockwise
+  | { type: 'crop'; rect: CropRect }
+  | { type: 'watermark' };                                    // Branding as configured when rendered
+
+export interface EditStack {
+  operations: EditOperation[];
+  past: EditOperation[][];    // Undo snapshots, oldest first
+  future: EditOperation[][];  // Redo snapshots, most recent first
+  updatedAt: number;
 }
 
 // ===================================
@@ -216,9 +339,126 @@ export interface GeneratedDescriptions {
   telegram: string;
   instagram: string;
   olx: string;
+  uybor?: string;
+  facebook?: string;  // Facebook Marketplace
+  whatsapp?: string;  // WhatsApp status
+  sms?: string;       // Plain text, max 160 characters
 }
 
-export type Platform = 'telegram' | 'instagram' | 'olx';
+export type Platform = 'telegram' | 'instagram' | 'olx' | 'uybor' | 'facebook' | 'whatsapp' | 'sms';
+
+// Language of generated posts ('uz-cyrl' = Uzbek in Cyrillic script)
+export type OutputLanguage = 'uz' | 'uz-cyrl' | 'ru' | 'en';
+
+// ===================================
+// Listing Types
+// ===================================
+
+export type ListingStatus = 'draft' | 'active' | 'archived';
+
+export interface ListingPhoto {
+  id: string;
+  originalId?: string;   // ProcessedImage.originalId it was created from
+  url: string;           // Public storage URL
+  width?: number;
+  height?: number;
+}
+
+export interface ListingVideo {
+  id: string;
+  url: string;
+  created_at: string;
+}
+
+export interface Listing {
+  id: string;
+  title: string;
+  status: ListingStatus;
+  details: Partial<PropertyDetails>;
+  photos: ListingPhoto[];
+  descriptions: Partial<GeneratedDescriptions>;
+  videos: ListingVideo[];
+  created_at: string;
+  updated_at: string;
+}
+
+// ===================================
+// Voice Profile Types
+// ===================================
+
+// Agency template merged into the AI system prompt
+export interface VoiceProfileContent {
+  agencyName: string;
+  instructions: string;     // Free-form style notes
+  footer: string;           // Mandatory closing line(s)
+  signature: string;        // Contact / signature block
+  hashtags: string[];
+  forbiddenWords: string[];
+}
+
+export interface VoiceProfile extends VoiceProfileContent {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// ===================================
+// Photo Analysis Types
+// ===================================
+
+export type RoomType = 'living_room' | 'bedroom' | 'kitchen' | 'bathroom' | 'hallway' | 'balcony' | 'exterior' | 'other';
+
+// From best to worst ("designer" = дизайнерский ремонт, "shell" = коробка)
+export type RenovationLevel = 'designer' | 'euro' | 'standard' | 'needs_repair' | 'shell';
+
+export type LightLevel = 'bright' | 'moderate' | 'dim';
+
+// What one photo shows
+export interface PhotoAnalysis {
+  index: number;              // Position in the analyzed photo list
+  room: RoomType;
+  renovation?: RenovationLevel;
+  furnished?: boolean;
+  light?: LightLevel;
+  view?: string;              // What the windows look out on ("park", "city skyline")
+  features: string[];         // Notable visible details ("built-in kitchen", "parquet")
+}
+
+// Summary across all photos of a listing, fed to the description generator
+export interface PhotoFindings {
+  photos: PhotoAnalysis[];
+  rooms: Partial<Record<RoomType, number>>; // Photos per room type
+  renovation?: RenovationLevel;             // Most common level
+  furnished?: boolean;
+  light?: LightLevel;
+  views: string[];
+  features: string[];                       // Most frequent details first
+}
+
+// ===================================
+// Generation Version Types
+// ===================================
+
+export type GenerationTone = 'expert' | 'emotional' | 'minimalist';
+
+// One generated or refined post. A first generation starts a chain,
+// every refinement or restore appends the next version to it.
+export interface GenerationVersion {
+  id: string;
+  chainId: string;
+  parentId: string | null;     // Version this one was refined from
+  version: number;             // 1-based position in the chain
+  platform: Platform;
+  language: OutputLanguage;
+  tone: GenerationTone;
+  rawInput: string;
+  instruction: string | null;  // Refinement instruction, null for first generations
+  restoredFrom: string | null; // Set when the version is a restore of an older one
+  provider: string | null;     // AI provider that served it
+  output: string;
+  created_at: string;
+}
 
 // ===================================
 // UI State Types
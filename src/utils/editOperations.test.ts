@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { centeredCrop, findOperation, rotateBy, setOperation, sizeBeforeCrop } from './editOperations';
+import type { EditOperation } from '@/types';
+
+const WIDTH = 4000;
+const HEIGHT = 2250;
+
+// Pixel size of the exported image
+function outputSize(operations: EditOperation[]) {
+  const frame = sizeBeforeCrop(operations, WIDTH, HEIGHT);
+  const crop = findOperation(operations, 'crop');
+  return crop
+    ? { width: Math.round(frame.width * crop.rect.width), height: Math.round(frame.height * crop.rect.height) }
+    : frame;
+}
+
+describe('rotateBy', () => {
+  it('keeps a square crop square when rotating again after rotate → crop', () => {
+    let ops = rotateBy([], 1, WIDTH, HEIGHT);
+    const frame = sizeBeforeCrop(ops, WIDTH, HEIGHT);
+    ops = setOperation(ops, { type: 'crop', rect: centeredCrop(frame.width, frame.height, 1) });
+    expect(outputSize(ops)).toEqual({ width: 2250, height: 2250 });
+
+    ops = rotateBy(ops, 1, WIDTH, HEIGHT);
+    expect(findOperation(ops, 'rotate')?.quarterTurns).toBe(2);
+    expect(outputSize(ops)).toEqual({ width: 2250, height: 2250 });
+    expect(ops.map((op) => op.type)).toEqual(['rotate', 'crop']);
+  });
+
+  it('rebuilds the crop when a rotation turns back to the original frame', () => {
+    let ops = rotateBy([], 1, WIDTH, HEIGHT);
+    const frame = sizeBeforeCrop(ops, WIDTH, HEIGHT);
+    ops = setOperation(ops, { type: 'crop', rect: centeredCrop(frame.width, frame.height, 4 / 5) });
+
+    ops = rotateBy(ops, -1, WIDTH, HEIGHT);
+    expect(findOperation(ops, 'rotate')).toBeUndefined();
+    const size = outputSize(ops);
+    expect(size.width / size.height).toBeCloseTo(4 / 5, 2);
+  });
+
+  it('leaves the crop alone for a half turn', () => {
+    let ops = rotateBy([], 1, WIDTH, HEIGHT);
+    const frame = sizeBeforeCrop(ops, WIDTH, HEIGHT);
+    const rect = centeredCrop(frame.width, frame.height, 1);
+    ops = setOperation(ops, { type: 'crop', rect });
+
+    ops = rotateBy(ops, 2, WIDTH, HEIGHT);
+    expect(findOperation(ops, 'crop')?.rect).toEqual(rect);
+  });
+});
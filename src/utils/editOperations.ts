@@ -0,0 +1,94 @@
+import type { CropRect, EditOperation, EnhancementConfig, ImageFile } from '@/types';
+
+// ===================================
+// Edit Operations
+// ===================================
+// Pure helpers for an image's edit list. The order is kept canonical:
+// enhance first, then rotations and crop in the order the user made them,
+// watermark last, so the same edits always render the same way.
+
+type OperationType = EditOperation['type'];
+type OperationOf<T extends OperationType> = Extract<EditOperation, { type: T }>;
+
+/**
+ * Key an image's edits by the file, not the session id, so picking the same
+ * photo again after a reload brings its edits back
+ */
+export function getEditKey(image: Pick<ImageFile, 'file' | 'name' | 'size'>): string {
+  return `${image.name}:${image.size}:${image.file.lastModified}`;
+}
+
+export function findOperation<T extends OperationType>(operations: EditOperation[], type: T): OperationOf<T> | undefined {
+  return operations.find((op): op is OperationOf<T> => op.type === type);
+}
+
+export function removeOperation(operations: EditOperation[], type: OperationType): EditOperation[] {
+  return operations.filter((op) => op.type !== type);
+}
+
+/**
+ * Add or replace the operation of its type. Enhance and rotate keep their
+ * place; a new crop is the final framing, so it moves behind the rotations.
+ */
+export function setOperation(operations: EditOperation[], operation: EditOperation): EditOperation[] {
+  const rest = operation.type === 'crop' ? removeOperation(operations, 'crop') : operations;
+  const index = rest.findIndex((op) => op.type === operation.type);
+  if (index >= 0) return rest.map((op, i) => (i === index ? operation : op));
+
+  if (operation.type === 'enhance') return [operation, ...rest];
+  if (operation.type === 'watermark') return [...rest, operation];
+
+  const watermark = rest.findIndex((op) => op.type === 'watermark');
+  return watermark >= 0
+    ? [...rest.slice(0, watermark), operation, ...rest.slice(watermark)]
+    : [...rest, operation];
+}
+
+export function setEnhancement(operations: EditOperation[], config: EnhancementConfig): EditOperation[] {
+  return setOperation(operations, { type: 'enhance', config });
+}
+
+/**
+ * Turn by quarter turns (negative = counter-clockwise); a full turn removes the step.
+ * A crop behind the rotation is relative to the rotated frame, so when the
+ * frame turns sideways the crop is rebuilt centered, at the same aspect.
+ * Width and height are the original image's.
+ */
+export function rotateBy(operations: EditOperation[], quarterTurns: number, width: number, height: number): EditOperation[] {
+  const current = findOperation(operations, 'rotate')?.quarterTurns ?? 0;
+  const turns = (((current + quarterTurns) % 4) + 4) % 4;
+  const next = turns === 0
+    ? removeOperation(operations, 'rotate')
+    : setOperation(operations, { type: 'rotate', quarterTurns: turns as 1 | 2 | 3 });
+
+  const crop = findOperation(operations, 'crop');
+  const rotateIndex = operations.findIndex((op) => op.type === 'rotate');
+  const cropsRotatedFrame = !!crop && rotateIndex >= 0 && rotateIndex < operations.indexOf(crop);
+  if (!crop || !cropsRotatedFrame || turns % 2 === current % 2) return next;
+
+  const before = sizeBeforeCrop(operations, width, height);
+  const aspect = (crop.rect.width * before.width) / (crop.rect.height * before.height);
+  const after = sizeBeforeCrop(next, width, height);
+  return setOperation(next, { type: 'crop', rect: centeredCrop(after.width, after.height, aspect) });
+}
+
+/**
+ * Largest centered rectangle of the given aspect (width / height)
+ */
+export function centeredCrop(width: number, height: number, aspect: number): CropRect {
+  const imageAspect = width / height;
+  if (aspect >= imageAspect) {
+    const h = imageAspect / aspect;
+    return { x: 0, y: (1 - h) / 2, width: 1, height: h };
+  }
+  const w = aspect / imageAspect;
+  return { x: (1 - w) / 2, y: 0, width: w, height: 1 };
+}
+
+/**
+ * Image size before the crop step: enhance keeps the size, odd turns swap it
+ */
+export function sizeBeforeCrop(operations: EditOperation[], width: number, height: number): { width: number; height: number } {
+  const turns = findOperation(operations, 'rotate')?.quarterTurns ?? 0;
+  return turns % 2 === 1 ? { width: height, height: width } : { width, height };
+}
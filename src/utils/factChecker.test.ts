@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { checkGeneratedFacts } from './factChecker';
+
+const NOTE = 'Chilonzor 9 kvartal 2 xonali 60 kv 4/9 55000$';
+
+describe('checkGeneratedFacts', () => {
+  it('leaves a correct post alone', () => {
+    const text = 'Chilonzor, 2 xonali kvartira. Maydoni: 60 m². Qavat: 4/9. Narx: 55 000 $';
+    expect(checkGeneratedFacts(text, undefined, NOTE)).toEqual({ text, warnings: [] });
+  });
+
+  it('only flags values that disagree with the parsed note', () => {
+    const text = '3 xonali kvartira. Maydoni: 70 m². Narx: 60 000 $';
+    const result = checkGeneratedFacts(text, undefined, NOTE);
+
+    expect(result.text).toBe(text);
+    expect(result.warnings.map((w) => [w.field, w.corrected])).toEqual([
+      ['rooms', false],
+      ['area', false],
+      ['price', false],
+    ]);
+  });
+
+  it('corrects values that disagree with confirmed details', () => {
+    const text = '3 xonali kvartira. Maydoni: 70 m². Qavat: 5/9. Narx: 60 000 $';
+    const result = checkGeneratedFacts(text, { rooms: 2, area: 60, floor: 4, totalFloors: 9, price: 55000, currency: 'USD' }, NOTE);
+
+    expect(result.text).toBe('2 xonali kvartira. Maydoni: 60 m². Qavat: 4/9. Narx: 55 000 $');
+    expect(result.warnings.every((w) => w.corrected)).toBe(true);
+  });
+
+  it('corrects the confirmed facts and only flags the parsed ones', () => {
+    const text = '3 xonali kvartira. Narx: 60 000 $';
+    const result = checkGeneratedFacts(text, { price: 55000 }, NOTE);
+
+    expect(result.text).toBe('3 xonali kvartira. Narx: 55 000 $');
+    expect(result.warnings.map((w) => [w.field, w.corrected])).toEqual([
+      ['rooms', false],
+      ['price', true],
+    ]);
+  });
+
+  it('flags facts the input does not mention', () => {
+    const result = checkGeneratedFacts('2 xonali, 5-qavat', undefined, '2 xona Chilonzor');
+    expect(result.warnings).toEqual([{ field: 'floor', kind: 'invented', found: '5-qavat', corrected: false }]);
+  });
+});
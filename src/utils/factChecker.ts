@@ -0,0 +1,211 @@
+import { parsePropertyText, type ParsedPropertyDetails } from './propertyParser.js';
+
+// ===================================
+// Generated Text Fact Checker
+// ===================================
+// Compares the numbers and features an LLM wrote against the agent's
+// note / confirmed details. Confirmed facts that were changed are corrected
+// in place; facts only guessed from the note, and facts that appear out of
+// nowhere, are only flagged (the parser can misread a note, the agent cannot).
+
+export type FactField = 'rooms' | 'area' | 'floor' | 'price' | 'currency' | 'features';
+
+export interface FactWarning {
+  field: FactField;
+  kind: 'mismatch' | 'invented';
+  expected?: string;  // Value from the agent's input (confirmed or parsed)
+  found: string;      // Value as written in the generated text
+  corrected: boolean; // True when the text was rewritten to `expected`
+}
+
+export interface FactCheckResult {
+  text: string;
+  warnings: FactWarning[];
+}
+
+const ROOM_PATTERNS = [
+  /(\d{1,2})(\s*-?\s*(?:xonali|xona|комнатн|комн\.?|rooms?(?![a-z])))/gi,
+  /(комнат[а-я]*\s*:\s*)(\d{1,2})/gi,
+];
+
+const AREA_PATTERN = /(\d+(?:[.,]\d+)?)(\s*(?:m²|м²|m2|м2|kv\.?\s*m(?![a-z])|кв\.?\s*м(?![а-я])))/gi;
+
+// "Этаж: 5 из 9", "Qavat: 5/9", "Floor 5 of 9" and "5/9 qavat"
+const FLOOR_PAIR_PATTERNS = [
+  /((?:qavat|этаж|floor)[^\d\n]{0,12})(\d{1,2})(\s*(?:\/|из|dan|of)\s*)(\d{1,2})/gi,
+  /()(\d{1,2})(\s*\/\s*)(\d{1,2})(?=\s*-?\s*(?:qavat|этаж|эт\.|floor))/gi,
+];
+
+// "5-qavat", "на 5 этаже" — but not "9 qavatli" / "9-этажный", which describe the building
+const FLOOR_PATTERN = /(\d{1,2})(\s*-?\s*(?:qavat(?!li)|этаж(?!н)))/gi;
+
+// 65 000 / 65,000 / 65000 / 1.5
+const AMOUNT = String.raw`(\d{1,3}(?:[ \u00a0.,]\d{3})+|\d+(?:[.,]\d+)?)`;
+
+const USD_PATTERN = new RegExp(String.raw`(\$\s*)?${AMOUNT}(\s*(?:k|к|ming|тыс\.?)(?![a-zа-я]))?(\s*(?:\$|usd|у\.?\s?е\.?|dollar|доллар))?`, 'gi');
+const UZS_PATTERN = new RegExp(String.raw`${AMOUNT}(\s*(?:mln|млн|million|миллион))?(\s*(?:so'?m|сум|сўм|uzs))`, 'gi');
+
+// "850$/m²" and "1 m² uchun 850$" are prices per square meter, not the total
+const PER_AREA_AFTER = /^\s*(?:\/|per|за|uchun)\s*(?:1\s*)?(?:m|м|kv|кв|sotix|сот)/i;
+const PER_AREA_BEFORE = /(?:1\s*(?:m²|м²|m2|м2|kv\.?\s*m|кв\.?\s*м)|(?:за|per)\s*(?:1\s*)?(?:m|м|кв)\S*)\s*(?:uchun|narxi|цена)?\s*[:—–-]?\s*$/i;
+
+function isPerArea(full: string, offset: number, length: number): boolean {
+  return PER_AREA_AFTER.test(full.slice(offset + length)) || PER_AREA_BEFORE.test(full.slice(Math.max(0, offset - 25), offset));
+}
+
+function parseAmount(value: string): number {
+  const compact = value.replace(/\s/g, '');
+  // 65.000 / 65,000 / 1.250.000 are thousand separators
+  if (/^\d{1,3}([.,]\d{3})+$/.test(compact)) return parseFloat(compact.replace(/[.,]/g, ''));
+  return parseFloat(compact.replace(',', '.'));
+}
+
+function formatAmount(value: number): string {
+  return String(Math.round(value)).replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+}
+
+function differs(found: number, expected: number, tolerance = 0.005): boolean {
+  return Math.abs(found - expected) > Math.max(0.5, expected * tolerance);
+}
+
+/**
+ * Check generated listing text against the agent's facts.
+ * `facts` (agent-confirmed) take precedence over what is parsed from `rawInput`,
+ * and only they are written into the text.
+ */
+export function checkGeneratedFacts(
+  text: string,
+  facts: ParsedPropertyDetails = {},
+  rawInput = ''
+): FactCheckResult {
+  const truth: ParsedPropertyDetails = { ...parsePropertyText(rawInput), ...facts };
+  const warnings: FactWarning[] = [];
+  const seen = new Set<string>();
+
+  const warn = (warning: FactWarning) => {
+    const key = `${warning.field}:${warning.found}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    warnings.push(warning);
+  };
+
+  let result = text;
+
+  // Rooms
+  result = result.replace(ROOM_PATTERNS[0], (match, value: string, rest: string) => {
+    const found = parseInt(value, 10);
+    if (truth.rooms === undefined) {
+      warn({ field: 'rooms', kind: 'invented', found: value, corrected: false });
+      return match;
+    }
+    if (found === truth.rooms) return match;
+    const corrected = facts.rooms !== undefined;
+    warn({ field: 'rooms', kind: 'mismatch', expected: String(truth.rooms), found: value, corrected });
+    return corrected ? `${facts.rooms}${rest}` : match;
+  });
+  result = result.replace(ROOM_PATTERNS[1], (match, label: string, value: string) => {
+    if (truth.rooms === undefined || parseInt(value, 10) === truth.rooms) return match;
+    const corrected = facts.rooms !== undefined;
+    warn({ field: 'rooms', kind: 'mismatch', expected: String(truth.rooms), found: value, corrected });
+    return corrected ? `${label}${facts.rooms}` : match;
+  });
+
+  // Area
+  result = result.replace(AREA_PATTERN, (match, value: string, unit: string) => {
+    if (parseAmount(value) <= 1) return match; // "1 m² uchun ..."
+    if (truth.area === undefined) {
+      warn({ field: 'area', kind: 'invented', found: match.trim(), corrected: false });
+      return match;
+    }
+    if (!differs(parseAmount(value), truth.area)) return match;
+    const corrected = facts.area !== undefined;
+    warn({ field: 'area', kind: 'mismatch', expected: `${truth.area} m²`, found: match.trim(), corrected });
+    return corrected ? `${facts.area}${unit}` : match;
+  });
+
+  // Floor (pairs first so "5/9" is not read as two single floors)
+  let floorPairFound = false;
+  for (const pattern of FLOOR_PAIR_PATTERNS) {
+    result = result.replace(pattern, (match, label: string, floor: string, separator: string, total: string) => {
+      floorPairFound = true;
+      if (truth.floor === undefined) {
+        warn({ field: 'floor', kind: 'invented', found: `${floor}/${total}`, corrected: false });
+        return match;
+      }
+      const expectedTotal = truth.totalFloors ?? parseInt(total, 10);
+      if (parseInt(floor, 10) === truth.floor && parseInt(total, 10) === expectedTotal) return match;
+      // Only the confirmed half of the pair is rewritten
+      const fixed = `${facts.floor ?? floor}${separator}${facts.totalFloors ?? total}`;
+      const corrected = fixed !== `${floor}${separator}${total}`;
+      warn({ field: 'floor', kind: 'mismatch', expected: `${truth.floor}/${expectedTotal}`, found: `${floor}/${total}`, corrected });
+      return corrected ? `${label}${fixed}` : match;
+    });
+  }
+  if (!floorPairFound) {
+    result = result.replace(FLOOR_PATTERN, (match, value: string, rest: string) => {
+      if (truth.floor === undefined) {
+        warn({ field: 'floor', kind: 'invented', found: match.trim(), corrected: false });
+        return match;
+      }
+      if (parseInt(value, 10) === truth.floor) return match;
+      const corrected = facts.floor !== undefined;
+      warn({ field: 'floor', kind: 'mismatch', expected: String(truth.floor), found: match.trim(), corrected });
+      return corrected ? `${facts.floor}${rest}` : match;
+    });
+  }
+
+  // Price
+  const currenciesInText = new Set<'USD' | 'UZS'>();
+
+  const checkPrice = (currency: 'USD' | 'UZS', match: string, amount: number, rebuild: (price: string) => string) => {
+    currenciesInText.add(currency);
+    if (truth.price === undefined) {
+      warn({ field: 'price', kind: 'invented', found: match.trim(), corrected: false });
+      return match;
+    }
+    if (truth.currency && truth.currency !== currency) return match;
+    if (!differs(amount, truth.price)) return match;
+    const corrected = facts.price !== undefined;
+    warn({
+      field: 'price',
+      kind: 'mismatch',
+      expected: `${formatAmount(truth.price)} ${truth.currency ?? currency}`,
+      found: match.trim(),
+      corrected,
+    });
+    return corrected ? rebuild(formatAmount(truth.price)) : match;
+  };
+
+  result = result.replace(
+    USD_PATTERN,
+    (match, prefix: string | undefined, value: string, multiplier: string | undefined, suffix: string | undefined, offset: number, full: string) => {
+      if (!prefix && !suffix) return match;
+      if (isPerArea(full, offset, match.length)) return match;
+      const amount = parseAmount(value) * (multiplier ? 1000 : 1);
+      return checkPrice('USD', match, amount, (price) => `${prefix ?? ''}${price}${suffix ?? ''}`);
+    }
+  );
+
+  result = result.replace(
+    UZS_PATTERN,
+    (match, value: string, multiplier: string | undefined, suffix: string, offset: number, full: string) => {
+      if (isPerArea(full, offset, match.length)) return match;
+      const amount = parseAmount(value) * (multiplier ? 1_000_000 : 1);
+      return checkPrice('UZS', match, amount, (price) => `${price}${suffix}`);
+    }
+  );
+
+  if (truth.currency && currenciesInText.size > 0 && !currenciesInText.has(truth.currency)) {
+    warn({ field: 'currency', kind: 'mismatch', expected: truth.currency, found: [...currenciesInText].join(', '), corrected: false });
+  }
+
+  // Features the agent never mentioned
+  const knownFeatures = new Set(truth.features ?? []);
+  for (const feature of parsePropertyText(result).features ?? []) {
+    if (!knownFeatures.has(feature)) {
+      warn({ field: 'features', kind: 'invented', found: feature, corrected: false });
+    }
+  }
+
+  return { text: result, warnings };
+}
@@ -0,0 +1,159 @@
+import montserratLatin400 from '@fontsource/montserrat/files/montserrat-latin-400-normal.woff2?url';
+import montserratLatin700 from '@fontsource/montserrat/files/montserrat-latin-700-normal.woff2?url';
+import montserratCyrillic400 from '@fontsource/montserrat/files/montserrat-cyrillic-400-normal.woff2?url';
+import montserratCyrillic700 from '@fontsource/montserrat/files/montserrat-cyrillic-700-normal.woff2?url';
+import montserratCyrillicExt400 from '@fontsource/montserrat/files/montserrat-cyrillic-ext-400-normal.woff2?url';
+import montserratCyrillicExt700 from '@fontsource/montserrat/files/montserrat-cyrillic-ext-700-normal.woff2?url';
+import rubikLatin400 from '@fontsource/rubik/files/rubik-latin-400-normal.woff2?url';
+import rubikLatin700 from '@fontsource/rubik/files/rubik-latin-700-normal.woff2?url';
+import rubikCyrillic400 from '@fontsource/rubik/files/rubik-cyrillic-400-normal.woff2?url';
+import rubikCyrillic700 from '@fontsource/rubik/files/rubik-cyrillic-700-normal.woff2?url';
+import rubikCyrillicExt400 from '@fontsource/rubik/files/rubik-cyrillic-ext-400-normal.woff2?url';
+import rubikCyrillicExt700 from '@fontsource/rubik/files/rubik-cyrillic-ext-700-normal.woff2?url';
+import oswaldLatin400 from '@fontsource/oswald/files/oswald-latin-400-normal.woff2?url';
+import oswaldLatin700 from '@fontsource/oswald/files/oswald-latin-700-normal.woff2?url';
+import oswaldCyrillic400 from '@fontsource/oswald/files/oswald-cyrillic-400-normal.woff2?url';
+import oswaldCyrillic700 from '@fontsource/oswald/files/oswald-cyrillic-700-normal.woff2?url';
+import oswaldCyrillicExt400 from '@fontsource/oswald/files/oswald-cyrillic-ext-400-normal.woff2?url';
+import oswaldCyrillicExt700 from '@fontsource/oswald/files/oswald-cyrillic-ext-700-normal.woff2?url';
+import loraLatin400 from '@fontsource/lora/files/lora-latin-400-normal.woff2?url';
+import loraLatin700 from '@fontsource/lora/files/lora-latin-700-normal.woff2?url';
+import loraCyrillic400 from '@fontsource/lora/files/lora-cyrillic-400-normal.woff2?url';
+import loraCyrillic700 from '@fontsource/lora/files/lora-cyrillic-700-normal.woff2?url';
+import loraCyrillicExt400 from '@fontsource/lora/files/lora-cyrillic-ext-400-normal.woff2?url';
+import loraCyrillicExt700 from '@fontsource/lora/files/lora-cyrillic-ext-700-normal.woff2?url';
+import type { FontFaceSource, UserFont, WatermarkFont } from '@/types';
+
+// ===================================
+// Watermark Fonts
+// ===================================
+// Text watermarks are drawn with fonts registered through the FontFace API
+// rather than whatever the WebView has (Cyrillic names looked different on
+// every phone). Bundled fonts ship with the app and cover Latin and Cyrillic,
+// including the Uzbek Қ Ғ Ҳ letters; agents can add their own TTF/WOFF2.
+// Each realm has its own font set: the image worker loads the faces itself,
+// nothing carries over from the page.
+
+// Used when no font is chosen, or while one fails to load
+const FALLBACK_STACK = 'Arial, sans-serif';
+
+const UNICODE_RANGES = {
+  latin: 'U+0000-00FF,U+0131,U+0152-0153,U+02BB-02BC,U+02C6,U+02DA,U+02DC,U+0304,U+0308,U+0329,U+2000-206F,U+20AC,U+2122,U+2191,U+2193,U+2212,U+2215,U+FEFF,U+FFFD',
+  cyrillic: 'U+0301,U+0400-045F,U+0490-0491,U+04B0-04B1,U+2116',
+  cyrillicExt: 'U+0460-052F,U+1C80-1C8A,U+20B4,U+2DE0-2DFF,U+A640-A69F,U+FE2E-FE2F',
+};
+
+// Regular and bold file per script
+function bundledFaces(files: Record<keyof typeof UNICODE_RANGES, [string, string]>): FontFaceSource[] {
+  return (Object.keys(files) as (keyof typeof UNICODE_RANGES)[]).flatMap((script) => [
+    { url: files[script][0], weight: '400', unicodeRange: UNICODE_RANGES[script] },
+    { url: files[script][1], weight: '700', unicodeRange: UNICODE_RANGES[script] },
+  ]);
+}
+
+export const BUNDLED_FONTS: WatermarkFont[] = [
+  {
+    id: 'montserrat',
+    name: 'Montserrat',
+    family: 'Montserrat',
+    faces: bundledFaces({
+      latin: [montserratLatin400, montserratLatin700],
+      cyrillic: [montserratCyrillic400, montserratCyrillic700],
+      cyrillicExt: [montserratCyrillicExt400, montserratCyrillicExt700],
+    }),
+  },
+  {
+    id: 'rubik',
+    name: 'Rubik',
+    family: 'Rubik',
+    faces: bundledFaces({
+      latin: [rubikLatin400, rubikLatin700],
+      cyrillic: [rubikCyrillic400, rubikCyrillic700],
+      cyrillicExt: [rubikCyrillicExt400, rubikCyrillicExt700],
+    }),
+  },
+  {
+    id: 'oswald',
+    name: 'Oswald',
+    family: 'Oswald',
+    faces: bundledFaces({
+      latin: [oswaldLatin400, oswaldLatin700],
+      cyrillic: [oswaldCyrillic400, oswaldCyrillic700],
+      cyrillicExt: [oswaldCyrillicExt400, oswaldCyrillicExt700],
+    }),
+  },
+  {
+    id: 'lora',
+    name: 'Lora',
+    family: 'Lora',
+    faces: bundledFaces({
+      latin: [loraLatin400, loraLatin700],
+      cyrillic: [loraCyrillic400, loraCyrillic700],
+      cyrillicExt: [loraCyrillicExt400, loraCyrillicExt700],
+    }),
+  },
+];
+
+/**
+ * Picker entry for an uploaded font. The file covers every weight, so bold
+ * text uses it as is rather than a synthetic bold.
+ */
+export function userFontToWatermarkFont(font: UserFont): WatermarkFont {
+  return {
+    id: font.id,
+    name: font.name,
+    family: `UserFont-${font.id}`,
+    faces: [{ url: font.url, weight: '100 900' }],
+  };
+}
+
+/**
+ * Canvas font-family list for a font, with the system fallback after it
+ */
+export function fontStack(font: WatermarkFont | null | undefined): string {
+  return font ? `"${font.family}", ${FALLBACK_STACK}` : FALLBACK_STACK;
+}
+
+// ===================================
+// Loading
+// ===================================
+
+// Per family; a failed load is forgotten so the next draw retries
+const loading = new Map<string, Promise<boolean>>();
+
+function getFontSet(): FontFaceSet | null {
+  if (typeof document !== 'undefined') return document.fonts;
+  // WorkerGlobalScope.fonts
+  return (self as unknown as { fonts?: FontFaceSet }).fonts ?? null;
+}
+
+/**
+ * Register a font's faces in this realm and wait until they are usable.
+ * Resolves false (draw with the fallback) when the font cannot be loaded.
+ */
+export function loadWatermarkFont(font: WatermarkFont | null | undefined): Promise<boolean> {
+  const fontSet = getFontSet();
+  if (!font || !fontSet || typeof FontFace === 'undefined') return Promise.resolve(false);
+
+  let pending = loading.get(font.family);
+  if (!pending) {
+    pending = Promise.all(
+      font.faces.map(async (face) => {
+        const fontFace = new FontFace(font.family, `url(${JSON.stringify(face.url)})`, {
+          weight: face.weight,
+          unicodeRange: face.unicodeRange,
+        });
+        fontSet.add(await fontFace.load());
+      })
+    ).then(
+      () => true,
+      (error) => {
+        console.warn(`Failed to load font ${font.name}:`, error);
+        loading.delete(font.family);
+        return false;
+      }
+    );
+    loading.set(font.family, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,153 @@
+import { loadImage, createCanvas } from './resizeImage';
+import { WHITE_BALANCE_GAIN } from './pixelOps';
+import { toLuminance } from './imageQuality';
+import { detectVerticalLines, estimateGeometry, isIdentityGeometry } from './geometry';
+import type { EnhancementConfig } from '@/types';
+
+// ===================================
+// Automatic Magic Fix Settings
+// ===================================
+// Per-photo EnhancementConfig from a histogram, clipping and gray-world
+// white balance, instead of one preset for every photo. Corrections are
+// deliberately partial: real rooms have warm walls and dim corners, and a
+// full correction makes them look sterile.
+
+const ANALYSIS_SIZE = 512;
+
+// Kept from the old fixed preset: sharpness does not depend on exposure
+const DEFAULT_SHARPNESS = 30;
+
+export interface ImageStats {
+  histogram: Uint32Array;   // 256 luminance bins
+  mean: number;             // Mean luminance, 0-255
+  p2: number;               // 2nd / 98th luminance percentiles
+  p98: number;
+  clippedShadows: number;   // Share of pixels <= 4
+  clippedHighlights: number; // Share of pixels >= 251
+  red: number;              // Channel means of unclipped pixels (gray world)
+  green: number;
+  blue: number;
+  saturation: number;       // Mean HSV saturation, 0-1
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.round(Math.max(min, Math.min(max, value)));
+}
+
+function percentile(histogram: Uint32Array, total: number, share: number): number {
+  const target = total * share;
+  let seen = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    seen += histogram[i];
+    if (seen >= target) return i;
+  }
+  return histogram.length - 1;
+}
+
+export function analyzePixels(data: Uint8ClampedArray): ImageStats {
+  const histogram = new Uint32Array(256);
+  const total = data.length / 4;
+  let lumSum = 0;
+  let red = 0, green = 0, blue = 0, counted = 0;
+  let saturation = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const lum = Math.round(0.2989 * r + 0.587 * g + 0.114 * b);
+    histogram[lum]++;
+    lumSum += lum;
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    if (max > 0) saturation += (max - min) / max;
+
+    // Blown windows and black corners carry no color information
+    if (lum > 4 && lum < 251) {
+      red += r;
+      green += g;
+      blue += b;
+      counted++;
+    }
+  }
+
+  return {
+    histogram,
+    mean: total ? lumSum / total : 0,
+    p2: percentile(histogram, total, 0.02),
+    p98: percentile(histogram, total, 0.98),
+    clippedShadows: total ? histogram.slice(0, 5).reduce((a, b) => a + b, 0) / total : 0,
+    clippedHighlights: total ? histogram.slice(251).reduce((a, b) => a + b, 0) / total : 0,
+    red: counted ? red / counted : 0,
+    green: counted ? green / counted : 0,
+    blue: counted ? blue / counted : 0,
+    saturation: total ? saturation / total : 0,
+  };
+}
+
+export function deriveEnhancement(stats: ImageStats): EnhancementConfig {
+  // Gray world: the average of a scene is neutral, so the channel gains that
+  // make the means equal remove the cast. Only half of it is corrected.
+  const { red, green, blue } = stats;
+  const temperature = red + blue > 0
+    ? clamp((0.5 * (blue - red)) / (WHITE_BALANCE_GAIN * (red + blue)), -40, 40)
+    : 0;
+  const tint = green > 0
+    ? clamp((0.5 * (1 - (red + blue) / (2 * green))) / WHITE_BALANCE_GAIN, -30, 30)
+    : 0;
+
+  // Exposure: pull the mean toward mid-gray, less so when highlights are already blown
+  const headroom = 1 - Math.min(1, stats.clippedHighlights * 20);
+  const brightness = stats.mean < 118
+    ? clamp(((118 - stats.mean) / 118) * 45 * headroom, 0, 35)
+    : clamp(((118 - stats.mean) / 137) * 40, -25, 0);
+
+  // Windows: recover highlights when the top of the histogram is clipped or crowded
+  const highlights = stats.clippedHighlights > 0.005 || stats.p98 > 245
+    ? -clamp(20 + stats.clippedHighlights * 400, 20, 70)
+    : 0;
+
+  // Dark corners: lift shadows when the bottom is crowded and the image is dark overall
+  const shadows = stats.p2 < 24 && stats.mean < 130
+    ? clamp(10 + ((130 - stats.mean) / 130) * 50 + stats.clippedShadows * 100, 10, 60)
+    : 0;
+
+  // Flat (hazy) images get more contrast, already punchy ones almost none
+  const range = stats.p98 - stats.p2;
+  const contrast = clamp(5 + ((220 - range) / 220) * 40, 0, 25);
+
+  // Muted photos get more color, already vivid ones are left alone
+  const saturation = clamp(30 - stats.saturation * 60, 0, 25);
+
+  return {
+    brightness,
+    contrast,
+    saturation,
+    sharpness: DEFAULT_SHARPNESS,
+    temperature,
+    tint,
+    highlights,
+    shadows,
+  };
+}
+
+/**
+ * Magic Fix settings for one image (object URL or data URL), including
+ * perspective correction when enough vertical lines are found
+ */
+export async function computeAutoEnhancement(src: string): Promise<EnhancementConfig> {
+  const img = await loadImage(src);
+  const ratio = Math.min(1, ANALYSIS_SIZE / Math.max(img.width, img.height));
+  const { canvas, ctx } = createCanvas(
+    Math.max(1, Math.round(img.width * ratio)),
+    Math.max(1, Math.round(img.height * ratio))
+  );
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { width, height } = canvas;
+  const { data } = ctx.getImageData(0, 0, width, height);
+  canvas.width = 0;
+  canvas.height = 0;
+
+  const config = deriveEnhancement(analyzePixels(data));
+  const geometry = estimateGeometry(detectVerticalLines(toLuminance(data, width, height)), width / height);
+  return geometry && !isIdentityGeometry(geometry) ? { ...config, geometry } : config;
+}
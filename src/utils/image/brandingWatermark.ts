@@ -0,0 +1,536 @@
+import { chooseWatermarkPlacement, type TextTone } from './watermarkPlacement';
+import type { Canvas2D } from './pixelOps';
+import type { QrCode } from '@/utils/qrCode';
+import type { CustomWatermarkSettings, WatermarkPosition } from '@/types';
+
+// ===================================
+// Branding Watermark
+// ===================================
+// The agent's logo, text and QR code, laid out over an image already on the
+// context. Shared by the image worker and the main-thread fallback like
+// pixelOps: everything that needs the network or the stores (logo, font,
+// QR payload) is resolved by the caller and handed in ready to draw.
+
+export type BrandingLogo = CanvasImageSource & { width: number; height: number };
+
+export interface BrandingWatermarkOptions {
+  settings: CustomWatermarkSettings;
+  textWatermark?: { name: string; phone: string };
+  logo: BrandingLogo | null;  // Loaded logo; null when off or it failed to load
+  qr: QrCode | null;          // Encoded QR code, quiet zone included
+  fontFamily: string;         // CSS font-family list; the font must be loaded already
+  isPremium: boolean;
+}
+
+// Makes the small canvas the auto placement analysis runs on
+export type SampleCanvasFactory = (width: number, height: number) => Canvas2D;
+
+// Long edge of the copy the placement analysis runs on
+const PLACEMENT_SAMPLE_SIZE = 320;
+// Smallest QR side, share of image width, so phones can still scan it
+const QR_MIN_SHARE = 0.08;
+// QR codes stay this opaque even with a faint watermark
+const QR_MIN_OPACITY = 0.9;
+
+// Fill and shadow per text tone; the shadow contrasts with the fill
+const TEXT_COLORS: Record<TextTone, { fill: string; shadow: string }> = {
+  light: { fill: '#FFFFFF', shadow: 'rgba(0, 0, 0, 0.5)' },
+  dark: { fill: '#111827', shadow: 'rgba(255, 255, 255, 0.5)' },
+};
+
+/**
+ * Draw the branding watermark (and the MaklerPro mark for free users)
+ */
+export function drawBrandingWatermark(
+  ctx: Canvas2D,
+  width: number,
+  height: number,
+  options: BrandingWatermarkOptions,
+  createSample: SampleCanvasFactory
+): void {
+  const { textWatermark, fontFamily } = options;
+  let { settings } = options;
+  if (!settings.enabled) return;
+
+  const logo = settings.type === 'logo' || settings.type === 'both' ? options.logo : null;
+  const text = settings.type === 'text' || settings.type === 'both' ? textWatermark : undefined;
+
+  // 'auto': the calmest corner of this photo, with text that reads on it
+  let tone: TextTone = 'light';
+  if (settings.position === 'auto') {
+    const placement = chooseAutoPlacement(ctx, { ...options, logo }, width, height, createSample);
+    settings = { ...settings, position: placement.position };
+    tone = placement.tone;
+  }
+
+  const qr = settings.position !== 'tile' ? options.qr : null;
+
+  // Combined layout prevents overlap
+  if ((logo && text) || qr) {
+    drawCombinedWatermark(ctx, logo, text, qr, width, height, settings, fontFamily, tone);
+  } else {
+    if (logo) drawLogoWatermark(ctx, logo, width, height, settings);
+    if (text) drawTextWatermark(ctx, text, width, height, settings, fontFamily, tone);
+  }
+
+  if (!options.isPremium) drawMaklerProBranding(ctx, width, height);
+}
+
+// ===================================
+// Auto Placement
+// ===================================
+
+/**
+ * Size of the watermark as the draw functions below lay it out
+ */
+function measureWatermarkBox(
+  ctx: Canvas2D,
+  options: BrandingWatermarkOptions,
+  imageWidth: number
+): { width: number; height: number } {
+  const { settings, logo, textWatermark, qr, fontFamily } = options;
+  const fontSize = Math.max(imageWidth * 0.03, 16);
+
+  let text = { width: 0, height: 0 };
+  if ((settings.type === 'text' || settings.type === 'both') && textWatermark && (textWatermark.name || textWatermark.phone)) {
+    ctx.save();
+    ctx.font = `bold ${fontSize}px ${fontFamily}`;
+    const nameWidth = ctx.measureText(textWatermark.name).width;
+    ctx.font = `${fontSize * 0.85}px ${fontFamily}`;
+    const phoneWidth = ctx.measureText(textWatermark.phone).width;
+    ctx.restore();
+    const lineHeight = fontSize * 1.3;
+    text = { width: Math.max(nameWidth, phoneWidth), height: textWatermark.phone ? lineHeight * 2 : lineHeight };
+  }
+
+  let logoBox = { width: 0, height: 0 };
+  if (logo) {
+    const width = Math.min(logo.width, (imageWidth * settings.scale) / 100);
+    logoBox = { width, height: width / (logo.width / logo.height) };
+  }
+
+  // Laid out as in drawCombinedWatermark: [QR] [Logo] [Text]
+  const qrSize = qr ? Math.max(logoBox.height, text.height, imageWidth * QR_MIN_SHARE) : 0;
+  const parts = [qrSize, logoBox.width, text.width].filter((width) => width > 0);
+  return {
+    width: parts.reduce((sum, width) => sum + width, 0) + Math.max(0, parts.length - 1) * fontSize * 0.8,
+    height: Math.max(qrSize, logoBox.height, text.height),
+  };
+}
+
+function chooseAutoPlacement(
+  ctx: Canvas2D,
+  options: BrandingWatermarkOptions,
+  imageWidth: number,
+  imageHeight: number,
+  createSample: SampleCanvasFactory
+) {
+  const box = measureWatermarkBox(ctx, options, imageWidth);
+  const ratio = Math.min(1, PLACEMENT_SAMPLE_SIZE / Math.max(imageWidth, imageHeight));
+  const sampleWidth = Math.max(1, Math.round(imageWidth * ratio));
+  const sampleHeight = Math.max(1, Math.round(imageHeight * ratio));
+  const sample = createSample(sampleWidth, sampleHeight);
+  sample.drawImage(ctx.canvas, 0, 0, sampleWidth, sampleHeight);
+  const { data } = sample.getImageData(0, 0, sampleWidth, sampleHeight);
+
+  return chooseWatermarkPlacement(
+    data,
+    sampleWidth,
+    sampleHeight,
+    { width: box.width * ratio, height: box.height * ratio },
+    (options.settings.padding || 20) * ratio
+  );
+}
+
+// ===================================
+// Combined Watermark
+// ===================================
+
+function drawCombinedWatermark(
+  ctx: Canvas2D,
+  logo: BrandingLogo | null,
+  textWatermark: { name: string; phone: string } | undefined,
+  qr: QrCode | null,
+  imageWidth: number,
+  imageHeight: number,
+  settings: CustomWatermarkSettings,
+  fontFamily: string,
+  tone: TextTone
+): void {
+  // Scale logo
+  const maxWidth = (imageWidth * settings.scale) / 100;
+  let logoW = 0;
+  let logoH = 0;
+
+  if (logo) {
+    const aspectRatio = logo.width / logo.height;
+    logoW = Math.min(logo.width, maxWidth);
+    logoH = logoW / aspectRatio;
+  }
+
+  // Measure Text (Just font size calc)
+  const fontSize = Math.max(imageWidth * 0.03, 16);
+  const phoneFontSize = fontSize * 0.85;
+  const hasText = !!textWatermark && !!(textWatermark.name || textWatermark.phone);
+
+  const lineHeight = fontSize * 1.3;
+  const textBlockH = !hasText ? 0 : textWatermark.phone ? lineHeight * 2 : lineHeight;
+
+  const gap = fontSize * 0.8;
+  const padding = settings.padding || 20;
+
+  // QR code sits on the outer side of the logo, at least as tall as the rest
+  const qrSize = qr ? Math.max(logoH, textBlockH, imageWidth * QR_MIN_SHARE) : 0;
+
+  // Marks row: [QR] [Gap] [Logo]
+  const marksW = qrSize + logoW + (qrSize && logoW ? gap : 0);
+  const marksH = Math.max(qrSize, logoH);
+  const textGap = marksW && hasText ? gap : 0;
+
+  let marksX = 0, marksY = 0;
+  let textX = 0, textY = 0;
+  let textAlign: CanvasTextAlign = 'left';
+
+  const pos = settings.position;
+
+  // Group dimensions
+  const groupH = Math.max(marksH, textBlockH);
+
+  // Y position of the Group container
+  let groupY = 0;
+  if (pos.includes('top')) groupY = padding;
+  else if (pos.includes('bottom')) groupY = imageHeight - padding - groupH;
+  else groupY = (imageHeight - groupH) / 2; // center
+
+  // X position & Layout
+  if (pos.includes('left')) {
+    // [Marks] [Gap] [Text]
+    marksX = padding;
+    textX = padding + marksW + textGap;
+    textAlign = 'left';
+
+    // Center vertically
+    marksY = groupY + (groupH - marksH) / 2;
+    textY = groupY + (groupH - textBlockH) / 2;
+  } else if (pos.includes('right')) {
+    // [Text] [Gap] [Marks], QR outermost
+    marksX = imageWidth - padding - marksW;
+    textX = marksX - textGap;
+    textAlign = 'right';
+
+    // Center vertically
+    marksY = groupY + (groupH - marksH) / 2;
+    textY = groupY + (groupH - textBlockH) / 2;
+  } else {
+    // Center: Stacked
+    // [Marks]
+    // [Text]
+    const stackH = marksH + (marksH && hasText ? gap : 0) + textBlockH;
+    let stackY = 0;
+
+    if (pos === 'top-center') stackY = padding;
+    else if (pos === 'bottom-center') stackY = imageHeight - padding - stackH;
+    else stackY = (imageHeight - stackH) / 2;
+
+    textAlign = 'center';
+
+    // Marks centered
+    marksX = (imageWidth - marksW) / 2;
+    marksY = stackY;
+
+    // Text centered below marks
+    textX = imageWidth / 2;
+    textY = stackY + marksH + (marksH ? gap : 0);
+  }
+
+  // On the right the QR is the outermost mark, elsewhere it comes first
+  const qrX = pos.includes('right') ? marksX + marksW - qrSize : marksX;
+  const logoX = pos.includes('right') ? marksX : marksX + (qrSize ? qrSize + gap : 0);
+
+  // Draw QR (kept nearly opaque, faint codes do not scan)
+  if (qr) {
+    ctx.globalAlpha = Math.max(settings.opacity, QR_MIN_OPACITY);
+    drawQrCode(ctx, qr, qrX, marksY + (marksH - qrSize) / 2, qrSize);
+  }
+
+  // Draw Logo
+  if (logo) {
+    ctx.globalAlpha = settings.opacity;
+    ctx.drawImage(logo, logoX, marksY + (marksH - logoH) / 2, logoW, logoH);
+  }
+
+  if (hasText) {
+    // Draw Text
+    ctx.globalAlpha = settings.opacity;
+    ctx.fillStyle = TEXT_COLORS[tone].fill;
+    ctx.textBaseline = 'top';
+    ctx.textAlign = textAlign;
+
+    // Shadow
+    ctx.shadowColor = TEXT_COLORS[tone].shadow;
+    ctx.shadowBlur = 4;
+    ctx.shadowOffsetX = 2;
+    ctx.shadowOffsetY = 2;
+
+    // Draw Name
+    ctx.font = `bold ${fontSize}px ${fontFamily}`;
+    ctx.fillText(textWatermark.name, textX, textY);
+
+    // Draw Phone
+    if (textWatermark.phone) {
+      ctx.font = `${phoneFontSize}px ${fontFamily}`;
+      ctx.fillText(textWatermark.phone, textX, textY + lineHeight);
+    }
+
+    ctx.shadowColor = 'transparent';
+  }
+
+  ctx.globalAlpha = 1;
+}
+
+// ===================================
+// QR Code
+// ===================================
+
+function drawQrCode(ctx: Canvas2D, qr: QrCode, x: number, y: number, size: number): void {
+  const moduleSize = size / qr.size;
+
+  // Light modules are drawn too, the code must not pick up the photo
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(x, y, size, size);
+  ctx.fillStyle = '#000000';
+
+  for (let row = 0; row < qr.size; row++) {
+    for (let col = 0; col < qr.size; col++) {
+      if (!qr.modules[row][col]) continue;
+      // Snap to whole pixels so neighbouring modules leave no seams
+      const left = Math.floor(x + col * moduleSize);
+      const top = Math.floor(y + row * moduleSize);
+      ctx.fillRect(left, top, Math.ceil(x + (col + 1) * moduleSize) - left, Math.ceil(y + (row + 1) * moduleSize) - top);
+    }
+  }
+}
+
+// ===================================
+// Logo
+// ===================================
+
+function drawLogoWatermark(
+  ctx: Canvas2D,
+  logo: BrandingLogo,
+  imageWidth: number,
+  imageHeight: number,
+  settings: CustomWatermarkSettings
+): void {
+  // Calculate dimensions with auto-scaling
+  const maxWidth = (imageWidth * settings.scale) / 100;
+  const aspectRatio = logo.width / logo.height;
+
+  let drawWidth = logo.width;
+  let drawHeight = logo.height;
+
+  // Scale down if larger than max
+  if (drawWidth > maxWidth) {
+    drawWidth = maxWidth;
+    drawHeight = maxWidth / aspectRatio;
+  }
+
+  // Calculate position
+  const { x, y } = calculateLogoPosition(
+    settings.position,
+    imageWidth,
+    imageHeight,
+    drawWidth,
+    drawHeight,
+    settings.padding || 20
+  );
+
+  // Apply opacity
+  ctx.globalAlpha = settings.opacity;
+
+  // Handle tile position (repeat watermark)
+  if (settings.position === 'tile') {
+    drawTiledWatermark(ctx, logo, imageWidth, imageHeight, drawWidth, drawHeight, settings.opacity);
+  } else {
+    ctx.drawImage(logo, x, y, drawWidth, drawHeight);
+  }
+
+  ctx.globalAlpha = 1;
+}
+
+function drawTiledWatermark(
+  ctx: Canvas2D,
+  logo: BrandingLogo,
+  imageWidth: number,
+  imageHeight: number,
+  logoWidth: number,
+  logoHeight: number,
+  opacity: number
+): void {
+  const spacingX = logoWidth * 2;
+  const spacingY = logoHeight * 2;
+
+  ctx.globalAlpha = opacity * 0.3; // Lower opacity for tiled
+
+  for (let y = 0; y < imageHeight; y += spacingY) {
+    for (let x = 0; x < imageWidth; x += spacingX) {
+      ctx.save();
+      ctx.translate(x + logoWidth / 2, y + logoHeight / 2);
+      ctx.rotate(-30 * Math.PI / 180); // 30 degree rotation
+      ctx.drawImage(logo, -logoWidth / 2, -logoHeight / 2, logoWidth, logoHeight);
+      ctx.restore();
+    }
+  }
+
+  ctx.globalAlpha = 1;
+}
+
+// ===================================
+// Text
+// ===================================
+
+function drawTextWatermark(
+  ctx: Canvas2D,
+  textWatermark: { name: string; phone: string },
+  imageWidth: number,
+  imageHeight: number,
+  settings: CustomWatermarkSettings,
+  fontFamily: string,
+  tone: TextTone
+): void {
+  const { name, phone } = textWatermark;
+  if (!name && !phone) return;
+
+  const padding = settings.padding || 20;
+  const fontSize = Math.max(imageWidth * 0.03, 16); // Min 16px, 3% of width
+
+  ctx.globalAlpha = settings.opacity;
+  ctx.fillStyle = TEXT_COLORS[tone].fill;
+  ctx.font = `bold ${fontSize}px ${fontFamily}`;
+  ctx.textBaseline = 'top';
+
+  // Calculate text dimensions
+  const nameMetrics = ctx.measureText(name);
+  const phoneMetrics = ctx.measureText(phone);
+  const textWidth = Math.max(nameMetrics.width, phoneMetrics.width);
+  const lineHeight = fontSize * 1.3;
+  const textHeight = phone ? lineHeight * 2 : lineHeight;
+
+  // Get position
+  const { x, y, textAlign } = getTextWatermarkPosition(
+    settings.position,
+    imageWidth,
+    imageHeight,
+    textWidth,
+    textHeight,
+    padding
+  );
+
+  ctx.textAlign = textAlign;
+
+  // Draw text shadow for better visibility
+  ctx.shadowColor = TEXT_COLORS[tone].shadow;
+  ctx.shadowBlur = 4;
+  ctx.shadowOffsetX = 2;
+  ctx.shadowOffsetY = 2;
+
+  // Draw name
+  if (name) {
+    ctx.fillText(name, x, y);
+  }
+
+  // Draw phone
+  if (phone) {
+    ctx.font = `${fontSize * 0.85}px ${fontFamily}`;
+    ctx.fillText(phone, x, y + lineHeight);
+  }
+
+  // Reset shadow
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  ctx.shadowOffsetX = 0;
+  ctx.shadowOffsetY = 0;
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Forced branding for non-premium users
+ */
+function drawMaklerProBranding(ctx: Canvas2D, width: number, height: number): void {
+  ctx.save();
+  ctx.globalAlpha = 0.2; // Very subtle
+  ctx.fillStyle = '#FFFFFF';
+
+  // Calculate size relative to image
+  const fontSize = Math.max(width, height) * 0.08;
+  ctx.font = `bold ${fontSize}px Arial, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  // Position in center with rotation
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(-45 * Math.PI / 180);
+
+  // Shadow for visibility on light images
+  ctx.shadowColor = 'rgba(0,0,0,0.3)';
+  ctx.shadowBlur = 10;
+
+  ctx.fillText('MaklerPro', 0, 0);
+  ctx.restore();
+}
+
+// ===================================
+// Position Calculation Helpers
+// ===================================
+
+function calculateLogoPosition(
+  position: WatermarkPosition,
+  imageWidth: number,
+  imageHeight: number,
+  logoWidth: number,
+  logoHeight: number,
+  padding: number
+): { x: number; y: number } {
+  const positions: Record<WatermarkPosition, { x: number; y: number }> = {
+    'top-left': { x: padding, y: padding },
+    'top-center': { x: (imageWidth - logoWidth) / 2, y: padding },
+    'top-right': { x: imageWidth - logoWidth - padding, y: padding },
+    'center-left': { x: padding, y: (imageHeight - logoHeight) / 2 },
+    'center': { x: (imageWidth - logoWidth) / 2, y: (imageHeight - logoHeight) / 2 },
+    'center-right': { x: imageWidth - logoWidth - padding, y: (imageHeight - logoHeight) / 2 },
+    'bottom-left': { x: padding, y: imageHeight - logoHeight - padding },
+    'bottom-center': { x: (imageWidth - logoWidth) / 2, y: imageHeight - logoHeight - padding },
+    'bottom-right': { x: imageWidth - logoWidth - padding, y: imageHeight - logoHeight - padding },
+    'tile': { x: 0, y: 0 },
+    'auto': { x: imageWidth - logoWidth - padding, y: imageHeight - logoHeight - padding }, // Resolved per image before drawing
+  };
+
+  return positions[position] || positions['bottom-right'];
+}
+
+function getTextWatermarkPosition(
+  position: WatermarkPosition,
+  imageWidth: number,
+  imageHeight: number,
+  _textWidth: number, // Reserved for future text-aware positioning
+  textHeight: number,
+  padding: number
+): { x: number; y: number; textAlign: CanvasTextAlign } {
+  type PositionConfig = { x: number; y: number; textAlign: CanvasTextAlign };
+
+  const positions: Record<WatermarkPosition, PositionConfig> = {
+    'top-left': { x: padding, y: padding, textAlign: 'left' },
+    'top-center': { x: imageWidth / 2, y: padding, textAlign: 'center' },
+    'top-right': { x: imageWidth - padding, y: padding, textAlign: 'right' },
+    'center-left': { x: padding, y: (imageHeight - textHeight) / 2, textAlign: 'left' },
+    'center': { x: imageWidth / 2, y: (imageHeight - textHeight) / 2, textAlign: 'center' },
+    'center-right': { x: imageWidth - padding, y: (imageHeight - textHeight) / 2, textAlign: 'right' },
+    'bottom-left': { x: padding, y: imageHeight - textHeight - padding, textAlign: 'left' },
+    'bottom-center': { x: imageWidth / 2, y: imageHeight - textHeight - padding, textAlign: 'center' },
+    'bottom-right': { x: imageWidth - padding, y: imageHeight - textHeight - padding, textAlign: 'right' },
+    'tile': { x: imageWidth / 2, y: imageHeight / 2, textAlign: 'center' },
+    'auto': { x: imageWidth - padding, y: imageHeight - textHeight - padding, textAlign: 'right' }, // Resolved per image before drawing
+  };
+
+  return positions[position] || positions['bottom-right'];
+}
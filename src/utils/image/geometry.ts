@@ -0,0 +1,272 @@
+import type { GeometryCorrection } from '@/types';
+import type { Luminance } from './imageQuality';
+
+// ===================================
+// Perspective & Straighten
+// ===================================
+// Handheld interior shots tilt the camera up or down, so walls and door
+// frames converge (keystone) or lean (roll). Near-vertical lines are found
+// with a Hough transform, a trapezoid + rotation model is fitted to them and
+// the photo is warped with a homography, zoomed just enough to hide the
+// empty corners. DOM-free: runs in the image worker too.
+
+// Largest keystone: at vertical = 100 one edge is 30% narrower than the other
+export const MAX_KEYSTONE = 0.3;
+export const MAX_ROTATION = 10; // Degrees, both ways
+
+// Near-vertical means dx/dy within ±MAX_SLOPE (about ±19°)
+const MAX_SLOPE = 0.35;
+const SLOPE_STEP = 0.005;
+// Votes go to slopes within this of the pixel's own; the gradient direction
+// of a downscaled, slightly stair-stepped edge is only a rough estimate
+const SLOPE_WINDOW = 0.08;
+// Gradient magnitude for a pixel to count as an edge
+const EDGE_THRESHOLD = 40;
+// A line needs votes along at least this share of the image height
+const MIN_LINE_SHARE = 0.25;
+// ...and at least this share of the strongest line's votes (drops texture)
+const MIN_RELATIVE_STRENGTH = 0.4;
+const MAX_LINES = 16;
+const MIN_LINES = 3;
+
+export interface VerticalLine {
+  top: number;      // x where the line crosses the top / bottom edge, 0-1 of width
+  bottom: number;
+  strength: number; // Votes (edge pixels on the line)
+}
+
+export function isIdentityGeometry(geometry?: GeometryCorrection): boolean {
+  return !geometry || (Math.abs(geometry.rotation) < 0.05 && Math.abs(geometry.vertical) < 0.5);
+}
+
+// ===================================
+// Line Detection
+// ===================================
+
+/**
+ * Dominant near-vertical lines, strongest first. Each edge pixel votes only
+ * for slopes close to its own gradient direction, which keeps the
+ * accumulator clean on textured floors and curtains.
+ */
+export function detectVerticalLines({ data, width, height }: Luminance): VerticalLine[] {
+  const slopes = Math.round((2 * MAX_SLOPE) / SLOPE_STEP) + 1;
+  const window = Math.round(SLOPE_WINDOW / SLOPE_STEP);
+  // Offsets are measured at mid-height; leaning lines can start off-image
+  const margin = Math.ceil(MAX_SLOPE * height / 2);
+  const span = width + 2 * margin;
+  const votes = new Uint32Array(slopes * span);
+  const midY = height / 2;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      // Sobel
+      const gx =
+        data[i - width + 1] + 2 * data[i + 1] + data[i + width + 1] -
+        data[i - width - 1] - 2 * data[i - 1] - data[i + width - 1];
+      const gy =
+        data[i + width - 1] + 2 * data[i + width] + data[i + width + 1] -
+        data[i - width - 1] - 2 * data[i - width] - data[i - width + 1];
+      if (Math.abs(gx) < EDGE_THRESHOLD) continue;
+
+      // Edge tangent is (-gy, gx), so its slope dx/dy is -gy/gx
+      const slope = -gy / gx;
+      if (Math.abs(slope) > MAX_SLOPE + SLOPE_WINDOW) continue;
+
+      const center = Math.round((slope + MAX_SLOPE) / SLOPE_STEP);
+      for (let s = Math.max(0, center - window); s <= Math.min(slopes - 1, center + window); s++) {
+        const offset = Math.round(x - (s * SLOPE_STEP - MAX_SLOPE) * (y - midY)) + margin;
+        if (offset >= 0 && offset < span) votes[s * span + offset]++;
+      }
+    }
+  }
+
+  // Peaks, strongest first, suppressing neighbours of an accepted line
+  const minVotes = Math.max(8, Math.round(height * MIN_LINE_SHARE));
+  const candidates: number[] = [];
+  for (let k = 0; k < votes.length; k++) {
+    if (votes[k] >= minVotes) candidates.push(k);
+  }
+  candidates.sort((a, b) => votes[b] - votes[a]);
+  const strongest = candidates.length ? votes[candidates[0]] : 0;
+
+  // Two peaks are the same line when both ends are within 3% of the width
+  const lines: VerticalLine[] = [];
+  for (const k of candidates) {
+    if (votes[k] < strongest * MIN_RELATIVE_STRENGTH) break;
+    const slope = Math.floor(k / span) * SLOPE_STEP - MAX_SLOPE;
+    const offset = (k % span) - margin;
+    const line = {
+      top: (offset - slope * midY) / width,
+      bottom: (offset + slope * midY) / width,
+      strength: votes[k],
+    };
+    if (lines.some((other) => Math.abs(other.top - line.top) < 0.03 && Math.abs(other.bottom - line.bottom) < 0.03)) continue;
+
+    lines.push(line);
+    if (lines.length >= MAX_LINES) break;
+  }
+
+  return lines;
+}
+
+// ===================================
+// Correction Estimate
+// ===================================
+
+/**
+ * Fit the correction that makes the lines vertical. Model (x from the center,
+ * 0-1 of width): a line that should be vertical at x crosses the top at
+ * k * x + d and the bottom at x. k < 1 means verticals converge upward, d is
+ * the lean. Returns null when there are too few lines to trust.
+ */
+export function estimateGeometry(lines: VerticalLine[], aspect: number): GeometryCorrection | null {
+  if (lines.length < MIN_LINES) return null;
+
+  let sw = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (const line of lines) {
+    const w = line.strength;
+    const x = line.bottom - 0.5;
+    const y = line.top - 0.5;
+    sw += w;
+    sx += w * x;
+    sy += w * y;
+    sxx += w * x * x;
+    sxy += w * x * y;
+  }
+  const meanX = sx / sw;
+  const meanY = sy / sw;
+  const varX = sxx / sw - meanX * meanX;
+
+  // Lines bunched together say nothing about convergence; fit the lean only
+  let k = 1;
+  if (varX > 0.01) k = (sxy / sw - meanX * meanY) / varX;
+  const d = meanY - k * meanX;
+
+  // Converging up: the top edge of the source is k wide; down: the bottom is 1/k
+  const vertical = k <= 1
+    ? ((1 - k) / MAX_KEYSTONE) * 100
+    : -((1 - 1 / k) / MAX_KEYSTONE) * 100;
+  // Lean d of the image width over the full height (aspect = width / height)
+  const rotation = (-Math.atan(d * aspect) * 180) / Math.PI;
+
+  // Beyond the limits it is more likely a deliberate angle than a mistake
+  if (Math.abs(vertical) > 100 || Math.abs(rotation) > MAX_ROTATION) return null;
+
+  // Below these the fit is noise; leave that axis alone
+  return {
+    rotation: Math.abs(rotation) < 0.3 ? 0 : Math.round(rotation * 10) / 10,
+    vertical: Math.abs(vertical) < 5 ? 0 : Math.round(vertical),
+  };
+}
+
+// ===================================
+// Warp
+// ===================================
+
+type Point = [number, number];
+// Maps output (x, y) to source: [h0..h7], h8 = 1
+type Homography = number[];
+
+/**
+ * Source quad whose contents fill the output rectangle: a centered trapezoid
+ * (keystone), rotated, then shrunk until it lies inside the image (auto-crop)
+ */
+export function correctionQuad(width: number, height: number, geometry: GeometryCorrection): Point[] {
+  const keystone = (Math.max(-100, Math.min(100, geometry.vertical)) / 100) * MAX_KEYSTONE;
+  const topScale = keystone > 0 ? 1 - keystone : 1;
+  const bottomScale = keystone < 0 ? 1 + keystone : 1;
+  const angle = (-Math.max(-MAX_ROTATION, Math.min(MAX_ROTATION, geometry.rotation)) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const hw = width / 2;
+  const hh = height / 2;
+
+  // Top-left, top-right, bottom-right, bottom-left, relative to the center
+  const corners: Point[] = [
+    [-hw * topScale, -hh],
+    [hw * topScale, -hh],
+    [hw * bottomScale, hh],
+    [-hw * bottomScale, hh],
+  ].map(([x, y]) => [x * cos - y * sin, x * sin + y * cos]);
+
+  let zoom = 1;
+  for (const [x, y] of corners) {
+    if (Math.abs(x) > 0) zoom = Math.min(zoom, hw / Math.abs(x));
+    if (Math.abs(y) > 0) zoom = Math.min(zoom, hh / Math.abs(y));
+  }
+
+  return corners.map(([x, y]) => [hw + x * zoom, hh + y * zoom]);
+}
+
+/**
+ * Homography taking the four `from` points to the four `to` points
+ */
+export function solveHomography(from: Point[], to: Point[]): Homography {
+  // 8x9 augmented system, Gaussian elimination with partial pivoting
+  const m: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const [x, y] = from[i];
+    const [u, v] = to[i];
+    m.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    m.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) throw new Error('Degenerate correction quad');
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let c = col; c < 9; c++) m[row][c] -= factor * m[col][c];
+    }
+  }
+
+  return m.map((row, i) => row[8] / row[i]);
+}
+
+/**
+ * Apply a correction to RGBA pixels; same size out, bilinear sampling
+ */
+export function warpPixels(src: Uint8ClampedArray, width: number, height: number, geometry: GeometryCorrection): Uint8ClampedArray<ArrayBuffer> {
+  const rect: Point[] = [[0, 0], [width, 0], [width, height], [0, height]];
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = solveHomography(rect, correctionQuad(width, height, geometry));
+  const dst = new Uint8ClampedArray(src.length);
+  const maxX = width - 1;
+  const maxY = height - 1;
+
+  for (let y = 0; y < height; y++) {
+    const py = y + 0.5;
+    for (let x = 0; x < width; x++) {
+      const px = x + 0.5;
+      const w = h6 * px + h7 * py + 1;
+      const sx = Math.max(0, Math.min(maxX, (h0 * px + h1 * py + h2) / w - 0.5));
+      const sy = Math.max(0, Math.min(maxY, (h3 * px + h4 * py + h5) / w - 0.5));
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      const a = (y0 * width + x0) * 4;
+      const b = (y0 * width + x1) * 4;
+      const c = (y1 * width + x0) * 4;
+      const d = (y1 * width + x1) * 4;
+      const off = (y * width + x) * 4;
+      for (let ch = 0; ch < 4; ch++) {
+        const top = src[a + ch] + (src[b + ch] - src[a + ch]) * fx;
+        const bottom = src[c + ch] + (src[d + ch] - src[c + ch]) * fx;
+        dst[off + ch] = top + (bottom - top) * fy;
+      }
+    }
+  }
+
+  return dst;
+}
@@ -0,0 +1,121 @@
+import { loadImage, createCanvas } from './resizeImage';
+import type { ImageQuality } from '@/types';
+
+// ===================================
+// Image Quality Metrics
+// ===================================
+// Cheap, no-reference measures on a downscaled grayscale copy. They are meant
+// to rank photos of one listing against each other, not to grade a photo.
+
+const ANALYSIS_SIZE = 256;
+
+// Laplacian variance where sharpness scores 0.5 (at ANALYSIS_SIZE)
+const SHARPNESS_MIDPOINT = 300;
+
+export interface Luminance {
+  data: Float32Array; // 0-255, row-major
+  width: number;
+  height: number;
+}
+
+export function toLuminance(rgba: Uint8ClampedArray, width: number, height: number): Luminance {
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { data, width, height };
+}
+
+/**
+ * Variance of the Laplacian: blurry and shaken shots have few strong edges
+ */
+export function measureSharpness({ data, width, height }: Luminance): number {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = data[i - width] + data[i + width] + data[i - 1] + data[i + 1] - 4 * data[i];
+      sum += lap;
+      sumSq += lap * lap;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  const variance = sumSq / count - mean * mean;
+  return variance / (variance + SHARPNESS_MIDPOINT);
+}
+
+/**
+ * Mid-tone mean with little clipping scores best
+ */
+export function measureExposure({ data }: Luminance): number {
+  if (data.length === 0) return 0;
+  let sum = 0;
+  let clipped = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i];
+    if (data[i] < 8 || data[i] > 247) clipped++;
+  }
+  const mean = sum / data.length;
+  const balance = 1 - Math.abs(mean - 118) / 118;
+  return Math.max(0, Math.min(1, balance - (clipped / data.length) * 2));
+}
+
+/**
+ * Landscape framing with detail spread across the frame, rather than a
+ * portrait shot or one with everything piled on one side
+ */
+export function measureComposition({ data, width, height }: Luminance): number {
+  const aspect = width / Math.max(1, height);
+  const orientation = aspect >= 1.2 ? 1 : aspect >= 0.95 ? 0.8 : 0.55;
+
+  let energy = 0;
+  let weightedX = 0;
+  let weightedY = 0;
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      const gradient = Math.abs(data[i + 1] - data[i]) + Math.abs(data[i + width] - data[i]);
+      energy += gradient;
+      weightedX += gradient * x;
+      weightedY += gradient * y;
+    }
+  }
+  if (energy === 0) return orientation * 0.5;
+
+  // Edge centroid offset from the center, 0 (centered) to 1 (at a border)
+  const offsetX = Math.abs(weightedX / energy / Math.max(1, width - 1) - 0.5) * 2;
+  const offsetY = Math.abs(weightedY / energy / Math.max(1, height - 1) - 0.5) * 2;
+  const balance = 1 - Math.min(1, Math.hypot(offsetX, offsetY));
+
+  return orientation * 0.6 + balance * 0.4;
+}
+
+export function measureLuminanceQuality(luminance: Luminance): ImageQuality {
+  return {
+    sharpness: measureSharpness(luminance),
+    exposure: measureExposure(luminance),
+    composition: measureComposition(luminance),
+  };
+}
+
+/**
+ * Quality metrics of an image (object URL or data URL)
+ */
+export async function measureImageQuality(src: string): Promise<ImageQuality> {
+  const img = await loadImage(src);
+  const ratio = Math.min(1, ANALYSIS_SIZE / Math.max(img.width, img.height));
+  const { canvas, ctx } = createCanvas(
+    Math.max(1, Math.round(img.width * ratio)),
+    Math.max(1, Math.round(img.height * ratio))
+  );
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const luminance = toLuminance(data, canvas.width, canvas.height);
+  canvas.width = 0;
+  canvas.height = 0;
+  return measureLuminanceQuality(luminance);
+}
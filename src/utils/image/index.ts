@@ -1,2 +1,10 @@
 export * from './resizeImage';
 export * from './compressImage';
+export * from './imageQuality';
+export * from './perceptualHash';
+export * from './autoEnhance';
+export * from './geometry';
+export * from './toneMapping';
+export * from './transform';
+export * from './watermarkPlacement';
+export * from './provenance';
@@ -0,0 +1,165 @@
+import { loadImage, createCanvas } from './resizeImage';
+import { toLuminance, type Luminance } from './imageQuality';
+import type { PerceptualHash } from '@/types';
+
+// ===================================
+// Perceptual Hashing
+// ===================================
+// dHash compares neighbouring pixels of a 9x8 thumbnail, pHash keeps the
+// signs of the lowest 8x8 DCT frequencies of a 32x32 one. Both survive
+// resizing and re-compression; together they rarely match different rooms.
+
+const HASH_SOURCE_SIZE = 128;
+const DCT_SIZE = 32;
+const DCT_KEEP = 8;
+
+// Maximum Hamming distances (of 64 bits) for two photos to count as the same shot
+export const NEAR_DUPLICATE_DISTANCE = {
+  pHash: 10,
+  dHash: 14,
+} as const;
+
+/**
+ * Area-average downsample (aspect ratio is intentionally ignored)
+ */
+function downsample({ data, width, height }: Luminance, outWidth: number, outHeight: number): Float32Array {
+  const out = new Float32Array(outWidth * outHeight);
+  for (let oy = 0; oy < outHeight; oy++) {
+    const y0 = Math.floor((oy * height) / outHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((oy + 1) * height) / outHeight));
+    for (let ox = 0; ox < outWidth; ox++) {
+      const x0 = Math.floor((ox * width) / outWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((ox + 1) * width) / outWidth));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += data[y * width + x];
+      }
+      out[oy * outWidth + ox] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+export function computeDHash(luminance: Luminance): string {
+  const small = downsample(luminance, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(small[y * 9 + x] < small[y * 9 + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+// cos((2x + 1) * u * PI / 2N), shared by every pHash
+let dctTable: Float64Array | null = null;
+
+function getDctTable(): Float64Array {
+  if (!dctTable) {
+    dctTable = new Float64Array(DCT_KEEP * DCT_SIZE);
+    for (let u = 0; u < DCT_KEEP; u++) {
+      for (let x = 0; x < DCT_SIZE; x++) {
+        dctTable[u * DCT_SIZE + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE));
+      }
+    }
+  }
+  return dctTable;
+}
+
+export function computePHash(luminance: Luminance): string {
+  const small = downsample(luminance, DCT_SIZE, DCT_SIZE);
+  const table = getDctTable();
+
+  // Separable DCT-II, only the DCT_KEEP lowest frequencies in each direction
+  const rows = new Float64Array(DCT_SIZE * DCT_KEEP);
+  for (let y = 0; y < DCT_SIZE; y++) {
+    for (let u = 0; u < DCT_KEEP; u++) {
+      let sum = 0;
+      for (let x = 0; x < DCT_SIZE; x++) sum += small[y * DCT_SIZE + x] * table[u * DCT_SIZE + x];
+      rows[y * DCT_KEEP + u] = sum;
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < DCT_KEEP; v++) {
+    for (let u = 0; u < DCT_KEEP; u++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) sum += rows[y * DCT_KEEP + u] * table[v * DCT_SIZE + y];
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is overall brightness; leave it out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return bitsToHex(coefficients.map((c) => c > median));
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
+
+export function isNearDuplicate(a: PerceptualHash, b: PerceptualHash): boolean {
+  return (
+    hammingDistance(a.pHash, b.pHash) <= NEAR_DUPLICATE_DISTANCE.pHash &&
+    hammingDistance(a.dHash, b.dHash) <= NEAR_DUPLICATE_DISTANCE.dHash
+  );
+}
+
+export function hashLuminance(luminance: Luminance): PerceptualHash {
+  return { dHash: computeDHash(luminance), pHash: computePHash(luminance) };
+}
+
+/**
+ * Perceptual hashes of an image (object URL or data URL)
+ */
+export async function hashImage(src: string): Promise<PerceptualHash> {
+  const img = await loadImage(src);
+  const { canvas, ctx } = createCanvas(HASH_SOURCE_SIZE, HASH_SOURCE_SIZE);
+  ctx.drawImage(img, 0, 0, HASH_SOURCE_SIZE, HASH_SOURCE_SIZE);
+  const { data } = ctx.getImageData(0, 0, HASH_SOURCE_SIZE, HASH_SOURCE_SIZE);
+  const luminance = toLuminance(data, HASH_SOURCE_SIZE, HASH_SOURCE_SIZE);
+  canvas.width = 0;
+  canvas.height = 0;
+  return hashLuminance(luminance);
+}
+
+/**
+ * Groups (of 2+ ids) of near-duplicate items, transitively: if A~B and B~C,
+ * all three are one group. Items without a hash are skipped.
+ */
+export function groupNearDuplicates(items: { id: string; hash?: PerceptualHash }[]): string[][] {
+  const hashed = items.filter((item): item is { id: string; hash: PerceptualHash } => !!item.hash);
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (isNearDuplicate(hashed[i].hash, hashed[j].hash)) parent[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  hashed.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), item.id]);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+}
@@ -0,0 +1,251 @@
+import { isIdentityGeometry, warpPixels } from './geometry';
+import { hasToneMapping, localToneMap } from './toneMapping';
+import type { CompressionConfig, EnhancementConfig, WatermarkConfig } from '@/types';
+
+// ===================================
+// Canvas-Independent Pixel Operations
+// ===================================
+// Shared by the image worker (OffscreenCanvas) and the main-thread fallback,
+// so both produce identical output. Nothing here may touch the DOM.
+
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Channel gain per slider unit for white balance (100 = ±30%)
+export const WHITE_BALANCE_GAIN = 0.003;
+// Largest shadow/highlight shift, as a share of full range
+const TONE_RANGE = 0.35 * 255;
+
+/**
+ * White balance, shadows/highlights, brightness, contrast and saturation,
+ * in place (each -100 to 100)
+ */
+export function adjustColors(data: Uint8ClampedArray, config: EnhancementConfig): void {
+  const temperature = config.temperature ?? 0;
+  const tint = config.tint ?? 0;
+  const shadows = (config.shadows ?? 0) / 100;
+  const highlights = (config.highlights ?? 0) / 100;
+
+  const redGain = 1 + temperature * WHITE_BALANCE_GAIN;
+  const greenGain = 1 - tint * WHITE_BALANCE_GAIN;
+  const blueGain = 1 - temperature * WHITE_BALANCE_GAIN;
+  const brightnessMultiplier = 1 + config.brightness / 100;
+  const contrastFactor = (259 * (config.contrast + 255)) / (255 * (259 - config.contrast));
+  const saturationMultiplier = 1 + config.saturation / 100;
+  const toneMapping = shadows !== 0 || highlights !== 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * redGain;
+    let g = data[i + 1] * greenGain;
+    let b = data[i + 2] * blueGain;
+
+    // Shadows act on dark tones and highlights on bright ones, with a cubic falloff
+    if (toneMapping) {
+      const lum = Math.min(1, (0.2989 * r + 0.587 * g + 0.114 * b) / 255);
+      const shift = TONE_RANGE * (shadows * (1 - lum) ** 3 + highlights * lum ** 3);
+      r += shift;
+      g += shift;
+      b += shift;
+    }
+
+    r *= brightnessMultiplier;
+    g *= brightnessMultiplier;
+    b *= brightnessMultiplier;
+
+    r = contrastFactor * (r - 128) + 128;
+    g = contrastFactor * (g - 128) + 128;
+    b = contrastFactor * (b - 128) + 128;
+
+    const gray = 0.2989 * r + 0.587 * g + 0.114 * b;
+    r = gray + saturationMultiplier * (r - gray);
+    g = gray + saturationMultiplier * (g - gray);
+    b = gray + saturationMultiplier * (b - gray);
+
+    // Uint8ClampedArray clamps to 0-255 on write
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+}
+
+/**
+ * 3x3 sharpen kernel blended with the source by `mix` (0-1); returns new pixels
+ */
+export function sharpenPixels(src: Uint8ClampedArray, w: number, h: number, mix: number): Uint8ClampedArray<ArrayBuffer> {
+  const dst = new Uint8ClampedArray(src.length);
+  const alpha = Math.min(1, mix);
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const off = (y * w + x) * 4;
+      // Kernel [0 -1 0; -1 5 -1; 0 -1 0], edges fall back to the center pixel
+      const up = y > 0 ? off - w * 4 : off;
+      const down = y < h - 1 ? off + w * 4 : off;
+      const left = x > 0 ? off - 4 : off;
+      const right = x < w - 1 ? off + 4 : off;
+
+      for (let c = 0; c < 3; c++) {
+        const sharpened = 5 * src[off + c] - src[up + c] - src[down + c] - src[left + c] - src[right + c];
+        dst[off + c] = src[off + c] * (1 - alpha) + sharpened * alpha;
+      }
+      dst[off + 3] = src[off + 3];
+    }
+  }
+
+  return dst;
+}
+
+/**
+ * Perspective/straighten, local tone mapping, color adjustments, then
+ * sharpening, on a context holding the image
+ */
+export function enhanceContext(ctx: Canvas2D, width: number, height: number, config: EnhancementConfig): void {
+  let imageData = ctx.getImageData(0, 0, width, height);
+  if (config.geometry && !isIdentityGeometry(config.geometry)) {
+    imageData = new ImageData(warpPixels(imageData.data, width, height, config.geometry), width, height);
+  }
+  if (hasToneMapping(config)) {
+    localToneMap(imageData.data, width, height, config);
+  }
+  adjustColors(imageData.data, config);
+
+  if (config.sharpness && config.sharpness > 0) {
+    const sharpened = sharpenPixels(imageData.data, width, height, config.sharpness / 100);
+    ctx.putImageData(new ImageData(sharpened, width, height), 0, 0);
+  } else {
+    ctx.putImageData(imageData, 0, 0);
+  }
+}
+
+/**
+ * Target size within the configured bounds, keeping aspect ratio (never upscales)
+ */
+export function fitWithin(width: number, height: number, config: Pick<CompressionConfig, 'maxWidth' | 'maxHeight'>): { width: number; height: number } {
+  const maxWidth = config.maxWidth || 1920;
+  const maxHeight = config.maxHeight || 1080;
+  if (width <= maxWidth && height <= maxHeight) return { width, height };
+
+  const ratio = Math.min(maxWidth / width, maxHeight / height);
+  return { width: Math.round(width * ratio), height: Math.round(height * ratio) };
+}
+
+// ===================================
+// Simple Text Watermark
+// ===================================
+
+function getWatermarkPosition(
+  position: WatermarkConfig['position'],
+  width: number,
+  height: number,
+  fontSize: number
+): { x: number; y: number; textAlign: CanvasTextAlign } {
+  const padding = fontSize;
+  
+  const positions: Record<string, { x: number; y: number; textAlign: CanvasTextAlign }> = {
+    'top-left': { x: padding, y: padding + fontSize / 2, textAlign: 'left' },
+    'top-center': { x: width / 2, y: padding + fontSize / 2, textAlign: 'center' },
+    'top-right': { x: width - padding, y: padding + fontSize / 2, textAlign: 'right' },
+    'center-left': { x: padding, y: height / 2, textAlign: 'left' },
+    'center': { x: width / 2, y: height / 2, textAlign: 'center' },
+    'center-right': { x: width - padding, y: height / 2, textAlign: 'right' },
+    'bottom-left': { x: padding, y: height - padding - fontSize / 2, textAlign: 'left' },
+    'bottom-center': { x: width / 2, y: height - padding - fontSize / 2, textAlign: 'center' },
+    'bottom-right': { x: width - padding, y: height - padding - fontSize / 2, textAlign: 'right' },
+  };
+  
+  return positions[position] || positions['bottom-right'];
+}
+
+/**
+ * Name/phone text, optional logo and (for free users) the forced MaklerPro
+ * branding, drawn over an image already on the context
+ */
+export function drawSimpleWatermark(
+  ctx: Canvas2D,
+  width: number,
+  height: number,
+  config: WatermarkConfig,
+  logo: CanvasImageSource | null,
+  isPremium: boolean
+): void {
+  // Configure text style
+  ctx.globalAlpha = config.opacity;
+  ctx.fillStyle = config.color;
+  ctx.font = `bold ${config.fontSize}px ${config.fontFamily}`;
+  ctx.textBaseline = 'top'; // Easier for multiline
+
+  const { x, y, textAlign } = getWatermarkPosition(config.position, width, height, config.fontSize);
+  ctx.textAlign = textAlign;
+  
+  const drawWatermarkText = () => {
+    // Draw primary text (Name)
+    ctx.fillText(config.text, 0, 0);
+    
+    // Draw secondary text (Phone) if exists
+    if (config.secondText) {
+      const secondaryFontSize = config.fontSize * 0.75;
+      ctx.font = `${secondaryFontSize}px ${config.fontFamily}`;
+      // Add some spacing
+      const spacing = config.fontSize * 0.2;
+      ctx.fillText(config.secondText, 0, config.fontSize + spacing);
+    }
+  };
+
+  // Apply rotation if needed
+  if (config.rotation !== 0) {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate((config.rotation * Math.PI) / 180);
+    drawWatermarkText();
+    ctx.restore();
+  } else {
+    // Baseline is 'top', so shift bottom and center positions up by the text block height
+    const totalHeight = config.fontSize + (config.secondText ? (config.fontSize * 0.75 + config.fontSize * 0.2) : 0);
+    let drawY = y;
+    if (config.position.includes('bottom')) {
+       drawY = y - totalHeight;
+    } else if (config.position.includes('center') && !config.position.includes('top')) { // 'center' or 'center-left/right'
+       drawY = y - totalHeight / 2;
+    }
+    
+    ctx.save();
+    ctx.translate(x, drawY);
+    drawWatermarkText();
+    ctx.restore();
+  }
+  
+  // Logo in the bottom-right corner, or bottom-left when the text is there
+  if (logo && config.logoSize) {
+    const logoSize = config.logoSize;
+    const padding = 20;
+    const logoX = config.position === 'bottom-right' ? padding : width - logoSize - padding;
+    const logoY = height - logoSize - padding;
+
+    ctx.globalAlpha = config.opacity;
+    ctx.drawImage(logo, logoX, logoY, logoSize, logoSize);
+  }
+  
+  // FREEMIUM: Force branding if not premium
+  if (!isPremium) {
+    ctx.save();
+    ctx.globalAlpha = 0.3; // Semi-transparent
+    ctx.fillStyle = '#FFFFFF';
+    const brandSize = Math.max(width, height) * 0.15; // 15% of image size
+    ctx.font = `bold ${brandSize}px Arial`;
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'center';
+    
+    // Center of image
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(-45 * Math.PI / 180); // 45 degree rotation
+    
+    // Draw text with outline for better visibility
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = brandSize * 0.05;
+    ctx.strokeText('MaklerPro', 0, 0);
+    ctx.fillText('MaklerPro', 0, 0);
+    
+    ctx.restore();
+  }
+
+  ctx.globalAlpha = 1;
+}
@@ -0,0 +1,69 @@
+import jpeg from 'jpeg-js';
+import { describe, expect, it } from 'vitest';
+import { embedProvenance, extractProvenance } from './provenance';
+
+const TAG = { telegramId: '5123456789', timestamp: Date.UTC(2026, 9, 19, 12, 30, 45, 678) };
+
+// A photo-like test image: soft gradients plus seeded grain
+function photo(width: number, height: number): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 7;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      seed = (seed * 1103515245 + 12345) >>> 0;
+      const grain = ((seed >>> 16) % 17) - 8;
+      const i = (y * width + x) * 4;
+      data[i] = 90 + 80 * Math.sin(x / 70) + grain;
+      data[i + 1] = 120 + 50 * Math.cos(y / 55) + grain;
+      data[i + 2] = 140 + 40 * Math.sin((x + y) / 90) + grain;
+      data[i + 3] = 255;
+    }
+  }
+  return data;
+}
+
+function reencode(data: Uint8ClampedArray, width: number, height: number, quality: number): Uint8ClampedArray {
+  const encoded = jpeg.encode({ data, width, height }, quality);
+  return new Uint8ClampedArray(jpeg.decode(encoded.data, { useTArray: true, formatAsRGBA: true }).data);
+}
+
+function crop(data: Uint8ClampedArray, width: number, x: number, y: number, w: number, h: number): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(w * h * 4);
+  for (let row = 0; row < h; row++) {
+    out.set(data.subarray(((y + row) * width + x) * 4, ((y + row) * width + x + w) * 4), row * w * 4);
+  }
+  return out;
+}
+
+describe('provenance tag', () => {
+  it('survives JPEG re-encoding and an unaligned crop', () => {
+    const [width, height] = [640, 480];
+    const pixels = photo(width, height);
+    embedProvenance(pixels, width, height, TAG);
+
+    const saved = reencode(pixels, width, height, 80);
+    const cropped = reencode(crop(saved, width, 123, 77, 300, 250), 300, 250, 70);
+
+    expect(extractProvenance(cropped, 300, 250)).toEqual({
+      telegramId: TAG.telegramId,
+      timestamp: Math.floor(TAG.timestamp / 1000) * 1000,
+    });
+  });
+
+  it('finds nothing in an untagged photo', () => {
+    expect(extractProvenance(photo(320, 256), 320, 256)).toBeNull();
+  });
+
+  it('finds nothing when the crop is smaller than one tile', () => {
+    const pixels = photo(256, 256);
+    embedProvenance(pixels, 256, 256, TAG);
+    expect(extractProvenance(crop(pixels, 256, 3, 3, 120, 120), 120, 120)).toBeNull();
+  });
+
+  it('rejects a telegram_id too large for the payload', () => {
+    const pixels = photo(64, 64);
+    expect(() => embedProvenance(pixels, 64, 64, { ...TAG, telegramId: String(2 ** 48) })).toThrow('Unsupported telegram_id');
+    expect(() => embedProvenance(pixels, 64, 64, { ...TAG, telegramId: '-1' })).toThrow('Unsupported telegram_id');
+    expect(() => embedProvenance(pixels, 64, 64, { ...TAG, telegramId: String(2 ** 48 - 1) })).not.toThrow();
+  });
+});
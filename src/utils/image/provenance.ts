@@ -0,0 +1,221 @@
+import type { ProvenanceTag } from '@/types';
+
+// ===================================
+// Invisible Provenance Tag
+// ===================================
+// Hides the agent's telegram_id and the export time in the photo itself.
+// Each 8x8 block carries one bit in the balance of two mid-frequency DCT
+// coefficients, (2,3) against (3,2): too small to see (~46 dB PSNR), coarse
+// enough to survive re-compression. The 120-bit payload (magic byte, id,
+// time, CRC-32) fills a 16x16-block tile twice and the tile repeats over the
+// whole photo. Extraction tries every block alignment and tile offset, adds
+// up all copies, and only accepts a result whose magic byte and CRC match.
+// A 300x250 crop re-saved as JPEG quality 70 still reads; smaller crops or
+// harder compression need more of the photo. Resizing moves the block grid
+// and is not survived.
+// DOM-free: runs in the image worker too.
+
+const BLOCK = 8;
+const TILE = 16;                            // Tile side, in blocks
+const PAYLOAD_BITS = 120;
+const MAGIC = 0xa7;
+// Coefficient balance forced per block, and the most a block may change
+// (strong texture already leans the wrong way; it is not fought past this)
+const STRENGTH = 12;
+const MAX_CHANGE = 3 * STRENGTH;
+// Extraction clips each block's vote, so a few edges cannot outvote the rest
+const MAX_VOTE = 2 * STRENGTH;
+// Window analysed when reading, centered in the photo
+const READ_WINDOW = 1024;
+
+// d = C(2,3) - C(3,2) of an orthonormal 8x8 DCT is the dot product with this
+// kernel; |kernel|² = 2
+const KERNEL = (() => {
+  const c = (u: number) => (u === 0 ? Math.sqrt(1 / BLOCK) : Math.sqrt(2 / BLOCK));
+  const basis = (u: number, v: number, x: number, y: number) =>
+    c(u) * c(v) * Math.cos(((2 * x + 1) * u * Math.PI) / 16) * Math.cos(((2 * y + 1) * v * Math.PI) / 16);
+  const kernel = new Float32Array(BLOCK * BLOCK);
+  for (let y = 0; y < BLOCK; y++) {
+    for (let x = 0; x < BLOCK; x++) kernel[y * BLOCK + x] = basis(2, 3, x, y) - basis(3, 2, x, y);
+  }
+  return kernel;
+})();
+
+// Fixed pseudo-random layout: which payload bit each tile cell carries
+// (-1 = none) and the sign it is embedded with, so image structure that
+// repeats every few blocks does not line up with the payload
+const LAYOUT = (() => {
+  let seed = 0x4d414b4c; // "MAKL"
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const cells = TILE * TILE;
+  const order = Array.from({ length: cells }, (_, i) => i);
+  for (let i = cells - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const bitOf = new Int16Array(cells).fill(-1);
+  const sign = new Int8Array(cells);
+  order.forEach((cell, i) => {
+    if (i < PAYLOAD_BITS * 2) bitOf[cell] = i % PAYLOAD_BITS;
+    sign[cell] = random() < 0.5 ? -1 : 1;
+  });
+  return { bitOf, sign };
+})();
+
+// ===================================
+// Payload
+// ===================================
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Magic (1 byte), telegram_id (6 bytes), Unix seconds (4 bytes), CRC-32 (4 bytes)
+function encodePayload(tag: ProvenanceTag): number[] {
+  const bytes = new Uint8Array(PAYLOAD_BITS / 8);
+  const view = new DataView(bytes.buffer);
+  const id = Number(tag.telegramId);
+  if (!Number.isSafeInteger(id) || id < 0 || id >= 2 ** 48) throw new Error('Unsupported telegram_id');
+
+  view.setUint8(0, MAGIC);
+  view.setUint16(1, Math.floor(id / 2 ** 32));
+  view.setUint32(3, id % 2 ** 32);
+  view.setUint32(7, Math.floor(tag.timestamp / 1000));
+  view.setUint32(11, crc32(bytes.subarray(0, 11)));
+
+  const bits: number[] = [];
+  bytes.forEach((byte) => {
+    for (let i = 7; i >= 0; i--) bits.push((byte >>> i) & 1);
+  });
+  return bits;
+}
+
+function decodePayload(bits: number[]): ProvenanceTag | null {
+  const bytes = new Uint8Array(PAYLOAD_BITS / 8);
+  bits.forEach((bit, i) => {
+    bytes[i >> 3] |= bit << (7 - (i & 7));
+  });
+  const view = new DataView(bytes.buffer);
+  if (view.getUint8(0) !== MAGIC || view.getUint32(11) !== crc32(bytes.subarray(0, 11))) return null;
+
+  const id = view.getUint16(1) * 2 ** 32 + view.getUint32(3);
+  return { telegramId: String(id), timestamp: view.getUint32(7) * 1000 };
+}
+
+// ===================================
+// Embed
+// ===================================
+
+/**
+ * Tag for a photo the user exports now; null without a telegram_id
+ */
+export function createProvenanceTag(telegramId?: string | number): ProvenanceTag | null {
+  return telegramId ? { telegramId: String(telegramId), timestamp: Date.now() } : null;
+}
+
+/**
+ * Write the tag into RGBA pixels, in place. The same change goes to all
+ * three channels, so only luminance moves.
+ */
+export function embedProvenance(data: Uint8ClampedArray, width: number, height: number, tag: ProvenanceTag): void {
+  const bits = encodePayload(tag);
+
+  for (let by = 0; by + BLOCK <= height; by += BLOCK) {
+    for (let bx = 0; bx + BLOCK <= width; bx += BLOCK) {
+      const cell = ((by / BLOCK) % TILE) * TILE + ((bx / BLOCK) % TILE);
+      const bit = LAYOUT.bitOf[cell];
+      if (bit < 0) continue;
+
+      const target = (bits[bit] ? 1 : -1) * LAYOUT.sign[cell];
+      const d = blockBalance(data, width, bx, by);
+      if (d * target >= STRENGTH) continue;
+
+      // Move d to ±STRENGTH along the kernel (the kernel's norm² is 2)
+      const change = Math.max(-MAX_CHANGE, Math.min(MAX_CHANGE, target * STRENGTH - d));
+      for (let y = 0; y < BLOCK; y++) {
+        for (let x = 0; x < BLOCK; x++) {
+          const delta = (change / 2) * KERNEL[y * BLOCK + x];
+          const i = ((by + y) * width + bx + x) * 4;
+          data[i] += delta;
+          data[i + 1] += delta;
+          data[i + 2] += delta;
+        }
+      }
+    }
+  }
+}
+
+function blockBalance(data: Uint8ClampedArray, width: number, bx: number, by: number): number {
+  let d = 0;
+  for (let y = 0; y < BLOCK; y++) {
+    for (let x = 0; x < BLOCK; x++) {
+      const i = ((by + y) * width + bx + x) * 4;
+      d += (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) * KERNEL[y * BLOCK + x];
+    }
+  }
+  return d;
+}
+
+// ===================================
+// Extract
+// ===================================
+
+/**
+ * Read a tag from RGBA pixels, null when there is none (or too little of the
+ * photo is left). Only a centered READ_WINDOW square is analysed.
+ */
+export function extractProvenance(data: Uint8ClampedArray, width: number, height: number): ProvenanceTag | null {
+  const x0 = Math.max(0, Math.floor((width - READ_WINDOW) / 2));
+  const y0 = Math.max(0, Math.floor((height - READ_WINDOW) / 2));
+  const x1 = Math.min(width, x0 + READ_WINDOW);
+  const y1 = Math.min(height, y0 + READ_WINDOW);
+
+  // The crop may have cut anywhere: try each pixel offset of the block grid
+  for (let oy = 0; oy < BLOCK; oy++) {
+    for (let ox = 0; ox < BLOCK; ox++) {
+      // Votes per tile cell, relative to this window's first block
+      const votes = new Float64Array(TILE * TILE);
+      let blocks = 0;
+      for (let by = y0 + oy, row = 0; by + BLOCK <= y1; by += BLOCK, row++) {
+        for (let bx = x0 + ox, col = 0; bx + BLOCK <= x1; bx += BLOCK, col++) {
+          const d = blockBalance(data, width, bx, by);
+          votes[(row % TILE) * TILE + (col % TILE)] += Math.max(-MAX_VOTE, Math.min(MAX_VOTE, d));
+          blocks++;
+        }
+      }
+      if (blocks < TILE * TILE) return null;
+
+      // ...and where in the tile the crop started
+      for (let sy = 0; sy < TILE; sy++) {
+        for (let sx = 0; sx < TILE; sx++) {
+          const tag = decodeShifted(votes, sx, sy);
+          if (tag) return tag;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function decodeShifted(votes: Float64Array, sx: number, sy: number): ProvenanceTag | null {
+  const soft = new Float64Array(PAYLOAD_BITS);
+  for (let row = 0; row < TILE; row++) {
+    for (let col = 0; col < TILE; col++) {
+      const cell = ((row + sy) % TILE) * TILE + ((col + sx) % TILE);
+      const bit = LAYOUT.bitOf[cell];
+      if (bit >= 0) soft[bit] += votes[row * TILE + col] * LAYOUT.sign[cell];
+    }
+  }
+  return decodePayload(Array.from(soft, (value) => (value > 0 ? 1 : 0)));
+}
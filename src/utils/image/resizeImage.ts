@@ -1,3 +1,5 @@
+import { fitWithin } from './pixelOps';
+import { runImageJob } from './workerPool';
 import type { CompressionConfig } from '@/types';
 import type { ImageFile } from '@/types';
 
@@ -57,6 +59,21 @@ export async function resizeImage(
   config: CompressionConfig
 ): Promise<Blob> {
   try {
+    // Off the main thread when workers are available
+    const offThread = await runImageJob(async () => {
+      const bitmap = await createImageBitmap(file);
+      const { width, height } = fitWithin(bitmap.width, bitmap.height, config);
+      return {
+        type: 'resize',
+        bitmap,
+        width,
+        height,
+        background: config.format === 'jpeg' ? '#FFFFFF' : undefined,
+        output: { format: config.format || 'webp', quality: config.quality || 0.8 },
+      };
+    });
+    if (offThread) return offThread.blob;
+
     // 1. Load image
     const objectUrl = URL.createObjectURL(file);
     const img = await loadImage(objectUrl);
@@ -65,16 +82,7 @@ export async function resizeImage(
     URL.revokeObjectURL(objectUrl);
 
     // 2. Calculate dimensions keeping aspect ratio
-    let { width, height } = img;
-    const maxWidth = config.maxWidth || 1920;
-    const maxHeight = config.maxHeight || 1080;
-
-    // Calculate aspect ratio
-    if (width > maxWidth || height > maxHeight) {
-      const ratio = Math.min(maxWidth / width, maxHeight / height);
-      width = Math.round(width * ratio);
-      height = Math.round(height * ratio);
-    }
+    const { width, height } = fitWithin(img.width, img.height, config);
 
     // 3. Draw to canvas
     const { canvas, ctx } = createCanvas(width, height);
@@ -101,6 +109,25 @@ export async function resizeImage(
   }
 }
 
+/**
+ * Small JPEG data URL of an image (for uploads where full size is wasted,
+ * e.g. photo analysis)
+ */
+export async function createThumbnailDataUrl(
+  src: string,
+  maxSize: number = 512,
+  quality: number = 0.7
+): Promise<string> {
+  const img = await loadImage(src);
+  const ratio = Math.min(1, maxSize / Math.max(img.width, img.height));
+  const { canvas, ctx } = createCanvas(Math.round(img.width * ratio), Math.round(img.height * ratio));
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', quality);
+  canvas.width = 0;
+  canvas.height = 0;
+  return dataUrl;
+}
+
 // ==========================================
 // File Helper
 // ==========================================
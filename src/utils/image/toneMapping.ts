@@ -0,0 +1,162 @@
+import type { EnhancementConfig } from '@/types';
+
+// ===================================
+// Local Tone Mapping (HDR look)
+// ===================================
+// Splits luminance into a smooth base layer and detail with a guided filter,
+// which keeps edges such as window frames sharp so there is no halo. The
+// tone curve only bends the base layer: dark corners come up, bright windows
+// come down, and the detail (the view outside, wall texture) is added back.
+// The filter runs on a downscaled copy and its coefficients are upsampled
+// (fast guided filter), so 12MP photos need little extra memory.
+// DOM-free: runs in the image worker too.
+
+// Long edge of the copy the filter runs on
+const FILTER_SIZE = 1024;
+// Filter radius, share of the copy's long edge
+const RADIUS_SHARE = 0.03;
+// Base-layer variance that counts as an edge ((0-1 luminance)²)
+const EDGE_EPSILON = 0.01;
+// Per-pixel luminance ratio limits; beyond them noise and color shifts show
+const MIN_RATIO = 0.3;
+const MAX_RATIO = 4;
+
+export type ToneMappingConfig = Pick<EnhancementConfig, 'hdrShadows' | 'hdrHighlights' | 'hdrDetail'>;
+
+export function hasToneMapping(config: ToneMappingConfig): boolean {
+  return !!(config.hdrShadows || config.hdrHighlights || config.hdrDetail);
+}
+
+/**
+ * Mean over a (2r+1)² window, clipped at the borders; separable running sums
+ */
+export function boxFilter(src: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const rows = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = 0; x <= Math.min(radius, width - 1); x++) sum += src[row + x];
+    for (let x = 0; x < width; x++) {
+      const count = Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1;
+      rows[row + x] = sum / count;
+      if (x + radius + 1 < width) sum += src[row + x + radius + 1];
+      if (x - radius >= 0) sum -= src[row + x - radius];
+    }
+  }
+
+  const out = new Float32Array(src.length);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = 0; y <= Math.min(radius, height - 1); y++) sum += rows[y * width + x];
+    for (let y = 0; y < height; y++) {
+      const count = Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1;
+      out[y * width + x] = sum / count;
+      if (y + radius + 1 < height) sum += rows[(y + radius + 1) * width + x];
+      if (y - radius >= 0) sum -= rows[(y - radius) * width + x];
+    }
+  }
+  return out;
+}
+
+/**
+ * Self-guided filter coefficients: base = a * I + b, averaged over the window
+ */
+export function guidedFilterCoefficients(
+  guide: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  epsilon: number
+): { a: Float32Array; b: Float32Array } {
+  const squares = new Float32Array(guide.length);
+  for (let i = 0; i < guide.length; i++) squares[i] = guide[i] * guide[i];
+
+  const mean = boxFilter(guide, width, height, radius);
+  const meanSq = boxFilter(squares, width, height, radius);
+  const a = new Float32Array(guide.length);
+  const b = new Float32Array(guide.length);
+  for (let i = 0; i < guide.length; i++) {
+    const variance = Math.max(0, meanSq[i] - mean[i] * mean[i]);
+    a[i] = variance / (variance + epsilon);
+    b[i] = mean[i] * (1 - a[i]);
+  }
+
+  return {
+    a: boxFilter(a, width, height, radius),
+    b: boxFilter(b, width, height, radius),
+  };
+}
+
+/**
+ * Base-layer tone curve. Shadows lift with a gamma weighted toward black,
+ * highlights mirror it toward white; both 0-1.
+ */
+function toneCurve(base: number, shadows: number, highlights: number): number {
+  let out = base;
+  if (shadows > 0) {
+    const lifted = Math.pow(base, 1 / (1 + 1.2 * shadows));
+    out += (lifted - base) * (1 - base);
+  }
+  if (highlights > 0) {
+    const pulled = 1 - Math.pow(1 - out, 1 / (1 + 1.5 * highlights));
+    out -= (out - pulled) * out;
+  }
+  return out;
+}
+
+/**
+ * Local shadows/highlights and detail on RGBA pixels, in place
+ */
+export function localToneMap(data: Uint8ClampedArray, width: number, height: number, config: ToneMappingConfig): void {
+  const shadows = (config.hdrShadows ?? 0) / 100;
+  const highlights = (config.hdrHighlights ?? 0) / 100;
+  const detail = 1 + (config.hdrDetail ?? 0) / 100;
+
+  // Block-averaged luminance copy
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / FILTER_SIZE));
+  const lw = Math.ceil(width / step);
+  const lh = Math.ceil(height / step);
+  const small = new Float32Array(lw * lh);
+  const counts = new Uint16Array(lw * lh);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / step) * lw;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const cell = row + Math.floor(x / step);
+      small[cell] += (0.2989 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+      counts[cell]++;
+    }
+  }
+  for (let i = 0; i < small.length; i++) small[i] /= counts[i];
+
+  const radius = Math.max(2, Math.round(Math.max(lw, lh) * RADIUS_SHARE));
+  const { a, b } = guidedFilterCoefficients(small, lw, lh, radius, EDGE_EPSILON);
+
+  for (let y = 0; y < height; y++) {
+    // Bilinear coefficient lookup (cell centers)
+    const sy = Math.max(0, Math.min(lh - 1, (y + 0.5) / step - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(lh - 1, y0 + 1);
+    const fy = sy - y0;
+
+    for (let x = 0; x < width; x++) {
+      const sx = Math.max(0, Math.min(lw - 1, (x + 0.5) / step - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(lw - 1, x0 + 1);
+      const fx = sx - x0;
+      const c00 = y0 * lw + x0, c01 = y0 * lw + x1, c10 = y1 * lw + x0, c11 = y1 * lw + x1;
+      const ca = (a[c00] * (1 - fx) + a[c01] * fx) * (1 - fy) + (a[c10] * (1 - fx) + a[c11] * fx) * fy;
+      const cb = (b[c00] * (1 - fx) + b[c01] * fx) * (1 - fy) + (b[c10] * (1 - fx) + b[c11] * fx) * fy;
+
+      const i = (y * width + x) * 4;
+      const lum = (0.2989 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+      const base = Math.max(0, Math.min(1, ca * lum + cb));
+      const mapped = toneCurve(base, shadows, highlights) + (lum - base) * detail;
+
+      const ratio = Math.max(MIN_RATIO, Math.min(MAX_RATIO, mapped / Math.max(lum, 1 / 255)));
+      data[i] *= ratio;
+      data[i + 1] *= ratio;
+      data[i + 2] *= ratio;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { loadImage, createCanvas, canvasToBlob } from './resizeImage';
+import type { CropRect } from '@/types';
+
+// ==========================================
+// Rotate & Crop
+// ==========================================
+// Plain drawImage work, cheap enough for the main thread.
+
+export interface TransformResult {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+/**
+ * Rotate clockwise by quarter turns
+ */
+export async function rotateImage(src: string, quarterTurns: 1 | 2 | 3): Promise<TransformResult> {
+  const img = await loadImage(src);
+  const swap = quarterTurns % 2 === 1;
+  const width = swap ? img.height : img.width;
+  const height = swap ? img.width : img.height;
+  const { canvas, ctx } = createCanvas(width, height);
+
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((quarterTurns * Math.PI) / 2);
+  ctx.drawImage(img, -img.width / 2, -img.height / 2);
+
+  const blob = await canvasToBlob(canvas, 'webp', 0.92);
+  return { blob, width, height };
+}
+
+/**
+ * Cut out a normalized (0-1) rectangle
+ */
+export async function cropImage(src: string, rect: CropRect): Promise<TransformResult> {
+  const img = await loadImage(src);
+  const x = Math.round(Math.max(0, rect.x) * img.width);
+  const y = Math.round(Math.max(0, rect.y) * img.height);
+  const width = Math.max(1, Math.min(img.width - x, Math.round(rect.width * img.width)));
+  const height = Math.max(1, Math.min(img.height - y, Math.round(rect.height * img.height)));
+  const { canvas, ctx } = createCanvas(width, height);
+
+  ctx.drawImage(img, x, y, width, height, 0, 0, width, height);
+
+  const blob = await canvasToBlob(canvas, 'webp', 0.92);
+  return { blob, width, height };
+}
@@ -0,0 +1,105 @@
+import type { WatermarkPosition } from '@/types';
+
+// ===================================
+// Auto Watermark Placement
+// ===================================
+// Scores each corner by how busy the image is where the watermark would sit
+// (share of strong edges plus luminance spread) and picks the calmest one,
+// so the mark lands on sky, floor or a plain wall instead of the furniture.
+// DOM-free: works on RGBA pixels of a downscaled copy.
+
+export type CornerPosition = Extract<WatermarkPosition, 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'>;
+
+// Text color that reads on the chosen region
+export type TextTone = 'light' | 'dark';
+
+export interface WatermarkPlacement {
+  position: CornerPosition;
+  tone: TextTone;
+}
+
+// In order of preference when corners are about equally calm
+const CORNERS: CornerPosition[] = ['bottom-right', 'bottom-left', 'top-right', 'top-left'];
+// Score penalty per step down the preference list
+const PREFERENCE_PENALTY = 0.08;
+// Neighbour difference (0-1 luminance) that counts as an edge
+const EDGE_THRESHOLD = 0.08;
+// Mean luminance above which dark text reads better than white
+const DARK_TEXT_LUMINANCE = 0.62;
+
+export interface RegionStats {
+  edgeDensity: number;  // Share of pixels on a strong edge, 0-1
+  contrast: number;     // Luminance standard deviation, 0-0.5
+  luminance: number;    // Mean luminance, 0-1
+}
+
+/**
+ * Edge density, contrast and brightness of a pixel rectangle (clipped to the image)
+ */
+export function regionStats(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  rect: { x: number; y: number; width: number; height: number }
+): RegionStats {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(width, Math.ceil(rect.x + rect.width));
+  const y1 = Math.min(height, Math.ceil(rect.y + rect.height));
+
+  const lum = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return (0.2989 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+  };
+
+  let count = 0, edges = 0, sum = 0, sumSq = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const l = lum(x, y);
+      const dx = x + 1 < width ? Math.abs(lum(x + 1, y) - l) : 0;
+      const dy = y + 1 < height ? Math.abs(lum(x, y + 1) - l) : 0;
+      if (dx + dy > EDGE_THRESHOLD) edges++;
+      sum += l;
+      sumSq += l * l;
+      count++;
+    }
+  }
+
+  if (count === 0) return { edgeDensity: 0, contrast: 0, luminance: 0 };
+  const mean = sum / count;
+  return {
+    edgeDensity: edges / count,
+    contrast: Math.sqrt(Math.max(0, sumSq / count - mean * mean)),
+    luminance: mean,
+  };
+}
+
+/**
+ * Calmest corner for a watermark of the given size, and the text tone for it.
+ * Sizes and padding are in the same pixels as `data`.
+ */
+export function chooseWatermarkPlacement(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  box: { width: number; height: number },
+  padding: number
+): WatermarkPlacement {
+  const boxWidth = Math.min(width, Math.max(1, box.width));
+  const boxHeight = Math.min(height, Math.max(1, box.height));
+
+  let best = { position: CORNERS[0], score: Infinity, luminance: 0 };
+  for (let i = 0; i < CORNERS.length; i++) {
+    const position = CORNERS[i];
+    const x = position.endsWith('left') ? padding : width - padding - boxWidth;
+    const y = position.startsWith('top') ? padding : height - padding - boxHeight;
+    const stats = regionStats(data, width, height, { x, y, width: boxWidth, height: boxHeight });
+    const score = (stats.edgeDensity + stats.contrast) * (1 + i * PREFERENCE_PENALTY);
+    if (score < best.score) best = { position, score, luminance: stats.luminance };
+  }
+
+  return {
+    position: best.position,
+    tone: best.luminance > DARK_TEXT_LUMINANCE ? 'dark' : 'light',
+  };
+}
@@ -0,0 +1,149 @@
+import type { ImageWorkerJob, ImageWorkerRequest, ImageWorkerResponse } from '@/workers/imageWorker';
+
+// ===================================
+// Device-Aware Concurrency
+// ===================================
+
+/**
+ * How many images to process at once. A 12MP photo needs ~50 MB per RGBA
+ * copy and a step holds several, so memory is the tighter limit on phones.
+ * deviceMemory is Chromium-only (GB, rounded); elsewhere assume a mid phone.
+ */
+export function getProcessingConcurrency(): number {
+  if (typeof navigator === 'undefined') return 2;
+  const cores = navigator.hardwareConcurrency || 2;
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4;
+
+  const byCores = Math.max(1, cores - 1);      // Leave one core for the UI
+  const byMemory = Math.max(1, Math.floor(memory / 2));
+  return Math.min(byCores, byMemory, 4);
+}
+
+// ===================================
+// Image Worker Pool
+// ===================================
+
+export interface WorkerResult {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+interface PendingJob {
+  request: ImageWorkerRequest;
+  transfer: Transferable[];
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+}
+
+export function supportsWorkerPipeline(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap === 'function' &&
+    'convertToBlob' in OffscreenCanvas.prototype
+  );
+}
+
+/**
+ * Fixed-size pool of image workers, spawned on first use. A worker that
+ * fails to start (old WebViews without OffscreenCanvas 2D, CSP) disables
+ * the pool for the session and callers fall back to the main thread.
+ */
+class ImageWorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: PendingJob[] = [];
+  private running = new Map<Worker, PendingJob>();
+  private nextId = 1;
+  private size: number;
+  broken = false;
+
+  constructor(size: number) {
+    this.size = size;
+  }
+
+  run(job: ImageWorkerJob, transfer: Transferable[]): Promise<WorkerResult> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request: { id: this.nextId++, job }, transfer, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(new URL('../../workers/imageWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<ImageWorkerResponse>) => {
+      const pending = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+
+      if (pending && pending.request.id === event.data.id) {
+        if ('error' in event.data) pending.reject(new Error(event.data.error));
+        else pending.resolve(event.data);
+      }
+      this.dispatch();
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.fail(new Error(event.message || 'Image worker failed'));
+    };
+
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0 && !this.broken) {
+      const worker = this.idle.pop() ?? (this.workers.length < this.size ? this.spawn() : null);
+      if (!worker) return;
+
+      const pending = this.queue.shift()!;
+      this.running.set(worker, pending);
+      worker.postMessage(pending.request, pending.transfer);
+    }
+  }
+
+  private fail(error: Error) {
+    this.broken = true;
+    for (const pending of [...this.running.values(), ...this.queue]) pending.reject(error);
+    this.running.clear();
+    this.queue = [];
+    this.workers.forEach((worker) => worker.terminate());
+    this.workers = [];
+    this.idle = [];
+  }
+}
+
+let pool: ImageWorkerPool | null = null;
+
+/**
+ * Run a job off the main thread. The job is only built (images decoded)
+ * when workers are usable. Resolves to null when they are not, or the job
+ * failed there, so the caller can do it itself.
+ */
+export async function runImageJob(buildJob: () => Promise<ImageWorkerJob>): Promise<WorkerResult | null> {
+  if (!supportsWorkerPipeline()) return null;
+  if (!pool) pool = new ImageWorkerPool(getProcessingConcurrency());
+  if (pool.broken) return null;
+
+  try {
+    const job = await buildJob();
+    // Bitmaps are transferred, not copied; they are unusable here afterwards
+    const transfer: Transferable[] = [job.bitmap];
+    if ((job.type === 'watermark' || job.type === 'branding') && job.logo) transfer.push(job.logo);
+    return await pool.run(job, transfer);
+  } catch (error) {
+    console.warn('Image worker failed, using the main thread:', error);
+    return null;
+  }
+}
+
+/**
+ * Decode an image (object/data URL) into a transferable bitmap, off the main thread
+ */
+export async function loadBitmap(src: string): Promise<ImageBitmap> {
+  const blob = await fetch(src).then((response) => response.blob());
+  return createImageBitmap(blob);
+}
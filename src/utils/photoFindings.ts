@@ -0,0 +1,183 @@
+import type { LightLevel, PhotoAnalysis, PhotoFindings, RenovationLevel, RoomType } from '@/types';
+
+// ===================================
+// Photo Findings
+// ===================================
+// Shared by /api/analyze-image (validating model output), /api/generate-description
+// (re-validating what the client sends back) and the client. Free-text fields
+// come from a vision model looking at user photos, so they are reduced to short
+// plain phrases before they can reach a prompt.
+
+export const ROOM_TYPES: RoomType[] = ['living_room', 'bedroom', 'kitchen', 'bathroom', 'hallway', 'balcony', 'exterior', 'other'];
+export const RENOVATION_LEVELS: RenovationLevel[] = ['designer', 'euro', 'standard', 'needs_repair', 'shell'];
+export const LIGHT_LEVELS: LightLevel[] = ['bright', 'moderate', 'dim'];
+
+export const PHOTO_LIMITS = {
+  photos: 12,        // Photos analyzed per request
+  phraseLength: 40,
+  featuresPerPhoto: 6,
+  features: 10,      // Features kept in the summary
+} as const;
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+/**
+ * Letters, digits, spaces and basic punctuation only, one short phrase
+ */
+function cleanPhrase(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const phrase = value
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{N} ,.'’²/-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, PHOTO_LIMITS.phraseLength)
+    .trim();
+  return phrase.length >= 2 ? phrase : undefined;
+}
+
+/**
+ * Validate per-photo results (model JSON or a client payload); invalid entries are dropped
+ */
+export function validatePhotoAnalyses(input: unknown): PhotoAnalysis[] {
+  const list = Array.isArray(input)
+    ? input
+    : input && typeof input === 'object' && Array.isArray((input as { photos?: unknown }).photos)
+      ? (input as { photos: unknown[] }).photos
+      : [];
+
+  return list.slice(0, PHOTO_LIMITS.photos).flatMap((item, position): PhotoAnalysis[] => {
+    if (!item || typeof item !== 'object') return [];
+    const raw = item as Record<string, unknown>;
+    const features = Array.isArray(raw.features)
+      ? [...new Set(raw.features.map(cleanPhrase).filter((f): f is string => !!f))].slice(0, PHOTO_LIMITS.featuresPerPhoto)
+      : [];
+
+    return [{
+      index: typeof raw.index === 'number' && Number.isInteger(raw.index) && raw.index >= 0 ? raw.index : position,
+      room: isOneOf(ROOM_TYPES, raw.room) ? raw.room : 'other',
+      renovation: isOneOf(RENOVATION_LEVELS, raw.renovation) ? raw.renovation : undefined,
+      furnished: typeof raw.furnished === 'boolean' ? raw.furnished : undefined,
+      light: isOneOf(LIGHT_LEVELS, raw.light) ? raw.light : undefined,
+      view: cleanPhrase(raw.view),
+      features,
+    }];
+  });
+}
+
+function mostCommon<T>(values: (T | undefined)[]): T | undefined {
+  const counts = new Map<T, number>();
+  for (const value of values) {
+    if (value !== undefined) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  let best: T | undefined;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Aggregate per-photo results into listing-level findings
+ */
+export function summarizePhotoFindings(photos: PhotoAnalysis[]): PhotoFindings {
+  const rooms: Partial<Record<RoomType, number>> = {};
+  for (const photo of photos) rooms[photo.room] = (rooms[photo.room] ?? 0) + 1;
+
+  // Exterior shots say nothing about the interior
+  const interior = photos.filter((photo) => photo.room !== 'exterior');
+  const features = mostFrequentFirst(photos.flatMap((photo) => photo.features.map((f) => f.toLowerCase())));
+
+  return {
+    photos,
+    rooms,
+    renovation: mostCommon(interior.map((photo) => photo.renovation)),
+    furnished: mostCommon(interior.map((photo) => photo.furnished)),
+    light: mostCommon(interior.map((photo) => photo.light)),
+    views: [...new Set(photos.map((photo) => photo.view?.toLowerCase()).filter((v): v is string => !!v))],
+    features: features.slice(0, PHOTO_LIMITS.features),
+  };
+}
+
+function mostFrequentFirst(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+}
+
+/**
+ * Re-validate findings sent by a client; the summary is always recomputed
+ */
+export function sanitizePhotoFindings(input: unknown): PhotoFindings | undefined {
+  const photos = validatePhotoAnalyses(input);
+  return photos.length > 0 ? summarizePhotoFindings(photos) : undefined;
+}
+
+/**
+ * Findings as prompt lines (lower priority than the agent's own facts)
+ */
+export function formatPhotoFindingsForPrompt(findings: PhotoFindings): string {
+  const rooms = (Object.entries(findings.rooms) as [RoomType, number][])
+    .filter(([room]) => room !== 'other')
+    .map(([room, count]) => `${room.replace('_', ' ')}${count > 1 ? ` (${count} photos)` : ''}`);
+
+  const lines = [
+    rooms.length ? `Rooms shown: ${rooms.join(', ')}` : '',
+    findings.renovation ? `Renovation: ${findings.renovation.replace('_', ' ')}` : '',
+    findings.furnished !== undefined ? `Furnished: ${findings.furnished ? 'yes' : 'no'}` : '',
+    findings.light ? `Natural light: ${findings.light}` : '',
+    findings.views.length ? `View: ${findings.views.join(', ')}` : '',
+    findings.features.length ? `Visible details: ${findings.features.join(', ')}` : '',
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+// ===================================
+// Offline Stub
+// ===================================
+
+const STUB_ROOMS: RoomType[] = ['living_room', 'kitchen', 'bedroom', 'bathroom', 'hallway', 'balcony'];
+const STUB_FEATURES: Partial<Record<RoomType, string[]>> = {
+  living_room: ['parquet', 'large windows'],
+  kitchen: ['built-in kitchen', 'gas stove'],
+  bedroom: ['wardrobe', 'air conditioner'],
+  bathroom: ['tiled bathroom', 'shower cabin'],
+  hallway: ['built-in wardrobe'],
+  balcony: ['glazed balcony'],
+};
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  // Sampling keeps this cheap for large data URLs
+  const step = Math.max(1, Math.floor(value.length / 4096));
+  for (let i = 0; i < value.length; i += step) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic stand-in for a vision model (tests, local development).
+ * Same image in, same findings out; it does not look at the pixels.
+ */
+export function stubAnalyzePhotos(images: string[]): PhotoAnalysis[] {
+  return images.slice(0, PHOTO_LIMITS.photos).map((image, index) => {
+    const hash = hashString(image);
+    const room = STUB_ROOMS[(index + hash) % STUB_ROOMS.length];
+    return {
+      index,
+      room,
+      renovation: hash % 3 === 0 ? 'standard' : 'euro',
+      furnished: room !== 'bathroom' ? hash % 4 !== 0 : undefined,
+      light: hash % 5 === 0 ? 'moderate' : 'bright',
+      view: room === 'balcony' || room === 'living_room' ? (hash % 2 ? 'courtyard' : 'city') : undefined,
+      features: STUB_FEATURES[room] ?? [],
+    };
+  });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { formatForPlatform, getMaxLength, PLATFORM_RULES } from './platformFormat';
+import { applyVoiceProfile } from './voiceProfile';
+import type { VoiceProfileContent } from '@/types';
+
+const PROFILE: VoiceProfileContent = {
+  agencyName: 'Uy Plus',
+  instructions: '',
+  footer: 'Uy Plus — +998 90 123 45 67',
+  signature: 'Agent: Aziza',
+  hashtags: [],
+  forbiddenWords: [],
+};
+
+const LONG_POST = Array.from({ length: 120 }, (_, i) => `So'z${i}`).join(' ');
+
+describe('formatForPlatform', () => {
+  it('shortens the body and keeps the agency footer whole', () => {
+    const { body, tail } = applyVoiceProfile(LONG_POST, PROFILE, 'whatsapp');
+    const text = formatForPlatform(body, 'whatsapp', tail);
+
+    expect(text.length).toBeLessThanOrEqual(PLATFORM_RULES.whatsapp.max);
+    expect(text.endsWith(`Agent: Aziza\n\nUy Plus — +998 90 123 45 67`)).toBe(true);
+    expect(text).toContain('…');
+  });
+
+  it('moves a footer the model already wrote to the end, once', () => {
+    const { body, tail } = applyVoiceProfile(`${PROFILE.footer}\n\n${LONG_POST}`, PROFILE, 'whatsapp');
+    const text = formatForPlatform(body, 'whatsapp', tail);
+
+    expect(text.split(PROFILE.footer)).toHaveLength(2);
+    expect(text.endsWith(PROFILE.footer)).toBe(true);
+  });
+
+  it('leaves text that fits untouched', () => {
+    expect(formatForPlatform('Sotiladi 2 xonali', 'whatsapp', PROFILE.footer)).toBe(`Sotiladi 2 xonali\n\n${PROFILE.footer}`);
+  });
+});
+
+describe('SMS length', () => {
+  const words = (prefix: string) => Array.from({ length: 60 }, (_, i) => `${prefix}${i}`).join(' ');
+
+  it('allows 160 characters in GSM-7 text', () => {
+    const text = formatForPlatform(words('Flat'), 'sms');
+    expect(text.length).toBeLessThanOrEqual(160);
+    expect(text.length).toBeGreaterThan(70);
+    expect(text.endsWith('...')).toBe(true);
+  });
+
+  it('allows 70 characters in Cyrillic text', () => {
+    const text = formatForPlatform(words('Квартира'), 'sms');
+    expect(text.length).toBeLessThanOrEqual(70);
+    expect(text.endsWith('…')).toBe(true);
+  });
+
+  it('counts the Uzbek oʻ as outside GSM-7', () => {
+    expect(getMaxLength('sms', "Yunusobod, 2 xona, bo'sh")).toBe(160);
+    expect(getMaxLength('sms', 'Yunusobod, 2 xona, boʻsh')).toBe(70);
+    expect(getMaxLength('telegram', 'Квартира')).toBe(4096);
+  });
+});
@@ -0,0 +1,145 @@
+import type { Platform } from '@/types';
+
+// ===================================
+// Platform Formatting Rules
+// ===================================
+// Shared by the client (counters, share buttons) and /api/generate-description
+// (prompt rules + post-processing). Models ignore formatting instructions often
+// enough that the rules are enforced on the output as well.
+
+export type MarkdownMode =
+  | 'full'      // **bold**, headers (Telegram)
+  | 'whatsapp'  // *bold*, _italic_ only
+  | 'none';     // Plain text, the platform shows Markdown literally
+
+export interface PlatformRules {
+  max: number;          // Hard limit of the platform
+  maxUnicode?: number;  // Limit for text outside GSM-7 (SMS: one UCS-2 message)
+  recommended: number;  // Length the prompt aims for
+  markdown: MarkdownMode;
+  emojis: boolean;
+  hashtags: boolean;
+  singleLine: boolean;
+}
+
+export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
+  telegram: { max: 4096, recommended: 1000, markdown: 'full', emojis: true, hashtags: true, singleLine: false },
+  instagram: { max: 2200, recommended: 800, markdown: 'none', emojis: true, hashtags: true, singleLine: false },
+  olx: { max: 9000, recommended: 2000, markdown: 'none', emojis: true, hashtags: false, singleLine: false },
+  uybor: { max: 5000, recommended: 1500, markdown: 'none', emojis: false, hashtags: false, singleLine: false },
+  facebook: { max: 5000, recommended: 1000, markdown: 'none', emojis: true, hashtags: false, singleLine: false },
+  whatsapp: { max: 700, recommended: 500, markdown: 'whatsapp', emojis: true, hashtags: false, singleLine: false },
+  sms: { max: 160, maxUnicode: 70, recommended: 150, markdown: 'none', emojis: false, hashtags: false, singleLine: true },
+};
+
+// Platforms generated together by `platform: 'all'`
+export type CorePlatform = 'telegram' | 'instagram' | 'olx';
+
+export const CORE_PLATFORMS: CorePlatform[] = ['telegram', 'instagram', 'olx'];
+
+export const ALL_PLATFORMS: Platform[] = ['telegram', 'instagram', 'olx', 'uybor', 'facebook', 'whatsapp', 'sms'];
+
+// GSM 03.38 basic set and extension table: anything else (Cyrillic, oʻ, “quotes”, …)
+// makes the SMS go out as UCS-2
+const GSM7_PATTERN = /^[@£$¥èéùìòÇØøÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&'()*+,\-./0-9:;<=>?¡A-ZÄÖÑÜ§¿a-zäöñüà\n\r^{}\\[~\]|€]*$/;
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}|[\u{1F1E6}-\u{1F1FF}]|\u{FE0F}|\u{200D}|\u{20E3}/gu;
+
+/**
+ * Character limit of the platform for this text
+ */
+export function getMaxLength(platform: Platform, text: string): number {
+  const { max, maxUnicode } = PLATFORM_RULES[platform];
+  return maxUnicode !== undefined && !GSM7_PATTERN.test(text) ? maxUnicode : max;
+}
+
+/**
+ * Formatting rules appended to the system prompt. `unicode`: the output
+ * script needs characters outside GSM-7 (see getMaxLength).
+ */
+export function formatRulesForPrompt(platform: Platform, unicode = false): string {
+  const rules = PLATFORM_RULES[platform];
+  const max = unicode ? rules.maxUnicode ?? rules.max : rules.max;
+  const lines = [
+    `- HARD LIMIT: at most ${max} characters (aim for about ${Math.min(rules.recommended, Math.round(max * 0.9))}).`,
+    rules.markdown === 'none' ? '- Plain text only. NO Markdown (no **, __, #, backticks or [links](...)): the platform shows it literally.' : '',
+    rules.markdown === 'whatsapp' ? '- WhatsApp formatting only: *bold* with single asterisks, _italic_. No ** or # headers.' : '',
+    rules.emojis ? '' : '- NO emojis.',
+    rules.hashtags ? '' : '- NO hashtags.',
+    rules.singleLine ? '- A single line, no line breaks.' : '',
+  ];
+  return `FORMATTING RULES:\n${lines.filter(Boolean).join('\n')}`;
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[a-z]*\n?/gi, '')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g, '$1 ($2)')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/^(\s*)[*-]\s+/gm, '$1• ');
+}
+
+function toWhatsAppMarkdown(text: string): string {
+  return text
+    .replace(/```[a-z]*\n?/gi, '')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g, '$1 ($2)')
+    .replace(/^#{1,6}\s+(.+)$/gm, '*$1*')
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/__(.+?)__/g, '_$1_')
+    .replace(/~~(.+?)~~/g, '~$1~')
+    .replace(/^(\s*)-\s+/gm, '$1• ');
+}
+
+/**
+ * Cut at the last word boundary that fits, never mid-word
+ */
+export function truncateToLimit(text: string, max: number, ellipsis = '…'): string {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - ellipsis.length);
+  const boundary = cut.search(/\s\S*$/);
+  return `${(boundary > max * 0.6 ? cut.slice(0, boundary) : cut).replace(/[\s,.;:—–-]+$/, '')}${ellipsis}`;
+}
+
+function applyRules(input: string, rules: PlatformRules): string {
+  let result = input;
+
+  if (rules.markdown === 'none') result = stripMarkdown(result);
+  if (rules.markdown === 'whatsapp') result = toWhatsAppMarkdown(result);
+
+  if (!rules.emojis) {
+    result = result.replace(EMOJI_PATTERN, '').replace(/^[ \t]+/gm, '');
+  }
+  if (!rules.hashtags) {
+    result = result.replace(/(^|\s)#\p{L}[\p{L}\p{N}_]*/gu, '$1');
+  }
+
+  result = rules.singleLine
+    ? result.trim().replace(/^\s*•\s*/gm, '').replace(/\s*\n+\s*/g, '. ').replace(/([.!?:;,])\.\s/g, '$1 ').replace(/\s{2,}/g, ' ')
+    : result.replace(/[ \t]+$/gm, '').replace(/\n{3,}/g, '\n\n');
+
+  return result.trim();
+}
+
+/**
+ * Enforce the platform's rules on generated text. `tail` (the agency's
+ * signature and footer) is kept whole: only the body is shortened to fit.
+ */
+export function formatForPlatform(input: string, platform: Platform, tail = ''): string {
+  const rules = PLATFORM_RULES[platform];
+  const body = applyRules(input, rules);
+  const ending = tail ? applyRules(tail, rules) : '';
+  const separator = rules.singleLine ? ' ' : '\n\n';
+  const max = getMaxLength(platform, `${body}${separator}${ending}`);
+  // "…" itself is outside GSM-7 and would shrink a GSM SMS to 70 characters
+  const ellipsis = rules.maxUnicode !== undefined && max === rules.max ? '...' : '…';
+  if (!ending) return truncateToLimit(body, max, ellipsis);
+
+  const room = max - ending.length - separator.length;
+  // A tail that alone exceeds the limit is cut like any other text
+  if (room < 20) return truncateToLimit(`${body}${separator}${ending}`, max, ellipsis);
+  return `${truncateToLimit(body, room, ellipsis)}${separator}${ending}`;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parsePropertyText } from './propertyParser';
+
+describe('parsePropertyText', () => {
+  it('reads a typical note with a kvartal number and a floor pair', () => {
+    expect(parsePropertyText('Chilonzor 9 kvartal 2 xonali 60 kv 4/9 55000$')).toEqual({
+      type: 'apartment',
+      rooms: 2,
+      area: 60,
+      floor: 4,
+      totalFloors: 9,
+      price: 55000,
+      currency: 'USD',
+      location: 'Chilonzor',
+    });
+  });
+
+  it('reads the compact shorthand', () => {
+    expect(parsePropertyText('3x 75kv 5/9 Chilonzor 65k$ evro remont')).toMatchObject({
+      rooms: 3,
+      area: 75,
+      floor: 5,
+      totalFloors: 9,
+      price: 65000,
+      currency: 'USD',
+      features: ['Евроремонт'],
+    });
+  });
+
+  it('does not take a kvartal number for the area', () => {
+    expect(parsePropertyText('Yunusobod 19-kvartal 3 xona, 85000$').area).toBeUndefined();
+    expect(parsePropertyText('Юнусабад 4 квартал, 2 комн, 48000 у.е.').area).toBeUndefined();
+  });
+
+  it('accepts the usual spellings of square meters', () => {
+    expect(parsePropertyText('2 xona 54 kv.m').area).toBe(54);
+    expect(parsePropertyText('2 xona 54 kvm').area).toBe(54);
+    expect(parsePropertyText('2 xona 54,5 m²').area).toBe(54.5);
+    expect(parsePropertyText('2 комн 48 кв.м').area).toBe(48);
+    expect(parsePropertyText('2 комн 48 кв').area).toBe(48);
+  });
+
+  it('reads thousands separators but not numbers in front of the price', () => {
+    expect(parsePropertyText('4/9 55000$')).toMatchObject({ floor: 4, totalFloors: 9, price: 55000 });
+    expect(parsePropertyText('5 qavat 2 xona 65 000 $').price).toBe(65000);
+    expect(parsePropertyText('narxi $ 120 500, kelishamiz').price).toBe(120500);
+    expect(parsePropertyText('70 ming dollar').price).toBe(70000);
+    expect(parsePropertyText('65 тыс у.е.').price).toBe(65000);
+  });
+
+  it('reads prices in so\'m', () => {
+    expect(parsePropertyText('Sergeli 1 xona 850 mln so\'m')).toMatchObject({ price: 850_000_000, currency: 'UZS' });
+  });
+
+  it('detects the property type', () => {
+    expect(parsePropertyText('Hovli 6 sotix Qibray').type).toBe('house');
+    expect(parsePropertyText('Ofis 120 m2 Mirobod').type).toBe('office');
+  });
+
+  it('returns nothing for an empty note', () => {
+    expect(parsePropertyText('   ')).toEqual({});
+  });
+});
@@ -0,0 +1,230 @@
+import type { PropertyDetails, PropertyType } from '@/types';
+
+// ===================================
+// Property Text Parser
+// ===================================
+// Pure, dependency-free helpers shared by the client (offline templates)
+// and the /api/extract-details endpoint (heuristic fallback + validation).
+
+export type ParsedPropertyDetails = Partial<Omit<PropertyDetails, 'description' | 'rawInput'>>;
+
+export interface PropertyValidationResult {
+  details: ParsedPropertyDetails;
+  errors: string[];
+}
+
+const PROPERTY_TYPES: PropertyType[] = ['apartment', 'house', 'office', 'land', 'commercial'];
+
+// Tashkent districts in Latin and Cyrillic spelling -> canonical name
+const DISTRICTS: Array<[RegExp, string]> = [
+  [/chilonzor|chilanzar|чиланзар|чилонзор/i, 'Chilonzor'],
+  [/yunusobod|yunusabad|юнусабад|юнусобод/i, 'Yunusobod'],
+  [/mirzo[\s-]?ulug'?bek|мирзо[\s-]?улугбек/i, "Mirzo Ulug'bek"],
+  [/yakkasaroy|yakkasaray|яккасарай|яккасарой/i, 'Yakkasaroy'],
+  [/shayxontohur|shaykhantahur|шайхантахур|шайхонтохур/i, 'Shayxontohur'],
+  [/olmazor|almazar|алмазар|олмазор/i, 'Olmazor'],
+  [/uchtepa|учтепа/i, 'Uchtepa'],
+  [/sergeli|сергели/i, 'Sergeli'],
+  [/yashnobod|yashnabad|яшнабад|яшнобод/i, 'Yashnobod'],
+  [/mirobod|mirabad|мирабад|миробод/i, 'Mirobod'],
+  [/bektemir|бектемир/i, 'Bektemir'],
+  [/yangihayot|янгихаёт/i, 'Yangihayot'],
+];
+
+// Keyword -> canonical feature (matches PROPERTY_FEATURES in constants)
+const FEATURES: Array<[RegExp, string]> = [
+  [/evro\s*remont|yevro\s*remont|евро\s*ремонт|евроремонт/i, 'Евроремонт'],
+  [/mebel|мебел/i, 'Мебель'],
+  [/texnika|тех(ника|никой)/i, 'Техника'],
+  [/konditsioner|kondisioner|кондиционер/i, 'Кондиционер'],
+  [/balkon|балкон/i, 'Балкон'],
+  [/lodjiya|lodjia|лоджи/i, 'Лоджия'],
+  [/parkovka|parking|парковк|паркинг/i, 'Паркинг'],
+  [/qo'riqlash|ohrana|охран/i, 'Охрана'],
+  [/bolalar maydonchasi|детская площадка/i, 'Детская площадка'],
+  [/sport\s*zal|спортзал|\bgym\b/i, 'Спортзал'],
+  [/basseyn|бассейн|\bpool\b/i, 'Бассейн'],
+  [/\blift\b|лифт/i, 'Лифт'],
+  [/internet|интернет|wi-?fi/i, 'Интернет'],
+];
+
+function toNumber(value: string): number {
+  return parseFloat(value.replace(/\s/g, '').replace(',', '.'));
+}
+
+function detectType(text: string): PropertyType {
+  if (/\bofis\b|офис/i.test(text)) return 'office';
+  if (/magazin|do'kon|коммерч|магазин|savdo/i.test(text)) return 'commercial';
+  if (/hovli|\buy\b|дом(?![а-я])|коттедж|hovli-joy/i.test(text)) return 'house';
+  if (/sotix|sotka|соток|сотик|участ|yer uchast/i.test(text)) return 'land';
+  return 'apartment';
+}
+
+// Spaces count only as thousands separators, so in "4/9 55000$" the floor
+// is not glued onto the price
+const USD_PRICE = /(\$\s*)?(?<![\d.,])((?:\d{1,3}(?:[ \u00a0]\d{3})+|\d+)(?:[.,]\d+)?)(?!\d)\s*(k|к|ming|тыс\.?)?\s*(\$|usd|у\.?\s?е\.?|y\.?\s?e\.?|dollar|доллар)?/gi;
+
+function detectPrice(text: string): Pick<PropertyDetails, 'price' | 'currency'> | null {
+  // 65k$, 65 000 $, $65000, 65 ming dollar, 65 тыс у.е.
+  for (const [, prefix, amount, multiplier, suffix] of text.matchAll(USD_PRICE)) {
+    if (!prefix && !suffix) continue;
+    const value = toNumber(amount) * (multiplier ? 1000 : 1);
+    if (value > 0) return { price: Math.round(value), currency: 'USD' };
+  }
+
+  // 850 mln so'm, 850 млн сум
+  const uzs = text.match(/(\d+(?:[.,]\d+)?)\s*(mln|млн|million|миллион)\s*(so'?m|сум|сўм)?/i);
+  if (uzs) return { price: Math.round(toNumber(uzs[1]) * 1_000_000), currency: 'UZS' };
+
+  const plainUzs = text.match(/(\d[\d\s]{5,})\s*(so'?m|сум|сўм)/i);
+  if (plainUzs) return { price: Math.round(toNumber(plainUzs[1])), currency: 'UZS' };
+
+  return null;
+}
+
+/**
+ * Best-effort extraction of structured facts from an agent's free-form note,
+ * e.g. "3x 75kv 5/9 Chilonzor 65k$ evro remont".
+ * Only fields that were actually found are returned.
+ */
+export function parsePropertyText(text: string): ParsedPropertyDetails {
+  const details: ParsedPropertyDetails = {};
+  const input = text.trim();
+  if (!input) return details;
+
+  details.type = detectType(input);
+
+  const rooms = input.match(/(\d{1,2})\s*(?:-?\s*)(?:x(?![a-z])|х(?![а-я])|xona|xonali|комн|к(?![а-я])|room)/i);
+  if (rooms) details.rooms = parseInt(rooms[1], 10);
+
+  // "kv" only as a unit: "9 kvartal" is a neighbourhood, not 9 m²
+  const area = input.match(/(\d+(?:[.,]\d+)?)\s*(?:kv(?:\.|\s*m\b|\b)(?![a-zа-я])|кв(?:\.|\s*м(?![а-я])|(?![а-я]))|m2|м2|m²|м²|sotix|sotka|соток)/i);
+  if (area) details.area = toNumber(area[1]);
+
+  const floorPair = input.match(/(?:^|[^\d$])(\d{1,2})\s*\/\s*(\d{1,2})(?!\d)/);
+  if (floorPair) {
+    details.floor = parseInt(floorPair[1], 10);
+    details.totalFloors = parseInt(floorPair[2], 10);
+  } else {
+    const floor = input.match(/(\d{1,2})\s*-?\s*(?:qavat|этаж|эт\.?)/i);
+    if (floor) details.floor = parseInt(floor[1], 10);
+  }
+
+  const price = detectPrice(input);
+  if (price) Object.assign(details, price);
+
+  const district = DISTRICTS.find(([pattern]) => pattern.test(input));
+  if (district) details.location = district[1];
+
+  const features = FEATURES.filter(([pattern]) => pattern.test(input)).map(([, name]) => name);
+  if (features.length > 0) details.features = features;
+
+  return details;
+}
+
+/**
+ * Coerce and sanity-check an untrusted object (e.g. LLM JSON output)
+ * into PropertyDetails fields. Invalid fields are dropped and reported.
+ */
+export function validatePropertyDetails(input: unknown): PropertyValidationResult {
+  const errors: string[] = [];
+  const details: ParsedPropertyDetails = {};
+
+  if (!input || typeof input !== 'object') {
+    return { details, errors: ['Details must be an object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  const num = (key: string, min: number, max: number, integer = false): number | undefined => {
+    if (raw[key] === undefined || raw[key] === null || raw[key] === '') return undefined;
+    const value = typeof raw[key] === 'number' ? raw[key] as number : toNumber(String(raw[key]));
+    if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      errors.push(`${key} is out of range`);
+      return undefined;
+    }
+    return value;
+  };
+
+  if (typeof raw.type === 'string' && PROPERTY_TYPES.includes(raw.type as PropertyType)) {
+    details.type = raw.type as PropertyType;
+  } else if (raw.type !== undefined) {
+    errors.push('type is invalid');
+  }
+
+  details.rooms = num('rooms', 1, 50, true);
+  details.area = num('area', 1, 100_000);
+  details.floor = num('floor', -2, 100, true);
+  details.totalFloors = num('totalFloors', 1, 100, true);
+  details.price = num('price', 1, 1_000_000_000_000);
+
+  if (details.floor !== undefined && details.totalFloors !== undefined && details.floor > details.totalFloors) {
+    errors.push('floor is above totalFloors');
+    details.floor = undefined;
+  }
+
+  if (raw.currency === 'USD' || raw.currency === 'UZS') {
+    details.currency = raw.currency;
+  } else if (raw.currency !== undefined && raw.currency !== null) {
+    errors.push('currency must be USD or UZS');
+  }
+
+  if (typeof raw.location === 'string' && raw.location.trim()) {
+    details.location = raw.location.trim().slice(0, 200);
+  }
+
+  if (Array.isArray(raw.features)) {
+    details.features = raw.features
+      .filter((f): f is string => typeof f === 'string' && f.trim().length > 0)
+      .map((f) => f.trim().slice(0, 60))
+      .slice(0, 30);
+  }
+
+  // Drop keys that ended up undefined so the result stays a clean partial
+  (Object.keys(details) as Array<keyof ParsedPropertyDetails>).forEach((key) => {
+    if (details[key] === undefined) delete details[key];
+  });
+
+  return { details, errors };
+}
+
+/**
+ * True when enough facts are known to build a structured template
+ */
+export function hasCoreDetails(details: ParsedPropertyDetails): boolean {
+  return Boolean(details.rooms && details.area && details.price);
+}
+
+/**
+ * Fill missing fields with neutral defaults to get a full PropertyDetails
+ */
+export function toPropertyDetails(details: ParsedPropertyDetails, rawInput?: string): PropertyDetails {
+  return {
+    type: details.type ?? 'apartment',
+    rooms: details.rooms ?? 0,
+    area: details.area ?? 0,
+    floor: details.floor,
+    totalFloors: details.totalFloors,
+    price: details.price ?? 0,
+    currency: details.currency ?? 'USD',
+    location: details.location ?? '',
+    features: details.features ?? [],
+    rawInput,
+  };
+}
+
+/**
+ * Human-readable fact list used to ground AI prompts
+ */
+export function formatDetailsForPrompt(details: ParsedPropertyDetails): string {
+  const lines = [
+    details.type ? `Type: ${details.type}` : '',
+    details.rooms ? `Rooms: ${details.rooms}` : '',
+    details.area ? `Area: ${details.area} m²` : '',
+    details.floor ? `Floor: ${details.floor}${details.totalFloors ? ` of ${details.totalFloors}` : ''}` : '',
+    details.price ? `Price: ${details.price} ${details.currency ?? ''}`.trim() : '',
+    details.location ? `Location: ${details.location}` : '',
+    details.features?.length ? `Features: ${details.features.join(', ')}` : '',
+  ];
+  return lines.filter(Boolean).join('\n');
+}
@@ -0,0 +1,69 @@
+import jsQR from 'jsqr';
+import { describe, expect, it } from 'vitest';
+import { byteCapacity, encodeQr, type QrCode, type QrErrorCorrection } from './qrCode';
+
+const SCALE = 4;
+
+// Draw the module grid the way a screen would, then read it back
+function decode(code: QrCode): string | null {
+  const width = code.size * SCALE;
+  const data = new Uint8ClampedArray(width * width * 4);
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = code.modules[Math.floor(y / SCALE)][Math.floor(x / SCALE)] ? 0 : 255;
+      const offset = (y * width + x) * 4;
+      data[offset] = data[offset + 1] = data[offset + 2] = value;
+      data[offset + 3] = 255;
+    }
+  }
+  return jsQR(data, width, width, { inversionAttempts: 'dontInvert' })?.data ?? null;
+}
+
+const LEVELS: QrErrorCorrection[] = ['L', 'M', 'Q', 'H'];
+
+describe('encodeQr', () => {
+  it.each(LEVELS)('reads back a listing link at level %s', (level) => {
+    const text = 'https://t.me/uyjoy_bot?start=listing_48213';
+    const code = encodeQr(text, { errorCorrection: level });
+    expect(decode(code)).toBe(text);
+  });
+
+  it.each([
+    [1, 'L'],
+    [5, 'M'],
+    [10, 'Q'],
+    [25, 'H'],
+    [40, 'L'],
+  ] as const)('fills version %i at level %s to capacity', (version, level) => {
+    const capacity = byteCapacity(version, level);
+    const text = Array.from({ length: capacity }, (_, i) => String.fromCharCode(97 + (i % 26))).join('');
+    const code = encodeQr(text, { errorCorrection: level });
+    expect(code.version).toBe(version);
+    expect(decode(code)).toBe(text);
+  });
+
+  it('moves up a version once the text no longer fits', () => {
+    const text = 'x'.repeat(byteCapacity(3, 'M') + 1);
+    expect(encodeQr(text).version).toBe(4);
+  });
+
+  it('counts UTF-8 bytes, not characters', () => {
+    const text = 'Yunusobod, 3 xonali — 85 000 $, Юнусабад, 3-комнатная';
+    const code = encodeQr(text, { errorCorrection: 'Q' });
+    expect(byteCapacity(code.version, 'Q')).toBeGreaterThanOrEqual(new TextEncoder().encode(text).length);
+    expect(decode(code)).toBe(text);
+  });
+
+  it('adds the quiet zone around the symbol', () => {
+    const code = encodeQr('a', { quietZone: 2 });
+    expect(code.size).toBe(21 + 4);
+    expect(code.modules[0].every((dark) => !dark)).toBe(true);
+    expect(code.modules[2][2]).toBe(true);
+  });
+
+  it('rejects text longer than version 40 holds', () => {
+    expect(() => encodeQr('x'.repeat(byteCapacity(40, 'H') + 1), { errorCorrection: 'H' }))
+      .toThrow('QR payload too long');
+    expect(() => encodeQr('x'.repeat(byteCapacity(40, 'L') + 1))).toThrow('QR payload too long');
+  });
+});
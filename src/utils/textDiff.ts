@@ -0,0 +1,92 @@
+// ===================================
+// Word-level Text Diff
+// ===================================
+// Longest common subsequence over words (whitespace kept as its own token),
+// used to compare two versions of a generated post side by side. Posts are
+// short, so the O(n·m) table is fine; very long pairs fall back to lines.
+
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+// Above this many table cells the diff runs on lines instead of words
+const MAX_WORD_CELLS = 2_000_000;
+
+function tokenize(text: string, unit: 'word' | 'line'): string[] {
+  const parts = unit === 'word' ? text.split(/(\s+)/) : text.split(/(\n)/);
+  return parts.filter((part) => part !== '');
+}
+
+function diffTokens(before: string[], after: string[]): DiffSegment[] {
+  const n = before.length;
+  const m = after.length;
+
+  // lcs[i][j] = LCS length of before[i..] and after[j..]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (op: DiffOp, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.op === op) last.text += text;
+    else segments.push({ op, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      push('equal', before[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < n) push('removed', before[i++]);
+  while (j < m) push('added', after[j++]);
+
+  return segments;
+}
+
+/**
+ * Diff two texts into equal / removed / added runs
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  const words = [tokenize(before, 'word'), tokenize(after, 'word')];
+  const unit = words[0].length * words[1].length > MAX_WORD_CELLS ? 'line' : 'word';
+  return unit === 'word'
+    ? diffTokens(words[0], words[1])
+    : diffTokens(tokenize(before, 'line'), tokenize(after, 'line'));
+}
+
+/**
+ * Split a diff into the two sides of a side-by-side view
+ */
+export function splitDiff(segments: DiffSegment[]): { before: DiffSegment[]; after: DiffSegment[] } {
+  return {
+    before: segments.filter((segment) => segment.op !== 'added'),
+    after: segments.filter((segment) => segment.op !== 'removed'),
+  };
+}
+
+/**
+ * Counts of changed words, for a short "+12 / −5" summary
+ */
+export function diffStats(segments: DiffSegment[]): { added: number; removed: number } {
+  const count = (op: DiffOp) => segments
+    .filter((segment) => segment.op === op)
+    .reduce((sum, segment) => sum + (segment.text.match(/\S+/g)?.length ?? 0), 0);
+  return { added: count('added'), removed: count('removed') };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { createStreamTransliterator, cyrillicToLatin, detectUzbekScript, latinToCyrillic } from './transliterate';
+
+describe('latinToCyrillic', () => {
+  it('converts digraphs as one letter', () => {
+    expect(latinToCyrillic('shahar choy')).toBe('шаҳар чой');
+    expect(latinToCyrillic("o'g'il")).toBe('ўғил');
+    expect(latinToCyrillic("yo'l yoz")).toBe('йўл ёз');
+    expect(latinToCyrillic("Is'hoq")).toBe('Исҳоқ');
+  });
+
+  it('accepts every apostrophe variant for oʻ and gʻ', () => {
+    for (const apostrophe of ["'", '‘', '’', 'ʻ', 'ʼ', '`']) {
+      expect(latinToCyrillic(`o${apostrophe}zbek g${apostrophe}isht`)).toBe('ўзбек ғишт');
+    }
+  });
+
+  it('writes the tutuq belgisi between letters as ъ', () => {
+    expect(latinToCyrillic("ma'lumot a'lo")).toBe('маълумот аъло');
+  });
+
+  it('picks э or е by position', () => {
+    expect(latinToCyrillic('ekran yer evro remont')).toBe('экран ер эвро ремонт');
+  });
+
+  it('keeps the capitalization', () => {
+    expect(latinToCyrillic("Shahar SHAHAR O'zbekiston CHILONZOR")).toBe('Шаҳар ШАҲАР Ўзбекистон ЧИЛОНЗОР');
+  });
+
+  it('leaves links, e-mails and mentions alone', () => {
+    expect(latinToCyrillic('uy https://t.me/uyplus info@uyplus.uz @uyplus')).toBe('уй https://t.me/uyplus info@uyplus.uz @uyplus');
+  });
+});
+
+describe('cyrillicToLatin', () => {
+  it('converts letters that need two Latin letters', () => {
+    expect(cyrillicToLatin('шаҳар чой ўғил')).toBe('shahar choy oʻgʻil');
+    expect(cyrillicToLatin('Исҳоқ')).toBe('Isʼhoq');
+  });
+
+  it('keeps the capitalization', () => {
+    expect(cyrillicToLatin('Шаҳар ШАҲАР Ўзбекистон')).toBe('Shahar SHAHAR Oʻzbekiston');
+  });
+
+  it('picks ye or e by position', () => {
+    expect(cyrillicToLatin('ер мебель')).toBe('yer mebel');
+  });
+
+  it('round-trips Latin in canonical spelling', () => {
+    const text = 'Toshkent shahri, Chilonzor tumani: 3 xonali uy, gʻisht, yevro remont. Maʼlumot uchun qoʻngʻiroq qiling!';
+    expect(cyrillicToLatin(latinToCyrillic(text))).toBe(text);
+  });
+});
+
+describe('createStreamTransliterator', () => {
+  const TEXT = "Toshkent shahri, o'zbek g'isht uy. SHOSHILING!\nMa'lumot: @uyplus";
+
+  const streamed = (chunks: string[]) => {
+    const stream = createStreamTransliterator('cyrillic');
+    return chunks.map((chunk) => stream.push(chunk)).join('') + stream.flush();
+  };
+
+  it('matches the one-shot result whatever the chunk boundaries', () => {
+    const expected = latinToCyrillic(TEXT);
+    expect(streamed([TEXT])).toBe(expected);
+    expect(streamed(TEXT.split(''))).toBe(expected);
+    expect(streamed(['Tos', 'hkent s', 'hahri, o', "'zbek g", "'isht uy. SHOS", 'HILING!\nMa', "'lumot: @uy", 'plus'])).toBe(expected);
+  });
+
+  it('holds back an unfinished word until more text arrives', () => {
+    const stream = createStreamTransliterator('cyrillic');
+    expect(stream.push('uy s')).toBe('уй ');
+    expect(stream.push('hahar')).toBe('');
+    expect(stream.flush()).toBe('шаҳар');
+  });
+
+  it('converts to Latin too', () => {
+    const stream = createStreamTransliterator('latin');
+    expect(stream.push('Ўзбе') + stream.push('кистон ш') + stream.flush()).toBe('Oʻzbekiston sh');
+  });
+});
+
+describe('detectUzbekScript', () => {
+  it('counts letters of each script', () => {
+    expect(detectUzbekScript('Chilonzor, 3 xona')).toBe('latin');
+    expect(detectUzbekScript('Чилонзор, 3 хона, Wi-Fi')).toBe('cyrillic');
+  });
+});
@@ -0,0 +1,225 @@
+// ===================================
+// Uzbek Latin ⇄ Cyrillic Transliteration
+// ===================================
+// Deterministic and word-local (a word's output depends only on the word),
+// so text can be converted chunk by chunk at whitespace boundaries while
+// streaming. URLs, e-mails and @mentions are left untouched.
+
+export type UzbekScript = 'latin' | 'cyrillic';
+
+// Every apostrophe variant agents type for oʻ, gʻ and the tutuq belgisi
+const APOSTROPHES = `'‘’ʻʼ\``;
+const APOSTROPHE_CLASS = `[${APOSTROPHES}]`;
+
+// Canonical output characters
+const OKINA = 'ʻ';   // oʻ, gʻ
+const TUTUQ = 'ʼ';   // Glottal stop (Cyrillic ъ)
+
+const LATIN_VOWELS = 'aeiouAEIOU';
+const CYRILLIC_VOWELS = 'аеёиоуўэюяАЕЁИОУЎЭЮЯ';
+
+// Multi-letter Latin sequences, longest first
+const LATIN_SEQUENCES: [string, string][] = [
+  ["s'h", 'сҳ'], // Is'hoq — the apostrophe separates s and h
+  ["yo'", 'йў'], // yo'l, not ё + '
+  ["o'", 'ў'],
+  ["g'", 'ғ'],
+  ['sh', 'ш'],
+  ['ch', 'ч'],
+  ['yo', 'ё'],
+  ['yu', 'ю'],
+  ['ya', 'я'],
+];
+
+const LATIN_LETTERS: Record<string, string> = {
+  a: 'а', b: 'б', d: 'д', f: 'ф', g: 'г', h: 'ҳ', i: 'и', j: 'ж', k: 'к', l: 'л',
+  m: 'м', n: 'н', o: 'о', p: 'п', q: 'қ', r: 'р', s: 'с', t: 'т', u: 'у', v: 'в',
+  x: 'х', y: 'й', z: 'з', c: 'с', w: 'в',
+};
+
+const CYRILLIC_LETTERS: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', ё: 'yo', ж: 'j', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u',
+  ф: 'f', х: 'x', ч: 'ch', ш: 'sh', щ: 'sh', ы: 'i', э: 'e', ю: 'yu', я: 'ya',
+  ў: `o${OKINA}`, қ: 'q', ғ: `g${OKINA}`, ҳ: 'h', ъ: TUTUQ, ь: '',
+};
+
+// Tokens that must never be transliterated
+const PROTECTED = /^(?:https?:\/\/\S+|www\.\S+|\S+@\S+\.\S+|@\w+)$/i;
+
+const isUpper = (char: string) => char !== char.toLowerCase() && char === char.toUpperCase();
+const isVowel = (char: string, vowels: string) => char !== '' && vowels.includes(char);
+
+/**
+ * Apply the case of `source` to `target` ("Sh" → "Ш", "SH" → "Ш", "Ш" → "Sh" or "SH")
+ */
+function matchCase(target: string, source: string, wordIsUpper: boolean): string {
+  if (!isUpper(source[0])) return target;
+  if (wordIsUpper || (source.length > 1 && isUpper(source[1]))) return target.toUpperCase();
+  return target.charAt(0).toUpperCase() + target.slice(1);
+}
+
+function isUpperWord(word: string): boolean {
+  const letters = word.replace(/[^\p{L}]/gu, '');
+  return letters.length > 1 && letters === letters.toUpperCase() && letters !== letters.toLowerCase();
+}
+
+/**
+ * Split into whitespace-delimited words and the whitespace between them
+ */
+function mapWords(text: string, convert: (word: string) => string): string {
+  return text.split(/(\s+)/).map((part) => (
+    !part || /^\s+$/.test(part) || PROTECTED.test(part) ? part : convert(part)
+  )).join('');
+}
+
+// ===================================
+// Latin → Cyrillic
+// ===================================
+
+function latinWordToCyrillic(word: string): string {
+  const normalized = word.replace(new RegExp(APOSTROPHE_CLASS, 'g'), "'");
+  const upperWord = isUpperWord(normalized);
+  let result = '';
+  let i = 0;
+
+  while (i < normalized.length) {
+    const rest = normalized.slice(i);
+    const lower = rest.toLowerCase();
+    const prev = normalized[i - 1] ?? '';
+    const atWordStart = !/\p{L}/u.test(prev);
+
+    const sequence = LATIN_SEQUENCES.find(([latin]) => lower.startsWith(latin));
+    if (sequence) {
+      result += matchCase(sequence[1], rest, upperWord);
+      i += sequence[0].length;
+      continue;
+    }
+
+    const char = normalized[i];
+    const key = char.toLowerCase();
+
+    if (key === 'y' && lower[1] === 'e') {
+      // "ye" is always е ("yer" → "ер", "yevro" → "евро")
+      result += matchCase('е', rest, upperWord);
+      i += 2;
+      continue;
+    }
+    if (key === 'e') {
+      // Word-initial e is э, elsewhere е (after a vowel too: "poeziya" → "поэзия")
+      result += matchCase(atWordStart || isVowel(prev, LATIN_VOWELS) ? 'э' : 'е', char, upperWord);
+      i += 1;
+      continue;
+    }
+    if (char === "'") {
+      // Tutuq belgisi between letters ("a'lo", "ma'lumot")
+      result += /\p{L}/u.test(prev) && /\p{L}/u.test(normalized[i + 1] ?? '') ? 'ъ' : char;
+      i += 1;
+      continue;
+    }
+
+    const mapped = LATIN_LETTERS[key];
+    result += mapped ? matchCase(mapped, char, upperWord) : char;
+    i += 1;
+  }
+
+  return result;
+}
+
+/**
+ * Uzbek Latin → Cyrillic ("Oʻzbekiston" → "Ўзбекистон")
+ */
+export function latinToCyrillic(text: string): string {
+  return mapWords(text, latinWordToCyrillic);
+}
+
+// ===================================
+// Cyrillic → Latin
+// ===================================
+
+function cyrillicWordToLatin(word: string): string {
+  const upperWord = isUpperWord(word);
+  let result = '';
+
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i];
+    const key = char.toLowerCase();
+    const prev = word[i - 1]?.toLowerCase() ?? '';
+    const atWordStart = !/\p{L}/u.test(prev);
+
+    let mapped: string | undefined;
+    if (key === 'е') {
+      // е is "ye" word-initially and after vowels / ъ / ь
+      mapped = atWordStart || isVowel(prev, CYRILLIC_VOWELS) || prev === 'ъ' || prev === 'ь' ? 'ye' : 'e';
+    } else if (key === 'ц') {
+      // ц is "ts" after a vowel, "s" elsewhere ("цемент" → "sement", "станция" → "stansiya")
+      mapped = isVowel(prev, CYRILLIC_VOWELS) ? 'ts' : 's';
+    } else if (key === 'с' && word[i + 1]?.toLowerCase() === 'ҳ') {
+      // Keep сҳ apart from ш
+      mapped = `s${TUTUQ}`;
+    } else {
+      mapped = CYRILLIC_LETTERS[key];
+    }
+
+    if (mapped === undefined) {
+      result += char;
+    } else {
+      // Look ahead so "Шахар" → "Shahar" but "ШАХАР" → "SHAHAR"
+      const next = word[i + 1] ?? '';
+      result += matchCase(mapped, char + next, upperWord);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Uzbek Cyrillic → Latin ("Ўзбекистон" → "Oʻzbekiston")
+ */
+export function cyrillicToLatin(text: string): string {
+  return mapWords(text, cyrillicWordToLatin);
+}
+
+// ===================================
+// Helpers
+// ===================================
+
+/**
+ * Script with more letters in the text (Latin wins ties)
+ */
+export function detectUzbekScript(text: string): UzbekScript {
+  const cyrillic = (text.match(/\p{Script=Cyrillic}/gu) ?? []).length;
+  const latin = (text.match(/\p{Script=Latin}/gu) ?? []).length;
+  return cyrillic > latin ? 'cyrillic' : 'latin';
+}
+
+/**
+ * Convert text to the given script; text already in that script is unchanged
+ */
+export function toUzbekScript(text: string, script: UzbekScript): string {
+  return script === 'cyrillic' ? latinToCyrillic(text) : cyrillicToLatin(text);
+}
+
+/**
+ * Transliterates a stream of text deltas. Only complete words are converted,
+ * the unfinished tail is held back until more text (or `flush`) arrives.
+ */
+export function createStreamTransliterator(script: UzbekScript) {
+  let pending = '';
+
+  return {
+    push(delta: string): string {
+      pending += delta;
+      const boundary = pending.search(/\s\S*$/);
+      if (boundary === -1) return '';
+      const ready = pending.slice(0, boundary + 1);
+      pending = pending.slice(boundary + 1);
+      return toUzbekScript(ready, script);
+    },
+    flush(): string {
+      const rest = pending;
+      pending = '';
+      return toUzbekScript(rest, script);
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import type { Platform, VoiceProfileContent } from '@/types';
+import { PLATFORM_RULES } from './platformFormat.js';
+
+// ===================================
+// Voice Profile Helpers
+// ===================================
+// Shared by the client (settings form) and /api/generate-description
+// (prompt merge + post-processing), so both agree on limits.
+
+export const VOICE_PROFILE_LIMITS = {
+  agencyName: 80,
+  instructions: 1000,
+  footer: 500,
+  signature: 300,
+  hashtags: 30,
+  forbiddenWords: 50,
+  item: 40, // Max length of a single hashtag / forbidden word
+} as const;
+
+function text(value: unknown, max: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, max) : '';
+}
+
+function list(value: unknown, maxItems: number): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\n]/) : [];
+  return [...new Set(
+    items
+      .filter((item): item is string => typeof item === 'string')
+      .map((item) => item.trim().slice(0, VOICE_PROFILE_LIMITS.item))
+      .filter(Boolean)
+  )].slice(0, maxItems);
+}
+
+/**
+ * Coerce untrusted input into a VoiceProfileContent. Returns null when nothing is set.
+ */
+export function sanitizeVoiceProfile(input: unknown): VoiceProfileContent | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = input as Record<string, unknown>;
+
+  const profile: VoiceProfileContent = {
+    agencyName: text(raw.agencyName, VOICE_PROFILE_LIMITS.agencyName),
+    instructions: text(raw.instructions, VOICE_PROFILE_LIMITS.instructions),
+    footer: text(raw.footer, VOICE_PROFILE_LIMITS.footer),
+    signature: text(raw.signature, VOICE_PROFILE_LIMITS.signature),
+    hashtags: list(raw.hashtags, VOICE_PROFILE_LIMITS.hashtags)
+      .map((tag) => (tag.startsWith('#') ? tag : `#${tag}`).replace(/\s+/g, '')),
+    forbiddenWords: list(raw.forbiddenWords, VOICE_PROFILE_LIMITS.forbiddenWords),
+  };
+
+  const isEmpty = !profile.agencyName && !profile.instructions && !profile.footer
+    && !profile.signature && profile.hashtags.length === 0 && profile.forbiddenWords.length === 0;
+
+  return isEmpty ? null : profile;
+}
+
+/**
+ * Extra system prompt section describing the agency's voice
+ */
+export function formatVoiceProfileForPrompt(profile: VoiceProfileContent, platform: Platform): string {
+  // Single-line targets (SMS) have no room for signature or footer blocks
+  const withBlocks = !PLATFORM_RULES[platform].singleLine;
+  const lines = [
+    profile.agencyName ? `- Write on behalf of the agency "${profile.agencyName}".` : '',
+    profile.instructions ? `- Agency style notes: ${profile.instructions}` : '',
+    profile.forbiddenWords.length ? `- NEVER use these words: ${profile.forbiddenWords.join(', ')}.` : '',
+    profile.hashtags.length && PLATFORM_RULES[platform].hashtags ? `- Include these hashtags: ${profile.hashtags.join(' ')}` : '',
+    profile.signature && withBlocks ? `- End with this signature block exactly:\n${profile.signature}` : '',
+    profile.footer && withBlocks ? `- The very last line(s) MUST be exactly:\n${profile.footer}` : '',
+  ];
+  return `AGENCY VOICE PROFILE (overrides the style guidelines above where they conflict):\n${lines.filter(Boolean).join('\n')}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export interface VoiceProfileResult {
+  body: string;  // The post without forbidden words
+  tail: string;  // Signature, missing hashtags and footer, to append ('' when none)
+}
+
+/**
+ * Enforce the parts of a profile that must not depend on the model:
+ * strips forbidden words and returns the signature, missing hashtags and
+ * footer apart from the body, so length limits never cut them off.
+ */
+export function applyVoiceProfile(input: string, profile: VoiceProfileContent, platform: Platform): VoiceProfileResult {
+  let result = input;
+
+  for (const word of profile.forbiddenWords) {
+    // Unicode-aware word boundaries (\b does not work for Cyrillic)
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(word)}(?=$|[^\\p{L}\\p{N}])`, 'giu');
+    result = result.replace(pattern, '$1');
+  }
+  result = result.replace(/[ \t]{2,}/g, ' ').replace(/ +([,.!?])/g, '$1').trim();
+
+  if (PLATFORM_RULES[platform].singleLine) return { body: result, tail: '' };
+
+  // Signature and footer always move to the tail, even when the model wrote them
+  const tail: string[] = [];
+  if (profile.signature) {
+    result = result.replace(profile.signature, '').trim();
+    tail.push(profile.signature);
+  }
+
+  if (PLATFORM_RULES[platform].hashtags) {
+    const missing = profile.hashtags.filter((tag) => !result.toLowerCase().includes(tag.toLowerCase()));
+    if (missing.length) tail.push(missing.join(' '));
+  }
+
+  if (profile.footer) {
+    result = result.replace(profile.footer, '').trim();
+    tail.push(profile.footer);
+  }
+
+  return { body: result, tail: tail.join('\n\n') };
+}
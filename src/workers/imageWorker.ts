@@ -0,0 +1,107 @@
+import { enhanceContext, drawSimpleWatermark } from '@/utils/image/pixelOps';
+import { drawBrandingWatermark, type BrandingWatermarkOptions } from '@/utils/image/brandingWatermark';
+import { embedProvenance } from '@/utils/image/provenance';
+import { fontStack, loadWatermarkFont } from '@/utils/fonts';
+import type { EnhancementConfig, WatermarkConfig, WatermarkFont, ProvenanceTag } from '@/types';
+
+// ===================================
+// Image Worker
+// ===================================
+// Runs the per-pixel steps on an OffscreenCanvas so 12MP photos don't freeze
+// the WebView. Bitmaps arrive transferred (zero-copy); results go back as
+// encoded Blobs. Spawned by ImageWorkerPool, see utils/image/workerPool.ts.
+
+export interface WorkerOutput {
+  format: 'webp' | 'jpeg' | 'png';
+  quality: number;
+}
+
+export type ImageWorkerJob =
+  | { type: 'enhance'; bitmap: ImageBitmap; config: EnhancementConfig; output: WorkerOutput }
+  | { type: 'resize'; bitmap: ImageBitmap; width: number; height: number; background?: string; output: WorkerOutput }
+  | { type: 'watermark'; bitmap: ImageBitmap; config: WatermarkConfig; font: WatermarkFont | null; logo: ImageBitmap | null; isPremium: boolean; output: WorkerOutput }
+  | { type: 'branding'; bitmap: ImageBitmap; options: Omit<BrandingWatermarkOptions, 'logo' | 'fontFamily'>; font: WatermarkFont | null; logo: ImageBitmap | null; output: WorkerOutput }
+  | { type: 'provenance'; bitmap: ImageBitmap; tag: ProvenanceTag; output: WorkerOutput };
+
+export interface ImageWorkerRequest {
+  id: number;
+  job: ImageWorkerJob;
+}
+
+export type ImageWorkerResponse =
+  | { id: number; blob: Blob; width: number; height: number }
+  | { id: number; error: string };
+
+function createContext(width: number, height: number): { canvas: OffscreenCanvas; ctx: OffscreenCanvasRenderingContext2D } {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+}
+
+async function run(job: ImageWorkerJob): Promise<{ blob: Blob; width: number; height: number }> {
+  const { bitmap } = job;
+  const width = job.type === 'resize' ? job.width : bitmap.width;
+  const height = job.type === 'resize' ? job.height : bitmap.height;
+  const { canvas, ctx } = createContext(width, height);
+
+  try {
+    switch (job.type) {
+      case 'enhance':
+        ctx.drawImage(bitmap, 0, 0);
+        enhanceContext(ctx, width, height, job.config);
+        break;
+      case 'resize':
+        // White background for JPEGs (transparent PNG sources)
+        if (job.background) {
+          ctx.fillStyle = job.background;
+          ctx.fillRect(0, 0, width, height);
+        }
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        break;
+      case 'watermark':
+        // Fonts registered on the page are not visible here
+        await loadWatermarkFont(job.font);
+        ctx.drawImage(bitmap, 0, 0);
+        drawSimpleWatermark(ctx, width, height, job.config, job.logo, job.isPremium);
+        break;
+      case 'branding':
+        await loadWatermarkFont(job.font);
+        ctx.drawImage(bitmap, 0, 0);
+        drawBrandingWatermark(
+          ctx,
+          width,
+          height,
+          { ...job.options, logo: job.logo, fontFamily: fontStack(job.font) },
+          (w, h) => createContext(w, h).ctx
+        );
+        break;
+      case 'provenance': {
+        ctx.drawImage(bitmap, 0, 0);
+        const imageData = ctx.getImageData(0, 0, width, height);
+        embedProvenance(imageData.data, width, height, job.tag);
+        ctx.putImageData(imageData, 0, 0);
+        break;
+      }
+    }
+
+    const blob = await canvas.convertToBlob({ type: `image/${job.output.format}`, quality: job.output.quality });
+    return { blob, width, height };
+  } finally {
+    bitmap.close();
+    if (job.type === 'watermark' || job.type === 'branding') job.logo?.close();
+  }
+}
+
+self.onmessage = async (event: MessageEvent<ImageWorkerRequest>) => {
+  const { id, job } = event.data;
+  let response: ImageWorkerResponse;
+  try {
+    response = { id, ...(await run(job)) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,69 @@
+-- ===================================
+-- Listings (groups photos, descriptions and videos per property)
+-- ===================================
+
+CREATE TABLE IF NOT EXISTS public.listings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    telegram_id TEXT NOT NULL REFERENCES public.users(telegram_id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'archived')),
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,       -- PropertyDetails (partial)
+    photos JSONB NOT NULL DEFAULT '[]'::jsonb,        -- [{ id, originalId, url, width, height }]
+    descriptions JSONB NOT NULL DEFAULT '{}'::jsonb,  -- { telegram, instagram, olx }
+    videos JSONB NOT NULL DEFAULT '[]'::jsonb,        -- [{ id, url, created_at }]
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_listings_telegram_id
+    ON public.listings(telegram_id);
+CREATE INDEX IF NOT EXISTS idx_listings_updated_at
+    ON public.listings(updated_at DESC);
+
+-- ===================================
+-- Keep updated_at fresh
+-- ===================================
+
+CREATE OR REPLACE FUNCTION public.touch_listing_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_listings_updated_at ON public.listings;
+CREATE TRIGGER trg_listings_updated_at
+    BEFORE UPDATE ON public.listings
+    FOR EACH ROW EXECUTE FUNCTION public.touch_listing_updated_at();
+
+-- ===================================
+-- RLS
+-- ===================================
+
+ALTER TABLE public.listings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own listings" ON public.listings;
+CREATE POLICY "Users can view own listings"
+    ON public.listings
+    FOR SELECT
+    USING (true);
+
+-- Simplified for Telegram context (same as user_history)
+DROP POLICY IF EXISTS "Users can insert own listings" ON public.listings;
+CREATE POLICY "Users can insert own listings"
+    ON public.listings
+    FOR INSERT
+    WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Users can update own listings" ON public.listings;
+CREATE POLICY "Users can update own listings"
+    ON public.listings
+    FOR UPDATE
+    USING (true);
+
+DROP POLICY IF EXISTS "Users can delete own listings" ON public.listings;
+CREATE POLICY "Users can delete own listings"
+    ON public.listings
+    FOR DELETE
+    USING (true);
@@ -0,0 +1,68 @@
+-- ===================================
+-- Voice Profiles (agency prompt templates merged into AI generation)
+-- ===================================
+
+CREATE TABLE IF NOT EXISTS public.voice_profiles (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    telegram_id TEXT NOT NULL REFERENCES public.users(telegram_id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    agency_name TEXT NOT NULL DEFAULT '',
+    instructions TEXT NOT NULL DEFAULT '',
+    footer TEXT NOT NULL DEFAULT '',
+    signature TEXT NOT NULL DEFAULT '',
+    hashtags TEXT[] NOT NULL DEFAULT '{}',
+    forbidden_words TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_profiles_telegram_id
+    ON public.voice_profiles(telegram_id);
+
+-- ===================================
+-- Keep updated_at fresh
+-- ===================================
+
+CREATE OR REPLACE FUNCTION public.touch_voice_profile_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_voice_profiles_updated_at ON public.voice_profiles;
+CREATE TRIGGER trg_voice_profiles_updated_at
+    BEFORE UPDATE ON public.voice_profiles
+    FOR EACH ROW EXECUTE FUNCTION public.touch_voice_profile_updated_at();
+
+-- ===================================
+-- RLS
+-- ===================================
+
+ALTER TABLE public.voice_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own voice profiles" ON public.voice_profiles;
+CREATE POLICY "Users can view own voice profiles"
+    ON public.voice_profiles
+    FOR SELECT
+    USING (true);
+
+-- Simplified for Telegram context (same as listings)
+DROP POLICY IF EXISTS "Users can insert own voice profiles" ON public.voice_profiles;
+CREATE POLICY "Users can insert own voice profiles"
+    ON public.voice_profiles
+    FOR INSERT
+    WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Users can update own voice profiles" ON public.voice_profiles;
+CREATE POLICY "Users can update own voice profiles"
+    ON public.voice_profiles
+    FOR UPDATE
+    USING (true);
+
+DROP POLICY IF EXISTS "Users can delete own voice profiles" ON public.voice_profiles;
+CREATE POLICY "Users can delete own voice profiles"
+    ON public.voice_profiles
+    FOR DELETE
+    USING (true);
@@ -0,0 +1,66 @@
+-- ===================================
+-- Share Counters for New Targets
+-- ===================================
+-- uybor.uz, Facebook Marketplace, WhatsApp status and SMS
+
+ALTER TABLE public.users 
+ADD COLUMN IF NOT EXISTS uybor_shares INTEGER DEFAULT 0;
+
+ALTER TABLE public.users 
+ADD COLUMN IF NOT EXISTS facebook_shares INTEGER DEFAULT 0;
+
+ALTER TABLE public.users 
+ADD COLUMN IF NOT EXISTS whatsapp_shares INTEGER DEFAULT 0;
+
+ALTER TABLE public.users 
+ADD COLUMN IF NOT EXISTS sms_shares INTEGER DEFAULT 0;
+
+-- ===================================
+-- Increment Share Count Function
+-- ===================================
+-- ELSE branch: unknown platforms are still logged in share_analytics
+-- instead of raising CASE_NOT_FOUND
+
+CREATE OR REPLACE FUNCTION increment_share_count(
+    p_telegram_id TEXT,
+    p_platform TEXT
+) RETURNS void AS $$
+BEGIN
+    CASE p_platform
+        WHEN 'telegram' THEN
+            UPDATE public.users 
+            SET telegram_shares = COALESCE(telegram_shares, 0) + 1
+            WHERE telegram_id = p_telegram_id;
+        WHEN 'olx' THEN
+            UPDATE public.users 
+            SET olx_shares = COALESCE(olx_shares, 0) + 1
+            WHERE telegram_id = p_telegram_id;
+        WHEN 'instagram' THEN
+            UPDATE public.users 
+            SET instagram_shares = COALESCE(instagram_shares, 0) + 1
+            WHERE telegram_id = p_telegram_id;
+        WHEN 'uybor' THEN
+            UPDATE public.users 
+            SET uybor_shares = COALESCE(uybor_shares, 0) + 1
+            WHERE telegram_id = p_telegram_id;
+        WHEN 'facebook' THEN
+            UPDATE public.users 
+            SET facebook_shares = COALESCE(facebook_shares, 0) + 1
+            WHERE telegram_id = p_telegram_id;
+        WHEN 'whatsapp' THEN
+            UPDATE public.users 
+            SET whatsapp_shares = COALESCE(whatsapp_shares, 0) + 1
+            WHERE telegram_id = p_telegram_id;
+        WHEN 'sms' THEN
+            UPDATE public.users 
+            SET sms_shares = COALESCE(sms_shares, 0) + 1
+            WHERE telegram_id = p_telegram_id;
+        WHEN 'copy' THEN
+            UPDATE public.users 
+            SET copy_shares = COALESCE(copy_shares, 0) + 1
+            WHERE telegram_id = p_telegram_id;
+        ELSE
+            NULL;
+    END CASE;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,92 @@
+-- ===================================
+-- Distributed Rate Limiting (sliding window counter)
+-- ===================================
+-- One row per key and fixed window. A request is counted against the
+-- current window plus the previous window weighted by how much of it still
+-- overlaps the sliding window, which approximates a true sliding log at
+-- O(1) storage. Mirrors MemoryRateLimitStore in api/lib/rate-limiter.ts.
+
+CREATE TABLE IF NOT EXISTS public.rate_limits (
+    key TEXT NOT NULL,                 -- "<scope>:<ip|telegram_id>"
+    window_start TIMESTAMPTZ NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_window_start
+    ON public.rate_limits(window_start);
+
+-- Only the service role (API functions) touches this table
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- ===================================
+-- Hit Function
+-- ===================================
+
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(
+    p_key TEXT,
+    p_limit INTEGER,
+    p_window_seconds INTEGER
+) RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, retry_at TIMESTAMPTZ, reset_at TIMESTAMPTZ) AS $$
+DECLARE
+    v_now TIMESTAMPTZ := clock_timestamp();
+    v_window INTERVAL := make_interval(secs => p_window_seconds);
+    v_current_start TIMESTAMPTZ := to_timestamp(floor(extract(epoch FROM v_now) / p_window_seconds) * p_window_seconds);
+    v_previous INTEGER;
+    v_current INTEGER;
+    v_weight DOUBLE PRECISION;
+    v_estimated DOUBLE PRECISION;
+BEGIN
+    SELECT rl.count INTO v_previous
+    FROM public.rate_limits rl
+    WHERE rl.key = p_key AND rl.window_start = v_current_start - v_window;
+    v_previous := COALESCE(v_previous, 0);
+
+    -- Row lock serializes concurrent hits for the same key
+    INSERT INTO public.rate_limits (key, window_start, count)
+    VALUES (p_key, v_current_start, 0)
+    ON CONFLICT (key, window_start) DO NOTHING;
+
+    SELECT rl.count INTO v_current
+    FROM public.rate_limits rl
+    WHERE rl.key = p_key AND rl.window_start = v_current_start
+    FOR UPDATE;
+
+    v_weight := 1 - extract(epoch FROM (v_now - v_current_start)) / p_window_seconds;
+    v_estimated := v_previous * v_weight + v_current;
+    reset_at := v_current_start + v_window;
+
+    IF v_estimated + 1 > p_limit THEN
+        allowed := false;
+        remaining := 0;
+        -- When the previous window's share has decayed enough, or else the next window
+        IF v_previous > 0 AND v_current + 1 <= p_limit THEN
+            retry_at := v_current_start + v_window * (1 - (p_limit - 1 - v_current)::DOUBLE PRECISION / v_previous);
+        ELSE
+            retry_at := reset_at;
+        END IF;
+    ELSE
+        UPDATE public.rate_limits rl
+        SET count = rl.count + 1
+        WHERE rl.key = p_key AND rl.window_start = v_current_start;
+
+        allowed := true;
+        remaining := GREATEST(0, floor(p_limit - v_estimated - 1)::INTEGER);
+        retry_at := NULL;
+    END IF;
+
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ===================================
+-- Cleanup (windows older than a day are never read again)
+-- ===================================
+
+SELECT cron.schedule(
+    'rate-limits-cleanup',
+    '*/30 * * * *',  -- Every 30 minutes
+    $$ DELETE FROM public.rate_limits WHERE window_start < NOW() - INTERVAL '1 day' $$
+);
@@ -0,0 +1,55 @@
+-- ===================================
+-- Generation Versions (AI posts and their refinements)
+-- ===================================
+-- A first generation starts a chain; refinements and restores append to it,
+-- so earlier versions are never overwritten. IDs are created on the client
+-- so a refinement can point at its parent before the insert round-trips.
+
+CREATE TABLE IF NOT EXISTS public.generation_versions (
+    id UUID PRIMARY KEY,
+    telegram_id TEXT NOT NULL REFERENCES public.users(telegram_id) ON DELETE CASCADE,
+    chain_id UUID NOT NULL,
+    parent_id UUID REFERENCES public.generation_versions(id) ON DELETE SET NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    platform TEXT NOT NULL,
+    language TEXT NOT NULL DEFAULT 'uz',
+    tone TEXT NOT NULL DEFAULT 'expert',
+    raw_input TEXT NOT NULL DEFAULT '',
+    instruction TEXT,
+    restored_from UUID REFERENCES public.generation_versions(id) ON DELETE SET NULL,
+    provider TEXT,
+    output TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_versions_telegram_id
+    ON public.generation_versions(telegram_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_generation_versions_chain
+    ON public.generation_versions(chain_id, version);
+
+-- ===================================
+-- RLS
+-- ===================================
+
+ALTER TABLE public.generation_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own generation versions" ON public.generation_versions;
+CREATE POLICY "Users can view own generation versions"
+    ON public.generation_versions
+    FOR SELECT
+    USING (true);
+
+-- Simplified for Telegram context (same as listings)
+DROP POLICY IF EXISTS "Users can insert own generation versions" ON public.generation_versions;
+CREATE POLICY "Users can insert own generation versions"
+    ON public.generation_versions
+    FOR INSERT
+    WITH CHECK (true);
+
+-- Versions are immutable: no UPDATE policy
+DROP POLICY IF EXISTS "Users can delete own generation versions" ON public.generation_versions;
+CREATE POLICY "Users can delete own generation versions"
+    ON public.generation_versions
+    FOR DELETE
+    USING (true);
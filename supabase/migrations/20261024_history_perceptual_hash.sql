@@ -0,0 +1,12 @@
+-- ===================================
+-- Perceptual Hashes on History
+-- ===================================
+-- dHash/pHash (16 hex chars each) of the original photo behind an image
+-- history item, so re-uploading an already processed photo can be detected.
+-- Compared on the client by Hamming distance, so no index is needed.
+
+ALTER TABLE public.user_history
+ADD COLUMN IF NOT EXISTS dhash TEXT CHECK (dhash ~ '^[0-9a-f]{16}$');
+
+ALTER TABLE public.user_history
+ADD COLUMN IF NOT EXISTS phash TEXT CHECK (phash ~ '^[0-9a-f]{16}$');
@@ -0,0 +1,91 @@
+-- ===================================
+-- Watermark Presets (named brandings, e.g. one per agency)
+-- ===================================
+-- users.custom_watermark_url / users.watermark_settings stay as the last
+-- applied branding; presets are what agents switch between.
+
+CREATE TABLE IF NOT EXISTS public.watermark_presets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    telegram_id TEXT NOT NULL REFERENCES public.users(telegram_id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    logo_url TEXT,
+    text_name TEXT NOT NULL DEFAULT '',
+    text_phone TEXT NOT NULL DEFAULT '',
+    settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_watermark_presets_telegram_id
+    ON public.watermark_presets(telegram_id);
+
+-- At most one default per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_watermark_presets_one_default
+    ON public.watermark_presets(telegram_id)
+    WHERE is_default;
+
+-- ===================================
+-- Keep updated_at fresh
+-- ===================================
+
+CREATE OR REPLACE FUNCTION public.touch_watermark_preset_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_watermark_presets_updated_at ON public.watermark_presets;
+CREATE TRIGGER trg_watermark_presets_updated_at
+    BEFORE UPDATE ON public.watermark_presets
+    FOR EACH ROW EXECUTE FUNCTION public.touch_watermark_preset_updated_at();
+
+-- ===================================
+-- Switch the default in one statement (the unique index forbids two at once)
+-- ===================================
+
+CREATE OR REPLACE FUNCTION public.set_default_watermark_preset(p_telegram_id TEXT, p_preset_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.watermark_presets
+       SET is_default = FALSE
+     WHERE telegram_id = p_telegram_id AND is_default AND id <> p_preset_id;
+
+    UPDATE public.watermark_presets
+       SET is_default = TRUE
+     WHERE telegram_id = p_telegram_id AND id = p_preset_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===================================
+-- RLS
+-- ===================================
+
+ALTER TABLE public.watermark_presets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own watermark presets" ON public.watermark_presets;
+CREATE POLICY "Users can view own watermark presets"
+    ON public.watermark_presets
+    FOR SELECT
+    USING (true);
+
+-- Simplified for Telegram context (same as listings)
+DROP POLICY IF EXISTS "Users can insert own watermark presets" ON public.watermark_presets;
+CREATE POLICY "Users can insert own watermark presets"
+    ON public.watermark_presets
+    FOR INSERT
+    WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Users can update own watermark presets" ON public.watermark_presets;
+CREATE POLICY "Users can update own watermark presets"
+    ON public.watermark_presets
+    FOR UPDATE
+    USING (true);
+
+DROP POLICY IF EXISTS "Users can delete own watermark presets" ON public.watermark_presets;
+CREATE POLICY "Users can delete own watermark presets"
+    ON public.watermark_presets
+    FOR DELETE
+    USING (true);
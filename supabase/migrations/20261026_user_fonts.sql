@@ -0,0 +1,76 @@
+-- ===================================
+-- User Fonts (agents' own TTF/WOFF2 for text watermarks)
+-- ===================================
+-- The chosen font is stored in watermark_settings.font (a bundled font id or
+-- a user_fonts id), so presets and the users row carry it like the rest.
+
+CREATE TABLE IF NOT EXISTS public.user_fonts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    telegram_id TEXT NOT NULL REFERENCES public.users(telegram_id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    file_url TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    format TEXT NOT NULL CHECK (format IN ('truetype', 'woff2')),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_fonts_telegram_id
+    ON public.user_fonts(telegram_id);
+
+-- ===================================
+-- Fonts Storage Bucket
+-- ===================================
+
+-- Public: the image worker fetches the files with plain URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'fonts',
+    'fonts',
+    true,
+    2097152, -- 2MB max file size
+    ARRAY['font/ttf', 'font/woff2']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Anyone can view fonts" ON storage.objects;
+CREATE POLICY "Anyone can view fonts"
+    ON storage.objects
+    FOR SELECT
+    USING (bucket_id = 'fonts');
+
+DROP POLICY IF EXISTS "Users can upload fonts" ON storage.objects;
+CREATE POLICY "Users can upload fonts"
+    ON storage.objects
+    FOR INSERT
+    WITH CHECK (bucket_id = 'fonts');
+
+DROP POLICY IF EXISTS "Users can delete fonts" ON storage.objects;
+CREATE POLICY "Users can delete fonts"
+    ON storage.objects
+    FOR DELETE
+    USING (bucket_id = 'fonts');
+
+-- ===================================
+-- RLS
+-- ===================================
+
+ALTER TABLE public.user_fonts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own fonts" ON public.user_fonts;
+CREATE POLICY "Users can view own fonts"
+    ON public.user_fonts
+    FOR SELECT
+    USING (true);
+
+-- Simplified for Telegram context (same as listings)
+DROP POLICY IF EXISTS "Users can insert own fonts" ON public.user_fonts;
+CREATE POLICY "Users can insert own fonts"
+    ON public.user_fonts
+    FOR INSERT
+    WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Users can delete own fonts" ON public.user_fonts;
+CREATE POLICY "Users can delete own fonts"
+    ON public.user_fonts
+    FOR DELETE
+    USING (true);